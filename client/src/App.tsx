@@ -8,11 +8,13 @@ import { TooltipProvider } from '@/components/ui/tooltip';
 import UniversalWizard from '@/components/universal-wizard';
 import { globalErrorHandler } from '@/lib/global-error-handler';
 import AssetLibraryTest from '@/pages/AssetLibraryTest';
+import AccountPage from '@/pages/account';
 import Home from '@/pages/home';
 import LessonPage from '@/pages/lesson';
 import NotFound from '@/pages/not-found';
 import PersistenceTest from '@/pages/PersistenceTest';
 import PygamePreviewTest from '@/pages/pygame-preview-test';
+import TeacherDashboard from '@/pages/teacher-dashboard';
 import { queryClient } from './lib/queryClient';
 
 function Router() {
@@ -50,6 +52,22 @@ function Router() {
           </PageErrorBoundary>
         )}
       />
+      <Route
+        path="/account"
+        component={() => (
+          <PageErrorBoundary context="Account Page">
+            <AccountPage />
+          </PageErrorBoundary>
+        )}
+      />
+      <Route
+        path="/teacher/:classroomId?"
+        component={() => (
+          <PageErrorBoundary context="Teacher Dashboard">
+            <TeacherDashboard />
+          </PageErrorBoundary>
+        )}
+      />
       <Route
         path="/asset-test"
         component={() => (
@@ -0,0 +1,60 @@
+// Component tests for students joining a class with its code
+
+import { QueryClientProvider } from '@tanstack/react-query';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { queryClient } from '@/lib/queryClient';
+import JoinClassroom from '../join-classroom';
+
+const classroom = { id: 'c1', name: 'Year 8 Computing', teacherId: 't1', studentIds: [] };
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+function renderJoin() {
+  render(
+    <QueryClientProvider client={queryClient}>
+      <JoinClassroom />
+    </QueryClientProvider>
+  );
+}
+
+describe('JoinClassroom', () => {
+  let joined: (typeof classroom)[];
+
+  beforeEach(() => {
+    queryClient.clear();
+    joined = [];
+    vi.mocked(fetch).mockReset();
+    vi.mocked(fetch).mockImplementation(async (url, init) => {
+      if (url === '/api/classrooms') return json(joined);
+      const { joinCode } = JSON.parse(String(init?.body));
+      if (joinCode !== 'ABC234') return json({ message: 'No classroom has that code' }, 404);
+      joined = [classroom];
+      return json(classroom);
+    });
+  });
+
+  it('joins a class with its code and lists it', async () => {
+    renderJoin();
+
+    await userEvent.type(screen.getByLabelText('Join a class'), 'abc234');
+    await userEvent.click(screen.getByRole('button', { name: 'Join' }));
+
+    expect(await screen.findByText('Year 8 Computing')).toBeInTheDocument();
+    expect(screen.getByLabelText('Join a class')).toHaveValue('');
+    const join = vi.mocked(fetch).mock.calls.find(([url]) => url === '/api/classrooms/join');
+    expect(JSON.parse(String(join?.[1]?.body))).toEqual({ joinCode: 'ABC234' });
+  });
+
+  it('says when no class has the code', async () => {
+    renderJoin();
+
+    await userEvent.type(screen.getByLabelText('Join a class'), 'nope');
+    await userEvent.click(screen.getByRole('button', { name: 'Join' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('No class has that code');
+    await waitFor(() => expect(screen.queryByText('Year 8 Computing')).not.toBeInTheDocument());
+  });
+});
@@ -0,0 +1,119 @@
+// Component tests for signing in and registering, and claiming what the browser kept
+
+import type { ClaimResult } from '@shared/claim';
+import { QueryClientProvider } from '@tanstack/react-query';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { queryClient } from '@/lib/queryClient';
+import { ANONYMOUS_USER_ID, getClientStorage } from '@/lib/storage-mode';
+import SignInForm from '../sign-in-form';
+
+const user = { id: 'u1', username: 'ada', role: 'student' };
+const claimed: ClaimResult = {
+  progress: [],
+  projectIds: {},
+  profile: null,
+  conflicts: [],
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+/** Answers each request by URL; anything unexpected fails */
+function serve(routes: Record<string, () => Response>) {
+  vi.mocked(fetch).mockImplementation(async (url) => {
+    const route = routes[String(url)];
+    if (!route) throw new Error(`Unexpected request to ${url}`);
+    return route();
+  });
+}
+
+const calledUrls = () => vi.mocked(fetch).mock.calls.map(([url]) => url);
+
+function renderForm() {
+  const onSignedIn = vi.fn();
+  render(
+    <QueryClientProvider client={queryClient}>
+      <SignInForm onSignedIn={onSignedIn} />
+    </QueryClientProvider>
+  );
+  return onSignedIn;
+}
+
+async function fillIn(username: string, password: string) {
+  await userEvent.type(screen.getByLabelText('Username'), username);
+  await userEvent.type(screen.getByLabelText('Password'), password);
+}
+
+describe('SignInForm', () => {
+  beforeEach(() => {
+    vi.mocked(fetch).mockReset();
+    queryClient.clear();
+  });
+
+  it('signs in and claims the progress this browser kept', async () => {
+    await getClientStorage().updateUserProgress(ANONYMOUS_USER_ID, 'lesson-1', { currentStep: 2 });
+    serve({
+      '/api/login': () => json(user),
+      '/api/claim': () => json({ ...claimed, progress: [{ lessonId: 'lesson-1' }] }),
+    });
+    const onSignedIn = renderForm();
+
+    await fillIn('ada', 'correct horse');
+    await userEvent.click(screen.getAllByRole('button', { name: 'Sign in' })[1]);
+
+    await waitFor(() => expect(onSignedIn).toHaveBeenCalled());
+    expect(onSignedIn.mock.calls[0][0]).toEqual({
+      user,
+      claim: { ...claimed, progress: [{ lessonId: 'lesson-1' }] },
+    });
+    expect(calledUrls()).toEqual(['/api/login', '/api/claim']);
+    expect(await getClientStorage().getUserProgress(ANONYMOUS_USER_ID)).toEqual([]);
+    expect(queryClient.getQueryData(['/api/me'])).toEqual(user);
+  });
+
+  it('registers a new account', async () => {
+    serve({ '/api/register': () => json(user, 201) });
+    const onSignedIn = renderForm();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Register' }));
+    await fillIn('ada', 'correct horse');
+    await userEvent.click(screen.getByRole('button', { name: 'Create account' }));
+
+    await waitFor(() => expect(onSignedIn).toHaveBeenCalledWith({ user, claim: null }));
+    expect(JSON.parse(String(vi.mocked(fetch).mock.calls[0][1]?.body))).toEqual({
+      username: 'ada',
+      password: 'correct horse',
+    });
+  });
+
+  it('registers a teacher with the invite code', async () => {
+    serve({ '/api/register': () => json({ ...user, role: 'teacher' }, 201) });
+    const onSignedIn = renderForm();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Register' }));
+    await fillIn('ms-hopper', 'correct horse');
+    await userEvent.type(screen.getByLabelText('Teacher invite code'), 'staff-room');
+    await userEvent.click(screen.getByRole('button', { name: 'Create account' }));
+
+    await waitFor(() => expect(onSignedIn).toHaveBeenCalled());
+    expect(JSON.parse(String(vi.mocked(fetch).mock.calls[0][1]?.body))).toEqual({
+      username: 'ms-hopper',
+      password: 'correct horse',
+      role: 'teacher',
+      inviteCode: 'staff-room',
+    });
+  });
+
+  it("shows the server's reason when signing in fails", async () => {
+    serve({ '/api/login': () => json({ message: 'Wrong username or password' }, 401) });
+    const onSignedIn = renderForm();
+
+    await fillIn('ada', 'battery staple');
+    await userEvent.click(screen.getAllByRole('button', { name: 'Sign in' })[1]);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Wrong username or password');
+    expect(onSignedIn).not.toHaveBeenCalled();
+  });
+});
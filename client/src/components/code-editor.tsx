@@ -1,4 +1,4 @@
-import { CheckCircle2, Keyboard, Play, RotateCcw, Target } from 'lucide-react';
+import { CheckCircle2, Keyboard, Play, RotateCcw, Square, Target } from 'lucide-react';
 import { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -20,6 +20,8 @@ interface CodeEditorProps {
   output: string;
   error: string;
   isExecuting: boolean;
+  /** Cancels the running program; the Stop button only shows when this is provided */
+  onStop?: () => void;
   gradingResult?: {
     passed: boolean;
     feedback: string;
@@ -45,6 +47,7 @@ export default function CodeEditor({
   output,
   error,
   isExecuting,
+  onStop,
   gradingResult,
   currentStep,
 }: CodeEditorProps) {
@@ -206,6 +209,17 @@ export default function CodeEditor({
                 {isExecuting ? 'Checking...' : 'Run & Check'}
               </span>
             </Button>
+            {isExecuting && onStop && (
+              <Button
+                onClick={onStop}
+                variant="destructive"
+                className="min-h-[44px] sm:min-h-[48px] px-3 sm:px-5 text-sm sm:text-base font-medium flex items-center gap-2"
+                data-testid="button-stop-code"
+              >
+                <Square className="h-5 w-5" />
+                <span className="font-semibold">Stop</span>
+              </Button>
+            )}
             <Button
               onClick={resetCode}
               variant="secondary"
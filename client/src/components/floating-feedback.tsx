@@ -4,16 +4,19 @@ import {
   CheckCircle,
   Code,
   Copy,
+  EyeOff,
   Lightbulb,
   Sparkles,
   Trophy,
   X,
+  XCircle,
   Zap,
 } from 'lucide-react';
 import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
+import type { TestOutcome } from '@/lib/grading';
 
 interface FloatingFeedbackProps {
   step: {
@@ -32,9 +35,66 @@ interface FloatingFeedbackProps {
     feedback: string;
     expectedOutput?: string;
     actualOutput?: string;
+    tests?: TestOutcome[];
   } | null;
 }
 
+function TestOutcomeRow({ test }: { test: TestOutcome }) {
+  const label = test.description || `Test ${test.index + 1}`;
+
+  return (
+    <li className="space-y-1" data-testid={`test-outcome-${test.index}`}>
+      <div className="flex items-center gap-2">
+        {test.passed ? (
+          <CheckCircle className="h-4 w-4 text-success flex-shrink-0" />
+        ) : (
+          <XCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+        )}
+        <span className="text-sm text-foreground">{label}</span>
+        {test.hidden && (
+          <span className="ml-auto flex items-center gap-1 text-xs text-muted-foreground">
+            <EyeOff className="h-3 w-3" />
+            Hidden
+          </span>
+        )}
+      </div>
+      {!test.passed && !test.hidden && (
+        <div className="ml-6 space-y-1 font-mono text-xs text-muted-foreground">
+          {test.input && <div>Input: {test.input.split('\n').join(', ')}</div>}
+          {test.errors?.map((error) => (
+            <div key={error}>• {error}</div>
+          ))}
+          {!test.errors && (
+            <>
+              <div>Expected: {test.expectedOutput}</div>
+              <div>Got: {test.actualOutput}</div>
+            </>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+function TestOutcomeList({ result }: { result: FloatingFeedbackProps['gradingResult'] }) {
+  const tests = result?.tests;
+  // A single test is already summarised by the step feedback
+  if (!tests || tests.length < 2) return null;
+
+  return (
+    <div className="space-y-2" data-testid="test-outcomes">
+      <p className="text-sm font-semibold text-foreground">
+        {tests.filter((test) => test.passed).length} of {tests.length} tests passed
+      </p>
+      <ul className="space-y-2">
+        {tests.map((test) => (
+          <TestOutcomeRow key={test.index} test={test} />
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 export default function FloatingFeedback({
   step,
   onNextStep,
@@ -197,6 +257,8 @@ export default function FloatingFeedback({
                 </>
               )}
 
+              <TestOutcomeList result={gradingResult} />
+
               <div className="flex items-center gap-3 pt-3">
                 {showNext && (
                   <motion.div
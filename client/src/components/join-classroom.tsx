@@ -0,0 +1,66 @@
+import type { Classroom } from '@shared/schema';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { GraduationCap } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+// The classes a student is in, and joining another with the code their teacher gave them
+export default function JoinClassroom() {
+  const [joinCode, setJoinCode] = useState('');
+
+  const { data: classrooms = [] } = useQuery<Classroom[]>({ queryKey: ['/api/classrooms'] });
+
+  const join = useMutation({
+    mutationFn: async () =>
+      (await apiRequest('POST', '/api/classrooms/join', { joinCode: joinCode.trim() })).json(),
+    onSuccess: () => {
+      setJoinCode('');
+      queryClient.invalidateQueries({ queryKey: ['/api/classrooms'] });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      {classrooms.length > 0 && (
+        <ul className="space-y-1">
+          {classrooms.map((classroom) => (
+            <li key={classroom.id} className="flex items-center gap-2 text-sm">
+              <GraduationCap className="h-4 w-4 text-gray-500" /> {classroom.name}
+            </li>
+          ))}
+        </ul>
+      )}
+      <form
+        className="space-y-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (joinCode.trim()) join.mutate();
+        }}
+      >
+        <Label htmlFor="join-code">Join a class</Label>
+        <div className="flex gap-2">
+          <Input
+            id="join-code"
+            placeholder="Code from your teacher"
+            autoComplete="off"
+            value={joinCode}
+            onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+          />
+          <Button type="submit" disabled={!joinCode.trim() || join.isPending}>
+            Join
+          </Button>
+        </div>
+        {join.error && (
+          <p role="alert" className="text-sm text-red-600">
+            {join.error.message.includes('404')
+              ? 'No class has that code. Check it with your teacher.'
+              : "Couldn't join that class. Try again."}
+          </p>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import {
   History,
   Rocket,
   Sparkles,
+  UserRound,
   X,
 } from 'lucide-react';
 import { useEffect, useState } from 'react';
@@ -81,6 +82,18 @@ export default function PixelPresence({ onNavigate, currentPath = '/' }: PixelPr
     },
   ];
 
+  // Signing in keeps progress on any computer
+  const accountChoice: Choice = {
+    id: 'account',
+    label: 'My account',
+    icon: UserRound,
+    action: () => {
+      sessionHistory.trackChoice('account', 'My account', '/account');
+      onNavigate('/account');
+      collapsePixel();
+    },
+  };
+
   // Lesson completion choices
   const lessonChoices: Choice[] = [
     {
@@ -107,6 +120,7 @@ export default function PixelPresence({ onNavigate, currentPath = '/' }: PixelPr
         setTimeout(() => onNavigate('/project-builder'), 500);
       },
     },
+    accountChoice,
   ];
 
   // Initialize based on current path
@@ -188,6 +202,7 @@ export default function PixelPresence({ onNavigate, currentPath = '/' }: PixelPr
         collapsePixel();
       },
     },
+    accountChoice,
   ];
 
   // Position and size variants for animations
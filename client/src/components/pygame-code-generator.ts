@@ -459,12 +459,20 @@ function buildCompleteCode(template: CodeTemplate): string {
     '',
     ...template.setup,
     '',
+    '# Handle click for interaction',
+    'def handle_click(x, y):',
+    '    global score',
+    '    # Add click interaction logic here',
+    '    score += 1',
+    '',
     '# Game loop',
     'while running:',
     '    # Handle events',
     '    for event in pygame.event.get():',
     '        if event.type == QUIT:',
     '            running = False',
+    '        elif event.type == MOUSEBUTTONDOWN:',
+    '            handle_click(*event.pos)',
     '',
     ...template.eventHandlers,
     '',
@@ -481,12 +489,6 @@ function buildCompleteCode(template: CodeTemplate): string {
     '    pygame.display.flip()',
     '    clock.tick(60)',
     '',
-    '# Handle click for interaction',
-    'def handle_click(x, y):',
-    '    global score',
-    '    # Add click interaction logic here',
-    '    score += 1',
-    '',
     'pygame.quit()',
   ];
 
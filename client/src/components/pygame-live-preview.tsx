@@ -1,3 +1,4 @@
+import type { ProjectAsset } from '@shared/schema';
 import { AnimatePresence, motion } from 'framer-motion';
 import {
   FlaskConical,
@@ -8,6 +9,7 @@ import {
   Sparkles,
   Split,
   Volume2,
+  VolumeX,
   Zap,
 } from 'lucide-react';
 import { useCallback, useEffect, useRef, useState } from 'react';
@@ -15,16 +17,15 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Slider } from '@/components/ui/slider';
+import { usePythonInput } from '@/hooks/use-python-input';
 import { useToast } from '@/hooks/use-toast';
-import {
-  createPygameEnvironment,
-  flushFrameBuffer,
-  resetPygameState,
-  setCanvasContext,
-} from '@/lib/pygame-simulation';
-import { PythonRunner } from '@/lib/python/runner';
+import { loadUserPreferences, saveUserPreferences } from '@/lib/persistence';
+import { setProjectSounds, setSoundEnabled, stopAllAudio } from '@/lib/pygame-audio';
+import { resetPygameState, setCanvasContext } from '@/lib/pygame-simulation';
+import { getPyodideService } from '@/lib/python/pyodide-service';
 import { cn } from '@/lib/utils';
 import { generatePygameCode } from './pygame-code-generator';
+import PythonOutputPanel from './python-output-panel';
 
 export interface GameChoice {
   type: 'character' | 'enemy' | 'collectible' | 'background' | 'rule' | 'mechanic';
@@ -44,7 +45,8 @@ interface PygameLivePreviewProps {
   onInteraction?: (action: string, details?: any) => void;
   className?: string;
   pixelComments?: string[];
-  pyodide?: any;
+  /** The project's own images, loadable by pygame.image.load alongside the asset library */
+  assets?: ProjectAsset[];
 }
 
 interface PreviewState {
@@ -65,12 +67,12 @@ export default function PygameLivePreview({
   onInteraction,
   className,
   pixelComments = [],
-  pyodide,
+  assets,
 }: PygameLivePreviewProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const comparisonCanvasRef = useRef<HTMLCanvasElement>(null);
-  const animationFrameRef = useRef<number | null>(null);
-  const pythonRunnerRef = useRef<PythonRunner | null>(null);
+  // This preview's game while it runs; Python is shared, so only ever stop our own
+  const runningGameRef = useRef<Promise<unknown> | null>(null);
   const { toast } = useToast();
 
   const [state, setState] = useState<PreviewState>({
@@ -83,34 +85,73 @@ export default function PygameLivePreview({
     lives: 3,
   });
 
+  // What the last game printed, and the learner's answers to its input() calls
+  const [output, setOutput] = useState('');
+  const pythonInput = usePythonInput();
+  const { clearTranscript, handleCancel: cancelInput } = pythonInput;
+
+  const [soundOn, setSoundOn] = useState(() => loadUserPreferences().soundEnabled !== false);
+  const [pythonReady, setPythonReady] = useState(false);
+
   const [gameParams, setGameParams] = useState({
     speed: 5,
     jumpHeight: 10,
     enemySpeed: 3,
   });
 
-  // Initialize Python runner when Pyodide is ready
+  // Python loads in its worker the first time anything needs it
   useEffect(() => {
-    if (pyodide && !pythonRunnerRef.current) {
-      pythonRunnerRef.current = new PythonRunner(pyodide);
-      // Setup pygame environment
-      try {
-        const pygameEnv = createPygameEnvironment();
-        pyodide.globals.set('pygame', pygameEnv);
-        console.log('Pygame environment initialized');
-      } catch (error) {
-        console.error('Failed to setup pygame environment:', error);
-      }
-    }
-  }, [pyodide]);
+    let active = true;
+    getPyodideService()
+      .whenReady()
+      .then(
+        () => active && setPythonReady(true),
+        (error: Error) => active && setState((prev) => ({ ...prev, error: error.message }))
+      );
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  // The game's sounds play on this page, so it needs to find the project's own
+  useEffect(() => {
+    setProjectSounds(assets ?? []);
+  }, [assets]);
+
+  useEffect(() => {
+    setSoundEnabled(soundOn);
+  }, [soundOn]);
+
+  const toggleSound = useCallback(() => {
+    setSoundOn((on) => {
+      saveUserPreferences({ soundEnabled: !on });
+      return !on;
+    });
+  }, []);
+
+  /** Stop this preview's game, if it has one running */
+  const stopGame = useCallback(() => {
+    if (!runningGameRef.current) return;
+    getPyodideService().stop();
+    // A game stopped mid-input() gets no answer, so stop asking for one
+    cancelInput();
+  }, [cancelInput]);
 
   // Generate and execute Python code when choices change
   const executePygameCode = useCallback(
     async (targetCanvas: HTMLCanvasElement, choicesToUse: GameChoice[]) => {
-      if (!pyodide || !pythonRunnerRef.current || !targetCanvas) return;
+      if (!pythonReady || !targetCanvas) return;
+      const python = getPyodideService();
 
       setState((prev) => ({ ...prev, isLoading: true, error: null }));
 
+      // Only one game runs at a time; the last one stops at its next frame
+      stopGame();
+      await runningGameRef.current;
+      setOutput('');
+      clearTranscript();
+
+      let detachInput: (() => void) | null = null;
       try {
         // Get canvas context and set it for pygame bridge
         const ctx = targetCanvas.getContext('2d');
@@ -121,21 +162,28 @@ export default function PygameLivePreview({
         // Generate pygame code from choices
         const code = generatePygameCode(choicesToUse, gameParams);
 
-        // Execute the code
-        const result = await pythonRunnerRef.current.runSnippet({ code });
-
-        if (result.error) {
-          throw new Error(result.error);
-        }
-
-        // Start render loop
-        startRenderLoop(targetCanvas);
+        // Frames arrive from the worker and are drawn as they come
+        detachInput = python.attachInput(targetCanvas);
+        targetCanvas.focus();
 
         setState((prev) => ({
           ...prev,
           isLoading: false,
           isPlaying: true,
         }));
+
+        // The game yields every frame, so this settles only when it ends or is stopped
+        const game = python.runGame({ code, assets });
+        runningGameRef.current = game;
+        const result = await game.finally(() => {
+          if (runningGameRef.current === game) runningGameRef.current = null;
+        });
+
+        setState((prev) => ({ ...prev, isPlaying: false }));
+        setOutput(result.output);
+        if (result.error) {
+          throw new Error(result.error);
+        }
       } catch (error) {
         const errorMessage =
           error instanceof Error ? error.message : 'Failed to execute pygame code';
@@ -152,53 +200,29 @@ export default function PygameLivePreview({
           description: "Don't worry, let's try adjusting your choices!",
           variant: 'default',
         });
+      } finally {
+        detachInput?.();
       }
     },
-    [pyodide, gameParams, toast]
-  );
-
-  // Render loop for canvas animation
-  const startRenderLoop = useCallback(
-    (canvas: HTMLCanvasElement) => {
-      const render = () => {
-        // Flush pygame frame buffer to canvas
-        flushFrameBuffer();
-
-        // Continue animation if playing
-        if (state.isPlaying) {
-          animationFrameRef.current = requestAnimationFrame(render);
-        }
-      };
-
-      // Start the loop
-      animationFrameRef.current = requestAnimationFrame(render);
-    },
-    [state.isPlaying]
+    [pythonReady, gameParams, assets, stopGame, clearTranscript, toast]
   );
 
-  // Stop render loop
-  const stopRenderLoop = useCallback(() => {
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
-    }
-  }, []);
-
   // Handle play/pause
   const togglePlayPause = useCallback(() => {
     if (state.isPlaying) {
-      stopRenderLoop();
+      stopGame();
+      stopAllAudio();
       setState((prev) => ({ ...prev, isPlaying: false }));
     } else {
       if (canvasRef.current) {
         executePygameCode(canvasRef.current, choices);
       }
     }
-  }, [state.isPlaying, choices, executePygameCode, stopRenderLoop]);
+  }, [state.isPlaying, choices, executePygameCode, stopGame]);
 
   // Handle reset
   const handleReset = useCallback(() => {
-    stopRenderLoop();
+    stopGame();
     resetPygameState();
     setState((prev) => ({
       ...prev,
@@ -215,7 +239,7 @@ export default function PygameLivePreview({
         ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
       }
     }
-  }, [stopRenderLoop]);
+  }, [stopGame]);
 
   // Handle canvas interactions
   const handleCanvasClick = useCallback(
@@ -227,42 +251,32 @@ export default function PygameLivePreview({
       const x = event.clientX - rect.left;
       const y = event.clientY - rect.top;
 
-      // Send interaction to pygame
-      if (pyodide) {
-        try {
-          pyodide.runPython(`
-          if 'handle_click' in globals():
-              handle_click(${x}, ${y})
-        `);
-
-          // Track interaction
-          const interaction = `Click at (${Math.round(x)}, ${Math.round(y)})`;
-          setState((prev) => ({
-            ...prev,
-            interactions: [...prev.interactions, interaction].slice(-5),
-          }));
-
-          // Notify parent
-          onInteraction?.('click', { x, y });
-        } catch (error) {
-          console.error('Failed to handle click:', error);
-        }
-      }
+      // The game itself hears the click as a MOUSEBUTTONDOWN event
+
+      // Track interaction
+      const interaction = `Click at (${Math.round(x)}, ${Math.round(y)})`;
+      setState((prev) => ({
+        ...prev,
+        interactions: [...prev.interactions, interaction].slice(-5),
+      }));
+
+      // Notify parent
+      onInteraction?.('click', { x, y });
     },
-    [state.isPlaying, pyodide, onInteraction]
+    [state.isPlaying, onInteraction]
   );
 
   // Auto-play when choices change
   useEffect(() => {
-    if (choices.length > 0 && canvasRef.current && pyodide) {
+    if (choices.length > 0 && canvasRef.current && pythonReady) {
       executePygameCode(canvasRef.current, choices);
     }
-  }, [choices, pyodide]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [choices, pythonReady]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      stopRenderLoop();
+      stopGame();
       setCanvasContext(null);
       resetPygameState();
     };
@@ -307,6 +321,7 @@ export default function PygameLivePreview({
                 width={showComparison ? 320 : 640}
                 height={360}
                 className="w-full h-auto cursor-pointer"
+                tabIndex={0}
                 onClick={handleCanvasClick}
                 data-testid="canvas-main-preview"
               />
@@ -355,7 +370,7 @@ export default function PygameLivePreview({
                 size="sm"
                 variant={state.isPlaying ? 'default' : 'outline'}
                 onClick={togglePlayPause}
-                disabled={!pyodide || state.isLoading}
+                disabled={!pythonReady || state.isLoading}
                 data-testid="button-play-pause-preview"
               >
                 {state.isPlaying ? (
@@ -380,6 +395,16 @@ export default function PygameLivePreview({
                 Reset
               </Button>
 
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={toggleSound}
+                aria-label={soundOn ? 'Mute game sound' : 'Unmute game sound'}
+                data-testid="button-toggle-sound"
+              >
+                {soundOn ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
+              </Button>
+
               {showComparison && (
                 <Button size="sm" variant="outline" data-testid="button-toggle-split">
                   <Split className="h-4 w-4 mr-1" />
@@ -395,6 +420,8 @@ export default function PygameLivePreview({
             </div>
           </div>
 
+          <PythonOutputPanel output={output} input={pythonInput} />
+
           {/* Parameter Controls */}
           <div className="space-y-3">
             <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
@@ -0,0 +1,86 @@
+/**
+ * Python Output Panel - what a Python program printed, and the box where the learner
+ * answers its input() calls while it waits
+ */
+
+import { CornerDownLeft, Terminal } from 'lucide-react';
+import { type FormEvent, useId, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { InputExchange, usePythonInput } from '@/hooks/use-python-input';
+import { cn } from '@/lib/utils';
+
+interface PythonOutputPanelProps {
+  /** Everything the finished program printed; its answers are echoed, so it reads as a transcript */
+  output: string;
+  /** The input bridge the program's input() calls open */
+  input: ReturnType<typeof usePythonInput>;
+  className?: string;
+}
+
+/** How the running program's conversation looks before its output arrives */
+function formatTranscript(transcript: InputExchange[]): string {
+  return transcript.map(({ prompt, answer }) => `${prompt}${answer ?? ''}\n`).join('');
+}
+
+export default function PythonOutputPanel({ output, input, className }: PythonOutputPanelProps) {
+  const [answer, setAnswer] = useState('');
+  const answerId = useId();
+  const text = output || formatTranscript(input.transcript);
+
+  if (!text && !input.isOpen) return null;
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    input.handleSubmit(answer);
+    setAnswer('');
+  };
+
+  return (
+    <div
+      className={cn('rounded-lg bg-slate-900 text-slate-100 p-3 space-y-2', className)}
+      data-testid="python-output-panel"
+    >
+      <div className="flex items-center gap-2 text-xs font-medium text-slate-400">
+        <Terminal className="h-3 w-3" />
+        Output
+      </div>
+
+      {text && (
+        <pre className="whitespace-pre-wrap font-mono text-sm max-h-40 overflow-auto">{text}</pre>
+      )}
+
+      {input.isOpen && (
+        <form onSubmit={submit} className="space-y-1">
+          <Label htmlFor={answerId} className="font-mono text-sm text-yellow-300">
+            {input.prompt || 'Your program is waiting for input'}
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id={answerId}
+              value={answer}
+              onChange={(event) => setAnswer(event.target.value)}
+              autoFocus
+              className="flex-1 font-mono bg-slate-800 border-slate-700 text-slate-100"
+              data-testid="input-python-answer"
+            />
+            <Button type="submit" size="sm" data-testid="button-send-answer">
+              <CornerDownLeft className="h-4 w-4 mr-1" />
+              Send
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={input.handleCancel}
+              data-testid="button-end-input"
+            >
+              End input
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useMutation } from '@tanstack/react-query';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { register, type SignInResult, signIn } from '@/lib/account';
+
+type Mode = 'sign-in' | 'register';
+
+interface SignInFormProps {
+  onSignedIn: (result: SignInResult) => void;
+}
+
+// apiRequest errors read "<status>: <body>"; the server's JSON bodies carry a message
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
+
+// Signing in or registering; either one claims what this browser kept while signed out
+export default function SignInForm({ onSignedIn }: SignInFormProps) {
+  const [mode, setMode] = useState<Mode>('sign-in');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+
+  const submit = useMutation({
+    mutationFn: () =>
+      mode === 'register'
+        ? register(username, password, inviteCode.trim() || undefined)
+        : signIn(username, password),
+    onSuccess: (result) => onSignedIn(result),
+  });
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    submit.reset();
+  };
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit.mutate();
+      }}
+    >
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          type="button"
+          variant={mode === 'sign-in' ? 'default' : 'outline'}
+          onClick={() => switchMode('sign-in')}
+        >
+          Sign in
+        </Button>
+        <Button
+          type="button"
+          variant={mode === 'register' ? 'default' : 'outline'}
+          onClick={() => switchMode('register')}
+        >
+          Register
+        </Button>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="username">Username</Label>
+        <Input
+          id="username"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="password">Password</Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        {mode === 'register' && <p className="text-xs text-gray-500">At least 8 characters.</p>}
+      </div>
+      {mode === 'register' && (
+        <div className="space-y-2">
+          <Label htmlFor="invite-code">Teacher invite code</Label>
+          <Input
+            id="invite-code"
+            autoComplete="off"
+            value={inviteCode}
+            onChange={(e) => setInviteCode(e.target.value)}
+          />
+          <p className="text-xs text-gray-500">
+            Teachers only: ask whoever runs this site for it. Students leave this blank.
+          </p>
+        </div>
+      )}
+      {submit.error && (
+        <p role="alert" className="text-sm text-red-600">
+          {errorMessage(submit.error)}
+        </p>
+      )}
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={!username.trim() || !password || submit.isPending}
+      >
+        {mode === 'register' ? 'Create account' : 'Sign in'}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Strata Game View - the canvas a lesson's Strata game draws into, with pause, single-step
+ * and restart controls. While a game runs, keys pressed anywhere outside a text field are
+ * forwarded to it.
+ */
+
+import { Pause, Play, RotateCcw, StepForward } from 'lucide-react';
+import { type RefObject, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+
+// Keys the browser would otherwise use to scroll the page
+const CAPTURED_KEYS = new Set([' ', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight']);
+
+export type GameStatus = 'idle' | 'running' | 'paused' | 'stopped';
+
+interface StrataGameViewProps {
+  /** Holds the canvas; see replaceGameCanvas */
+  canvasHostRef: RefObject<HTMLDivElement>;
+  /** The view is hidden until a run starts a game, and keeps the last frame once it stops */
+  status: GameStatus;
+  frame: number;
+  onPause: () => void;
+  onResume: () => void;
+  onStep: () => void;
+  onRestart: () => void;
+  onKey: (key: string, down: boolean) => void;
+}
+
+/**
+ * Swap in a fresh canvas for the next run. Once a canvas has been handed to the code
+ * sandbox the page can't draw on it or give it to another run.
+ */
+export function replaceGameCanvas(host: HTMLDivElement): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.className = 'block max-w-full max-h-full mx-auto rounded';
+  canvas.setAttribute('data-testid', 'canvas-strata-game');
+  host.replaceChildren(canvas);
+  return canvas;
+}
+
+export default function StrataGameView({
+  canvasHostRef,
+  status,
+  frame,
+  onPause,
+  onResume,
+  onStep,
+  onRestart,
+  onKey,
+}: StrataGameViewProps) {
+  const playing = status === 'running' || status === 'paused';
+  // Read through a ref so re-rendering the page doesn't let go of held keys
+  const onKeyRef = useRef(onKey);
+  onKeyRef.current = onKey;
+
+  useEffect(() => {
+    if (!playing) return;
+    const heldKeys = new Set<string>();
+
+    const handleKey = (e: KeyboardEvent) => {
+      // Typing in the code editor shouldn't steer the player
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      if (CAPTURED_KEYS.has(e.key)) e.preventDefault();
+      if (e.repeat) return;
+
+      const down = e.type === 'keydown';
+      if (down) {
+        heldKeys.add(e.key);
+      } else {
+        heldKeys.delete(e.key);
+      }
+      onKeyRef.current(e.key, down);
+    };
+
+    // Keys let go while the window was in the background would otherwise stay held forever
+    const releaseKeys = () => {
+      for (const key of heldKeys) onKeyRef.current(key, false);
+      heldKeys.clear();
+    };
+
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('keyup', handleKey);
+    window.addEventListener('blur', releaseKeys);
+    return () => {
+      releaseKeys();
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('keyup', handleKey);
+      window.removeEventListener('blur', releaseKeys);
+    };
+  }, [playing]);
+
+  return (
+    <Card className={`mb-4 p-3 bg-gray-900 ${status === 'idle' ? 'hidden' : ''}`}>
+      <div className="flex items-center gap-2 mb-2">
+        {status === 'paused' ? (
+          <Button size="sm" variant="secondary" onClick={onResume} data-testid="button-game-resume">
+            <Play className="w-4 h-4 mr-1" />
+            Resume
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={onPause}
+            disabled={status !== 'running'}
+            data-testid="button-game-pause"
+          >
+            <Pause className="w-4 h-4 mr-1" />
+            Pause
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={onStep}
+          disabled={status !== 'paused'}
+          data-testid="button-game-step"
+        >
+          <StepForward className="w-4 h-4 mr-1" />
+          Step
+        </Button>
+        <Button size="sm" variant="secondary" onClick={onRestart} data-testid="button-game-restart">
+          <RotateCcw className="w-4 h-4 mr-1" />
+          Restart
+        </Button>
+        <span className="ml-auto text-xs text-gray-400 font-mono">
+          {status === 'stopped' ? 'Stopped' : 'Frame'} {frame}
+        </span>
+      </div>
+      <div ref={canvasHostRef} />
+    </Card>
+  );
+}
@@ -11,11 +11,10 @@ import { DialogueText, getDialogueHelpers, useWizardDialogue } from './wizard-di
 import type { GameChoice as GameChoiceType, WizardOption } from './wizard-types';
 
 interface WizardWithPreviewProps {
-  pyodide?: any;
   className?: string;
 }
 
-export default function WizardWithPreview({ pyodide, className }: WizardWithPreviewProps) {
+export default function WizardWithPreview({ className }: WizardWithPreviewProps) {
   const { toast } = useToast();
   const {
     dialogueState,
@@ -246,7 +245,6 @@ export default function WizardWithPreview({ pyodide, className }: WizardWithPrev
                 alternativeChoice={alternativeChoice}
                 onInteraction={handlePreviewInteraction}
                 pixelComments={pixelComments}
-                pyodide={pyodide}
                 className="h-full"
               />
             </motion.div>
@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getPyodideService } from '@/lib/python/pyodide-service';
+import { useInputBridge } from './use-input-bridge';
+
+/** One input() call: what the program asked, and what the learner said (null if nothing) */
+export interface InputExchange {
+  prompt: string;
+  answer: string | null;
+}
+
+/**
+ * Answer Python's input() calls from this component: each one opens the input bridge with
+ * the program's exact prompt, and the exchanges so far are kept as a transcript.
+ */
+export function usePythonInput() {
+  const bridge = useInputBridge();
+  const { open } = bridge;
+  const [transcript, setTranscript] = useState<InputExchange[]>([]);
+
+  useEffect(
+    () =>
+      getPyodideService().setStdinHandler(async (prompt) => {
+        const answer = await open(prompt);
+        setTranscript((exchanges) => [...exchanges, { prompt, answer }]);
+        return answer;
+      }),
+    [open]
+  );
+
+  const clearTranscript = useCallback(() => setTranscript([]), []);
+
+  return { ...bridge, transcript, clearTranscript };
+}
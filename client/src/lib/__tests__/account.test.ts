@@ -0,0 +1,138 @@
+// Unit tests for signing in and claiming progress kept in the browser
+
+import type { ClaimResult } from '@shared/claim';
+import type { UserProfile } from '@shared/schema';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { claimLocalData, collectLocalData, signIn, signOut } from '../account';
+import { ANONYMOUS_USER_ID, getClientStorage } from '../storage-mode';
+import { getUserProfile, saveUserProfile } from '../user-profile';
+
+const profile: UserProfile = {
+  id: 'user-1',
+  name: 'Ada',
+  firstVisitAt: new Date('2026-01-01'),
+  lastVisitAt: new Date('2026-02-01'),
+  skillLevel: 'beginner',
+  interests: [],
+  preferredGenres: [],
+  completedLessons: [],
+  mascotName: 'Pixel',
+  onboardingComplete: true,
+};
+
+const claimed: ClaimResult = {
+  progress: [],
+  projectIds: {},
+  profile: { ...profile, name: 'Ada (account)' },
+  conflicts: [],
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+/** Answers each request by URL; anything unexpected fails */
+function serve(routes: Record<string, () => Response>) {
+  vi.mocked(fetch).mockImplementation(async (url) => {
+    const route = routes[String(url)];
+    if (!route) throw new Error(`Unexpected request to ${url}`);
+    return route();
+  });
+}
+
+const requestBody = (url: string) => {
+  const call = vi.mocked(fetch).mock.calls.find(([called]) => called === url);
+  return call && JSON.parse(String(call[1]?.body));
+};
+
+async function saveLocalProgress() {
+  const storage = getClientStorage();
+  await storage.updateUserProgress(ANONYMOUS_USER_ID, 'lesson-1', { currentStep: 2, code: 'x' });
+  await storage.createProject({
+    userId: ANONYMOUS_USER_ID,
+    name: 'Pong',
+    template: 'pong',
+    published: false,
+    files: [],
+    assets: [],
+  });
+  saveUserProfile(profile);
+}
+
+describe('claiming local data', () => {
+  beforeEach(() => {
+    vi.mocked(fetch).mockReset();
+  });
+
+  it('has nothing to claim in a fresh browser', async () => {
+    expect(await collectLocalData()).toBeNull();
+    expect(await claimLocalData()).toBeNull();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('sends local progress, projects and profile, then forgets the local copies', async () => {
+    await saveLocalProgress();
+    serve({ '/api/claim': () => json(claimed) });
+
+    const result = await claimLocalData();
+
+    expect(result).toEqual(JSON.parse(JSON.stringify(claimed)));
+    expect(requestBody('/api/claim')).toMatchObject({
+      progress: [{ lessonId: 'lesson-1', currentStep: 2, completed: false, code: 'x' }],
+      projects: [{ name: 'Pong', template: 'pong' }],
+      profile: { name: 'Ada' },
+    });
+    const storage = getClientStorage();
+    expect(await storage.getUserProgress(ANONYMOUS_USER_ID)).toEqual([]);
+    expect(await storage.listProjects(ANONYMOUS_USER_ID)).toEqual([]);
+    expect(getUserProfile()?.name).toBe('Ada (account)');
+  });
+
+  it('keeps local data when the claim fails, and still signs in', async () => {
+    await saveLocalProgress();
+    serve({
+      '/api/login': () => json({ id: 'u1', username: 'ada' }),
+      '/api/claim': () => json({ message: 'Failed to claim local data' }, 500),
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await signIn('ada', 'correct horse');
+
+    expect(result).toEqual({ user: { id: 'u1', username: 'ada' }, claim: null });
+    expect(await getClientStorage().getUserProgress(ANONYMOUS_USER_ID)).toHaveLength(1);
+    expect(getUserProfile()?.name).toBe('Ada');
+  });
+
+  it("never claims one learner's profile into the next learner's account", async () => {
+    saveUserProfile(profile);
+    serve({
+      '/api/login': () => json({ id: 'u1', username: 'ada' }),
+      '/api/claim': () => json(claimed),
+      '/api/logout': () => json({}),
+    });
+    await signIn('ada', 'correct horse');
+    // Still signed in as Ada, there's nothing left to claim
+    expect(getUserProfile()?.name).toBe('Ada (account)');
+    expect(await collectLocalData()).toBeNull();
+
+    // Grace signs in on the same computer without Ada signing out
+    vi.mocked(fetch).mockClear();
+    serve({ '/api/login': () => json({ id: 'u2', username: 'grace' }) });
+    await signIn('grace', 'correct horse');
+    expect(requestBody('/api/claim')).toBeUndefined();
+    expect(getUserProfile()).toBeNull();
+
+    serve({ '/api/logout': () => json({}) });
+    saveUserProfile({ ...profile, name: 'Grace' });
+    await signOut();
+    expect(getUserProfile()).toBeNull();
+  });
+
+  it("gives the wizard the account's profile when the browser has none", async () => {
+    serve({ '/api/login': () => json({ id: 'u1', username: 'ada', profile }) });
+
+    await signIn('ada', 'correct horse');
+
+    expect(getUserProfile()?.name).toBe('Ada');
+    expect(await collectLocalData()).toBeNull();
+  });
+});
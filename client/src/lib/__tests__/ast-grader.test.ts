@@ -0,0 +1,97 @@
+// Unit tests for the syntax-tree based AST grader
+
+import { parseLessons } from '@shared/lesson-schema';
+import { describe, expect, it } from 'vitest';
+import lessonsJson from '../../../../public/api/static/lessons.json';
+import { validateAst } from '../grading/ast';
+
+describe('validateAst', () => {
+  it('passes every lesson solution and fails every starter template', async () => {
+    for (const lesson of parseLessons(lessonsJson, 'lessons.json')) {
+      for (const step of lesson.content.steps) {
+        for (const test of step.tests ?? []) {
+          const solution = await validateAst(step.solution, test.astRules);
+          expect(solution.errors, `${lesson.id}/${step.id} solution`).toEqual([]);
+
+          const starter = await validateAst(step.initialCode, test.astRules);
+          expect(starter.passed, `${lesson.id}/${step.id} starter`).toBe(false);
+        }
+      }
+    }
+  });
+
+  it('ignores constructs that only appear in comments and strings', async () => {
+    const result = await validateAst(
+      `// class Player extends Character {}
+const note = 'for (let i = 0; i < 3; i++) console.log(i)';`,
+      {
+        requiredConstructs: [
+          { type: 'class_declaration' },
+          { type: 'for_statement' },
+          { type: 'function_call', name: 'console.log' },
+        ],
+      }
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.failures.map((f) => f.rule.type)).toEqual([
+      'class_declaration',
+      'for_statement',
+      'function_call',
+    ]);
+  });
+
+  it('enforces minCount and maxCount', async () => {
+    const code = `const a = 1;
+const b = 2;
+const c = 3;`;
+
+    const tooFew = await validateAst(code, {
+      requiredConstructs: [{ type: 'variable_declaration', minCount: 4 }],
+    });
+    expect(tooFew.errors).toEqual([
+      'Missing required variable declaration (found 3, need at least 4)',
+    ]);
+
+    const tooMany = await validateAst(code, {
+      requiredConstructs: [{ type: 'variable_declaration', maxCount: 2 }],
+    });
+    expect(tooMany.failures[0]).toMatchObject({ line: 3, column: 7 });
+  });
+
+  it('reports the location of each forbidden construct', async () => {
+    const result = await validateAst(
+      `let i = 0;
+while (i < 3) {
+  i++;
+}`,
+      { forbiddenConstructs: [{ type: 'loop' }] }
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.errors).toEqual([
+      'Line 2: Not allowed in this step: loop (for, while, or array method)',
+    ]);
+  });
+
+  it('matches names on calls, methods and classes', async () => {
+    const code = `class Player extends Character {
+  attack(): void {}
+}
+const hero = new Player();
+hero.attack();
+console.log(hero);`;
+
+    const result = await validateAst(code, {
+      requiredFunctions: ['console.log'],
+      requiredConstructs: [
+        { type: 'extends_clause', name: 'Character' },
+        { type: 'method_definition', name: 'attack' },
+        { type: 'method_call', name: 'attack' },
+        { type: 'new_expression', name: 'Player' },
+      ],
+    });
+
+    expect(result.errors).toEqual([]);
+  });
+});
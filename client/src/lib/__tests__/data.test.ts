@@ -0,0 +1,47 @@
+// Unit tests for the data layer keeping signed-out progress in the browser
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { collectLocalData } from '../account';
+import { dataService } from '../data';
+import { ANONYMOUS_USER_ID, getClientStorage } from '../storage-mode';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('dataService', () => {
+  beforeEach(() => {
+    vi.mocked(fetch).mockReset();
+  });
+
+  it('uses the server for signed-in learners', async () => {
+    vi.mocked(fetch).mockResolvedValue(json({ lessonId: 'lesson-1', currentStep: 3 }));
+
+    await dataService.updateUserProgress('lesson-1', { currentStep: 3 });
+
+    expect(vi.mocked(fetch).mock.calls[0][0]).toBe('/api/progress/lesson-1');
+    expect(await getClientStorage().getUserProgress(ANONYMOUS_USER_ID)).toEqual([]);
+  });
+
+  it('keeps progress and projects in the browser while signed out, ready to claim', async () => {
+    vi.mocked(fetch).mockImplementation(async () => json({ message: 'Sign in to continue' }, 401));
+
+    await dataService.updateUserProgress('lesson-1', { currentStep: 2, code: 'x' });
+    await dataService.createProject({ name: 'Pong', template: 'pong', files: [], assets: [] });
+
+    expect(await dataService.getUserProgressForLesson('lesson-1')).toMatchObject({
+      currentStep: 2,
+      code: 'x',
+    });
+    expect(await dataService.listProjects()).toEqual([expect.objectContaining({ name: 'Pong' })]);
+    expect(await collectLocalData()).toMatchObject({
+      progress: [{ lessonId: 'lesson-1', currentStep: 2 }],
+      projects: [{ name: 'Pong' }],
+    });
+  });
+
+  it('still reports other failures', async () => {
+    vi.mocked(fetch).mockResolvedValue(json({ message: 'Failed' }, 500));
+
+    await expect(dataService.getUserProgress()).rejects.toThrow(/API request failed/);
+  });
+});
@@ -0,0 +1,175 @@
+// Unit tests for running pygame programs a frame at a time
+
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { loadPyodide } from 'pyodide';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { installPygameModule, resetPygameState } from '../pygame-simulation';
+import { FrameLoop } from '../python/frame-loop';
+import { type PyodideInterface, PythonRunner } from '../python/runner';
+
+describe('FrameLoop', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('resumes the program on the next animation frame', async () => {
+    const frames: FrameRequestCallback[] = [];
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+      frames.push(callback);
+      return frames.length;
+    });
+    const loop = new FrameLoop();
+
+    let stop: boolean | undefined;
+    loop.next().then((value) => {
+      stop = value;
+    });
+    await Promise.resolve();
+    expect(stop).toBeUndefined();
+
+    frames[0](0);
+    await Promise.resolve();
+    expect(stop).toBe(false);
+  });
+
+  it('tells the program to stop once stopped, until the next run begins', async () => {
+    const loop = new FrameLoop();
+    loop.stop();
+
+    expect(await loop.next()).toBe(true);
+    loop.begin();
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => callback(0));
+    expect(await loop.next()).toBe(false);
+  });
+});
+
+describe('PythonRunner.runGame', () => {
+  /** Stands in for Pyodide: a game that runs until its frame loop says stop */
+  function fakePyodide() {
+    const globals = new Map<string, unknown>();
+    const ran: string[] = [];
+    const pyodide: PyodideInterface = {
+      runPython: (code: string) => {
+        ran.push(code);
+        return code.includes('getvalue') ? 'score: 3\n' : undefined;
+      },
+      runPythonAsync: async (code: string) => {
+        ran.push(code);
+        const frames = globals.get('_pixel_frames') as FrameLoop;
+        while (!(await frames.next())) {
+          // one frame of the game
+        }
+      },
+      FS: {} as PyodideInterface['FS'],
+      globals: {
+        get: (name) => globals.get(name),
+        set: (name, value) => {
+          globals.set(name, value);
+        },
+      },
+    };
+    return { pyodide, ran };
+  }
+
+  it('runs the rewritten program until stopGame, then returns its output', async () => {
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) =>
+      setTimeout(() => callback(0), 0)
+    );
+    const { pyodide, ran } = fakePyodide();
+    const runner = new PythonRunner(pyodide);
+
+    const game = runner.runGame({ code: 'while True:\n    clock.tick(60)' });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    runner.stopGame();
+
+    expect(await game).toEqual({ output: 'score: 3\n', error: '' });
+    expect(ran).toContain(
+      `await _pixel_run_game(${JSON.stringify('while True:\n    clock.tick(60)')})`
+    );
+    vi.unstubAllGlobals();
+  });
+
+  it('reports errors the program raises', async () => {
+    const { pyodide } = fakePyodide();
+    pyodide.runPythonAsync = async () => {
+      throw new Error('NameError: name "scree" is not defined');
+    };
+
+    const result = await new PythonRunner(pyodide).runGame({ code: 'scree.fill(0)' });
+
+    expect(result).toEqual({ output: '', error: 'NameError: name "scree" is not defined' });
+  });
+});
+
+describe('frame loop rewriting', () => {
+  let runner: PythonRunner;
+
+  beforeAll(async () => {
+    const indexURL = path.dirname(createRequire(import.meta.url).resolve('pyodide/package.json'));
+    const pyodide = (await loadPyodide({ indexURL })) as unknown as PyodideInterface;
+    installPygameModule(pyodide);
+    runner = new PythonRunner(pyodide);
+  }, 120_000);
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("leaves group and display calls alone when the game's own update() ends the frame", async () => {
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) =>
+      setTimeout(() => callback(0), 0)
+    );
+    resetPygameState();
+
+    const result = await runner.runGame({
+      code: `import sys
+import pygame
+
+pygame.init()
+screen = pygame.display.set_mode((100, 100))
+clock = pygame.time.Clock()
+
+
+class Player(pygame.sprite.Sprite):
+    def __init__(self):
+        super().__init__()
+        self.image = pygame.Surface((10, 10))
+        self.rect = self.image.get_rect()
+
+    def update(self):
+        self.rect.x += 2
+
+
+class Game:
+    def __init__(self):
+        self.player = Player()
+        self.all_sprites = pygame.sprite.Group(self.player)
+        self.frames = 0
+
+    def update(self):
+        self.all_sprites.update()
+        clock.tick(60)
+
+    def draw(self):
+        screen.fill((0, 0, 0))
+        self.all_sprites.draw(screen)
+        pygame.display.update()
+
+    def run(self):
+        while self.frames < 3:
+            self.draw()
+            self.update()
+            self.frames += 1
+        print('player at', self.player.rect.x)
+        pygame.quit()
+        sys.exit()
+
+
+Game().run()
+`,
+    });
+
+    expect(result).toEqual({ output: 'player at 6\n', error: '' });
+  }, 120_000);
+});
@@ -0,0 +1,71 @@
+// Unit tests for streaming display frames from the Pyodide worker to the page
+
+import { describe, expect, it } from 'vitest';
+import type { DrawCommand } from '../pygame-simulation';
+import { FrameDecoder, FrameEncoder } from '../python/frame-stream';
+
+/** A bitmap copy of a fake canvas, labelled so tests can tell copies apart */
+function fakeBitmap(label: string) {
+  return { label, close: () => {} } as unknown as ImageBitmap;
+}
+
+function blit(image: unknown): DrawCommand {
+  return { type: 'blit', args: [image, 0, 0, 8, 8, 10, 10, 8, 8, 1] };
+}
+
+describe('frame stream', () => {
+  function createEncoder() {
+    const copies: string[] = [];
+    const encoder = new FrameEncoder((image) => {
+      const { name } = image as unknown as { name: string };
+      copies.push(name);
+      return fakeBitmap(name);
+    });
+    return { encoder, copies };
+  }
+
+  it('sends an image once while every frame keeps drawing it', () => {
+    const { encoder, copies } = createEncoder();
+    const decoder = new FrameDecoder();
+    const player = { name: 'player' };
+
+    for (let frame = 0; frame < 3; frame++) {
+      const { frame: encoded } = encoder.encode([blit(player)]);
+      const [command] = decoder.decode(encoded);
+      expect((command.args[0] as { label: string }).label).toBe('player');
+    }
+
+    expect(copies).toEqual(['player']);
+  });
+
+  it('sends an image again after a frame that left it out', () => {
+    const { encoder, copies } = createEncoder();
+    const decoder = new FrameDecoder();
+    const coin = { name: 'coin' };
+
+    decoder.decode(encoder.encode([blit(coin)]).frame);
+    decoder.decode(encoder.encode([]).frame);
+    const [command] = decoder.decode(encoder.encode([blit(coin)]).frame);
+
+    expect(copies).toEqual(['coin', 'coin']);
+    expect((command.args[0] as { label: string }).label).toBe('coin');
+  });
+
+  it('finds images inside subsurface draws and leaves other commands as they are', () => {
+    const { encoder } = createEncoder();
+    const decoder = new FrameDecoder();
+    const tile = { name: 'tile' };
+    const commands: DrawCommand[] = [
+      { type: 'fill', args: ['rgb(0, 0, 0)', null] },
+      { type: 'clipped', args: [4, 4, 16, 16, blit(tile)] },
+    ];
+
+    const { frame, transfer } = encoder.encode(commands);
+    expect(frame.commands[1].args[4].args[0]).toEqual({ imageId: 1 });
+    expect(transfer).toHaveLength(1);
+
+    const [fill, clipped] = decoder.decode(frame);
+    expect(fill).toEqual(commands[0]);
+    expect(clipped.args[4].args[0].label).toBe('tile');
+  });
+});
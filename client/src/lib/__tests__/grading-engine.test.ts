@@ -0,0 +1,185 @@
+// Unit tests for per-test execution, hidden tests and game simulations in the grading engine
+
+import type { LessonStep, LessonTest } from '@shared/schema';
+import { describe, expect, it } from 'vitest';
+import { failedRules, gradeCode } from '../grading';
+import { createTypeScriptRunner } from '../typescript-runner';
+
+const doubler = `const value = Number(prompt());
+console.log(value * 2);`;
+
+function stepWith(tests: LessonTest[]): LessonStep {
+  return {
+    id: 'step-1',
+    title: 'Double it',
+    description: 'Print twice the number you read',
+    initialCode: '',
+    solution: doubler,
+    hints: [],
+    tests,
+  };
+}
+
+describe('gradeCode per-test execution', () => {
+  it('runs every test with its own stdin', async () => {
+    const result = await gradeCode({
+      code: doubler,
+      step: stepWith([
+        { input: '2', expectedOutput: '4' },
+        { input: '10', expectedOutput: '20' },
+      ]),
+      runner: createTypeScriptRunner(),
+    });
+
+    expect(result.passed).toBe(true);
+    expect(result.details?.tests?.map((test) => test.actualOutput)).toEqual(['4', '20']);
+  });
+
+  it('catches code that only works for the example input', async () => {
+    const result = await gradeCode({
+      code: 'prompt();\nconsole.log(4);',
+      step: stepWith([
+        { input: '2', expectedOutput: '4', description: 'Doubles 2' },
+        { input: '7', expectedOutput: '14', description: 'Doubles 7' },
+      ]),
+      runner: createTypeScriptRunner(),
+    });
+
+    expect(result.passed).toBe(false);
+    expect(result.details?.tests).toEqual([
+      expect.objectContaining({ index: 0, passed: true, description: 'Doubles 2' }),
+      expect.objectContaining({ index: 1, passed: false, input: '7', actualOutput: '4' }),
+    ]);
+    expect(result.feedback).toBe('❌ Test failed. Expected: "14" but got: "4"');
+  });
+
+  it('never reveals the cases behind hidden tests', async () => {
+    const result = await gradeCode({
+      code: 'const n = Number(prompt());\nconsole.log(n === 2 ? 4 : 0);',
+      step: stepWith([
+        { input: '2', expectedOutput: '4' },
+        { input: '123', expectedOutput: '246', hidden: true },
+      ]),
+      runner: createTypeScriptRunner(),
+    });
+
+    expect(result.passed).toBe(false);
+    expect(result.details?.tests?.[1]).toEqual({ index: 1, hidden: true, passed: false });
+    expect(result.feedback).toContain('hidden test');
+    expect(JSON.stringify(result)).not.toContain('246');
+  });
+
+  it('applies runtime rules to each run', async () => {
+    const result = await gradeCode({
+      code: "const name = prompt();\nconsole.log('Hi ' + name);",
+      step: stepWith([
+        {
+          mode: 'rules',
+          input: 'Ada',
+          expectedOutput: 'Greets the player',
+          runtimeRules: { acceptsUserInput: true, outputIncludesInput: true },
+        },
+        {
+          mode: 'rules',
+          input: 'Grace',
+          expectedOutput: 'Greets the player',
+          runtimeRules: { outputIncludesInput: true },
+        },
+      ]),
+      runner: createTypeScriptRunner(),
+    });
+
+    expect(result.passed).toBe(true);
+  });
+
+  it('simulates games and checks where the sprites ended up', async () => {
+    const mover = `const game = new Game({ width: 800, height: 600 });
+const player = new Sprite({ x: 400, y: 300 });
+game.onUpdate(() => {
+  if (game.isKeyDown('ArrowRight')) player.x += 5;
+});
+game.start();`;
+    const walkRight = (frames: number, min: number): LessonTest => ({
+      mode: 'rules',
+      expectedOutput: 'The player walks right',
+      runtimeRules: { stateChecks: [{ path: 'player.x', min }] },
+      simulation: { frames: 60, inputs: [{ key: 'ArrowRight', frame: 0, hold: frames }] },
+    });
+
+    const result = await gradeCode({
+      code: mover,
+      step: stepWith([walkRight(30, 550), walkRight(10, 600)]),
+      runner: createTypeScriptRunner(),
+    });
+
+    expect(result.details?.tests?.map((test) => test.passed)).toEqual([true, false]);
+    expect(result.errors).toEqual(['player.x should be at least 600, but it was 450']);
+  });
+});
+
+describe('failedRules', () => {
+  const runner = createTypeScriptRunner();
+
+  it('names nothing when the code passed', async () => {
+    const result = await gradeCode({
+      code: doubler,
+      step: stepWith([{ input: '2', expectedOutput: '4' }]),
+      runner,
+    });
+
+    expect(failedRules(result)).toEqual([]);
+  });
+
+  it('names the AST and runtime rules that failed, once each', async () => {
+    const rules: LessonTest = {
+      mode: 'rules',
+      input: 'Ada',
+      expectedOutput: 'Greets the player',
+      astRules: { requiredFunctions: ['greet'] },
+      runtimeRules: { outputIncludesInput: true },
+    };
+    const result = await gradeCode({
+      code: "prompt();\nconsole.log('Hi');",
+      step: stepWith([rules, { ...rules, input: 'Grace' }]),
+      runner,
+    });
+
+    expect(failedRules(result)).toEqual([
+      'ast:function_call greet',
+      ...(result.details?.runtimeResult?.errors ?? []).map((error) => `runtime:${error}`),
+    ]);
+    expect(failedRules(result)).toHaveLength(2);
+  });
+
+  it('falls back to the tests whose output was wrong', async () => {
+    const result = await gradeCode({
+      code: 'prompt();\nconsole.log(4);',
+      step: stepWith([
+        { input: '2', expectedOutput: '4' },
+        { input: '7', expectedOutput: '14' },
+      ]),
+      runner,
+    });
+
+    expect(failedRules(result)).toEqual(['test 2']);
+  });
+
+  it("names code that didn't compile or threw", async () => {
+    const step = stepWith([{ input: '', expectedOutput: 'Hi' }]);
+
+    const compileError = await gradeCode({ code: 'let x = ;', step, runner });
+    const runtimeError = await gradeCode({ code: "throw new Error('boom');", step, runner });
+
+    expect(failedRules(compileError)).toEqual(['compile_error']);
+    expect(failedRules(runtimeError)).toEqual(['runtime_error']);
+  });
+
+  it('names type errors and grading failures', () => {
+    const typeCheckResult = { passed: false, errors: ['nope'], diagnostics: [] };
+
+    expect(failedRules({ passed: false, feedback: '', details: { typeCheckResult } })).toEqual([
+      'type-check',
+    ]);
+    expect(failedRules({ passed: false, feedback: 'Grading failed: boom' })).toEqual(['error']);
+  });
+});
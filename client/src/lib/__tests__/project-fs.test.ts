@@ -0,0 +1,148 @@
+// Unit tests for mounting projects in Pyodide's virtual filesystem
+
+import type { ProjectAsset } from '@shared/schema';
+import { describe, expect, it } from 'vitest';
+import {
+  decodeDataUrl,
+  encodeDataUrl,
+  mountProject,
+  PROJECT_DIR,
+  type PyodideFS,
+  readProject,
+} from '../python/project-fs';
+
+const DIR_MODE = 0o040000;
+const FILE_MODE = 0o100000;
+
+/** Emscripten's FS in miniature: paths to bytes, plus the directories that exist */
+class MemoryFS implements PyodideFS {
+  readonly files = new Map<string, Uint8Array>();
+  readonly dirs = new Set(['/']);
+
+  mkdirTree(path: string) {
+    const parts = path.split('/').filter(Boolean);
+    for (let i = 1; i <= parts.length; i++) this.dirs.add(`/${parts.slice(0, i).join('/')}`);
+  }
+  writeFile(path: string, data: string | Uint8Array) {
+    this.files.set(path, typeof data === 'string' ? new TextEncoder().encode(data) : data);
+  }
+  readFile(path: string) {
+    const data = this.files.get(path);
+    if (!data) throw new Error(`ENOENT ${path}`);
+    return data;
+  }
+  readdir(path: string) {
+    const names = new Set<string>();
+    for (const entry of [...this.files.keys(), ...this.dirs]) {
+      if (entry.startsWith(`${path}/`)) names.add(entry.slice(path.length + 1).split('/')[0]);
+    }
+    return ['.', '..', ...names];
+  }
+  stat(path: string) {
+    return { mode: this.dirs.has(path) ? DIR_MODE : FILE_MODE };
+  }
+  isDir(mode: number) {
+    return mode === DIR_MODE;
+  }
+  unlink(path: string) {
+    this.files.delete(path);
+  }
+  rmdir(path: string) {
+    this.dirs.delete(path);
+  }
+  analyzePath(path: string) {
+    return { exists: this.dirs.has(path) || this.files.has(path) };
+  }
+  text(path: string) {
+    return new TextDecoder().decode(this.readFile(`${PROJECT_DIR}/${path}`));
+  }
+}
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0xff]);
+
+const sprite: ProjectAsset = {
+  id: 'asset-1',
+  name: 'player.png',
+  type: 'image',
+  path: 'images/player.png',
+  dataUrl: encodeDataUrl(PNG_BYTES, 'image/png'),
+};
+
+describe('project filesystem', () => {
+  it('writes file contents exactly, triple quotes and backslashes included', () => {
+    const fs = new MemoryFS();
+    const tricky = 'DOC = """He said "hi" \\n"""\nprint(DOC)\n';
+
+    mountProject(fs, {
+      files: [
+        { path: 'main.py', content: tricky },
+        { path: 'game/helpers.py', content: 'def add(a, b):\n    return a + b\n' },
+      ],
+      assets: [],
+    });
+
+    expect(fs.text('main.py')).toBe(tricky);
+    expect(fs.text('game/helpers.py')).toContain('def add');
+  });
+
+  it('writes assets as the bytes their data URLs hold', () => {
+    const fs = new MemoryFS();
+    mountProject(fs, { files: [], assets: [sprite] });
+
+    expect(fs.readFile(`${PROJECT_DIR}/images/player.png`)).toEqual(PNG_BYTES);
+    expect(decodeDataUrl('data:text/plain,caf%C3%A9')).toEqual(new TextEncoder().encode('café'));
+  });
+
+  it('refuses paths outside the project', () => {
+    const fs = new MemoryFS();
+
+    expect(() =>
+      mountProject(fs, { files: [{ path: '../etc/passwd', content: '' }], assets: [] })
+    ).toThrow(/isn't a file inside the project/);
+  });
+
+  it('clears the last project out before mounting the next', () => {
+    const fs = new MemoryFS();
+    mountProject(fs, { files: [{ path: 'old.py', content: '' }], assets: [] });
+    mountProject(fs, { files: [{ path: 'new.py', content: '' }], assets: [] });
+
+    expect(fs.analyzePath(`${PROJECT_DIR}/old.py`).exists).toBe(false);
+    expect(fs.analyzePath(`${PROJECT_DIR}/new.py`).exists).toBe(true);
+  });
+
+  it('reads back what the program wrote, changed and deleted', () => {
+    const fs = new MemoryFS();
+    const main = { path: 'main.py', content: 'import helpers\n' };
+    const mounted = mountProject(fs, {
+      files: [main, { path: 'scores.txt', content: '1\n' }, { path: 'helpers.py', content: '' }],
+      assets: [sprite],
+    });
+
+    // What a run might do: append a score, save a screenshot, remove a module
+    fs.writeFile(`${PROJECT_DIR}/scores.txt`, '1\n2\n');
+    fs.writeFile(`${PROJECT_DIR}/shot.png`, PNG_BYTES);
+    fs.writeFile(`${PROJECT_DIR}/notes/log.txt`, 'played');
+    fs.mkdirTree(`${PROJECT_DIR}/notes`);
+    fs.unlink(`${PROJECT_DIR}/helpers.py`);
+    fs.mkdirTree(`${PROJECT_DIR}/__pycache__`);
+    fs.writeFile(`${PROJECT_DIR}/__pycache__/helpers.pyc`, new Uint8Array([0]));
+
+    const after = readProject(fs, mounted);
+
+    expect(after.files).toEqual([
+      main,
+      { path: 'notes/log.txt', content: 'played' },
+      { path: 'scores.txt', content: '1\n2\n' },
+    ]);
+    expect(after.files[0]).toBe(main);
+    expect(after.assets).toEqual([
+      sprite,
+      expect.objectContaining({
+        name: 'shot.png',
+        type: 'image',
+        path: 'shot.png',
+        dataUrl: sprite.dataUrl,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+// Unit tests for relaying pygame.mixer calls from the Pyodide worker to the page
+
+import { describe, expect, it } from 'vitest';
+import { stopAllAudio } from '../pygame-audio';
+import { type AudioCall, AudioRelayHost, createMixerRelay } from '../pygame-audio-relay';
+
+/** A worker-side mixer wired straight to a page-side host, as the worker messages would */
+function connect() {
+  const calls: AudioCall[] = [];
+  const host = new AudioRelayHost();
+  const relay = createMixerRelay((call) => {
+    calls.push(call);
+    host.apply(call);
+  });
+  return { mixer: relay.mixer, calls };
+}
+
+describe('mixer relay', () => {
+  it('names sounds and channels by handle on both sides', () => {
+    const { mixer, calls } = connect();
+
+    const jump = new mixer.Sound('assets/audio/jump.ogg');
+    const channel = jump.play(-1);
+    mixer.Channel(2).play(jump);
+
+    expect(calls).toEqual([
+      { target: 'mixer', method: 'Sound', args: ['assets/audio/jump.ogg'], result: jump.handle },
+      { target: jump.handle, method: 'play', args: [-1], result: channel.handle },
+      { target: 'mixer', method: 'Channel', args: [2], result: 'channel:3' },
+      { target: 'channel:3', method: 'play', args: [{ audioHandle: jump.handle }] },
+    ]);
+    stopAllAudio();
+  });
+
+  it('answers questions from what the page last reported', () => {
+    const relay = createMixerRelay(() => {});
+    const channel = new relay.mixer.Sound('assets/audio/hum.ogg').play(-1);
+    expect(channel.get_busy()).toBe(false);
+
+    relay.receiveState({
+      busy: true,
+      music: { busy: true, pos: 1500 },
+      handles: { [channel.handle]: { busy: true } },
+    });
+    expect(channel.get_busy()).toBe(true);
+    expect(relay.mixer.get_busy()).toBe(true);
+    expect(relay.mixer.music.get_pos()).toBe(1500);
+  });
+
+  it('fails in the worker, on the calling line, for missing files', () => {
+    const { mixer, calls } = connect();
+
+    expect(() => new mixer.Sound('coin.ogg')).toThrow(/FileNotFoundError/);
+    expect(() => mixer.music.play()).toThrow(/music not loaded/);
+    expect(calls).toEqual([]);
+  });
+
+  it('keeps volumes on the worker side too', () => {
+    const { mixer } = connect();
+    const sound = new mixer.Sound('assets/audio/coin.ogg');
+
+    sound.set_volume(0.25);
+    mixer.music.set_volume(2);
+
+    expect(sound.get_volume()).toBe(0.25);
+    expect(mixer.music.get_volume()).toBe(1);
+  });
+});
@@ -0,0 +1,293 @@
+// Unit tests for the WebAudio-backed pygame.mixer
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type AudioModule = typeof import('../pygame-audio');
+
+const SOUND_SECONDS = 2;
+
+class FakeParam {
+  value = 1;
+  ramps: { value: number; time: number }[] = [];
+  cancelScheduledValues() {}
+  setValueAtTime(value: number) {
+    this.value = value;
+  }
+  linearRampToValueAtTime(value: number, time: number) {
+    this.ramps.push({ value, time });
+    this.value = value;
+  }
+}
+
+class FakeGain {
+  readonly gain = new FakeParam();
+  output: unknown = null;
+  constructor(readonly context: FakeAudioContext) {}
+  connect(destination: unknown) {
+    this.output = destination;
+  }
+  disconnect() {
+    this.output = null;
+  }
+}
+
+class FakeSource {
+  buffer: { duration: number } | null = null;
+  loop = false;
+  output: FakeGain | null = null;
+  onended: (() => void) | null = null;
+  startOffset: number | null = null;
+  stopTime: number | null = null;
+  constructor(readonly context: FakeAudioContext) {}
+  connect(gain: FakeGain) {
+    this.output = gain;
+  }
+  start(_when: number, offset: number) {
+    this.startOffset = offset;
+  }
+  stop(time = this.context.currentTime) {
+    this.stopTime = time;
+  }
+  /** Let the source run out, as the browser would at its stop time */
+  end() {
+    this.onended?.();
+  }
+}
+
+class FakeAudioContext {
+  static last: FakeAudioContext;
+  currentTime = 0;
+  state = 'running';
+  readonly destination = { name: 'speakers' };
+  readonly sources: FakeSource[] = [];
+
+  constructor() {
+    FakeAudioContext.last = this;
+  }
+  createGain() {
+    return new FakeGain(this);
+  }
+  createBufferSource() {
+    const source = new FakeSource(this);
+    this.sources.push(source);
+    return source;
+  }
+  async decodeAudioData() {
+    return { duration: SOUND_SECONDS };
+  }
+}
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/** The gain a source plays through, and the volume that reaches the speakers */
+function volumeOf(source: FakeSource): number {
+  const channelGain = source.output as FakeGain;
+  const master = channelGain.output as FakeGain;
+  return channelGain.gain.value * master.gain.value;
+}
+
+describe('pygame.mixer', () => {
+  let audio: AudioModule;
+  let mixer: AudioModule['pygameMixer'];
+
+  beforeEach(async () => {
+    vi.resetModules();
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) =>
+        url.startsWith('/assets/') || url.startsWith('data:')
+          ? { ok: true, arrayBuffer: async () => new ArrayBuffer(8) }
+          : { ok: false, status: 404, statusText: 'Not Found' }
+      )
+    );
+    audio = await import('../pygame-audio');
+    mixer = audio.pygameMixer;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('Sound and Channel', () => {
+    it('plays a sound on a free channel once it has loaded', async () => {
+      const coin = new mixer.Sound('assets/audio/coin.ogg');
+      const channel = coin.play();
+      await settle();
+
+      const [source] = FakeAudioContext.last.sources;
+      expect(channel?.id).toBe(0);
+      expect(channel?.get_busy()).toBe(true);
+      expect(channel?.get_sound()).toBe(coin);
+      expect(coin.get_length()).toBe(SOUND_SECONDS);
+      expect(source).toMatchObject({ loop: false, startOffset: 0, stopTime: SOUND_SECONDS });
+      expect(volumeOf(source)).toBe(1);
+
+      source.end();
+      expect(channel?.get_busy()).toBe(false);
+    });
+
+    it('repeats a sound `loops` extra times, or for ever', async () => {
+      const sound = new mixer.Sound('assets/audio/hum.ogg');
+      sound.play(2);
+      sound.play({ loops: 1 });
+      sound.play(-1);
+      await settle();
+
+      const [twice, once, forever] = FakeAudioContext.last.sources;
+      expect(twice).toMatchObject({ loop: true, stopTime: 3 * SOUND_SECONDS });
+      expect(once).toMatchObject({ loop: true, stopTime: 2 * SOUND_SECONDS });
+      expect(forever).toMatchObject({ loop: true, stopTime: null });
+      expect(sound.get_num_channels()).toBe(3);
+    });
+
+    it('returns None when every channel is busy unless forced', () => {
+      mixer.set_num_channels(2);
+      const sound = new mixer.Sound('assets/audio/hit.ogg');
+
+      expect(sound.play()?.id).toBe(0);
+      expect(sound.play()?.id).toBe(1);
+      expect(sound.play()).toBeNull();
+      expect(mixer.find_channel()).toBeNull();
+      expect(mixer.find_channel(true)?.id).toBe(0);
+    });
+
+    it('plays at the channel volume times the sound volume', async () => {
+      const sound = new mixer.Sound('assets/audio/jump.ogg');
+      sound.set_volume(0.5);
+      const channel = mixer.Channel(3);
+      channel.set_volume(0.8);
+      channel.play(sound);
+      await settle();
+
+      const [source] = FakeAudioContext.last.sources;
+      expect(volumeOf(source)).toBeCloseTo(0.4);
+
+      sound.set_volume(1);
+      expect(volumeOf(source)).toBeCloseTo(0.8);
+    });
+
+    it('fades in and fades out', async () => {
+      const sound = new mixer.Sound('assets/audio/wind.ogg');
+      const channel = sound.play(-1, 0, 500);
+      await settle();
+
+      const [source] = FakeAudioContext.last.sources;
+      const gain = source.output as FakeGain;
+      expect(gain.gain.ramps).toEqual([{ value: 1, time: 0.5 }]);
+
+      FakeAudioContext.last.currentTime = 3;
+      channel?.fadeout(1000);
+      expect(gain.gain.ramps.at(-1)).toEqual({ value: 0, time: 4 });
+      expect(source.stopTime).toBe(4);
+
+      source.end();
+      expect(channel?.get_busy()).toBe(false);
+    });
+
+    it('pauses and resumes channels from where they were', async () => {
+      new mixer.Sound('assets/audio/loop.ogg').play(-1);
+      await settle();
+
+      FakeAudioContext.last.currentTime = 1.5;
+      mixer.pause();
+      mixer.unpause();
+
+      const [first, resumed] = FakeAudioContext.last.sources;
+      expect(first.stopTime).toBe(1.5);
+      expect(resumed.startOffset).toBe(1.5);
+    });
+
+    it('raises FileNotFoundError for sounds that do not exist', () => {
+      expect(() => new mixer.Sound('coin.ogg')).toThrow(/FileNotFoundError/);
+      expect(() => mixer.music.load('theme.ogg')).toThrow(/FileNotFoundError/);
+    });
+
+    it('finds project sounds by name', async () => {
+      audio.setProjectSounds([
+        {
+          id: 's1',
+          name: 'laser.wav',
+          type: 'sound',
+          path: 'sounds/laser.wav',
+          dataUrl: 'data:audio/wav;base64,AAAA',
+        },
+      ]);
+      new mixer.Sound('laser.wav').play();
+      await settle();
+
+      expect(fetch).toHaveBeenCalledWith('data:audio/wav;base64,AAAA');
+      expect(FakeAudioContext.last.sources).toHaveLength(1);
+    });
+  });
+
+  describe('music', () => {
+    it('must be loaded before it plays', () => {
+      expect(() => mixer.music.play()).toThrow(/music not loaded/);
+    });
+
+    it('plays, pauses and resumes the loaded track', async () => {
+      mixer.music.load('assets/audio/theme.ogg');
+      mixer.music.set_volume(0.25);
+      mixer.music.play(-1);
+      expect(mixer.music.get_busy()).toBe(true);
+      await settle();
+
+      const context = FakeAudioContext.last;
+      const [track] = context.sources;
+      expect(volumeOf(track)).toBe(0.25);
+
+      context.currentTime = 1.25;
+      expect(mixer.music.get_pos()).toBe(1250);
+      mixer.music.pause();
+      expect(mixer.music.get_busy()).toBe(false);
+      expect(track.stopTime).toBe(1.25);
+
+      mixer.music.unpause();
+      expect(context.sources[1].startOffset).toBe(1.25);
+
+      mixer.music.stop();
+      expect(mixer.music.get_busy()).toBe(false);
+      expect(mixer.music.get_pos()).toBe(-1);
+    });
+
+    it('fades out and then stops', async () => {
+      mixer.music.load('assets/audio/theme.ogg');
+      mixer.music.play();
+      await settle();
+
+      const [track] = FakeAudioContext.last.sources;
+      mixer.music.fadeout(2000);
+      expect(track.stopTime).toBe(2);
+      track.end();
+      expect(mixer.music.get_busy()).toBe(false);
+    });
+  });
+
+  describe('sound switch', () => {
+    it('mutes everything through the master gain', async () => {
+      audio.setSoundEnabled(false);
+      new mixer.Sound('assets/audio/coin.ogg').play();
+      await settle();
+
+      const [source] = FakeAudioContext.last.sources;
+      expect(volumeOf(source)).toBe(0);
+
+      audio.setSoundEnabled(true);
+      expect(volumeOf(source)).toBe(1);
+    });
+
+    it('stops every channel and the music', async () => {
+      const channel = new mixer.Sound('assets/audio/coin.ogg').play(-1);
+      mixer.music.load('assets/audio/theme.ogg');
+      mixer.music.play(-1);
+      await settle();
+
+      audio.stopAllAudio();
+
+      expect(channel?.get_busy()).toBe(false);
+      expect(mixer.music.get_busy()).toBe(false);
+      expect(FakeAudioContext.last.sources.map((source) => source.stopTime)).toEqual([0, 0]);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+// Unit tests for fonts, text metrics and text surfaces in the pygame shim
+
+import type { ProjectAsset } from '@shared/schema';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  findFontPaths,
+  fontFileFamily,
+  fontPixelSize,
+  preloadFonts,
+  setProjectFonts,
+  systemFontFamily,
+} from '../pygame-fonts';
+import { createPygameEnvironment, resetPygameState } from '../pygame-simulation';
+
+const ASCENT = 12;
+const DESCENT = 4;
+const CHAR_WIDTH = 10;
+
+/** A canvas whose text is CHAR_WIDTH pixels a character and ASCENT + DESCENT tall */
+class MeasuringCanvas {
+  static texts: Array<{ text: string; y: number; font: string }> = [];
+  private readonly context = {
+    canvas: this,
+    font: '',
+    fillStyle: '',
+    textBaseline: '',
+    measureText: (text: string) => ({
+      width: text.length * CHAR_WIDTH,
+      fontBoundingBoxAscent: ASCENT,
+      fontBoundingBoxDescent: DESCENT,
+    }),
+    fillText: (text: string, _x: number, y: number) => {
+      MeasuringCanvas.texts.push({ text, y, font: this.context.font });
+    },
+    beginPath() {},
+    rect() {},
+    fill() {},
+    clearRect() {},
+    fillRect() {},
+    drawImage() {},
+    getImageData: (_x: number, _y: number, w: number, h: number) => ({
+      data: new Uint8ClampedArray(w * h * 4),
+    }),
+    putImageData() {},
+  };
+
+  constructor(
+    public width: number,
+    public height: number
+  ) {}
+
+  getContext() {
+    return this.context;
+  }
+}
+
+class FakeFontFace {
+  constructor(
+    readonly family: string,
+    readonly source: string
+  ) {}
+  load() {
+    return Promise.resolve(this);
+  }
+}
+
+const scoreFont: ProjectAsset = {
+  id: 'font-1',
+  name: 'score.ttf',
+  type: 'other',
+  path: 'fonts/score.ttf',
+  dataUrl: 'data:font/ttf;base64,AAEAAA==',
+};
+
+describe('pygame fonts', () => {
+  beforeEach(() => {
+    vi.stubGlobal('OffscreenCanvas', MeasuringCanvas);
+    vi.stubGlobal('FontFace', FakeFontFace);
+    vi.stubGlobal('fonts', { add: vi.fn() });
+    MeasuringCanvas.texts = [];
+  });
+
+  afterEach(() => {
+    resetPygameState();
+    setProjectFonts([]);
+    vi.unstubAllGlobals();
+  });
+
+  it('finds the font files a program names, leaving out the default font', () => {
+    const code = `
+title = pygame.font.Font('fonts/score.ttf', 32)
+body = pygame.font.Font("freesansbold.ttf", 16)
+`;
+    expect(findFontPaths(code)).toEqual(['fonts/score.ttf']);
+  });
+
+  it('loads project font files and refuses ones that are missing', async () => {
+    setProjectFonts([scoreFont]);
+    await preloadFonts(['fonts/score.ttf']);
+
+    expect(fontFileFamily('fonts/score.ttf')).toMatch(/^pygame-font-\d+$/);
+    expect(fontFileFamily(null)).toBe('pygame-sans');
+    expect(() => fontFileFamily('fonts/missing.ttf')).toThrow(/FileNotFoundError/);
+  });
+
+  it('matches SysFont names to bundled fonts, then to the browser’s own', () => {
+    expect(systemFontFamily('Comic Sans MS, Arial')).toBe('pygame-sans');
+    expect(systemFontFamily('pixel')).toBe('pygame-pixel');
+    expect(systemFontFamily('Comic Sans MS')).toBe('"Comic Sans MS", pygame-sans');
+    expect(systemFontFamily(null)).toBe('pygame-sans');
+  });
+
+  it('shrinks the default font as pygame does', () => {
+    expect(fontPixelSize(null, 32)).toBe(22);
+    expect(fontPixelSize('fonts/score.ttf', 32)).toBe(32);
+  });
+
+  it('sizes text surfaces from measured text', () => {
+    const pygame = createPygameEnvironment();
+    const font = new pygame.font.Font(null, 32);
+
+    const surface = font.render('Score', true, [255, 255, 255]);
+
+    expect(font.size('Score')).toEqual([5 * CHAR_WIDTH, ASCENT + DESCENT]);
+    expect(surface.get_size()).toEqual(font.size('Score'));
+    expect([font.get_ascent(), font.get_descent()]).toEqual([ASCENT, -DESCENT]);
+    expect(font.get_linesize()).toBeGreaterThanOrEqual(font.get_height());
+    // Drawn on its baseline, so the ascent is above it
+    expect(MeasuringCanvas.texts).toEqual([
+      { text: 'Score', y: ASCENT, font: '22px pygame-sans, sans-serif' },
+    ]);
+  });
+
+  it('draws SysFont styles into the CSS font', () => {
+    const pygame = createPygameEnvironment();
+    const font = pygame.font.SysFont('pixel', 20, true, true);
+
+    font.render('Hi', false, [0, 0, 0]);
+
+    expect(font.get_bold()).toBe(true);
+    expect(MeasuringCanvas.texts[0].font).toBe('italic bold 20px pygame-pixel, sans-serif');
+  });
+
+  it('renders freetype text with keyword arguments, to a new surface or onto one', () => {
+    const pygame = createPygameEnvironment();
+    const font = new pygame.freetype.Font(null, 24);
+    const screen = new pygame.Surface([200, 100]);
+
+    const [surface, rect] = font.render('Lives', [255, 0, 0], { size: 30 });
+    expect(surface.get_size()).toEqual([5 * CHAR_WIDTH, ASCENT + DESCENT]);
+    expect(rect).toMatchObject({ x: 0, y: 0, width: 5 * CHAR_WIDTH });
+    expect(MeasuringCanvas.texts.at(-1)?.font).toBe('30px pygame-sans, sans-serif');
+
+    const drawn = font.render_to(screen, [10, 20], 'Go', { fgcolor: [0, 0, 255] });
+    expect(drawn).toMatchObject({ x: 10, y: 20, width: 2 * CHAR_WIDTH });
+    expect(MeasuringCanvas.texts.at(-1)?.font).toBe('24px pygame-sans, sans-serif');
+  });
+});
@@ -0,0 +1,105 @@
+// Unit tests for feeding browser keyboard and mouse events to pygame programs
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  attachPygameInput,
+  PYGAME_EVENT_TYPES,
+  PYGAME_KEYS,
+  pygameEvent,
+  pygameKey,
+  pygameMouse,
+  resetPygameInput,
+} from '../pygame-input';
+
+describe('pygame input', () => {
+  let canvas: HTMLCanvasElement;
+  let detach: () => void;
+
+  beforeEach(() => {
+    canvas = document.createElement('canvas');
+    canvas.width = 640;
+    canvas.height = 360;
+    // Shown at half size on the page
+    canvas.getBoundingClientRect = () =>
+      ({ left: 10, top: 20, width: 320, height: 180 }) as DOMRect;
+    detach = attachPygameInput(canvas);
+  });
+
+  afterEach(() => {
+    detach();
+    resetPygameInput();
+  });
+
+  function key(type: 'keydown' | 'keyup', init: KeyboardEventInit) {
+    const event = new KeyboardEvent(type, { cancelable: true, ...init });
+    canvas.dispatchEvent(event);
+    return event;
+  }
+
+  it('queues key presses until the program polls', () => {
+    key('keydown', { key: 'ArrowLeft', code: 'ArrowLeft' });
+    key('keydown', { key: 'A', code: 'KeyA' });
+    key('keyup', { key: 'ArrowLeft', code: 'ArrowLeft' });
+
+    expect(pygameEvent.get()).toEqual([
+      { type: PYGAME_EVENT_TYPES.KEYDOWN, key: PYGAME_KEYS.K_LEFT, unicode: '', mod: 0 },
+      { type: PYGAME_EVENT_TYPES.KEYDOWN, key: PYGAME_KEYS.K_a, unicode: 'A', mod: 0 },
+      { type: PYGAME_EVENT_TYPES.KEYUP, key: PYGAME_KEYS.K_LEFT, unicode: '', mod: 0 },
+    ]);
+    expect(pygameEvent.get()).toEqual([]);
+  });
+
+  it('tracks held keys for get_pressed, without repeats', () => {
+    key('keydown', { key: ' ', code: 'Space' });
+    key('keydown', { key: ' ', code: 'Space', repeat: true });
+    key('keydown', { key: 'Shift', code: 'ShiftRight' });
+
+    const pressed = pygameKey.get_pressed();
+    expect(pressed[PYGAME_KEYS.K_SPACE]).toBe(true);
+    expect(pressed[PYGAME_KEYS.K_RSHIFT]).toBe(true);
+    expect(pressed[PYGAME_KEYS.K_LSHIFT]).toBe(false);
+    expect(pygameEvent.get(PYGAME_EVENT_TYPES.KEYDOWN)).toHaveLength(2);
+
+    key('keyup', { key: ' ', code: 'Space' });
+    expect(pygameKey.get_pressed()[PYGAME_KEYS.K_SPACE]).toBe(false);
+    expect(pygameKey.name(PYGAME_KEYS.K_SPACE)).toBe('space');
+  });
+
+  it('keeps the page from scrolling on game keys only', () => {
+    expect(key('keydown', { key: 'ArrowDown', code: 'ArrowDown' }).defaultPrevented).toBe(true);
+    expect(key('keydown', { key: 'F5', code: 'F5' }).defaultPrevented).toBe(false);
+  });
+
+  it('reports the mouse in canvas pixels', () => {
+    canvas.dispatchEvent(new MouseEvent('mousemove', { clientX: 60, clientY: 70 }));
+    canvas.dispatchEvent(new MouseEvent('mousedown', { clientX: 60, clientY: 70, button: 2 }));
+
+    expect(pygameMouse.get_pos()).toEqual([100, 100]);
+    expect(pygameMouse.get_pressed()).toEqual([false, false, true]);
+    expect(pygameEvent.get()).toEqual([
+      {
+        type: PYGAME_EVENT_TYPES.MOUSEMOTION,
+        pos: [100, 100],
+        rel: [100, 100],
+        buttons: [false, false, false],
+      },
+      { type: PYGAME_EVENT_TYPES.MOUSEBUTTONDOWN, pos: [100, 100], button: 3 },
+    ]);
+  });
+
+  it('leaves events of other types queued when filtering', () => {
+    key('keydown', { key: 'w', code: 'KeyW' });
+    canvas.dispatchEvent(new MouseEvent('mousedown', { clientX: 10, clientY: 20 }));
+
+    expect(pygameEvent.get([PYGAME_EVENT_TYPES.MOUSEBUTTONDOWN])).toHaveLength(1);
+    expect(pygameEvent.poll()).toMatchObject({ type: PYGAME_EVENT_TYPES.KEYDOWN });
+    expect(pygameEvent.poll()).toEqual({ type: PYGAME_EVENT_TYPES.NOEVENT });
+  });
+
+  it('stops listening once detached', () => {
+    detach();
+    key('keydown', { key: 'x', code: 'KeyX' });
+
+    expect(pygameEvent.get()).toEqual([]);
+  });
+});
@@ -0,0 +1,247 @@
+// Unit tests for the shim's pygame.Rect, ported from pygame's own rect_test.py
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { createRect, PygameRect, setRectFactory } from '../pygame-rect';
+
+const tuple = (rect: PygameRect) => [...rect];
+
+describe('PygameRect', () => {
+  afterEach(() => {
+    setRectFactory(null);
+  });
+
+  it('builds from every argument form pygame accepts', () => {
+    const expected = [1, 2, 3, 4];
+
+    expect(tuple(new PygameRect(1, 2, 3, 4))).toEqual(expected);
+    expect(tuple(new PygameRect([1, 2], [3, 4]))).toEqual(expected);
+    expect(tuple(new PygameRect([1, 2, 3, 4]))).toEqual(expected);
+    expect(tuple(new PygameRect(new PygameRect(1, 2, 3, 4)))).toEqual(expected);
+    expect(tuple(new PygameRect({ rect: new PygameRect(1, 2, 3, 4) }))).toEqual(expected);
+    expect(tuple(new PygameRect({ rect: () => [1, 2, 3, 4] }))).toEqual(expected);
+    expect(() => new PygameRect('nope')).toThrow(TypeError);
+  });
+
+  it('truncates floats like pygame stores ints', () => {
+    const r = new PygameRect(1.9, -2.7, 3.5, 4.99);
+    expect(tuple(r)).toEqual([1, -2, 3, 4]);
+
+    r.centerx = 10.8;
+    expect(r.centerx).toBe(10);
+  });
+
+  describe('attributes', () => {
+    it('reads edges and points from position and size', () => {
+      const r = new PygameRect(1, 2, 3, 4);
+
+      expect([r.left, r.top, r.right, r.bottom]).toEqual([1, 2, 4, 6]);
+      expect([r.centerx, r.centery]).toEqual([2, 4]);
+      expect(r.center).toEqual([2, 4]);
+      expect(r.topright).toEqual([4, 2]);
+      expect(r.bottomleft).toEqual([1, 6]);
+      expect(r.midbottom).toEqual([2, 6]);
+      expect(r.midright).toEqual([4, 4]);
+      expect(r.size).toEqual([3, 4]);
+    });
+
+    it('moves the rect when an edge or point is set, keeping its size', () => {
+      const r = new PygameRect(1, 2, 3, 4);
+
+      r.right = 100;
+      expect([r.left, r.width]).toEqual([97, 3]);
+      r.bottom = 50;
+      expect([r.top, r.height]).toEqual([46, 4]);
+      r.centerx = 100;
+      expect(r.x).toBe(99);
+      r.center = [10, 20];
+      expect(tuple(r)).toEqual([9, 18, 3, 4]);
+      r.bottomright = [0, 0];
+      expect(r.topleft).toEqual([-3, -4]);
+    });
+
+    it('resizes from the top left when the size is set', () => {
+      const r = new PygameRect(1, 2, 3, 4);
+
+      r.size = [10, 20];
+      expect(tuple(r)).toEqual([1, 2, 10, 20]);
+      expect(r.right).toBe(11);
+    });
+
+    it('keeps derived attributes in step after x += 5', () => {
+      const r = new PygameRect(0, 0, 10, 10);
+      r.x += 5;
+
+      expect([r.left, r.right, r.centerx]).toEqual([5, 15, 10]);
+    });
+  });
+
+  it('moves, and moves in place', () => {
+    const r = new PygameRect(1, 2, 3, 4);
+
+    expect(tuple(r.move(10, 20))).toEqual([11, 22, 3, 4]);
+    expect(tuple(r.move([10, 20]))).toEqual([11, 22, 3, 4]);
+    expect(tuple(r)).toEqual([1, 2, 3, 4]);
+
+    expect(r.move_ip(10, 20)).toBeUndefined();
+    expect(tuple(r)).toEqual([11, 22, 3, 4]);
+  });
+
+  it('inflates around the centre', () => {
+    const r = new PygameRect(2, 4, 6, 8);
+    const bigger = r.inflate(4, 6);
+
+    expect(bigger.center).toEqual(r.center);
+    expect([bigger.left, bigger.top]).toEqual([r.left - 2, r.top - 3]);
+    expect([bigger.width, bigger.height]).toEqual([r.width + 4, r.height + 6]);
+
+    const smaller = r.inflate(-4, -6);
+    expect(smaller.center).toEqual(r.center);
+    expect([smaller.width, smaller.height]).toEqual([2, 2]);
+
+    r.inflate_ip(4, 6);
+    expect(tuple(r)).toEqual(tuple(bigger));
+  });
+
+  it('scales around the centre', () => {
+    const r = new PygameRect(2, 4, 6, 8);
+
+    expect(tuple(r.scale_by(2))).toEqual([-1, 0, 12, 16]);
+    expect(r.scale_by(2, 0.5).size).toEqual([12, 4]);
+  });
+
+  describe('clamp', () => {
+    const bounds = new PygameRect(10, 10, 10, 10);
+
+    it('leaves a rect already inside alone', () => {
+      expect(tuple(new PygameRect(11, 11, 5, 5).clamp(bounds))).toEqual([11, 11, 5, 5]);
+    });
+
+    it('moves a rect hanging over an edge back inside', () => {
+      expect(new PygameRect(5, 12, 5, 5).clamp(bounds).left).toBe(bounds.left);
+      expect(new PygameRect(19, 12, 5, 5).clamp(bounds).right).toBe(bounds.right);
+      expect(new PygameRect(12, 5, 5, 5).clamp(bounds).top).toBe(bounds.top);
+      expect(new PygameRect(12, 19, 5, 5).clamp(bounds).bottom).toBe(bounds.bottom);
+    });
+
+    it('centres a rect too big to fit', () => {
+      expect(new PygameRect(5, 5, 30, 30).clamp(bounds).center).toEqual(bounds.center);
+    });
+
+    it('clamps in place', () => {
+      const r = new PygameRect(19, 12, 5, 5);
+      r.clamp_ip(bounds);
+      expect(r.right).toBe(bounds.right);
+    });
+  });
+
+  it('clips to the overlap, or to nothing', () => {
+    const r = new PygameRect(1, 2, 3, 4);
+
+    expect(tuple(r.clip(new PygameRect(0, 0, 3, 4)))).toEqual([1, 2, 2, 2]);
+    expect(tuple(r.clip([0, 0, 3, 4]))).toEqual([1, 2, 2, 2]);
+    expect(r.clip(new PygameRect(100, 100, 1, 1)).width).toBe(0);
+  });
+
+  it('unions with one rect or a list of them', () => {
+    const r1 = new PygameRect(1, 1, 1, 2);
+    const r2 = new PygameRect(-2, -2, 1, 2);
+    const r3 = new PygameRect(2, -1, 1, 2);
+
+    expect(tuple(r1.union(r2))).toEqual([-2, -2, 4, 5]);
+    expect(tuple(r1.unionall([r2, r3]))).toEqual([-2, -2, 5, 5]);
+
+    r1.union_ip(r2);
+    expect(tuple(r1)).toEqual([-2, -2, 4, 5]);
+  });
+
+  it('fits inside another rect keeping its shape', () => {
+    const square = new PygameRect(10, 10, 30, 30);
+    const wide = new PygameRect(0, 0, 20, 10);
+
+    expect(tuple(square.fit(new PygameRect(0, 0, 60, 30)))).toEqual([15, 0, 30, 30]);
+    expect(tuple(wide.fit(0, 0, 10, 10))).toEqual([0, 2, 10, 5]);
+  });
+
+  it('normalizes negative sizes', () => {
+    const r = new PygameRect(1, 2, -3, -6);
+    r.normalize();
+
+    expect(tuple(r)).toEqual([-2, -4, 3, 6]);
+  });
+
+  it('contains rects inside it, edges included', () => {
+    const r = new PygameRect(1, 2, 3, 4);
+
+    expect(r.contains(new PygameRect(2, 3, 1, 1))).toBe(true);
+    expect(r.contains(new PygameRect(r))).toBe(true);
+    expect(r.contains(new PygameRect(0, 0, 1, 2))).toBe(false);
+    expect(r.contains(new PygameRect(4, 6, 1, 1))).toBe(false);
+    expect(r.contains(new PygameRect(4, 6, 0, 0))).toBe(false);
+  });
+
+  it('collides with points, leaving out the right and bottom edges', () => {
+    const r = new PygameRect(1, 2, 3, 4);
+
+    expect(r.collidepoint(r.left, r.top)).toBe(true);
+    expect(r.collidepoint([r.right - 1, r.bottom - 1])).toBe(true);
+    expect(r.collidepoint(r.right, r.top)).toBe(false);
+    expect(r.collidepoint(r.left, r.bottom)).toBe(false);
+    expect(r.collidepoint(r.left - 1, r.top)).toBe(false);
+  });
+
+  it('collides with rects that overlap, not ones that touch', () => {
+    const r = new PygameRect(1, 2, 3, 4);
+
+    expect(r.colliderect(new PygameRect(0, 0, 2, 3))).toBe(true);
+    expect(r.colliderect(new PygameRect(r.right - 1, r.bottom - 1, 5, 5))).toBe(true);
+    expect(r.colliderect(new PygameRect(r.right, r.top, 5, 5))).toBe(false);
+    expect(r.colliderect(new PygameRect(r.left, r.bottom, 5, 5))).toBe(false);
+    expect(r.colliderect(new PygameRect(2, 3, 0, 0))).toBe(false);
+  });
+
+  it('finds collisions in lists and dicts', () => {
+    const r = new PygameRect(1, 1, 10, 10);
+    const hits = [
+      new PygameRect(1, 1, 10, 10),
+      new PygameRect(5, 5, 10, 10),
+      new PygameRect(15, 15, 1, 1),
+      new PygameRect(2, 2, 1, 1),
+    ];
+
+    expect(r.collidelist(hits)).toBe(0);
+    expect(r.collidelist([[15, 15, 1, 1], hits[1]])).toBe(1);
+    expect(r.collidelist([[20, 20, 1, 1]])).toBe(-1);
+    expect(r.collidelistall(hits)).toEqual([0, 1, 3]);
+
+    const byName = new Map([
+      ['far', hits[2]],
+      ['near', hits[3]],
+    ]);
+    const byRect = new Map([[[2, 2, 1, 1], 'near']]);
+    const [name, hit] = r.collidedict(byName, true) ?? [];
+    expect(name).toBe('near');
+    expect(hit).toBe(hits[3]);
+    expect(r.collidedict(byRect)).toEqual([[2, 2, 1, 1], 'near']);
+    expect(r.collidedictall(byName, true)).toHaveLength(1);
+    expect(r.collidedict(new Map([['far', hits[2]]]), true)).toBeNull();
+  });
+
+  it('equals rects and 4-sequences with the same values', () => {
+    const r = new PygameRect(1, 2, 3, 4);
+
+    expect(r.equals(new PygameRect(1, 2, 3, 4))).toBe(true);
+    expect(r.equals([1, 2, 3, 4])).toBe(true);
+    expect(r.equals([1, 2, 3, 5])).toBe(false);
+    expect(r.equals('rect')).toBe(false);
+    expect(r.copy()).not.toBe(r);
+    expect(String(r)).toBe('<rect(1, 2, 3, 4)>');
+  });
+
+  it('applies keyword attributes and the program factory to rects it creates', () => {
+    setRectFactory((rect) => ({ wrapped: rect }));
+
+    const made = createRect(0, 0, 20, 10, { center: [50, 50] }) as { wrapped: PygameRect };
+    expect(tuple(made.wrapped)).toEqual([40, 45, 20, 10]);
+    expect(() => createRect(0, 0, 1, 1, { colour: 1 })).toThrow(/Invalid Rect attribute/);
+  });
+});
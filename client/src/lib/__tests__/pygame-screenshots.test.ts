@@ -0,0 +1,251 @@
+// Screenshot regression tests for the pygame shim's preview renderer
+//
+// Each template runs for a fixed number of frames with scripted key presses, every frame
+// drawn through flushFrameBuffer onto a headless canvas as the page draws frames streamed
+// from the Pyodide worker. The last frame is diffed against a golden PNG in __screenshots__;
+// a mismatch writes expected | actual | diff side by side to test-results/pygame-screenshots.
+// Run with UPDATE_SCREENSHOTS=1 to write new golden images after an intended change.
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { Canvas, GlobalFonts } from '@napi-rs/canvas';
+import type { Simulation } from '@shared/schema';
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+import { loadPyodide } from 'pyodide';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { applyPygameInput, PYGAME_EVENT_TYPES, pygameKeyCode } from '../pygame-input';
+import {
+  type DrawCommand,
+  flushFrameBuffer,
+  installPygameModule,
+  resetPygameState,
+  setCanvasContext,
+  setFrameSink,
+  strata,
+} from '../pygame-simulation';
+import { getTemplateById } from '../pygame-templates';
+import { type PyodideInterface, PythonRunner } from '../python/runner';
+import { createSeededRandom } from '../typescript/sandbox';
+import { transpileLessonCode } from '../typescript/transpile';
+
+const ROOT = path.resolve(import.meta.dirname, '../../../..');
+const GOLDEN_DIR = path.join(import.meta.dirname, '__screenshots__');
+const ARTIFACT_DIR = path.join(ROOT, 'test-results/pygame-screenshots');
+const UPDATE = process.env.UPDATE_SCREENSHOTS === '1';
+
+// How far apart two pixels' colors may be and still match, 0 to 1
+const PIXEL_THRESHOLD = 0.1;
+// Share of pixels allowed to differ, for font rasterizers that smooth edges a little differently
+const MAX_DIFF_RATIO = 0.002;
+const FRAME_MS = 1000 / 60;
+
+/** Each template's run: frames to play, the seed for its random numbers and the keys pressed */
+const SCENARIOS: Record<string, Simulation> = {
+  pong: {
+    frames: 45,
+    seed: 1,
+    inputs: [
+      { key: 'w', frame: 0, hold: 20 },
+      { key: 'ArrowDown', frame: 10, hold: 30 },
+    ],
+  },
+  breakout: {
+    frames: 60,
+    seed: 2,
+    inputs: [{ key: 'ArrowLeft', frame: 5, hold: 25 }],
+  },
+  'simple-platformer': {
+    frames: 60,
+    seed: 3,
+    inputs: [
+      { key: 'ArrowRight', frame: 0, hold: 40 },
+      { key: ' ', frame: 20, hold: 5 },
+    ],
+  },
+  'space-shooter': {
+    frames: 60,
+    seed: 4,
+    inputs: [
+      { key: 'ArrowLeft', frame: 0, hold: 20 },
+      { key: ' ', frame: 10, hold: 30 },
+    ],
+  },
+  'collecting-game': {
+    frames: 60,
+    seed: 5,
+    inputs: [
+      { key: 'ArrowRight', frame: 0, hold: 30 },
+      { key: 'ArrowUp', frame: 30, hold: 20 },
+    ],
+  },
+};
+
+/** Thrown from the frame sink to end a TypeScript game's loop, which never yields */
+class EndOfRun extends Error {}
+
+/** Press and release the scripted keys for `frame`, releasing first as the lesson simulator does */
+function applyInputs(simulation: Simulation, frame: number) {
+  const inputs = simulation.inputs ?? [];
+  const send = (type: number, key: string) => {
+    const code = pygameKeyCode({ key, code: '' });
+    if (code !== null) applyPygameInput({ type, key: code });
+  };
+  for (const input of inputs) {
+    if (input.frame + (input.hold ?? 1) === frame) send(PYGAME_EVENT_TYPES.KEYUP, input.key);
+  }
+  for (const input of inputs) {
+    if (input.frame === frame) send(PYGAME_EVENT_TYPES.KEYDOWN, input.key);
+  }
+}
+
+/**
+ * Draws each finished frame onto a headless canvas and plays the input script between
+ * frames, with the clock standing still in between so timing doesn't change the picture
+ */
+class ScreenshotRun {
+  readonly canvas: Canvas;
+  frame = 0;
+
+  constructor(
+    private readonly simulation: Simulation,
+    width: number,
+    height: number,
+    private readonly onLastFrame: () => void
+  ) {
+    this.canvas = new Canvas(width, height);
+    setCanvasContext(this.canvas.getContext('2d') as unknown as CanvasRenderingContext2D);
+    setFrameSink((commands) => this.draw(commands));
+    vi.spyOn(performance, 'now').mockImplementation(() => this.frame * FRAME_MS);
+    vi.spyOn(Math, 'random').mockImplementation(createSeededRandom(simulation.seed ?? 1));
+    applyInputs(simulation, 0);
+  }
+
+  private draw(commands: DrawCommand[]) {
+    if (this.frame >= this.simulation.frames) return;
+    flushFrameBuffer(commands);
+    this.frame++;
+    if (this.frame === this.simulation.frames) {
+      this.onLastFrame();
+    } else {
+      applyInputs(this.simulation, this.frame);
+    }
+  }
+
+  pixels(): Uint8Array {
+    const { width, height } = this.canvas;
+    return new Uint8Array(this.canvas.getContext('2d').getImageData(0, 0, width, height).data);
+  }
+}
+
+/** expected | actual | diff, for looking at a failure */
+function sideBySide(images: PNG[]): PNG {
+  const { width, height } = images[0];
+  const combined = new PNG({ width: width * images.length, height });
+  images.forEach((image, index) => {
+    PNG.bitblt(image, combined, 0, 0, width, height, index * width, 0);
+  });
+  return combined;
+}
+
+/** Compare the run's last frame with the template's golden image, or write a new one */
+function expectScreenshot(name: string, run: ScreenshotRun) {
+  const { width, height } = run.canvas;
+  const actual = new PNG({ width, height });
+  actual.data = Buffer.from(run.pixels());
+  const goldenPath = path.join(GOLDEN_DIR, `${name}.png`);
+
+  if (UPDATE) {
+    mkdirSync(GOLDEN_DIR, { recursive: true });
+    writeFileSync(goldenPath, PNG.sync.write(actual));
+    return;
+  }
+
+  const expected = PNG.sync.read(readFileSync(goldenPath));
+  expect([expected.width, expected.height]).toEqual([width, height]);
+  const diff = new PNG({ width, height });
+  const mismatched = pixelmatch(expected.data, actual.data, diff.data, width, height, {
+    threshold: PIXEL_THRESHOLD,
+  });
+
+  const ratio = mismatched / (width * height);
+  if (ratio > MAX_DIFF_RATIO) {
+    mkdirSync(ARTIFACT_DIR, { recursive: true });
+    const artifact = path.join(ARTIFACT_DIR, `${name}.png`);
+    writeFileSync(artifact, PNG.sync.write(sideBySide([expected, actual, diff])));
+    expect.fail(
+      `${name}: ${mismatched} pixels (${(ratio * 100).toFixed(2)}%) differ from the golden image; see ${path.relative(ROOT, artifact)}`
+    );
+  }
+}
+
+function templateCode(id: string) {
+  const template = getTemplateById(id);
+  if (!template) throw new Error(`No template '${id}'`);
+  return { code: template.generateCode(), settings: template.settings };
+}
+
+describe('pygame template screenshots', () => {
+  let runner: PythonRunner;
+  let pyodide: PyodideInterface;
+
+  beforeAll(async () => {
+    // The bundled fonts, under the families pygame.font draws with
+    const fonts = path.join(ROOT, 'client/public/assets/fonts');
+    GlobalFonts.registerFromPath(path.join(fonts, 'kenney-future.ttf'), 'pygame-sans');
+    GlobalFonts.registerFromPath(path.join(fonts, 'kenney-pixel.ttf'), 'pygame-pixel');
+
+    const indexURL = path.dirname(createRequire(import.meta.url).resolve('pyodide/package.json'));
+    pyodide = (await loadPyodide({ indexURL })) as unknown as PyodideInterface;
+    installPygameModule(pyodide);
+    runner = new PythonRunner(pyodide);
+  }, 120_000);
+
+  beforeEach(() => {
+    vi.stubGlobal('OffscreenCanvas', Canvas);
+    resetPygameState();
+  });
+
+  afterEach(() => {
+    setFrameSink(null);
+    setCanvasContext(null);
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  for (const id of ['breakout', 'space-shooter', 'collecting-game']) {
+    it(`draws ${id} as it did`, async () => {
+      const simulation = SCENARIOS[id];
+      const { code, settings } = templateCode(id);
+      const run = new ScreenshotRun(simulation, settings.screenWidth, settings.screenHeight, () =>
+        runner.stopGame()
+      );
+      pyodide.runPython(`import random; random.seed(${simulation.seed})`);
+
+      const result = await runner.runGame({ code });
+
+      expect(result.error).toBe('');
+      expect(run.frame).toBe(simulation.frames);
+      expectScreenshot(id, run);
+    }, 60_000);
+  }
+
+  // These two are TypeScript against strata; their loops never yield, so the last frame ends them
+  for (const id of ['pong', 'simple-platformer']) {
+    it(`draws ${id} as it did`, async () => {
+      const simulation = SCENARIOS[id];
+      const { code, settings } = templateCode(id);
+      const { javascript } = await transpileLessonCode(code);
+      const run = new ScreenshotRun(simulation, settings.screenWidth, settings.screenHeight, () => {
+        throw new EndOfRun();
+      });
+
+      const program = new Function('require', 'exports', javascript);
+      expect(() => program(() => ({ strata }), {})).toThrow(EndOfRun);
+
+      expect(run.frame).toBe(simulation.frames);
+      expectScreenshot(id, run);
+    }, 60_000);
+  }
+});
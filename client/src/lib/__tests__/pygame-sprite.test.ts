@@ -0,0 +1,184 @@
+// Behaviour tests for the shim's Python pygame.sprite: groups, layers and collisions
+
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { loadPyodide } from 'pyodide';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { installPygameModule } from '../pygame-simulation';
+import type { PyodideInterface } from '../python/runner';
+
+// Named boxes, and a screen that records what was blitted in which order
+const PRELUDE = `
+import pygame
+from pygame.sprite import Group, GroupSingle, LayeredUpdates, Sprite
+
+log = []
+
+
+class Box(Sprite):
+    def __init__(self, name, x=0, y=0, size=10, *groups):
+        super().__init__(*groups)
+        self.name = name
+        self.image = name
+        self.rect = pygame.Rect(x, y, size, size)
+
+    def update(self, *args):
+        log.append(('update', self.name) + args)
+
+
+class Screen:
+    def blit(self, image, rect, area=None, special_flags=0):
+        log.append(('blit', image))
+        return rect
+
+
+def names(sprites):
+    return [sprite.name for sprite in sprites]
+`;
+
+describe('pygame.sprite', () => {
+  let pyodide: PyodideInterface;
+
+  beforeAll(async () => {
+    const indexURL = path.dirname(createRequire(import.meta.url).resolve('pyodide/package.json'));
+    pyodide = (await loadPyodide({ indexURL })) as unknown as PyodideInterface;
+    installPygameModule(pyodide);
+  }, 120_000);
+
+  /** Run `code` after the prelude and return what it left in `result` */
+  function run(code: string): unknown {
+    const json = pyodide.runPython(`
+import json
+_scope = {}
+exec(${JSON.stringify(PRELUDE + code)}, _scope)
+json.dumps(_scope['result'])
+`);
+    return JSON.parse(json as string);
+  }
+
+  it('updates and draws sprites in the order they were added', () => {
+    expect(
+      run(`
+group = Group(Box('a'), Box('b'))
+group.add(Box('c'))
+group.update(1, 2)
+group.draw(Screen())
+result = log
+`)
+    ).toEqual([
+      ['update', 'a', 1, 2],
+      ['update', 'b', 1, 2],
+      ['update', 'c', 1, 2],
+      ['blit', 'a'],
+      ['blit', 'b'],
+      ['blit', 'c'],
+    ]);
+  });
+
+  it('takes a killed sprite out of every group it was in', () => {
+    expect(
+      run(`
+players, everything = Group(), Group()
+hero = Box('hero', 0, 0, 10, players, everything)
+before = [hero.alive(), len(hero.groups()), hero in players]
+hero.kill()
+result = before + [hero.alive(), hero.groups(), len(players), len(everything)]
+`)
+    ).toEqual([true, 2, true, false, [], 0, 0]);
+  });
+
+  it('finds the sprites one sprite hits, killing them with dokill', () => {
+    expect(
+      run(`
+coins = Group(Box('near', 5, 5), Box('far', 50, 50), Box('touching', 10, 0))
+player = Box('player')
+kept = names(pygame.sprite.spritecollide(player, coins, False))
+killed = names(pygame.sprite.spritecollide(player, coins, True))
+any_left = pygame.sprite.spritecollideany(player, coins)
+result = [kept, killed, names(coins), any_left]
+`)
+    ).toEqual([['near'], ['near'], ['far', 'touching'], null]);
+  });
+
+  it('maps each colliding sprite to what it hit, killing either side on request', () => {
+    expect(
+      run(`
+bullets = Group(Box('b1', 0, 0), Box('b2', 100, 100))
+enemies = Group(Box('e1', 5, 5), Box('e2', 8, 0), Box('e3', 200, 200))
+hits = pygame.sprite.groupcollide(bullets, enemies, True, False)
+result = [
+    {bullet.name: names(hit) for bullet, hit in hits.items()},
+    names(bullets),
+    names(enemies),
+]
+`)
+    ).toEqual([{ b1: ['e1', 'e2'] }, ['b2'], ['e1', 'e2', 'e3']]);
+  });
+
+  it('scales rects and circles when checking collisions', () => {
+    expect(
+      run(`
+a, b = Box('a', 0, 0, 10), Box('b', 12, 0, 10)
+c = Box('c', 30, 0, 10)
+c.radius = 25
+result = [
+    pygame.sprite.collide_rect(a, b),
+    pygame.sprite.collide_rect_ratio(1.5)(a, b),
+    pygame.sprite.collide_rect(a, Box('overlap', 6, 0, 10)),
+    pygame.sprite.collide_rect_ratio(0.5)(a, Box('overlap', 6, 0, 10)),
+    pygame.sprite.collide_circle(a, b),
+    pygame.sprite.collide_circle(a, Box('d', 30, 0, 10)),
+    pygame.sprite.collide_circle(a, c),
+    pygame.sprite.collide_circle_ratio(0.5)(a, b),
+]
+`)
+    ).toEqual([false, true, true, false, true, false, true, false]);
+  });
+
+  it('draws layered sprites bottom layer first and moves them between layers', () => {
+    expect(
+      run(`
+background, player, cloud = Box('background'), Box('player'), Box('cloud')
+cloud._layer = 2
+group = LayeredUpdates(player, default_layer=1)
+group.add(background, layer=0)
+group.add(cloud)
+group.add(Box('enemy'), layer=1)
+order = names(group.sprites())
+group.change_layer(player, 3)
+moved = names(group.sprites())
+group.draw(Screen())
+result = [order, moved, group.layers(), background._layer, group.get_layer_of_sprite(player), log]
+`)
+    ).toEqual([
+      ['background', 'player', 'enemy', 'cloud'],
+      ['background', 'enemy', 'cloud', 'player'],
+      [0, 1, 2, 3],
+      0,
+      3,
+      [
+        ['blit', 'background'],
+        ['blit', 'enemy'],
+        ['blit', 'cloud'],
+        ['blit', 'player'],
+      ],
+    ]);
+  });
+
+  it('replaces the sprite a GroupSingle holds', () => {
+    expect(
+      run(`
+first, second = Box('first'), Box('second')
+single = GroupSingle(first)
+held = [single.sprite.name, first.alive()]
+single.add(second)
+replaced = [single.sprite.name, len(single), first.alive(), first in single]
+single.sprite = first
+back = [single.sprite.name, second.alive()]
+second.kill()
+first.kill()
+result = held + replaced + back + [single.sprite, bool(single)]
+`)
+    ).toEqual(['first', true, 'second', 1, false, false, 'first', false, null, false]);
+  });
+});
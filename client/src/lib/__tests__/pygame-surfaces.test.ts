@@ -0,0 +1,421 @@
+// Unit tests for off-screen surfaces, blitting and image loading in the pygame shim
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { preloadImages, setProjectImages } from '../pygame-images';
+import {
+  createPygameEnvironment,
+  flushFrameBuffer,
+  resetPygameState,
+  setCanvasContext,
+} from '../pygame-simulation';
+
+type Matrix = [number, number, number, number, number, number];
+type Pixel = [number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply([a, b, c, d, e, f]: Matrix, [A, B, C, D, E, F]: Matrix): Matrix {
+  return [
+    a * A + c * B,
+    b * A + d * B,
+    a * C + c * D,
+    b * C + d * D,
+    a * E + c * F + e,
+    b * E + d * F + f,
+  ];
+}
+
+function parseFill(style: string): Pixel {
+  const [r, g, b, a = 1] = (style.match(/[\d.]+/g) ?? []).map(Number);
+  return [r, g, b, Math.round(a * 255)];
+}
+
+/**
+ * Just enough of a 2D canvas to composite rectangles and images pixel by pixel, since
+ * jsdom has no canvas backend. Paths are rectangles only.
+ */
+class FakeCanvas {
+  pixels: Uint8ClampedArray;
+  private readonly context = new FakeContext(this);
+
+  constructor(
+    private w: number,
+    private h: number
+  ) {
+    this.pixels = new Uint8ClampedArray(w * h * 4);
+  }
+
+  get width() {
+    return this.w;
+  }
+  set width(value: number) {
+    this.w = value;
+    this.pixels = new Uint8ClampedArray(this.w * this.h * 4);
+  }
+  get height() {
+    return this.h;
+  }
+  set height(value: number) {
+    this.h = value;
+    this.pixels = new Uint8ClampedArray(this.w * this.h * 4);
+  }
+
+  getContext() {
+    return this.context;
+  }
+
+  pixel(x: number, y: number): Pixel {
+    const i = (y * this.w + x) * 4;
+    return Array.from(this.pixels.slice(i, i + 4)) as Pixel;
+  }
+
+  /** Blend `color` over one pixel */
+  paint(x: number, y: number, [r, g, b, a]: Pixel) {
+    const i = (y * this.w + x) * 4;
+    const sa = a / 255;
+    const da = this.pixels[i + 3] / 255;
+    const outA = sa + da * (1 - sa);
+    if (outA === 0) return;
+    [r, g, b].forEach((value, channel) => {
+      const below = this.pixels[i + channel];
+      this.pixels[i + channel] = Math.round((value * sa + below * da * (1 - sa)) / outA);
+    });
+    this.pixels[i + 3] = Math.round(outA * 255);
+  }
+}
+
+class FakeContext {
+  fillStyle = '#000';
+  strokeStyle = '#000';
+  lineWidth = 1;
+  font = '';
+  textBaseline = '';
+  globalAlpha = 1;
+  private matrix: Matrix = IDENTITY;
+  private clipArea: [number, number, number, number] | null = null;
+  private path: [number, number, number, number][] = [];
+  private stack: { matrix: Matrix; clipArea: FakeContext['clipArea'] }[] = [];
+
+  constructor(readonly canvas: FakeCanvas) {}
+
+  save() {
+    this.stack.push({ matrix: this.matrix, clipArea: this.clipArea });
+  }
+  restore() {
+    Object.assign(this, this.stack.pop());
+  }
+  transform(...m: Matrix) {
+    this.matrix = multiply(this.matrix, m);
+  }
+  translate(x: number, y: number) {
+    this.transform(1, 0, 0, 1, x, y);
+  }
+  beginPath() {
+    this.path = [];
+  }
+  rect(x: number, y: number, w: number, h: number) {
+    this.path.push([x, y, w, h]);
+  }
+  clip() {
+    // Only translated rectangles are ever clipped
+    const [x, y, w, h] = this.path[0];
+    const [, , , , e, f] = this.matrix;
+    this.clipArea = [x + e, y + f, x + e + w, y + f + h];
+  }
+  fill() {
+    for (const rect of this.path) this.fillRect(...rect);
+  }
+  arc() {}
+  ellipse() {}
+  moveTo() {}
+  lineTo() {}
+  closePath() {}
+  stroke() {}
+  fillText() {}
+  measureText(text: string) {
+    return { width: text.length } as TextMetrics;
+  }
+
+  fillRect(x: number, y: number, w: number, h: number) {
+    const color = parseFill(this.fillStyle);
+    this.forEachPixel((u, v, px, py) => {
+      if (u >= x && u < x + w && v >= y && v < y + h) this.canvas.paint(px, py, color);
+    });
+  }
+
+  clearRect(x: number, y: number, w: number, h: number) {
+    this.forEachPixel((u, v, px, py) => {
+      if (u >= x && u < x + w && v >= y && v < y + h) {
+        this.canvas.pixels.fill(
+          0,
+          (py * this.canvas.width + px) * 4,
+          (py * this.canvas.width + px) * 4 + 4
+        );
+      }
+    });
+  }
+
+  drawImage(image: FakeCanvas, ...args: number[]) {
+    const [sx, sy, sw, sh, dx, dy, dw, dh] =
+      args.length === 8
+        ? args
+        : [0, 0, image.width, image.height, args[0], args[1], image.width, image.height];
+    this.forEachPixel((u, v, px, py) => {
+      if (u < dx || u >= dx + dw || v < dy || v >= dy + dh) return;
+      const [r, g, b, a] = image.pixel(
+        Math.floor(sx + ((u - dx) * sw) / dw),
+        Math.floor(sy + ((v - dy) * sh) / dh)
+      );
+      this.canvas.paint(px, py, [r, g, b, a * this.globalAlpha]);
+    });
+  }
+
+  getImageData(x: number, y: number, w: number, h: number) {
+    return { data: this.canvas.pixels.slice(), width: w, height: h, x, y };
+  }
+  putImageData(data: { data: Uint8ClampedArray }) {
+    this.canvas.pixels.set(data.data);
+  }
+
+  /** Visit each device pixel inside the clip, with its center in the current user space */
+  private forEachPixel(visit: (u: number, v: number, px: number, py: number) => void) {
+    const [a, b, c, d, e, f] = this.matrix;
+    const det = a * d - b * c;
+    for (let py = 0; py < this.canvas.height; py++) {
+      for (let px = 0; px < this.canvas.width; px++) {
+        const [x, y] = [px + 0.5, py + 0.5];
+        if (this.clipArea) {
+          const [x0, y0, x1, y1] = this.clipArea;
+          if (x < x0 || x >= x1 || y < y0 || y >= y1) continue;
+        }
+        const u = (d * (x - e) - c * (y - f)) / det;
+        const v = (a * (y - f) - b * (x - e)) / det;
+        visit(u, v, px, py);
+      }
+    }
+  }
+}
+
+const RED: Pixel = [255, 0, 0, 255];
+const GREEN: Pixel = [0, 255, 0, 255];
+const BLUE: Pixel = [0, 0, 255, 255];
+const CLEAR: Pixel = [0, 0, 0, 0];
+
+function pixelsOf(surface: { snapshot(): unknown }): FakeCanvas {
+  return surface.snapshot() as FakeCanvas;
+}
+
+describe('pygame surfaces', () => {
+  let pygame: ReturnType<typeof createPygameEnvironment>;
+  let display: FakeCanvas;
+
+  beforeEach(() => {
+    vi.stubGlobal('OffscreenCanvas', FakeCanvas);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    display = new FakeCanvas(8, 8);
+    setCanvasContext(display.getContext() as unknown as CanvasRenderingContext2D);
+    pygame = createPygameEnvironment();
+  });
+
+  afterEach(() => {
+    setCanvasContext(null);
+    resetPygameState();
+    setProjectImages([]);
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('blits off-screen pixels onto the display when it flips', () => {
+    const screen = pygame.display.set_mode([8, 8]);
+    const tile = new pygame.Surface([2, 2]);
+    tile.fill([255, 0, 0]);
+
+    screen.fill([0, 0, 255]);
+    expect(screen.blit(tile, [3, 4])).toMatchObject({ x: 3, y: 4, width: 2, height: 2 });
+    expect(display.pixel(3, 4)).toEqual(CLEAR);
+
+    pygame.display.flip();
+    expect(display.pixel(3, 4)).toEqual(RED);
+    expect(display.pixel(4, 5)).toEqual(RED);
+    expect(display.pixel(5, 4)).toEqual(BLUE);
+  });
+
+  it('composites nested surfaces as they were when blitted', () => {
+    const screen = pygame.display.set_mode([8, 8]);
+    const panel = new pygame.Surface([4, 4]);
+    const badge = new pygame.Surface([2, 2]);
+    badge.fill([0, 255, 0]);
+    panel.fill([255, 0, 0]);
+    panel.blit(badge, [1, 1]);
+
+    screen.blit(panel, [0, 0]);
+    panel.fill([0, 0, 255]);
+    pygame.display.flip();
+
+    expect(display.pixel(0, 0)).toEqual(RED);
+    expect(display.pixel(1, 1)).toEqual(GREEN);
+    expect(display.pixel(2, 2)).toEqual(GREEN);
+    expect(display.pixel(3, 3)).toEqual(RED);
+  });
+
+  it('copies a blit area and draws shapes into off-screen surfaces', () => {
+    const sheet = new pygame.Surface([4, 2]);
+    pygame.draw.rect(sheet, [255, 0, 0], [0, 0, 2, 2]);
+    pygame.draw.rect(sheet, [0, 255, 0], [2, 0, 2, 2]);
+
+    const frame = new pygame.Surface([2, 2]);
+    frame.blit(sheet, [0, 0], [2, 0, 2, 2]);
+
+    expect(pixelsOf(frame).pixel(0, 0)).toEqual(GREEN);
+    expect(pixelsOf(frame).pixel(1, 1)).toEqual(GREEN);
+  });
+
+  it('leaves out colorkey pixels', () => {
+    const sprite = new pygame.Surface([2, 1]);
+    sprite.fill([255, 0, 255]);
+    pygame.draw.rect(sprite, [255, 0, 0], [1, 0, 1, 1]);
+    sprite.set_colorkey([255, 0, 255]);
+
+    const target = new pygame.Surface([2, 1]);
+    target.fill([0, 0, 255]);
+    target.blit(sprite, [0, 0]);
+
+    expect(sprite.get_colorkey()).toEqual([255, 0, 255, 255]);
+    expect(pixelsOf(target).pixel(0, 0)).toEqual(BLUE);
+    expect(pixelsOf(target).pixel(1, 0)).toEqual(RED);
+  });
+
+  it('blends by surface alpha, and convert_alpha keeps it', () => {
+    const ghost = new pygame.Surface([1, 1]);
+    ghost.fill([255, 255, 255]);
+    ghost.set_alpha(128);
+
+    const target = new pygame.Surface([1, 1]);
+    target.fill([0, 0, 0]);
+    target.blit(ghost.convert_alpha(), [0, 0]);
+
+    expect(pixelsOf(target).pixel(0, 0)).toEqual([128, 128, 128, 255]);
+  });
+
+  it('shares pixels between a subsurface and its parent', () => {
+    const parent = new pygame.Surface([4, 4]);
+    parent.fill([0, 0, 255]);
+    const child = parent.subsurface([2, 2, 2, 2]);
+    child.fill([255, 0, 0]);
+
+    expect(child.get_offset()).toEqual([2, 2]);
+    expect(child.get_parent()).toBe(parent);
+    expect(pixelsOf(parent).pixel(1, 1)).toEqual(BLUE);
+    expect(pixelsOf(parent).pixel(2, 2)).toEqual(RED);
+    expect(pixelsOf(child).pixel(0, 0)).toEqual(RED);
+    expect(() => parent.subsurface([3, 3, 2, 2])).toThrow(/ValueError/);
+  });
+
+  describe('transform', () => {
+    function redGreen() {
+      const surface = new pygame.Surface([2, 1]);
+      pygame.draw.rect(surface, [255, 0, 0], [0, 0, 1, 1]);
+      pygame.draw.rect(surface, [0, 255, 0], [1, 0, 1, 1]);
+      return surface;
+    }
+
+    it('scales into a new surface', () => {
+      const scaled = pygame.transform.scale(redGreen(), [4, 2]);
+
+      expect(scaled.get_size()).toEqual([4, 2]);
+      expect(pixelsOf(scaled).pixel(1, 1)).toEqual(RED);
+      expect(pixelsOf(scaled).pixel(2, 0)).toEqual(GREEN);
+    });
+
+    it('rotates counterclockwise and grows to fit', () => {
+      const rotated = pygame.transform.rotate(redGreen(), 90);
+
+      expect(rotated.get_size()).toEqual([1, 2]);
+      expect(pixelsOf(rotated).pixel(0, 0)).toEqual(GREEN);
+      expect(pixelsOf(rotated).pixel(0, 1)).toEqual(RED);
+    });
+
+    it('flips without touching the original', () => {
+      const original = redGreen();
+      const flipped = pygame.transform.flip(original, true, false);
+
+      expect(pixelsOf(flipped).pixel(0, 0)).toEqual(GREEN);
+      expect(pixelsOf(flipped).pixel(1, 0)).toEqual(RED);
+      expect(pixelsOf(original).pixel(0, 0)).toEqual(RED);
+    });
+  });
+
+  describe('image.load', () => {
+    function stubImageFiles(files: Record<string, FakeCanvas>) {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async (url: string) =>
+          url in files
+            ? { ok: true, blob: async () => files[url] }
+            : { ok: false, status: 404, statusText: 'Not Found' }
+        )
+      );
+      vi.stubGlobal('createImageBitmap', async (blob: FakeCanvas) => blob);
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    }
+
+    function solid(width: number, height: number, color: Pixel) {
+      const image = new FakeCanvas(width, height);
+      for (let y = 0; y < height; y++) for (let x = 0; x < width; x++) image.paint(x, y, color);
+      return image;
+    }
+
+    it('loads preloaded library sprites at their natural size', async () => {
+      stubImageFiles({ '/assets/sprites/coin.png': solid(3, 2, GREEN) });
+      await preloadImages(['assets/sprites/coin.png']);
+
+      const coin = pygame.image.load('assets/sprites/coin.png');
+
+      expect(coin.get_size()).toEqual([3, 2]);
+      expect(pixelsOf(coin).pixel(2, 1)).toEqual(GREEN);
+    });
+
+    it('loads project images by name', async () => {
+      stubImageFiles({ 'data:image/png;base64,aGVybw==': solid(1, 1, RED) });
+      setProjectImages([
+        {
+          id: 'a1',
+          name: 'hero.png',
+          type: 'image',
+          path: 'images/hero.png',
+          dataUrl: 'data:image/png;base64,aGVybw==',
+        },
+      ]);
+      await preloadImages(['hero.png']);
+
+      expect(pixelsOf(pygame.image.load('hero.png')).pixel(0, 0)).toEqual(RED);
+    });
+
+    it('fills in an image that was not preloaded when it arrives', async () => {
+      stubImageFiles({ '/assets/late.png': solid(2, 2, BLUE) });
+
+      const late = pygame.image.load('assets/late.png');
+      await vi.waitFor(() => expect(late.get_size()).toEqual([2, 2]));
+
+      expect(pixelsOf(late).pixel(1, 1)).toEqual(BLUE);
+    });
+
+    it('raises FileNotFoundError for images that do not exist', async () => {
+      stubImageFiles({});
+      await preloadImages(['assets/nope.png']);
+
+      expect(() => pygame.image.load('assets/nope.png')).toThrow(/FileNotFoundError/);
+      expect(() => pygame.image.load('mystery.png')).toThrow(/FileNotFoundError/);
+    });
+  });
+
+  it('renders text into its own surface rather than onto the display', () => {
+    const fillText = vi.spyOn(FakeContext.prototype, 'fillText');
+    pygame.display.set_mode([8, 8]);
+    new pygame.font.Font(null, 10).render('Hi', true, [255, 255, 255]);
+    flushFrameBuffer();
+
+    expect(fillText).toHaveBeenCalledTimes(1);
+    expect(fillText.mock.contexts[0]).not.toBe(display.getContext());
+  });
+});
@@ -0,0 +1,212 @@
+// Unit tests for the shared Pyodide worker service
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setCanvasContext } from '../pygame-simulation';
+import { PyodideService } from '../python/pyodide-service';
+import { type PageMessage, readStdin, SIGINT, type WorkerMessage } from '../python/worker-protocol';
+
+/** Stands in for the worker: records what the page sends and replies on request */
+class FakeWorker {
+  static all: FakeWorker[] = [];
+  readonly sent: PageMessage[] = [];
+  onmessage: ((event: MessageEvent<WorkerMessage>) => void) | null = null;
+  terminated = false;
+
+  constructor() {
+    FakeWorker.all.push(this);
+  }
+  postMessage(message: PageMessage) {
+    this.sent.push(message);
+  }
+  terminate() {
+    this.terminated = true;
+  }
+  reply(data: WorkerMessage) {
+    this.onmessage?.({ data } as MessageEvent<WorkerMessage>);
+  }
+  runs() {
+    return this.sent.filter((message) => message.type === 'run');
+  }
+  init() {
+    return this.sent[0] as Extract<PageMessage, { type: 'init' }>;
+  }
+}
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function createService() {
+  const service = new PyodideService(() => new FakeWorker() as unknown as Worker);
+  const worker = FakeWorker.all.at(-1) as FakeWorker;
+  worker.reply({ type: 'ready' });
+  return { service, worker };
+}
+
+describe('PyodideService', () => {
+  beforeEach(() => {
+    FakeWorker.all = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    setCanvasContext(null);
+  });
+
+  it('runs code in the worker and resolves with its result', async () => {
+    const { service, worker } = createService();
+
+    const result = service.runSnippet({ code: 'print(1 + 1)' });
+    await settle();
+    const [run] = worker.runs();
+    expect(run).toMatchObject({ request: { kind: 'snippet', code: 'print(1 + 1)' } });
+
+    worker.reply({
+      type: 'result',
+      id: (run as { id: number }).id,
+      result: { output: '2\n', error: '' },
+    });
+    expect(await result).toEqual({ output: '2\n', error: '' });
+  });
+
+  it('gives the interpreter to one run at a time', async () => {
+    const { service, worker } = createService();
+
+    service.runSnippet({ code: 'first()' });
+    const second = service.runSnippet({ code: 'second()' });
+    await settle();
+    expect(worker.runs()).toHaveLength(1);
+
+    worker.reply({ type: 'result', id: 1, result: { output: '', error: '' } });
+    await settle();
+    expect(worker.runs()).toHaveLength(2);
+    worker.reply({ type: 'result', id: 2, result: { output: 'done', error: '' } });
+    expect((await second).output).toBe('done');
+  });
+
+  it('reports when Python fails to load', async () => {
+    const service = new PyodideService(() => new FakeWorker() as unknown as Worker);
+    FakeWorker.all[0].reply({ type: 'load-error', message: 'offline' });
+
+    await expect(service.whenReady()).rejects.toThrow('Python failed to load: offline');
+  });
+
+  it('draws streamed frames on the canvas and reports what is playing', async () => {
+    const context = {
+      canvas: { width: 640, height: 360 },
+      clearRect: vi.fn(),
+      fillRect: vi.fn(),
+    } as unknown as CanvasRenderingContext2D;
+    setCanvasContext(context);
+    const { worker } = createService();
+
+    worker.reply({
+      type: 'frame',
+      frame: { commands: [{ type: 'fill', args: ['rgb(0, 0, 255)', null] }], images: [] },
+    });
+
+    expect(context.fillRect).toHaveBeenCalledWith(0, 0, 640, 360);
+    expect(context.fillStyle).toBe('rgb(0, 0, 255)');
+    expect(worker.sent.at(-1)).toMatchObject({
+      type: 'audio-state',
+      state: { busy: false, music: { busy: false } },
+    });
+  });
+
+  describe('stop', () => {
+    it('raises KeyboardInterrupt through the interrupt buffer when memory is shared', async () => {
+      vi.stubGlobal('crossOriginIsolated', true);
+      const { service, worker } = createService();
+      service.runSnippet({ code: 'while True: pass' });
+      await settle();
+
+      service.stop();
+
+      const interrupt = new Uint8Array(worker.init().interruptBuffer as SharedArrayBuffer);
+      expect(service.canInterrupt).toBe(true);
+      expect(interrupt[0]).toBe(SIGINT);
+      expect(worker.sent.at(-1)).toEqual({ type: 'stop' });
+    });
+
+    it('replaces a worker that will not stop when memory is not shared', async () => {
+      vi.useFakeTimers();
+      const { service, worker } = createService();
+      const snippet = service.runSnippet({ code: 'while True: pass' });
+      await vi.advanceTimersByTimeAsync(0);
+
+      service.stop();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(worker.terminated).toBe(true);
+      expect(FakeWorker.all).toHaveLength(2);
+      expect(await snippet).toEqual({ output: '', error: 'KeyboardInterrupt' });
+    });
+
+    it('leaves other runs alone when nothing is running', () => {
+      const { service, worker } = createService();
+      service.stop();
+
+      expect(worker.sent.map((message) => message.type)).toEqual(['init']);
+    });
+  });
+
+  it('answers input() through shared memory', async () => {
+    vi.stubGlobal('crossOriginIsolated', true);
+    const { service, worker } = createService();
+    const prompts: string[] = [];
+    service.setStdinHandler(async (prompt) => {
+      prompts.push(prompt);
+      return 'Ada';
+    });
+
+    worker.reply({ type: 'stdin-request', prompt: 'Name? ' });
+    await settle();
+
+    expect(prompts).toEqual(['Name? ']);
+    expect(readStdin(worker.init().stdinBuffer as SharedArrayBuffer)).toBe('Ada');
+  });
+
+  it('never hands the answer to a stopped prompt to the next input()', async () => {
+    vi.stubGlobal('crossOriginIsolated', true);
+    const { service, worker } = createService();
+    const answers: Array<(line: string | null) => void> = [];
+    service.setStdinHandler(() => new Promise((resolve) => answers.push(resolve)));
+    service.runSnippet({ code: 'input(); input()' });
+    await settle();
+    const stdin = worker.init().stdinBuffer as SharedArrayBuffer;
+
+    worker.reply({ type: 'stdin-request', prompt: 'First? ' });
+    service.stop();
+    expect(readStdin(stdin)).toBeNull();
+
+    worker.reply({ type: 'stdin-request', prompt: 'Second? ' });
+    answers[0]('late');
+    answers[1]('on time');
+    await settle();
+    expect(readStdin(stdin)).toBe('on time');
+  });
+
+  it('only removes its own input handler', async () => {
+    vi.stubGlobal('crossOriginIsolated', true);
+    const { service, worker } = createService();
+    const removeFirst = service.setStdinHandler(async () => 'first');
+    service.setStdinHandler(async () => 'second');
+
+    removeFirst();
+    worker.reply({ type: 'stdin-request', prompt: '' });
+    await settle();
+
+    expect(readStdin(worker.init().stdinBuffer as SharedArrayBuffer)).toBe('second');
+  });
+
+  it('passes printed output to listeners', () => {
+    const { service, worker } = createService();
+    const heard: string[] = [];
+    const unsubscribe = service.subscribeOutput((text, stream) => heard.push(`${stream}:${text}`));
+
+    worker.reply({ type: 'stdout', text: 'hello' });
+    unsubscribe();
+    worker.reply({ type: 'stderr', text: 'ignored' });
+
+    expect(heard).toEqual(['stdout:hello']);
+  });
+});
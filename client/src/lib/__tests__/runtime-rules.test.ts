@@ -0,0 +1,111 @@
+// Unit tests for runtime rule validation against output and execution traces
+
+import { describe, expect, it, vi } from 'vitest';
+import { validateRuntime } from '../grading/runtime';
+import type { ExecutionTrace } from '../grading/types';
+
+const trace: ExecutionTrace = {
+  bindings: { playerName: 'Ada', score: 3 },
+  calls: ['greet', 'Player.attack', 'console.log'],
+  inputsConsumed: ['Ada'],
+};
+
+describe('validateRuntime', () => {
+  it('checks printed output', async () => {
+    const result = await validateRuntime('Hello Ada, score 3', {
+      outputContains: ['Hello', 'Bye'],
+      outputMatches: 'score \\d+',
+    });
+
+    expect(result.errors).toEqual(['Output should contain: "Bye"']);
+  });
+
+  it('checks variables, calls and input against the trace', async () => {
+    const passing = await validateRuntime(
+      'Hello Ada',
+      {
+        variableExists: ['playerName', 'score'],
+        functionCalled: ['greet', 'attack'],
+        acceptsUserInput: true,
+        outputIncludesInput: true,
+      },
+      'Ada\nunused',
+      trace
+    );
+    expect(passing).toEqual({ passed: true, errors: [] });
+
+    const failing = await validateRuntime(
+      'Hello',
+      { variableExists: ['lives'], functionCalled: ['heal'], outputIncludesInput: true },
+      'Ada',
+      trace
+    );
+    expect(failing.errors).toEqual([
+      'Output should include what was typed in: "Ada"',
+      'Your program should create a variable called "lives"',
+      'Your program should call heal()',
+    ]);
+  });
+
+  it('requires that input was actually read', async () => {
+    const result = await validateRuntime('', { acceptsUserInput: true }, 'Ada', {
+      ...trace,
+      inputsConsumed: [],
+    });
+
+    expect(result.errors).toEqual(['Your program should ask the player for input']);
+  });
+
+  it('checks program state, scenes and collisions from a game run', async () => {
+    const gameTrace = {
+      ...trace,
+      bindings: { player: { x: 420, y: 300 }, gems: [1, 2], won: false },
+      game: { frames: 60, collisions: 0, scenes: ['menu', 'play'] },
+    };
+
+    const passing = await validateRuntime(
+      '',
+      {
+        stateChecks: [
+          { path: 'player.x', min: 400, max: 800 },
+          { path: 'gems.length', equals: 2 },
+        ],
+        sceneReached: 'play',
+      },
+      undefined,
+      gameTrace
+    );
+    expect(passing).toEqual({ passed: true, errors: [] });
+
+    const failing = await validateRuntime(
+      '',
+      {
+        stateChecks: [
+          { path: 'player.x', max: 100 },
+          { path: 'won', equals: true },
+          { path: 'player.health', min: 1 },
+        ],
+        sceneReached: 'gameOver',
+        collisionDetected: true,
+      },
+      undefined,
+      gameTrace
+    );
+    expect(failing.errors).toEqual([
+      'player.x should be at most 100, but it was 420',
+      'won should be true, but it was false',
+      'Your program should have player.health',
+      'Your game should switch to the "gameOver" scene',
+      'Something in your game should collide: collidesWith() never returned true',
+    ]);
+  });
+
+  it('skips state rules when the runner gave no trace', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = await validateRuntime('', { variableExists: ['score'] });
+
+    expect(result.passed).toBe(true);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
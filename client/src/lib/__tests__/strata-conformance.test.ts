@@ -0,0 +1,169 @@
+// Conformance tests pinning the Strata mock to the API the lessons teach
+
+import { parseLessons } from '@shared/lesson-schema';
+import { describe, expect, it, vi } from 'vitest';
+import lessonsJson from '../../../../public/api/static/lessons.json';
+import * as strata from '../strata-engine';
+import { typeCheckLessonCode } from '../typescript/type-check';
+import { createTypeScriptRunner } from '../typescript-runner';
+
+interface TaughtClass {
+  /** Arguments that construct a typical instance */
+  args: unknown[];
+  /** Properties and methods lessons and hints refer to */
+  members: string[];
+}
+
+/**
+ * The Strata API as the lessons teach it. Changing the mock's surface means changing this
+ * contract too, deliberately, in the same commit as the lessons that rely on it.
+ *
+ * This contract and the lesson solutions that run against the mock below are what stop the
+ * mock drifting. The @jbcom/strata package is a 3D toolkit with none of these classes, so its
+ * declarations have nothing to check the mock against.
+ */
+const TAUGHT_API: Record<string, TaughtClass> = {
+  Vector2: {
+    args: [3, 4],
+    members: ['x', 'y', 'add', 'scale', 'normalize', 'distanceTo', 'angleTo'],
+  },
+  Sprite: {
+    args: [{ x: 1, y: 2 }],
+    members: [
+      'x',
+      'y',
+      'width',
+      'height',
+      'color',
+      'velocity',
+      'onGround',
+      'addComponent',
+      'getComponent',
+      'collidesWith',
+      'takeDamage',
+    ],
+  },
+  Game: {
+    args: [{ width: 100, height: 100 }],
+    members: [
+      'width',
+      'height',
+      'title',
+      'backgroundColor',
+      'frame',
+      'onUpdate',
+      'onRender',
+      'isKeyDown',
+      'addSprite',
+      'removeSprite',
+      'getSprites',
+      'isRunning',
+      'isPaused',
+      'start',
+      'pause',
+      'resume',
+      'stop',
+      'gameOver',
+    ],
+  },
+  Gravity: { args: [{ strength: 100, terminal: 500 }], members: ['config', 'update'] },
+  PlatformerMovement: {
+    args: [{ speed: 100, jumpPower: 300, keys: {} }],
+    members: ['config', 'update'],
+  },
+  TopDownMovement: { args: [{ speed: 100, keys: {} }], members: ['config', 'update'] },
+  Health: {
+    args: [{ max: 10, current: 10, onDeath: () => {} }],
+    members: ['config', 'damage', 'heal'],
+  },
+  Sound: { args: ['coin.wav'], members: ['path', 'play'] },
+  Music: { args: ['theme.mp3'], members: ['path', 'play', 'pause', 'resume', 'stop'] },
+  Scene: { args: [], members: ['onEnter', 'onUpdate', 'onExit'] },
+  SceneManager: {
+    args: [new strata.Game({ width: 100, height: 100 })],
+    members: ['game', 'currentSceneName', 'register', 'switchTo'],
+  },
+};
+
+const STRATA_CODE = /@strata\/engine|new (Game|Sprite|Vector2)\(/;
+
+/** Every solution and preview in the lessons that uses Strata */
+function taughtSnippets(): { name: string; code: string }[] {
+  const snippets: { name: string; code: string }[] = [];
+  for (const lesson of parseLessons(lessonsJson, 'lessons.json')) {
+    if (lesson.previewCode && STRATA_CODE.test(lesson.previewCode)) {
+      snippets.push({ name: `${lesson.id} preview`, code: lesson.previewCode });
+    }
+    for (const step of lesson.content.steps) {
+      if (STRATA_CODE.test(step.solution)) {
+        snippets.push({ name: `${lesson.id}/${step.id} solution`, code: step.solution });
+      }
+    }
+  }
+  return snippets;
+}
+
+describe('Strata mock surface', () => {
+  it('exports exactly the taught classes', () => {
+    expect(Object.keys(strata).sort()).toEqual(Object.keys(TAUGHT_API).sort());
+  });
+
+  it.each(Object.entries(TAUGHT_API))('%s has every taught member', (name, taught) => {
+    const cls = (strata as Record<string, unknown>)[name] as new (...args: unknown[]) => object;
+    expect(typeof cls).toBe('function');
+
+    const instance = new cls(...taught.args);
+    const missing = taught.members.filter((member) => !(member in instance));
+    expect(missing).toEqual([]);
+  });
+
+  it('Vector2 arithmetic returns new vectors', () => {
+    const v = new strata.Vector2(3, 4);
+
+    expect(v.add(new strata.Vector2(1, 1))).toMatchObject({ x: 4, y: 5 });
+    expect(v.scale(2)).toMatchObject({ x: 6, y: 8 });
+    expect(v.normalize()).toMatchObject({ x: 0.6, y: 0.8 });
+    expect(v).toMatchObject({ x: 3, y: 4 });
+  });
+
+  it('Music only changes state through valid transitions', () => {
+    const sent: strata.AudioCommand['action'][] = [];
+    class RecordedMusic extends strata.Music {
+      protected output(command: strata.AudioCommand): void {
+        sent.push(command.action);
+      }
+    }
+
+    const music = new RecordedMusic('theme.mp3');
+    music.resume();
+    music.play({ loop: true, volume: 0.5 });
+    music.pause();
+    music.pause();
+    music.resume();
+    music.stop();
+    music.stop();
+
+    expect(sent).toEqual(['play', 'pause', 'resume', 'stop']);
+  });
+});
+
+describe('lesson code against the mock', () => {
+  const snippets = taughtSnippets();
+
+  it('finds the Strata lessons', () => {
+    expect(snippets.length).toBeGreaterThan(0);
+  });
+
+  it.each(snippets)('$name type-checks', async ({ code }) => {
+    expect(await typeCheckLessonCode(code)).toEqual([]);
+  }, 30000);
+
+  it.each(snippets)('$name runs', async ({ code }) => {
+    const runner = createTypeScriptRunner();
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const result = await runner.runSnippet(code, { simulation: { frames: 30 } });
+    log.mockRestore();
+
+    expect(result.error).toBeNull();
+  });
+});
@@ -0,0 +1,187 @@
+// Unit tests for the Strata engine mock's game loop and components
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  Game,
+  Gravity,
+  Health,
+  PlatformerMovement,
+  Sprite,
+  TopDownMovement,
+} from '../strata-engine';
+
+const games: Game[] = [];
+
+function createGame(): Game {
+  const game = new Game({ width: 200, height: 100 });
+  games.push(game);
+  return game;
+}
+
+describe('Strata Game', () => {
+  afterEach(() => {
+    for (const game of games.splice(0)) game.stop();
+  });
+
+  it('applies velocities and then runs update callbacks with dt', () => {
+    const game = createGame();
+    const sprite = new Sprite({ x: 0, y: 0 });
+    sprite.velocity.x = 60;
+    game.addSprite(sprite);
+
+    const seen: number[] = [];
+    game.onUpdate((dt) => seen.push(sprite.x + dt));
+    game.update(0.5);
+
+    expect(sprite.x).toBe(30);
+    expect(seen).toEqual([30.5]);
+  });
+
+  it('stops updating removed sprites', () => {
+    const game = createGame();
+    const sprite = new Sprite();
+    sprite.velocity.x = 10;
+    game.addSprite(sprite);
+    game.removeSprite(sprite);
+    game.update(1);
+
+    expect(sprite.x).toBe(0);
+    expect(game.getSprites()).toEqual([]);
+  });
+
+  it('draws the background, sprites and render callbacks', () => {
+    const game = createGame();
+    game.addSprite(new Sprite({ x: 5, y: 6, width: 7, height: 8, color: '#fff' }));
+    const onRender = vi.fn();
+    game.onRender(onRender);
+
+    const ctx = { fillStyle: '', fillRect: vi.fn() };
+    const canvas = { width: 0, height: 0, getContext: () => ctx };
+    game.attachCanvas(canvas as unknown as HTMLCanvasElement);
+    game.render();
+
+    expect(canvas).toMatchObject({ width: 200, height: 100 });
+    expect(ctx.fillRect.mock.calls).toEqual([
+      [0, 0, 200, 100],
+      [5, 6, 7, 8],
+    ]);
+    expect(onRender).toHaveBeenCalledWith(ctx);
+  });
+
+  it('steps one frame at a time while paused', () => {
+    const game = createGame();
+    const update = vi.fn();
+    game.onUpdate(update);
+    game.start();
+    game.pause();
+
+    game.stepFrame();
+    game.stepFrame();
+
+    expect(update).toHaveBeenCalledTimes(2);
+    expect(game.frame).toBe(2);
+    expect(game.isPaused()).toBe(true);
+  });
+
+  it('runs frames on its own once started', async () => {
+    const game = createGame();
+    const update = vi.fn();
+    game.onUpdate(update);
+    game.start();
+
+    await vi.waitFor(() => expect(update).toHaveBeenCalledTimes(3));
+    game.stop();
+    expect(game.isRunning()).toBe(false);
+  });
+
+  it('stops the loop when a callback throws', () => {
+    const game = createGame();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    game.onUpdate(() => {
+      throw new Error('boom');
+    });
+    game.start();
+    game.pause();
+    game.stepFrame();
+
+    expect(game.isRunning()).toBe(false);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
+
+describe('Strata components', () => {
+  it('Gravity accelerates up to terminal velocity and lands on the floor', () => {
+    const game = createGame();
+    const sprite = new Sprite({ x: 0, y: 0, height: 20 });
+    const gravity = new Gravity({ strength: 100, terminal: 150 });
+    sprite.addComponent(gravity);
+    game.addSprite(sprite);
+
+    game.update(0.1);
+    expect(sprite.velocity.y).toBe(10);
+    expect(sprite.y).toBe(1);
+
+    gravity.update(sprite, game, 5);
+    expect(sprite.velocity.y).toBe(150);
+
+    game.update(1);
+    expect(sprite.velocity.y).toBe(0);
+    expect(sprite.y).toBe(80);
+    expect(sprite.onGround).toBe(true);
+  });
+
+  it('PlatformerMovement runs with the arrow keys and only jumps from the ground', () => {
+    const game = createGame();
+    const sprite = new Sprite({ x: 50, y: 68, height: 32 });
+    sprite.addComponent(new Gravity({ strength: 10, terminal: 500 }));
+    sprite.addComponent(new PlatformerMovement({ speed: 40, jumpPower: 200, keys: {} }));
+    game.addSprite(sprite);
+
+    game.setKeyDown('ArrowRight', true);
+    game.update(0.5);
+    expect(sprite.x).toBe(70);
+    expect(sprite.onGround).toBe(true);
+
+    game.setKeyDown('ArrowUp', true);
+    game.update(0.1);
+    expect(sprite.velocity.y).toBeLessThan(0);
+    expect(sprite.onGround).toBe(false);
+
+    const risingSpeed = sprite.velocity.y;
+    game.update(0.1);
+    expect(sprite.velocity.y).toBeGreaterThan(risingSpeed);
+  });
+
+  it('TopDownMovement uses custom keys and normalizes diagonals', () => {
+    const game = createGame();
+    const sprite = new Sprite({ x: 0, y: 0 });
+    sprite.addComponent(new TopDownMovement({ speed: 10, keys: { right: 'l', down: 'j' } }));
+    game.addSprite(sprite);
+
+    game.setKeyDown('l', true);
+    game.setKeyDown('j', true);
+    game.update(1);
+
+    expect(sprite.x).toBeCloseTo(Math.SQRT1_2 * 10);
+    expect(sprite.y).toBeCloseTo(Math.SQRT1_2 * 10);
+  });
+
+  it('Health takes damage through the sprite and calls onDeath once', () => {
+    const onDeath = vi.fn();
+    const health = new Health({ max: 10, current: 10, onDeath });
+    const sprite = new Sprite();
+    sprite.addComponent(health);
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    sprite.takeDamage(4);
+    expect(health.config.current).toBe(6);
+    sprite.takeDamage(20);
+    sprite.takeDamage(1);
+    health.heal(5);
+
+    expect(health.config.current).toBe(0);
+    expect(onDeath).toHaveBeenCalledTimes(1);
+    log.mockRestore();
+  });
+});
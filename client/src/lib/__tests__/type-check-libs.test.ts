@@ -0,0 +1,31 @@
+// Tests that the type checker's standard library files are bundled by the app's own Vite config
+
+import { execFileSync } from 'node:child_process';
+import { describe, expect, it } from 'vitest';
+
+// Vite's esbuild doesn't run under jsdom, so the transform happens in a plain Node process
+const TRANSFORM = `
+import { createServer } from 'vite';
+const server = await createServer({
+  configFile: 'vite.config.ts',
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  logLevel: 'silent',
+});
+const result = await server.transformRequest('/src/lib/typescript/type-check.ts');
+await server.close();
+process.stdout.write(result.code);
+`;
+
+describe('type-check standard library files', () => {
+  // The app's Vite root is client/, not the repository root these tests run from
+  it('are found from the Vite root the app is built with', () => {
+    const code = execFileSync(process.execPath, ['--input-type=module', '-e', TRANSFORM], {
+      encoding: 'utf8',
+      timeout: 60000,
+    });
+
+    expect(code).toContain('typescript/lib/lib.es2020.d.ts?raw');
+    expect(code).toContain('typescript/lib/lib.dom.d.ts?raw');
+  }, 60000);
+});
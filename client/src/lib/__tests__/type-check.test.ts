@@ -0,0 +1,108 @@
+// Unit tests for lesson type-checking and beginner-friendly diagnostics
+
+import { describe, expect, it } from 'vitest';
+import { gradeCode } from '../grading';
+import { explainDiagnostic } from '../typescript/educational-diagnostics';
+import { typeCheckLessonCode } from '../typescript/type-check';
+import { createTypeScriptRunner } from '../typescript-runner';
+
+describe('typeCheckLessonCode', () => {
+  it('accepts well-typed code that uses the Strata globals', async () => {
+    const diagnostics = await typeCheckLessonCode(`
+const game = new Game({ width: 800, height: 600 });
+const player: Sprite = new Sprite({ x: 10, y: 20 });
+game.onUpdate((dt) => {
+  player.x += dt;
+});
+`);
+
+    expect(diagnostics).toEqual([]);
+  }, 30000);
+
+  it('reports a string assigned to a number field at the student position', async () => {
+    const diagnostics = await typeCheckLessonCode(`interface Player {
+  name: string;
+  health: number;
+}
+
+const player: Player = { name: 'Hero', health: 'full' };
+`);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ line: 6, column: 40, code: 2322 });
+  });
+
+  it('resolves imports from @strata/engine', async () => {
+    const diagnostics = await typeCheckLessonCode(`import { Vector2 } from '@strata/engine';
+const v = new Vector2(1, 2);
+v.add(3);
+`);
+
+    expect(diagnostics.map((d) => d.code)).toEqual([2345]);
+  });
+
+  it('does not collide with DOM globals', async () => {
+    const diagnostics = await typeCheckLessonCode(`const name: string = 'Hero';
+console.log(name);
+`);
+
+    expect(diagnostics).toEqual([]);
+  });
+});
+
+describe('explainDiagnostic', () => {
+  it('explains type mismatches in Pixel voice', () => {
+    const explanation = explainDiagnostic({
+      line: 6,
+      column: 40,
+      endLine: 6,
+      endColumn: 46,
+      code: 2322,
+      severity: 'error',
+      message: "Type 'string' is not assignable to type 'number'.",
+    });
+
+    expect(explanation.friendlyMessage).toContain('line 6');
+    expect(explanation.friendlyMessage).toContain('string');
+    expect(explanation.friendlyMessage).toContain('number');
+    expect(explanation.originalError).toContain('TS2322');
+  });
+
+  it('falls back to the compiler message for unknown codes', () => {
+    const explanation = explainDiagnostic({
+      line: 2,
+      column: 1,
+      endLine: 2,
+      endColumn: 5,
+      code: 9999,
+      severity: 'error',
+      message: 'Something unusual.',
+    });
+
+    expect(explanation.friendlyMessage).toContain('Something unusual.');
+  });
+});
+
+describe('gradeCode with typeCheck', () => {
+  it('fails the step and lists type errors', async () => {
+    const code = "const health: number = 'full';\nconsole.log(health);";
+    const result = await gradeCode({
+      code,
+      step: {
+        id: 'step-1',
+        title: 'Typed health',
+        description: '',
+        initialCode: '',
+        solution: '',
+        hints: [],
+        tests: [],
+      },
+      runner: createTypeScriptRunner(),
+      typeCheck: true,
+    });
+
+    expect(result.passed).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.details?.typeCheckResult?.diagnostics[0].line).toBe(1);
+  });
+});
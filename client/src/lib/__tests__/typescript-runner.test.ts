@@ -0,0 +1,477 @@
+// Unit tests for the lesson TypeScript runner
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  loadStrataModule,
+  runProgram,
+  type SandboxRequest,
+  type StrataModule,
+} from '../typescript/sandbox';
+import { createTypeScriptRunner, type GameEvent } from '../typescript-runner';
+
+/** Stands in for the sandbox worker; `hang` simulates a program that never finishes */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  static hang = false;
+
+  /** What a program reaches by posting through the worker's global object */
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  terminated = false;
+  received: SandboxRequest[] = [];
+  private strata: StrataModule | null = null;
+  private port: MessagePort | null = null;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: SandboxRequest) {
+    this.received.push(request);
+    if (request.type === 'init') {
+      this.port = request.port;
+      this.strata = loadStrataModule(request.strataModule);
+      return;
+    }
+    if (request.type !== 'run' || FakeWorker.hang || !this.strata) return;
+    this.port?.postMessage({ type: 'result', ...runProgram(request, this.strata) });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+describe('TypeScriptRunner', () => {
+  it('runs code that uses type annotations and interfaces', async () => {
+    const runner = createTypeScriptRunner();
+    const result = await runner.runSnippet(`
+interface Player {
+  name: string;
+  health: number;
+}
+
+const player: Player = { name: 'Hero', health: 100 };
+console.log(\`\${player.name} has \${player.health} HP\`);
+`);
+
+    expect(result.error).toBeNull();
+    expect(result.output).toBe('Hero has 100 HP');
+  });
+
+  it('resolves imports from the Strata engine', async () => {
+    const runner = createTypeScriptRunner();
+    const result = await runner.runSnippet(`import { Vector2 } from '@strata/engine';
+const v: Vector2 = new Vector2(3, 4);
+console.log(v.distanceTo(new Vector2(0, 0)));
+`);
+
+    expect(result.error).toBeNull();
+    expect(result.output).toBe('5');
+  });
+
+  it('reports syntax errors at the student line and column', async () => {
+    const runner = createTypeScriptRunner();
+    const result = await runner.runSnippet(`const health: number = 100;
+const name: string = 'Hero'
+let level: number = ;
+`);
+
+    expect(result.error).toMatch(/^SyntaxError: Line 3, column 21/);
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics?.[0]).toMatchObject({ line: 3, column: 21, severity: 'error' });
+  });
+
+  it('keeps output printed before a runtime error', async () => {
+    const runner = createTypeScriptRunner();
+    const result = await runner.runSnippet(`console.log('before');
+throw new Error('boom');
+`);
+
+    expect(result.output).toBe('before');
+    expect(result.error).toBe('boom');
+  });
+
+  it('rejects imports from unknown modules', async () => {
+    const runner = createTypeScriptRunner();
+    const result = await runner.runSnippet(`import fs from 'fs';
+console.log(fs);
+`);
+
+    expect(result.error).toContain("Cannot find module 'fs'");
+  });
+
+  describe('execution trace', () => {
+    it('captures the final value of top-level bindings', async () => {
+      const runner = createTypeScriptRunner();
+      const result = await runner.runSnippet(`let score: number = 10;
+score += 5;
+const [first, second] = ['sword', 'shield'];
+export const level = 3;
+`);
+
+      expect(result.trace?.bindings).toEqual({
+        score: 15,
+        first: 'sword',
+        second: 'shield',
+        level: 3,
+      });
+    });
+
+    it('logs calls to functions, arrow functions and class methods', async () => {
+      const runner = createTypeScriptRunner();
+      const result = await runner.runSnippet(`heal();
+function heal(): void {}
+const attack = (damage: number): number => damage * 2;
+class Player {
+  jump(): void {}
+}
+attack(5);
+new Player().jump();
+console.log('done');
+`);
+
+      expect(result.error).toBeNull();
+      expect(result.trace?.calls).toEqual(['heal', 'attack', 'Player.jump', 'console.log']);
+    });
+
+    it('feeds stdin to prompt() and records what was read', async () => {
+      const runner = createTypeScriptRunner();
+      const result = await runner.runSnippet(
+        `const name = prompt('Name?');
+const extra = prompt();
+const missing = prompt();
+console.log(name, extra, missing);
+`,
+        { input: 'Ada\nLovelace' }
+      );
+
+      expect(result.output).toBe('Ada Lovelace null');
+      expect(result.trace?.inputsConsumed).toEqual(['Ada', 'Lovelace']);
+    });
+  });
+
+  describe('sandbox', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      FakeWorker.instances = [];
+      FakeWorker.hang = false;
+    });
+
+    it('hides page globals from student code', async () => {
+      const runner = createTypeScriptRunner();
+      const result = await runner.runSnippet(
+        'console.log(typeof window, typeof document, typeof fetch);'
+      );
+
+      expect(result.output).toBe('undefined undefined undefined');
+    });
+
+    it('stops programs that print too much', async () => {
+      const runner = createTypeScriptRunner({ maxOutputChars: 100 });
+      const result = await runner.runSnippet("while (true) console.log('spam');");
+
+      expect(result.error).toContain('printed more than 100 characters');
+      expect(result.output.length).toBeLessThanOrEqual(100);
+    });
+
+    it('runs code in a worker that gets its own copy of Strata', async () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      const runner = createTypeScriptRunner();
+      const result = await runner.runSnippet(
+        'console.log(new Vector2(3, 4).distanceTo(new Vector2(0, 0)));'
+      );
+
+      expect(result).toMatchObject({ output: '5', error: null });
+      expect(FakeWorker.instances).toHaveLength(1);
+    });
+
+    it('terminates the worker when a run times out', async () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      FakeWorker.hang = true;
+      const runner = createTypeScriptRunner({ timeoutMs: 50 });
+      const result = await runner.runSnippet('while (true) {}');
+
+      expect(result.error).toContain('ran for more than 0.05 seconds');
+      expect(FakeWorker.instances[0].terminated).toBe(true);
+
+      FakeWorker.hang = false;
+      const next = await runner.runSnippet("console.log('fresh');");
+      expect(next.output).toBe('fresh');
+      expect(FakeWorker.instances).toHaveLength(2);
+    });
+
+    it('can be cancelled while running', async () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      FakeWorker.hang = true;
+      const runner = createTypeScriptRunner();
+      const running = runner.runSnippet('while (true) {}');
+
+      await vi.waitFor(() => expect(FakeWorker.instances).toHaveLength(1));
+      runner.cancel();
+
+      expect((await running).error).toContain('cancelled');
+      expect(FakeWorker.instances[0].terminated).toBe(true);
+    });
+
+    it('lets the later of two runs started together win, settling both', async () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      const runner = createTypeScriptRunner({ timeoutMs: 100 });
+
+      const [first, second] = await Promise.all([
+        runner.runSnippet("console.log('first');"),
+        runner.runSnippet("console.log('second');"),
+      ]);
+
+      expect(first.error).toContain('newer run started');
+      expect(second).toMatchObject({ output: 'second', error: null });
+      expect(FakeWorker.instances).toHaveLength(1);
+
+      // The first run's timer must not stop a later run as if it had timed out
+      FakeWorker.hang = true;
+      const third = runner.runSnippet('while (true) {}');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(FakeWorker.instances[0].terminated).toBe(false);
+      expect((await third).error).toContain('ran for more than');
+    });
+
+    it("ignores results a program posts from the worker's global object", async () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      FakeWorker.hang = true;
+      const runner = createTypeScriptRunner({ timeoutMs: 100 });
+      const running = runner.runSnippet(
+        "(function () {}).constructor('return this')().postMessage({});"
+      );
+
+      await vi.waitFor(() => expect(FakeWorker.instances).toHaveLength(1));
+      FakeWorker.instances[0].onmessage?.({
+        data: { type: 'result', id: 1, output: 'All tests passed', error: null },
+      });
+
+      expect((await running).error).toContain('ran for more than');
+    });
+  });
+
+  describe('headless simulation', () => {
+    const PLATFORMER = `const game = new Game({ width: 800, height: 600 });
+const player = new Sprite({ x: 100, y: 568 });
+player.addComponent(new Gravity({ strength: 1200, terminal: 900 }));
+player.addComponent(new PlatformerMovement({ speed: 120, jumpPower: 500, keys: {} }));
+game.addSprite(player);
+let jumps = 0;
+game.onUpdate(() => {
+  if (!player.onGround) jumps = Math.max(jumps, 1);
+});
+game.start();
+`;
+
+    it('drives keys from a scripted timeline at a fixed dt', async () => {
+      const runner = createTypeScriptRunner();
+      const result = await runner.runSnippet(PLATFORMER, {
+        simulation: {
+          frames: 60,
+          inputs: [
+            { key: 'ArrowRight', frame: 0, hold: 30 },
+            { key: 'Space', frame: 40 },
+          ],
+        },
+      });
+
+      expect(result.error).toBeNull();
+      expect(result.trace?.game?.frames).toBe(60);
+      const player = result.trace?.bindings.player as { x: number; y: number };
+      expect(player.x).toBeCloseTo(160);
+      expect(player.y).toBeLessThan(568);
+      expect(result.trace?.bindings.jumps).toBe(1);
+    });
+
+    it('seeds Math.random so every run places things the same way', async () => {
+      const runner = createTypeScriptRunner();
+      const code = 'const spots = [Math.random(), Math.random()];';
+      const run = (seed: number) => runner.runSnippet(code, { simulation: { frames: 1, seed } });
+
+      const [first, again, other] = await Promise.all([run(42), run(42), run(7)]);
+      expect(first.trace?.bindings.spots).toEqual(again.trace?.bindings.spots);
+      expect(first.trace?.bindings.spots).not.toEqual(other.trace?.bindings.spots);
+    });
+
+    it('records collisions and scene switches', async () => {
+      const runner = createTypeScriptRunner();
+      const result = await runner.runSnippet(
+        `const game = new Game({ width: 100, height: 100 });
+const scenes = new SceneManager(game);
+scenes.register('play', new Scene());
+scenes.register('win', new Scene());
+scenes.switchTo('play');
+const player = new Sprite({ x: 0, y: 0 });
+const gem = new Sprite({ x: 40, y: 0 });
+game.onUpdate(() => {
+  player.x += 10;
+  if (player.collidesWith(gem)) {
+    scenes.switchTo('win');
+    game.gameOver();
+  }
+});
+game.start();
+`,
+        { simulation: { frames: 100 } }
+      );
+
+      expect(result.trace?.game).toEqual({ frames: 1, collisions: 1, scenes: ['play', 'win'] });
+    });
+
+    it('reports errors thrown during the simulation', async () => {
+      const runner = createTypeScriptRunner();
+      const result = await runner.runSnippet(
+        `const game = new Game({ width: 100, height: 100 });
+game.onUpdate(() => { if (game.frame === 3) throw new Error('fell off the map'); });
+game.start();
+`,
+        { simulation: { frames: 10 } }
+      );
+
+      expect(result.error).toBe('fell off the map');
+      expect(result.trace?.game?.frames).toBe(4);
+    });
+  });
+
+  describe('games', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const GAME = `const game = new Game({ width: 100, height: 100 });
+const player = new Sprite({ x: 10, y: 10 });
+game.addSprite(player);
+game.onUpdate(() => {
+  if (game.isKeyDown('ArrowRight')) player.x += 5;
+  if (game.frame === 2) console.log('x is ' + player.x);
+});
+game.start();
+`;
+
+    it('keeps a started game running and streams its frames and output', async () => {
+      const runner = createTypeScriptRunner();
+      const events: GameEvent[] = [];
+      const result = await runner.runSnippet(GAME, {
+        canvas: document.createElement('canvas'),
+        onGameEvent: (event) => events.push(event),
+      });
+
+      expect(result).toMatchObject({ error: null, gameStarted: true });
+      runner.setGameKey('ArrowRight', true);
+      await vi.waitFor(() => expect(events).toContainEqual({ type: 'output', text: 'x is 25' }));
+
+      runner.controlGame('stop');
+      expect(events.at(-1)).toEqual({ type: 'stopped' });
+    });
+
+    it('pauses and steps one frame at a time', async () => {
+      const runner = createTypeScriptRunner();
+      const frames: number[] = [];
+      await runner.runSnippet(GAME, {
+        canvas: document.createElement('canvas'),
+        onGameEvent: (event) => {
+          if (event.type === 'frame') frames.push(event.frame);
+        },
+      });
+
+      runner.controlGame('pause');
+      const pausedAt = frames.length;
+      runner.controlGame('step');
+      runner.controlGame('step');
+
+      expect(frames.slice(pausedAt)).toEqual([pausedAt + 1, pausedAt + 2]);
+      runner.dispose();
+    });
+
+    it('stops the previous game when a run without a canvas starts', async () => {
+      const runner = createTypeScriptRunner();
+      const events: GameEvent[] = [];
+      await runner.runSnippet(GAME, {
+        canvas: document.createElement('canvas'),
+        onGameEvent: (event) => events.push(event),
+      });
+      await vi.waitFor(() => expect(events.some((event) => event.type === 'frame')).toBe(true));
+
+      await runner.runSnippet("console.log('next');");
+      expect(events.at(-1)).toEqual({ type: 'stopped' });
+
+      const seen = events.length;
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(events).toHaveLength(seen);
+    });
+
+    it('tells the worker to stop its game on every run', async () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      const runner = createTypeScriptRunner();
+      await runner.runSnippet("console.log('first');");
+      await runner.runSnippet("console.log('second');");
+
+      const [worker] = FakeWorker.instances;
+      expect(worker.received.map((request) => request.type)).toEqual([
+        'init',
+        'run',
+        'game',
+        'run',
+      ]);
+      expect(worker.received[2]).toEqual({ type: 'game', action: 'stop' });
+      runner.dispose();
+      FakeWorker.instances = [];
+    });
+
+    it('does not animate games started without a canvas', async () => {
+      const runner = createTypeScriptRunner();
+      const result = await runner.runSnippet(GAME);
+
+      expect(result.gameStarted).toBeFalsy();
+    });
+
+    it('plays game sounds on the page and silences them when the game stops', async () => {
+      const played: { src: string; volume: number; pause: ReturnType<typeof vi.fn> }[] = [];
+      vi.stubGlobal(
+        'Audio',
+        class {
+          volume = 1;
+          loop = false;
+          pause = vi.fn();
+          constructor(public src: string) {}
+          addEventListener() {}
+          play() {
+            played.push(this);
+            return Promise.resolve();
+          }
+        }
+      );
+      const runner = createTypeScriptRunner();
+      const events: GameEvent[] = [];
+      const result = await runner.runSnippet(
+        `${GAME}new Music('theme.mp3').play({ loop: true, volume: 0.5 });`,
+        { canvas: document.createElement('canvas'), onGameEvent: (event) => events.push(event) }
+      );
+
+      expect(result.output).toBe('');
+      expect(played).toMatchObject([{ src: 'theme.mp3', volume: 0.5 }]);
+      expect(events.some((event) => event.type === 'audio')).toBe(false);
+
+      runner.controlGame('stop');
+      expect(played[0].pause).toHaveBeenCalled();
+    });
+
+    it('reports errors thrown from game callbacks', async () => {
+      const runner = createTypeScriptRunner();
+      const events: GameEvent[] = [];
+      await runner.runSnippet(
+        `const game = new Game({ width: 100, height: 100 });
+game.onUpdate(() => { throw new Error('oops'); });
+game.start();
+`,
+        { canvas: document.createElement('canvas'), onGameEvent: (event) => events.push(event) }
+      );
+
+      await vi.waitFor(() =>
+        expect(events).toEqual([{ type: 'error', error: 'oops' }, { type: 'stopped' }])
+      );
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import type { ClaimRequest, ClaimResult } from '@shared/claim';
+import type { UserProfile, UserRole } from '@shared/schema';
+import { apiRequest, queryClient } from './queryClient';
+import { ANONYMOUS_USER_ID, getClientStorage } from './storage-mode';
+import {
+  clearUserProfile,
+  getUserProfile,
+  isUserProfileClaimed,
+  saveClaimedUserProfile,
+} from './user-profile';
+
+// Accounts on the server, and bringing what was done signed out along when someone signs in
+
+export interface AccountUser {
+  id: string;
+  username: string;
+  role?: UserRole;
+  profile?: UserProfile;
+}
+
+export interface SignInResult {
+  user: AccountUser;
+  /** What was claimed from this browser, or null if there was nothing (or claiming failed) */
+  claim: ClaimResult | null;
+}
+
+export const getCurrentUser = async (): Promise<AccountUser | null> => {
+  const res = await fetch('/api/me', { credentials: 'include' });
+  if (res.status === 401) return null;
+  if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+  return res.json();
+};
+
+// Progress, projects and profile kept in this browser, or null when there's nothing to claim.
+// The profile goes only if it was made signed out, not one an account already claimed.
+export const collectLocalData = async (): Promise<ClaimRequest | null> => {
+  const storage = getClientStorage();
+  const progress = await storage.getUserProgress(ANONYMOUS_USER_ID);
+  const projects = await storage.listProjects(ANONYMOUS_USER_ID);
+  const profile = isUserProfileClaimed() ? null : getUserProfile();
+  if (progress.length === 0 && projects.length === 0 && !profile) return null;
+
+  return {
+    progress: progress.map(({ lessonId, currentStep, completed, code }) => ({
+      lessonId,
+      currentStep,
+      completed,
+      code,
+    })),
+    projects,
+    profile,
+  };
+};
+
+// Move local data into the signed-in account. Local copies go only once the server has them,
+// so a failed claim is simply tried again at the next sign-in.
+export const claimLocalData = async (): Promise<ClaimResult | null> => {
+  const local = await collectLocalData();
+  if (!local) return null;
+
+  const res = await apiRequest('POST', '/api/claim', local);
+  const result: ClaimResult = await res.json();
+
+  await getClientStorage().removeUserData(ANONYMOUS_USER_ID);
+  // The wizard keeps reading the profile from localStorage, so it keeps the merged one, marked
+  // as the account's
+  if (result.profile) saveClaimedUserProfile(result.profile);
+  else if (local.profile) clearUserProfile();
+  queryClient.invalidateQueries({ queryKey: ['/api/progress'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+  return result;
+};
+
+const signInWith = async (
+  url: string,
+  details: { username: string; password: string; role?: UserRole; inviteCode?: string }
+): Promise<SignInResult> => {
+  const res = await apiRequest('POST', url, details);
+  const user: AccountUser = await res.json();
+  // A claimed profile left behind by whoever last signed in here isn't this account's
+  if (isUserProfileClaimed()) clearUserProfile();
+
+  let claim: ClaimResult | null = null;
+  try {
+    claim = await claimLocalData();
+  } catch (e) {
+    // Signing in still worked; the local data stays put for next time
+    console.error('Failed to claim local progress:', e);
+  }
+  // The wizard reads the profile from localStorage, so it gets the account's when there's none
+  if (user.profile && !getUserProfile()) saveClaimedUserProfile(user.profile);
+  queryClient.setQueryData(
+    ['/api/me'],
+    claim?.profile ? { ...user, profile: claim.profile } : user
+  );
+  return { user, claim };
+};
+
+// With the server's teacher invite code, the account is a teacher's
+export const register = (username: string, password: string, inviteCode?: string) =>
+  signInWith(
+    '/api/register',
+    inviteCode ? { username, password, role: 'teacher', inviteCode } : { username, password }
+  );
+
+export const signIn = (username: string, password: string) =>
+  signInWith('/api/login', { username, password });
+
+export const signOut = async (): Promise<void> => {
+  await apiRequest('POST', '/api/logout');
+  // Drop everything the account could see; pages watching who is signed in see nobody, and the
+  // next learner on this computer starts without this one's profile
+  clearUserProfile();
+  queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== '/api/me' });
+  queryClient.setQueryData(['/api/me'], null);
+};
@@ -11,8 +11,15 @@ class DataService {
     return this.storageAdapter;
   }
 
-  // Helper to make API requests in non-static mode
-  private async apiRequest(method: string, url: string, data?: any) {
+  // Helper to make API requests in non-static mode. Progress and projects need an account on
+  // the server, so signed-out learners keep theirs in this browser through `signedOut` until
+  // they sign in and claim it.
+  private async apiRequest(
+    method: string,
+    url: string,
+    data?: any,
+    signedOut?: (adapter: StorageAdapter) => Promise<any>
+  ) {
     const response = await fetch(url, {
       method,
       headers: {
@@ -21,6 +28,10 @@ class DataService {
       body: data ? JSON.stringify(data) : undefined,
     });
 
+    if (response.status === 401 && signedOut) {
+      return signedOut(this.getStorageAdapter());
+    }
+
     if (!response.ok) {
       throw new Error(`API request failed: ${response.statusText}`);
     }
@@ -48,21 +59,27 @@ class DataService {
     if (isStaticMode()) {
       return this.getStorageAdapter().getUserProgress();
     }
-    return this.apiRequest('GET', '/api/progress');
+    return this.apiRequest('GET', '/api/progress', undefined, (adapter) =>
+      adapter.getUserProgress()
+    );
   }
 
   async getUserProgressForLesson(lessonId: string) {
     if (isStaticMode()) {
       return this.getStorageAdapter().getUserProgressForLesson(lessonId);
     }
-    return this.apiRequest('GET', `/api/progress/${lessonId}`);
+    return this.apiRequest('GET', `/api/progress/${lessonId}`, undefined, (adapter) =>
+      adapter.getUserProgressForLesson(lessonId)
+    );
   }
 
   async updateUserProgress(lessonId: string, progressData: any) {
     if (isStaticMode()) {
       return this.getStorageAdapter().updateUserProgress(lessonId, progressData);
     }
-    return this.apiRequest('PUT', `/api/progress/${lessonId}`, progressData);
+    return this.apiRequest('PUT', `/api/progress/${lessonId}`, progressData, (adapter) =>
+      adapter.updateUserProgress(lessonId, progressData)
+    );
   }
 
   // Project methods
@@ -70,35 +87,43 @@ class DataService {
     if (isStaticMode()) {
       return this.getStorageAdapter().listProjects();
     }
-    return this.apiRequest('GET', '/api/projects');
+    return this.apiRequest('GET', '/api/projects', undefined, (adapter) => adapter.listProjects());
   }
 
   async getProject(id: string) {
     if (isStaticMode()) {
       return this.getStorageAdapter().getProject(id);
     }
-    return this.apiRequest('GET', `/api/projects/${id}`);
+    return this.apiRequest('GET', `/api/projects/${id}`, undefined, (adapter) =>
+      adapter.getProject(id)
+    );
   }
 
   async createProject(project: any) {
     if (isStaticMode()) {
       return this.getStorageAdapter().createProject(project);
     }
-    return this.apiRequest('POST', '/api/projects', project);
+    return this.apiRequest('POST', '/api/projects', project, (adapter) =>
+      adapter.createProject(project)
+    );
   }
 
   async updateProject(id: string, updates: any) {
     if (isStaticMode()) {
       return this.getStorageAdapter().updateProject(id, updates);
     }
-    return this.apiRequest('PUT', `/api/projects/${id}`, updates);
+    return this.apiRequest('PUT', `/api/projects/${id}`, updates, (adapter) =>
+      adapter.updateProject(id, updates)
+    );
   }
 
   async deleteProject(id: string) {
     if (isStaticMode()) {
       return this.getStorageAdapter().deleteProject(id);
     }
-    return this.apiRequest('DELETE', `/api/projects/${id}`);
+    return this.apiRequest('DELETE', `/api/projects/${id}`, undefined, (adapter) =>
+      adapter.deleteProject(id)
+    );
   }
 
   async listPublishedProjects() {
@@ -1,96 +1,300 @@
 /**
  * AST Validation for TypeScript
- * Simple regex-based validation for educational purposes.
- * Note: A full implementation would use the TypeScript compiler API.
+ * Walks the syntax tree built by the TypeScript compiler, so constructs mentioned in
+ * comments or strings never count and every failure points at the student's code.
  */
 
+import type * as TS from 'typescript';
+import { loadTypeScript, type TypeScriptCompiler } from '../typescript/compiler';
+import { LESSON_FILE_NAME } from '../typescript/transpile';
+import type {
+  AstConstructRule,
+  AstConstructType,
+  AstFailure,
+  AstRuleSet,
+  AstValidationResult,
+} from './types';
+
+interface ConstructMatcher {
+  label: string;
+  matches: (ts: TypeScriptCompiler, node: TS.Node, name?: string) => boolean;
+}
+
+const LOOP_METHODS = ['forEach', 'map', 'filter'];
+
+function textOf(node: TS.Node): string {
+  return node.getText().replace(/\s+/g, '');
+}
+
+function identifierName(ts: TypeScriptCompiler, node: TS.Node | undefined): string | undefined {
+  if (!node) return undefined;
+  if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) return node.text;
+  if (ts.isPropertyAccessExpression(node)) return node.name.text;
+  if (ts.isStringLiteral(node) || ts.isNumericLiteral(node)) return node.text;
+  return undefined;
+}
+
+function nameMatches(ts: TypeScriptCompiler, node: TS.Node | undefined, name?: string): boolean {
+  return !name || identifierName(ts, node) === name;
+}
+
+/** `console.log` matches "console.log", and also "log" when the rule gives no object */
+function calleeMatches(ts: TypeScriptCompiler, callee: TS.Expression, name?: string): boolean {
+  if (!name) return true;
+  if (textOf(callee) === name) return true;
+  return !name.includes('.') && identifierName(ts, callee) === name;
+}
+
+function isAnnotation(ts: TypeScriptCompiler, node: TS.Node): boolean {
+  const parent = node.parent;
+  if (!parent || !ts.isTypeNode(node)) return false;
+  return (
+    (ts.isVariableDeclaration(parent) ||
+      ts.isParameter(parent) ||
+      ts.isPropertySignature(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isFunctionLike(parent)) &&
+    (parent as { type?: TS.Node }).type === node
+  );
+}
+
+const constructMatchers: Record<AstConstructType, ConstructMatcher> = {
+  variable_declaration: {
+    label: 'variable declaration',
+    matches: (ts, node, name) => ts.isVariableDeclaration(node) && nameMatches(ts, node.name, name),
+  },
+  variable_assignment: {
+    label: 'variable assignment',
+    matches: (ts, node, name) =>
+      (ts.isVariableDeclaration(node) && !!node.initializer && nameMatches(ts, node.name, name)) ||
+      (ts.isBinaryExpression(node) &&
+        node.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+        node.operatorToken.kind <= ts.SyntaxKind.LastAssignment &&
+        nameMatches(ts, node.left, name)),
+  },
+  function_call: {
+    label: 'function call',
+    matches: (ts, node, name) =>
+      ts.isCallExpression(node) && calleeMatches(ts, node.expression, name),
+  },
+  method_call: {
+    label: 'method call',
+    matches: (ts, node, name) =>
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      nameMatches(ts, node.expression.name, name),
+  },
+  new_expression: {
+    label: '"new" expression',
+    matches: (ts, node, name) =>
+      ts.isNewExpression(node) && (!name || textOf(node.expression) === name),
+  },
+  interface_declaration: {
+    label: 'interface',
+    matches: (ts, node, name) =>
+      ts.isInterfaceDeclaration(node) && nameMatches(ts, node.name, name),
+  },
+  class_declaration: {
+    label: 'class',
+    matches: (ts, node, name) =>
+      (ts.isClassDeclaration(node) || ts.isClassExpression(node)) &&
+      nameMatches(ts, node.name, name),
+  },
+  function_declaration: {
+    label: 'function declaration',
+    matches: (ts, node, name) => ts.isFunctionDeclaration(node) && nameMatches(ts, node.name, name),
+  },
+  arrow_function: {
+    label: 'arrow function',
+    matches: (ts, node, name) =>
+      ts.isArrowFunction(node) &&
+      (!name || (ts.isVariableDeclaration(node.parent) && nameMatches(ts, node.parent.name, name))),
+  },
+  parameter: {
+    label: 'function parameter',
+    matches: (ts, node, name) => ts.isParameter(node) && nameMatches(ts, node.name, name),
+  },
+  return_statement: {
+    label: 'return statement',
+    matches: (ts, node) => ts.isReturnStatement(node),
+  },
+  constructor: {
+    label: 'constructor',
+    matches: (ts, node) => ts.isConstructorDeclaration(node),
+  },
+  method_definition: {
+    label: 'method',
+    matches: (ts, node, name) => ts.isMethodDeclaration(node) && nameMatches(ts, node.name, name),
+  },
+  extends_clause: {
+    label: '"extends" clause',
+    matches: (ts, node, name) =>
+      ts.isHeritageClause(node) &&
+      node.token === ts.SyntaxKind.ExtendsKeyword &&
+      (!name || node.types.some((type) => textOf(type.expression) === name)),
+  },
+  object_literal: {
+    label: 'object literal',
+    matches: (ts, node) => ts.isObjectLiteralExpression(node),
+  },
+  array_expression: {
+    label: 'array',
+    matches: (ts, node) => ts.isArrayLiteralExpression(node),
+  },
+  if_statement: {
+    label: '"if" statement',
+    matches: (ts, node) => ts.isIfStatement(node),
+  },
+  for_statement: {
+    label: '"for" loop',
+    matches: (ts, node) =>
+      ts.isForStatement(node) || ts.isForOfStatement(node) || ts.isForInStatement(node),
+  },
+  loop: {
+    label: 'loop (for, while, or array method)',
+    matches: (ts, node) =>
+      ts.isForStatement(node) ||
+      ts.isForOfStatement(node) ||
+      ts.isForInStatement(node) ||
+      ts.isWhileStatement(node) ||
+      ts.isDoStatement(node) ||
+      (ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        LOOP_METHODS.includes(node.expression.name.text)),
+  },
+  type_annotation: {
+    label: 'type annotation',
+    matches: (ts, node, name) => isAnnotation(ts, node) && (!name || textOf(node) === name),
+  },
+  template_literal: {
+    label: 'template literal (backticks)',
+    matches: (ts, node) =>
+      ts.isTemplateExpression(node) || ts.isNoSubstitutionTemplateLiteral(node),
+  },
+  f_string: {
+    label: 'template literal (backticks)',
+    matches: (ts, node) =>
+      ts.isTemplateExpression(node) || ts.isNoSubstitutionTemplateLiteral(node),
+  },
+  string_literal: {
+    label: 'string',
+    matches: (ts, node, name) =>
+      ts.isStringLiteral(node) &&
+      !ts.isImportDeclaration(node.parent) &&
+      !ts.isLiteralTypeNode(node.parent) &&
+      (!name || node.text === name),
+  },
+  import: {
+    label: 'import',
+    matches: (ts, node, name) =>
+      ts.isImportDeclaration(node) &&
+      (!name || (ts.isStringLiteral(node.moduleSpecifier) && node.moduleSpecifier.text === name)),
+  },
+};
+
+export function isSupportedConstruct(type: string): type is AstConstructType {
+  return type in constructMatchers;
+}
+
+function describe(rule: AstConstructRule): string {
+  const label = constructMatchers[rule.type].label;
+  return rule.name ? `${label} "${rule.name}"` : label;
+}
+
+function collectNodes(ts: TypeScriptCompiler, sourceFile: TS.SourceFile): TS.Node[] {
+  const nodes: TS.Node[] = [];
+  const visit = (node: TS.Node) => {
+    nodes.push(node);
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(sourceFile, visit);
+  return nodes;
+}
+
+function locate(sourceFile: TS.SourceFile, node: TS.Node): { line: number; column: number } {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  return { line: line + 1, column: character + 1 };
+}
+
 export async function validateAst(
   code: string,
-  astRules: any[] | undefined
-): Promise<{ passed: boolean; errors: string[] }> {
-  if (!astRules || astRules.length === 0) {
-    return { passed: true, errors: [] };
+  rules: AstRuleSet = {}
+): Promise<AstValidationResult> {
+  const required: AstConstructRule[] = [
+    ...(rules.requiredFunctions ?? []).map(
+      (name): AstConstructRule => ({ type: 'function_call', name })
+    ),
+    ...(rules.requiredConstructs ?? []),
+  ];
+  const forbidden = rules.forbiddenConstructs ?? [];
+
+  if (required.length === 0 && forbidden.length === 0) {
+    return { passed: true, errors: [], failures: [] };
+  }
+
+  const ts = await loadTypeScript();
+  const sourceFile = ts.createSourceFile(
+    LESSON_FILE_NAME,
+    code,
+    ts.ScriptTarget.ES2020,
+    true,
+    ts.ScriptKind.TS
+  );
+  const nodes = collectNodes(ts, sourceFile);
+
+  const failures: AstFailure[] = [];
+  const findMatches = (rule: AstConstructRule) =>
+    nodes.filter((node) => constructMatchers[rule.type].matches(ts, node, rule.name));
+
+  for (const rule of required) {
+    if (!isSupportedConstruct(rule.type)) {
+      console.warn(`Unknown AST construct type: ${rule.type}`);
+      continue;
+    }
+
+    const matches = findMatches(rule);
+    const minCount = rule.minCount ?? 1;
+
+    if (matches.length < minCount) {
+      failures.push({
+        rule,
+        message:
+          minCount > 1
+            ? `Missing required ${describe(rule)} (found ${matches.length}, need at least ${minCount})`
+            : `Missing required ${describe(rule)}`,
+      });
+    }
+
+    if (rule.maxCount !== undefined && matches.length > rule.maxCount) {
+      const firstExtra = matches[rule.maxCount];
+      failures.push({
+        rule,
+        message: `Too many of ${describe(rule)} (found ${matches.length}, at most ${rule.maxCount} allowed)`,
+        ...locate(sourceFile, firstExtra),
+      });
+    }
   }
 
-  const errors: string[] = [];
-
-  for (const rule of astRules) {
-    const ruleType = rule.type;
-    const name = rule.name;
-    const minCount = rule.minCount || 1;
-
-    let count = 0;
-
-    switch (ruleType) {
-      case 'variable_declaration':
-      case 'variable_assignment':
-        // Match const, let, var assignments
-        const varRegex = new RegExp(`(const\|let\|var)\\s+${name ? name : '[\\w$]+'}\\s*=`, 'g');
-        count = (code.match(varRegex) || []).length;
-        if (count < minCount) {
-          errors.push(`Missing required variable ${name ? `"${name}"` : 'declaration'}`);
-        }
-        break;
-
-      case 'function_call':
-        const funcRegex = new RegExp(`${name ? name.replace('.', '\\.') : '[\\w$]+'}\\s*\\(`, 'g');
-        count = (code.match(funcRegex) || []).length;
-        if (count < minCount) {
-          errors.push(`Missing required function call ${name ? `"${name}"` : ''}`);
-        }
-        break;
-
-      case 'interface_declaration':
-        const interfaceRegex = new RegExp(`interface\\s+${name ? name : '[\\w$]+'}\\s*{`, 'g');
-        count = (code.match(interfaceRegex) || []).length;
-        if (count < minCount) {
-          errors.push(`Missing required interface ${name ? `"${name}"` : 'declaration'}`);
-        }
-        break;
-
-      case 'class_declaration':
-        const classRegex = new RegExp(`class\\s+${name ? name : '[\\w$]+'}`, 'g');
-        count = (code.match(classRegex) || []).length;
-        if (count < minCount) {
-          errors.push(`Missing required class ${name ? `"${name}"` : 'declaration'}`);
-        }
-        break;
-
-      case 'if_statement':
-        count = (code.match(/if\s*\(/g) || []).length;
-        if (count < minCount) {
-          errors.push('Missing required "if" statement');
-        }
-        break;
-
-      case 'loop':
-        const loopRegex = /(for|while)\s*\(|(\.forEach|\.map|\.filter)\(/g;
-        count = (code.match(loopRegex) || []).length;
-        if (count < minCount) {
-          errors.push('Missing required loop (for, while, or array method)');
-        }
-        break;
-
-      case 'type_annotation':
-        // Match : string, : number, etc.
-        count = (code.match(/:\s*(string|number|boolean|any|[\w$]+)/g) || []).length;
-        if (count < minCount) {
-          errors.push('Missing required type annotations');
-        }
-        break;
-
-      case 'template_literal':
-      case 'f_string':
-        count = (code.match(/`[^`]*`/g) || []).length;
-        if (count < minCount) {
-          errors.push('Missing required template literal (backticks)');
-        }
-        break;
+  for (const rule of forbidden) {
+    if (!isSupportedConstruct(rule.type)) {
+      console.warn(`Unknown AST construct type: ${rule.type}`);
+      continue;
+    }
+
+    for (const node of findMatches(rule)) {
+      failures.push({
+        rule,
+        message: `Not allowed in this step: ${describe(rule)}`,
+        ...locate(sourceFile, node),
+      });
     }
   }
 
   return {
-    passed: errors.length === 0,
-    errors,
+    passed: failures.length === 0,
+    errors: failures.map((failure) =>
+      failure.line !== undefined ? `Line ${failure.line}: ${failure.message}` : failure.message
+    ),
+    failures,
   };
 }
@@ -1,17 +1,32 @@
+import { summarizeDiagnostic } from '../typescript/educational-diagnostics';
+import { typeCheckLessonCode } from '../typescript/type-check';
 import { validateAst } from './ast';
 import { validateRuntime } from './runtime';
-import type { GradeResult, GradingContext, TestSpec } from './types';
+import type {
+  AstValidationResult,
+  ExecutionTrace,
+  GradeResult,
+  GradingContext,
+  RunResult,
+  RuntimeValidationResult,
+  Simulation,
+  TestOutcome,
+  TestResult,
+  TestSpec,
+  TypeCheckResult,
+} from './types';
 
 export async function gradeCode(
   context: GradingContext,
-  preExecutionResult?: { output: string; error: string }
+  preExecutionResult?: RunResult
 ): Promise<GradeResult> {
-  const { code, step, input, runner } = context;
+  const { code, step, input, runner, typeCheck } = context;
 
   console.log('🎯 Starting grading for step:', step?.id);
 
   try {
     let actualOutput: string;
+    let trace: ExecutionTrace | undefined;
 
     // Use pre-execution result if provided to avoid double execution
     if (preExecutionResult) {
@@ -21,12 +36,14 @@ export async function gradeCode(
           feedback: `🐛 Your code has an error. Please fix it before checking.\n\nError: ${preExecutionResult.error}`,
           actualOutput: preExecutionResult.error,
           errors: [preExecutionResult.error],
+          details: { executionError: preExecutionResult.error },
         };
       }
       actualOutput = preExecutionResult.output;
+      trace = preExecutionResult.trace;
     } else {
       // Execute code to get output (fallback if no pre-execution result)
-      const executionResult = await runner.runSnippet(code);
+      const executionResult = await runner.runSnippet(code, { input });
 
       if (executionResult.error) {
         return {
@@ -34,10 +51,27 @@ export async function gradeCode(
           feedback: `🐛 Your code has an error. Please fix it before checking.\n\nError: ${executionResult.error}`,
           actualOutput: executionResult.error,
           errors: [executionResult.error],
+          details: { executionError: executionResult.error },
         };
       }
 
       actualOutput = executionResult.output;
+      trace = executionResult.trace;
+    }
+
+    // Type errors are what the TypeScript lessons teach, so they fail the check even
+    // when the transpiled JavaScript happens to run
+    if (typeCheck) {
+      const typeCheckResult = await checkTypes(code);
+      if (!typeCheckResult.passed) {
+        return {
+          passed: false,
+          feedback: `🧐 Pixel spotted some type mix-ups:\n${typeCheckResult.errors.map((error) => `• ${error}`).join('\n')}`,
+          actualOutput,
+          errors: typeCheckResult.errors,
+          details: { typeCheckResult },
+        };
+      }
     }
 
     // Check if step has tests
@@ -49,65 +83,73 @@ export async function gradeCode(
       };
     }
 
-    // Grade each test
-    const testResults = [];
-    let allTestsPassed = true;
+    // Every test gets its own run with its own stdin, so a program that only works for the
+    // example input can't pass tests that feed it something else. Game tests also get their
+    // own run, since their simulation changes the program's state
+    const testResults: GradedTest[] = [];
+    const baseline: TestExecution = { output: actualOutput, trace };
+    let details: GradeResult['details'];
 
     for (let i = 0; i < step.tests.length; i++) {
       const test: TestSpec = step.tests[i];
+      const testInput = test.input ?? input;
+      const execution =
+        test.input === undefined && !test.simulation
+          ? baseline
+          : await runIsolated(runner, code, testInput, test.simulation);
 
-      // Check if this test uses rule-based grading
-      if (test.mode === 'rules' && (test.astRules || test.runtimeRules)) {
-        const gradeResult = await gradeWithRules(code, test, actualOutput, input);
-        testResults.push({
-          testIndex: i,
-          passed: gradeResult.passed,
-          expectedOutput: test.expectedOutput,
-          actualOutput,
-          input: test.input,
-        });
+      const result: GradedTest = {
+        testIndex: i,
+        passed: false,
+        expectedOutput: test.expectedOutput,
+        actualOutput: execution.output,
+        input: test.input,
+        description: test.description,
+        hidden: test.hidden === true,
+        errors: [],
+      };
 
-        if (!gradeResult.passed) {
-          allTestsPassed = false;
+      if (execution.error) {
+        result.errors = [execution.error];
+        result.feedback = `🐛 Your code crashed on ${test.hidden ? 'a hidden test' : 'this input'}.\n\nError: ${execution.error}`;
+      } else if (test.mode === 'rules' && (test.astRules || test.runtimeRules)) {
+        // Check if this test uses rule-based grading
+        const gradeResult = await gradeWithRules(
+          code,
+          test,
+          execution.output,
+          testInput,
+          execution.trace
+        );
+        result.passed = gradeResult.passed;
+        result.feedback = gradeResult.feedback;
+        result.errors = gradeResult.errors;
+        if (!details || !gradeResult.passed) {
+          details = { astResult: gradeResult.astResult, runtimeResult: gradeResult.runtimeResult };
         }
       } else {
         // Use traditional exact output matching
         const expectedNormalized = test.expectedOutput.trim().replace(/\s+/g, ' ');
-        const actualNormalized = actualOutput.trim().replace(/\s+/g, ' ');
-        const testPassed = actualNormalized === expectedNormalized;
-
-        testResults.push({
-          testIndex: i,
-          passed: testPassed,
-          expectedOutput: test.expectedOutput,
-          actualOutput,
-          input: test.input,
-        });
-
-        if (!testPassed) {
-          allTestsPassed = false;
-        }
+        const actualNormalized = execution.output.trim().replace(/\s+/g, ' ');
+        result.passed = actualNormalized === expectedNormalized;
       }
-    }
 
-    // Generate feedback based on test results
-    let feedback = '';
-    if (allTestsPassed) {
-      feedback = '✅ Perfect! Your code passes all tests.';
-    } else {
-      const failedTests = testResults.filter((t) => !t.passed);
-      if (failedTests.length === 1) {
-        feedback = `❌ Test failed. Expected: "${failedTests[0].expectedOutput}" but got: "${failedTests[0].actualOutput}"`;
-      } else {
-        feedback = `❌ ${failedTests.length} out of ${testResults.length} tests failed. Check the expected output carefully.`;
-      }
+      testResults.push(result);
     }
 
+    const allTestsPassed = testResults.every((t) => t.passed);
+    const visibleTests = testResults.filter((t) => !t.hidden);
+    const firstVisibleFailure = visibleTests.find((t) => !t.passed);
+    const shownTest = firstVisibleFailure ?? visibleTests[0];
+    const ruleErrors = visibleTests.flatMap((t) => t.errors);
+
     return {
       passed: allTestsPassed,
-      feedback,
-      expectedOutput: step.tests[0]?.expectedOutput || '',
-      actualOutput,
+      feedback: describeTestResults(testResults),
+      expectedOutput: shownTest?.expectedOutput ?? '',
+      actualOutput: shownTest?.actualOutput ?? actualOutput,
+      errors: ruleErrors.length > 0 ? ruleErrors : undefined,
+      details: { ...details, tests: testResults.map(toTestOutcome) },
     };
   } catch (error) {
     console.error('🚨 Grading error:', error);
@@ -120,12 +162,95 @@ export async function gradeCode(
   }
 }
 
+interface GradedTest extends TestResult {
+  description?: string;
+  hidden: boolean;
+  feedback?: string;
+  errors: string[];
+}
+
+interface TestExecution {
+  output: string;
+  error?: string | null;
+  trace?: ExecutionTrace;
+}
+
+async function runIsolated(
+  runner: GradingContext['runner'],
+  code: string,
+  input?: string,
+  simulation?: Simulation
+): Promise<TestExecution> {
+  const result = await runner.runSnippet(code, { input, simulation });
+  return { output: result.output, error: result.error, trace: result.trace };
+}
+
+/** Hidden tests only report whether they passed, never their input or expected output */
+function toTestOutcome(test: GradedTest): TestOutcome {
+  if (test.hidden) {
+    return {
+      index: test.testIndex,
+      description: test.description,
+      hidden: true,
+      passed: test.passed,
+    };
+  }
+  return {
+    index: test.testIndex,
+    description: test.description,
+    hidden: false,
+    passed: test.passed,
+    input: test.input,
+    expectedOutput: test.expectedOutput,
+    actualOutput: test.actualOutput,
+    errors: test.errors.length > 0 ? test.errors : undefined,
+  };
+}
+
+function describeTestResults(testResults: GradedTest[]): string {
+  const failedTests = testResults.filter((t) => !t.passed);
+  if (failedTests.length === 0) {
+    return '✅ Perfect! Your code passes all tests.';
+  }
+
+  const failedVisible = failedTests.filter((t) => !t.hidden);
+  if (failedVisible.length === 0) {
+    return failedTests.length === 1
+      ? '🕵️ Your code works for the examples, but a hidden test found a case it gets wrong. Try other inputs!'
+      : `🕵️ Your code works for the examples, but ${failedTests.length} hidden tests found cases it gets wrong. Try other inputs!`;
+  }
+
+  if (failedTests.length === 1 && failedVisible[0].feedback) {
+    return failedVisible[0].feedback;
+  }
+  if (failedTests.length === 1) {
+    return `❌ Test failed. Expected: "${failedVisible[0].expectedOutput}" but got: "${failedVisible[0].actualOutput}"`;
+  }
+  return `❌ ${failedTests.length} out of ${testResults.length} tests failed. Check the expected output carefully.`;
+}
+
+async function checkTypes(code: string): Promise<TypeCheckResult> {
+  const diagnostics = (await typeCheckLessonCode(code)).filter((d) => d.severity === 'error');
+  return {
+    passed: diagnostics.length === 0,
+    errors: diagnostics.map(summarizeDiagnostic),
+    diagnostics,
+  };
+}
+
 async function gradeWithRules(
   code: string,
   test: TestSpec,
   actualOutput: string,
-  input?: string
-): Promise<{ passed: boolean; feedback: string }> {
+  input?: string,
+  trace?: ExecutionTrace
+): Promise<{
+  passed: boolean;
+  feedback: string;
+  errors: string[];
+  astResult?: AstValidationResult;
+  runtimeResult?: RuntimeValidationResult;
+}> {
   try {
     console.log('🔍 Grading with rules:', {
       astRules: test.astRules,
@@ -133,20 +258,10 @@ async function gradeWithRules(
     });
 
     // Validate AST if rules provided
-    let astResult = { passed: true, errors: [] as string[] };
-    if (test.astRules) {
-      // Handle both array and object formats for astRules
-      const rules = Array.isArray(test.astRules) ? test.astRules : [test.astRules];
-      astResult = await validateAst(code, rules);
-    }
+    const astResult = await validateAst(code, test.astRules);
 
     // Validate runtime if rules provided
-    let runtimeResult = { passed: true, errors: [] as string[] };
-    if (test.runtimeRules) {
-      // Handle both array and object formats for runtimeRules
-      const rules = Array.isArray(test.runtimeRules) ? test.runtimeRules : [test.runtimeRules];
-      runtimeResult = await validateRuntime(actualOutput, rules as any, input);
-    }
+    const runtimeResult = await validateRuntime(actualOutput, test.runtimeRules, input, trace);
 
     const overallPassed = astResult.passed && runtimeResult.passed;
     const allErrors = [...astResult.errors, ...runtimeResult.errors];
@@ -159,12 +274,39 @@ async function gradeWithRules(
     }
 
     console.log('🎯 Rule-based grading result:', { passed: overallPassed, feedback });
-    return { passed: overallPassed, feedback };
+    return { passed: overallPassed, feedback, errors: allErrors, astResult, runtimeResult };
   } catch (error) {
     console.error('🚨 Rule-based grading error:', error);
-    return {
-      passed: false,
-      feedback: `Rule validation failed: ${error instanceof Error ? error.message : String(error)}`,
-    };
+    const message = `Rule validation failed: ${error instanceof Error ? error.message : String(error)}`;
+    return { passed: false, feedback: message, errors: [message] };
   }
 }
+
+/**
+ * Short, stable names for what a failed grade tripped over, so attempts can be counted by rule:
+ * `compile_error` or `runtime_error` when the program didn't run, `type-check`,
+ * `ast:<construct>[ <name>]`, `runtime:<message>`, `test <n>` for an output mismatch, or
+ * `error` when grading itself gave up. Empty when the result passed.
+ */
+export function failedRules(result: GradeResult): string[] {
+  if (result.passed) return [];
+
+  const { details } = result;
+  if (details?.executionError) {
+    return [details.executionError.startsWith('SyntaxError:') ? 'compile_error' : 'runtime_error'];
+  }
+  if (details?.typeCheckResult && !details.typeCheckResult.passed) return ['type-check'];
+
+  const rules = [
+    ...(details?.astResult?.failures ?? []).map(({ rule }) =>
+      rule.name ? `ast:${rule.type} ${rule.name}` : `ast:${rule.type}`
+    ),
+    ...(details?.runtimeResult?.errors ?? []).map((error) => `runtime:${error}`),
+  ];
+  if (rules.length > 0) return [...new Set(rules)];
+
+  const failedTests = (details?.tests ?? []).filter((test) => !test.passed);
+  if (failedTests.length > 0) return failedTests.map((test) => `test ${test.index + 1}`);
+
+  return ['error'];
+}
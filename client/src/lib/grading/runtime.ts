@@ -1,9 +1,89 @@
+import type { ExecutionTrace, RuntimeRuleSet, RuntimeValidationResult, StateCheck } from './types';
+
+/** `attack` matches a call to `attack` as well as to a method like `Player.attack` */
+function wasCalled(trace: ExecutionTrace, name: string): boolean {
+  return trace.calls.some((call) => call === name || call.endsWith(`.${name}`));
+}
+
+/** Follow a path like `player.x` or `gems.length` through the program's top-level values */
+function readPath(
+  bindings: Record<string, unknown>,
+  path: string
+): { found: boolean; value?: unknown } {
+  const [name, ...keys] = path.split('.');
+  if (!(name in bindings)) return { found: false };
+
+  let value: unknown = bindings[name];
+  for (const key of keys) {
+    if (value === null || typeof value !== 'object' || !(key in value)) return { found: false };
+    value = (value as Record<string, unknown>)[key];
+  }
+  return { found: true, value };
+}
+
+function checkState(bindings: Record<string, unknown>, check: StateCheck): string | null {
+  const { found, value } = readPath(bindings, check.path);
+  if (!found) {
+    return `Your program should have ${check.path}`;
+  }
+
+  const shown = JSON.stringify(value);
+  if (check.equals !== undefined && value !== check.equals) {
+    return `${check.path} should be ${JSON.stringify(check.equals)}, but it was ${shown}`;
+  }
+  if (check.min !== undefined && !(typeof value === 'number' && value >= check.min)) {
+    return `${check.path} should be at least ${check.min}, but it was ${shown}`;
+  }
+  if (check.max !== undefined && !(typeof value === 'number' && value <= check.max)) {
+    return `${check.path} should be at most ${check.max}, but it was ${shown}`;
+  }
+  return null;
+}
+
+/** Rules about what the program did rather than what it printed */
+function validateProgramState(trace: ExecutionTrace, runtimeRules: RuntimeRuleSet): string[] {
+  const errors: string[] = [];
+
+  for (const name of runtimeRules.variableExists ?? []) {
+    if (!(name in trace.bindings)) {
+      errors.push(`Your program should create a variable called "${name}"`);
+    }
+  }
+
+  for (const name of runtimeRules.functionCalled ?? []) {
+    if (!wasCalled(trace, name)) {
+      errors.push(`Your program should call ${name}()`);
+    }
+  }
+
+  if (runtimeRules.acceptsUserInput && trace.inputsConsumed.length === 0) {
+    errors.push('Your program should ask the player for input');
+  }
+
+  for (const check of runtimeRules.stateChecks ?? []) {
+    const error = checkState(trace.bindings, check);
+    if (error) errors.push(error);
+  }
+
+  const scenes = trace.game?.scenes ?? [];
+  if (runtimeRules.sceneReached !== undefined && !scenes.includes(runtimeRules.sceneReached)) {
+    errors.push(`Your game should switch to the "${runtimeRules.sceneReached}" scene`);
+  }
+
+  if (runtimeRules.collisionDetected && !trace.game?.collisions) {
+    errors.push('Something in your game should collide: collidesWith() never returned true');
+  }
+
+  return errors;
+}
+
 export async function validateRuntime(
   output: string,
-  runtimeRules: any[] | undefined,
-  input?: string
-): Promise<{ passed: boolean; errors: string[] }> {
-  if (!runtimeRules || runtimeRules.length === 0) {
+  runtimeRules: RuntimeRuleSet | undefined,
+  input?: string,
+  trace?: ExecutionTrace
+): Promise<RuntimeValidationResult> {
+  if (!runtimeRules || Object.keys(runtimeRules).length === 0) {
     console.log('🔍 Runtime validation skipped: no runtimeRules');
     return { passed: true, errors: [] };
   }
@@ -17,67 +97,41 @@ export async function validateRuntime(
   const errors: string[] = [];
 
   try {
-    for (const rule of runtimeRules) {
-      const ruleName = rule.rule;
-      const params = rule.params || {};
-
-      switch (ruleName) {
-        case 'contains_text': {
-          const expectedText = params.text;
-          if (!output.includes(expectedText)) {
-            errors.push(`Output should contain: "${expectedText}"`);
-          }
-          break;
-        }
-
-        case 'matches_pattern': {
-          const pattern = new RegExp(params.pattern);
-          if (!pattern.test(output)) {
-            errors.push(`Output should match pattern: ${params.pattern}`);
-          }
-          break;
-        }
-
-        case 'has_length': {
-          const expectedLength = params.length;
-          const actualLength = output.trim().split('\n').length;
-          if (actualLength !== expectedLength) {
-            errors.push(`Output should have ${expectedLength} lines, but has ${actualLength}`);
-          }
-          break;
-        }
+    for (const expectedText of runtimeRules.outputContains ?? []) {
+      if (!output.includes(expectedText)) {
+        errors.push(`Output should contain: "${expectedText}"`);
+      }
+    }
 
-        case 'is_numeric': {
-          const numericValue = parseFloat(output.trim());
-          if (isNaN(numericValue)) {
-            errors.push('Output should be a valid number');
-          }
-          break;
-        }
+    if (runtimeRules.outputMatches !== undefined) {
+      const pattern = new RegExp(runtimeRules.outputMatches);
+      if (!pattern.test(output)) {
+        errors.push(`Output should match pattern: ${runtimeRules.outputMatches}`);
+      }
+    }
 
-        case 'equals_value': {
-          const expectedValue = params.value;
-          const normalizedOutput = output.trim().replace(/\s+/g, ' ');
-          const normalizedExpected = String(expectedValue).trim().replace(/\s+/g, ' ');
-          if (normalizedOutput !== normalizedExpected) {
-            errors.push(`Expected: "${expectedValue}", but got: "${output.trim()}"`);
-          }
-          break;
+    if (runtimeRules.outputIncludesInput) {
+      // Prefer what the program actually read over everything that was offered to it
+      const typedIn = trace ? trace.inputsConsumed : (input ?? '').split('\n');
+      for (const line of typedIn.map((value) => value.trim()).filter(Boolean)) {
+        if (!output.includes(line)) {
+          errors.push(`Output should include what was typed in: "${line}"`);
         }
+      }
+    }
 
-        case 'range_check': {
-          const value = parseFloat(output.trim());
-          const min = params.min;
-          const max = params.max;
-          if (isNaN(value) || value < min || value > max) {
-            errors.push(`Output should be a number between ${min} and ${max}`);
-          }
-          break;
-        }
+    const needsTrace =
+      runtimeRules.variableExists?.length ||
+      runtimeRules.functionCalled?.length ||
+      runtimeRules.acceptsUserInput ||
+      runtimeRules.stateChecks?.length ||
+      runtimeRules.sceneReached !== undefined ||
+      runtimeRules.collisionDetected;
 
-        default:
-          console.warn(`Unknown runtime rule: ${ruleName}`);
-      }
+    if (needsTrace && !trace) {
+      console.warn('Runtime rules about program state skipped: the runner gave no execution trace');
+    } else if (trace) {
+      errors.push(...validateProgramState(trace, runtimeRules));
     }
 
     const passed = errors.length === 0;
@@ -1,14 +1,84 @@
-export interface TestSpec {
-  expectedOutput: string;
-  input?: string;
-  mode?: 'rules' | 'output';
-  astRules?: any[];
-  runtimeRules?: any[];
+import type {
+  AstConstructRule,
+  AstConstructType,
+  AstRuleSet,
+  LessonStep,
+  LessonTest,
+  RuntimeRuleSet,
+  Simulation,
+  StateCheck,
+} from '@shared/schema';
+import type { CodeDiagnostic } from '../typescript/diagnostics';
+
+export type {
+  AstConstructRule,
+  AstConstructType,
+  AstRuleSet,
+  RuntimeRuleSet,
+  Simulation,
+  StateCheck,
+};
+
+/** What a runner observed while executing the student's program */
+export interface ExecutionTrace {
+  /** Top-level names the program defined, with their values once it finished */
+  bindings: Record<string, unknown>;
+  /** Instrumented functions in the order they were called, e.g. `greet` or `Player.attack` */
+  calls: string[];
+  /** Lines of stdin the program read */
+  inputsConsumed: string[];
+  /** What the program's Strata games did; absent for runners without Strata */
+  game?: GameReport;
+}
+
+export interface GameReport {
+  /** Frames simulated for a test; fewer than asked for if every game stopped early */
+  frames: number;
+  /** collidesWith() checks that came back true */
+  collisions: number;
+  /** Scenes switched to, in order */
+  scenes: string[];
+}
+
+export interface AstFailure {
+  rule: AstConstructRule;
+  message: string;
+  /** 1-based location of the offending code; absent when something is missing */
+  line?: number;
+  column?: number;
+}
+
+export interface AstValidationResult {
+  passed: boolean;
+  errors: string[];
+  failures: AstFailure[];
+}
+
+export type TestSpec = LessonTest;
+
+export type RuleBasedSpec = Pick<LessonTest, 'astRules' | 'runtimeRules'>;
+
+export interface RuntimeValidationResult {
+  passed: boolean;
+  errors: string[];
 }
 
-export interface RuleBasedSpec {
-  astRules?: any[];
-  runtimeRules?: any[];
+export interface TypeCheckResult {
+  passed: boolean;
+  errors: string[];
+  diagnostics: CodeDiagnostic[];
+}
+
+/** Per-test result shown to the learner; hidden tests leave out their input and outputs */
+export interface TestOutcome {
+  index: number;
+  description?: string;
+  hidden: boolean;
+  passed: boolean;
+  input?: string;
+  expectedOutput?: string;
+  actualOutput?: string;
+  errors?: string[];
 }
 
 export interface GradeResult {
@@ -18,8 +88,12 @@ export interface GradeResult {
   actualOutput?: string;
   errors?: string[];
   details?: {
-    astResult?: { passed: boolean; errors: string[] };
-    runtimeResult?: { passed: boolean; errors: string[] };
+    astResult?: AstValidationResult;
+    runtimeResult?: RuntimeValidationResult;
+    typeCheckResult?: TypeCheckResult;
+    tests?: TestOutcome[];
+    /** Why the program didn't run to the end: a compile error or one it threw */
+    executionError?: string;
   };
 }
 
@@ -31,9 +105,26 @@ export interface TestResult {
   input?: string;
 }
 
+/** What grading needs back from running the student's program */
+export interface RunResult {
+  output: string;
+  error: string | null;
+  trace?: ExecutionTrace;
+}
+
+/** Runs the student's program for grading; TypeScriptRunner is one */
+export interface GradingRunner {
+  runSnippet(
+    code: string,
+    options: { input?: string; simulation?: Simulation }
+  ): Promise<RunResult>;
+}
+
 export interface GradingContext {
   code: string;
-  step: any;
+  step: LessonStep;
   input?: string;
-  runner: any;
+  runner: GradingRunner;
+  /** Run the TypeScript checker over the code and fail on type errors */
+  typeCheck?: boolean;
 }
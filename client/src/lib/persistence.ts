@@ -293,7 +293,7 @@ export function loadUserPreferences(): UserPreferences {
     return {
       theme: (theme as 'light' | 'dark' | 'system') || 'system',
       dismissedTips: dismissedTipsStr ? JSON.parse(dismissedTipsStr) : [],
-      soundEnabled: soundEnabled === 'true',
+      soundEnabled: soundEnabled !== 'false', // Default to true
       autoSaveEnabled: autoSaveEnabled !== 'false', // Default to true
     };
   } catch (error) {
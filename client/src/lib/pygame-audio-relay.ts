@@ -0,0 +1,248 @@
+/**
+ * pygame.mixer for programs running in the Pyodide worker. WebAudio only exists on the page,
+ * so the worker's mixer sends each call there to be played by pygameMixer. Sounds and
+ * channels are named by handles both sides agree on, and questions like get_busy() are
+ * answered from the state the page last reported, which is at most a frame old.
+ */
+
+import { PygameChannel, PygameSound, pygameMixer, resolveSoundUrl } from './pygame-audio';
+
+/** A call to make on the page: `target` is 'mixer', 'music' or a handle */
+export interface AudioCall {
+  target: string;
+  method: string;
+  args: unknown[];
+  /** Handle to keep the call's return value under */
+  result?: string;
+}
+
+export interface AudioState {
+  busy: boolean;
+  music: { busy: boolean; pos: number };
+  /** Per handle: whether a channel is playing, or a sound's length and channels */
+  handles: Record<string, { busy?: boolean; length?: number; channels?: number }>;
+}
+
+interface HandleRef {
+  audioHandle: string;
+}
+
+const EMPTY_STATE: AudioState = { busy: false, music: { busy: false, pos: -1 }, handles: {} };
+
+function isHandleRef(value: unknown): value is HandleRef {
+  return typeof value === 'object' && value !== null && 'audioHandle' in value;
+}
+
+function soundNotFound(path: string): Error {
+  return new Error(
+    `FileNotFoundError: No file '${path}' found in your project or the asset library`
+  );
+}
+
+/** Worker side: a pygame.mixer whose calls go to `send` */
+export function createMixerRelay(send: (call: AudioCall) => void) {
+  let state = EMPTY_STATE;
+  let nextHandle = 1;
+  let numChannels = 8;
+  let musicLoaded = false;
+  let musicVolume = 1;
+
+  const newHandle = (kind: string) => `${kind}:${nextHandle++}`;
+  // Sounds and channels travel as their handles
+  const toArgs = (args: unknown[]) =>
+    args.map((arg) =>
+      arg instanceof RelaySound || arg instanceof RelayChannel ? { audioHandle: arg.handle } : arg
+    );
+  const call = (target: string, method: string, args: unknown[], result?: string) =>
+    send({ target, method, args: toArgs(args), result });
+  const handleState = (handle: string) => state.handles[handle] ?? {};
+
+  class RelayChannel {
+    private volume = 1;
+    private sound: RelaySound | null = null;
+
+    constructor(readonly handle: string) {}
+
+    play(sound: RelaySound, ...options: unknown[]) {
+      this.sound = sound;
+      call(this.handle, 'play', [sound, ...options]);
+    }
+    stop() {
+      call(this.handle, 'stop', []);
+    }
+    pause() {
+      call(this.handle, 'pause', []);
+    }
+    unpause() {
+      call(this.handle, 'unpause', []);
+    }
+    fadeout(time: number) {
+      call(this.handle, 'fadeout', [time]);
+    }
+    set_volume(left: number, right?: number) {
+      this.volume = Math.max(0, Math.min(1, Number(left) || 0));
+      call(this.handle, 'set_volume', right === undefined ? [left] : [left, right]);
+    }
+    get_volume() {
+      return this.volume;
+    }
+    get_busy() {
+      return handleState(this.handle).busy ?? false;
+    }
+    get_sound() {
+      return this.get_busy() ? this.sound : null;
+    }
+  }
+
+  class RelaySound {
+    readonly handle = newHandle('sound');
+    readonly path: string;
+    private volume = 1;
+
+    constructor(file: string) {
+      this.path = String(file);
+      // Checked here, so a missing file fails on the line that loads it
+      if (resolveSoundUrl(this.path) === null) throw soundNotFound(this.path);
+      call('mixer', 'Sound', [this.path], this.handle);
+    }
+
+    /** The channel it plays on; pygame's None for "every channel busy" can't be known here */
+    play(...options: unknown[]) {
+      const channel = new RelayChannel(newHandle('channel'));
+      call(this.handle, 'play', options, channel.handle);
+      return channel;
+    }
+    stop() {
+      call(this.handle, 'stop', []);
+    }
+    fadeout(time: number) {
+      call(this.handle, 'fadeout', [time]);
+    }
+    set_volume(value: number) {
+      this.volume = Math.max(0, Math.min(1, Number(value) || 0));
+      call(this.handle, 'set_volume', [value]);
+    }
+    get_volume() {
+      return this.volume;
+    }
+    get_length() {
+      return handleState(this.handle).length ?? 0;
+    }
+    get_num_channels() {
+      return handleState(this.handle).channels ?? 0;
+    }
+  }
+
+  const mixer = {
+    init: () => call('mixer', 'init', []),
+    quit: () => call('mixer', 'quit', []),
+    get_init: () => [44100, -16, 2],
+    Sound: RelaySound,
+    Channel: (id: number) => {
+      if (id < 0 || id >= numChannels) throw new Error('IndexError: invalid channel index');
+      const channel = new RelayChannel(newHandle('channel'));
+      call('mixer', 'Channel', [id], channel.handle);
+      return channel;
+    },
+    set_num_channels: (count: number) => {
+      numChannels = count;
+      call('mixer', 'set_num_channels', [count]);
+    },
+    get_num_channels: () => numChannels,
+    find_channel: (force = false) => {
+      const channel = new RelayChannel(newHandle('channel'));
+      call('mixer', 'find_channel', [force], channel.handle);
+      return channel;
+    },
+    stop: () => call('mixer', 'stop', []),
+    pause: () => call('mixer', 'pause', []),
+    unpause: () => call('mixer', 'unpause', []),
+    fadeout: (time: number) => call('mixer', 'fadeout', [time]),
+    get_busy: () => state.busy,
+    music: {
+      load: (file: string) => {
+        if (resolveSoundUrl(String(file)) === null) throw soundNotFound(String(file));
+        musicLoaded = true;
+        call('music', 'load', [file]);
+      },
+      unload: () => {
+        musicLoaded = false;
+        call('music', 'unload', []);
+      },
+      play: (...options: unknown[]) => {
+        if (!musicLoaded) throw new Error('pygame.error: music not loaded');
+        call('music', 'play', options);
+      },
+      rewind: () => call('music', 'rewind', []),
+      stop: () => call('music', 'stop', []),
+      pause: () => call('music', 'pause', []),
+      unpause: () => call('music', 'unpause', []),
+      fadeout: (time: number) => call('music', 'fadeout', [time]),
+      set_volume: (value: number) => {
+        musicVolume = Math.max(0, Math.min(1, Number(value) || 0));
+        call('music', 'set_volume', [value]);
+      },
+      get_volume: () => musicVolume,
+      get_busy: () => state.music.busy,
+      get_pos: () => state.music.pos,
+    },
+  };
+
+  return {
+    mixer,
+    /** Take in what the page reported after its last frame */
+    receiveState: (next: AudioState) => {
+      state = next;
+    },
+  };
+}
+
+/** Page side: plays the worker's calls on pygameMixer and reports back what is playing */
+export class AudioRelayHost {
+  private readonly objects = new Map<string, unknown>();
+
+  apply({ target, method, args, result }: AudioCall): void {
+    const resolved = args.map((arg) =>
+      isHandleRef(arg) ? this.objects.get(arg.audioHandle) : arg
+    );
+    const owner = this.resolveTarget(target);
+    // Calls on a channel the page never had (no free one) do nothing, as on None
+    if (!owner) return;
+    try {
+      const value =
+        method === 'Sound'
+          ? new PygameSound(resolved[0] as string)
+          : (owner as Record<string, (...args: unknown[]) => unknown>)[method](...resolved);
+      if (result) this.objects.set(result, value);
+    } catch (error) {
+      console.warn(`🔇 mixer ${method} failed:`, error);
+    }
+  }
+
+  state(): AudioState {
+    const handles: AudioState['handles'] = {};
+    for (const [handle, object] of this.objects) {
+      if (object instanceof PygameSound) {
+        handles[handle] = { length: object.get_length(), channels: object.get_num_channels() };
+      } else if (object instanceof PygameChannel) {
+        handles[handle] = { busy: object.get_busy() };
+      }
+    }
+    return {
+      busy: pygameMixer.get_busy(),
+      music: { busy: pygameMixer.music.get_busy(), pos: pygameMixer.music.get_pos() },
+      handles,
+    };
+  }
+
+  /** Forget every sound and channel, e.g. before the next program runs */
+  reset(): void {
+    this.objects.clear();
+  }
+
+  private resolveTarget(target: string): unknown {
+    if (target === 'mixer') return pygameMixer;
+    if (target === 'music') return pygameMixer.music;
+    return this.objects.get(target);
+  }
+}
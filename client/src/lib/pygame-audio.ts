@@ -0,0 +1,526 @@
+/**
+ * pygame.mixer on WebAudio. Decoding a sound file is asynchronous but pygame's API is not,
+ * so a sound played before its file has arrived starts as soon as it does.
+ */
+
+import type { ProjectAsset } from '@shared/schema';
+import { normalizeAssetPath, PUBLIC_ASSET_PREFIX } from './pygame-images';
+
+// Channels a program has before it calls set_num_channels, as in pygame
+const DEFAULT_CHANNELS = 8;
+
+interface AudioOutput {
+  context: AudioContext;
+  /** Every channel and the music play through this, so muting is one gain change */
+  master: GainNode;
+}
+
+/** Python keyword arguments, which Pyodide passes to JavaScript as a trailing object */
+interface PlayOptions {
+  loops?: number;
+  maxtime?: number;
+  fade_ms?: number;
+}
+
+let output: AudioOutput | null = null;
+let soundEnabled = true;
+const projectSounds = new Map<string, string>();
+const buffers = new Map<string, Promise<AudioBuffer | null>>();
+
+/** The page's audio graph, created on first use; null where WebAudio doesn't exist */
+function getOutput(): AudioOutput | null {
+  if (!output) {
+    const Context =
+      globalThis.AudioContext ??
+      (globalThis as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!Context) return null;
+    const context = new Context();
+    const master = context.createGain();
+    master.gain.value = soundEnabled ? 1 : 0;
+    master.connect(context.destination);
+    output = { context, master };
+  }
+  // Browsers hold audio back until the page has been interacted with
+  if (output.context.state === 'suspended') {
+    output.context.resume().catch(() => {});
+  }
+  return output;
+}
+
+/** Turn every pygame sound on or off; follows UserPreferences.soundEnabled */
+export function setSoundEnabled(enabled: boolean): void {
+  soundEnabled = enabled;
+  if (output) output.master.gain.value = enabled ? 1 : 0;
+}
+
+export function isSoundEnabled(): boolean {
+  return soundEnabled;
+}
+
+/** Make the project's own sounds loadable by their path or file name */
+export function setProjectSounds(assets: ProjectAsset[]): void {
+  projectSounds.clear();
+  buffers.clear();
+  for (const asset of assets) {
+    if (asset.type !== 'sound') continue;
+    projectSounds.set(normalizeAssetPath(asset.path), asset.dataUrl);
+    projectSounds.set(normalizeAssetPath(asset.name), asset.dataUrl);
+  }
+}
+
+/** Where a sound a program asks for lives, or null when it doesn't exist anywhere */
+export function resolveSoundUrl(path: string): string | null {
+  const normalized = normalizeAssetPath(path);
+  const projectSound = projectSounds.get(normalized);
+  if (projectSound) return projectSound;
+  return normalized.startsWith(PUBLIC_ASSET_PREFIX) ? `/${normalized}` : null;
+}
+
+async function decode(url: string, context: AudioContext): Promise<AudioBuffer> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  return context.decodeAudioData(await response.arrayBuffer());
+}
+
+/** Fetch and decode one sound file; resolves to null when it can't be played */
+function loadBuffer(path: string): Promise<AudioBuffer | null> {
+  const key = normalizeAssetPath(path);
+  let buffer = buffers.get(key);
+  if (!buffer) {
+    const url = resolveSoundUrl(key);
+    const audio = getOutput();
+    buffer =
+      url && audio
+        ? decode(url, audio.context).catch((error) => {
+            console.warn(`🔇 Could not load sound ${path}:`, error);
+            return null;
+          })
+        : Promise.resolve(null);
+    buffers.set(key, buffer);
+  }
+  return buffer;
+}
+
+function soundNotFound(path: string): Error {
+  return new Error(
+    `FileNotFoundError: No file '${path}' found in your project or the asset library`
+  );
+}
+
+/** Move a gain to `value` over `ms`, or straight away */
+function rampGain(gain: GainNode, value: number, ms = 0) {
+  const now = gain.context.currentTime;
+  gain.gain.cancelScheduledValues(now);
+  gain.gain.setValueAtTime(gain.gain.value, now);
+  if (ms > 0) {
+    gain.gain.linearRampToValueAtTime(value, now + ms / 1000);
+  } else {
+    gain.gain.setValueAtTime(value, now);
+  }
+}
+
+/**
+ * One buffer playing into a gain node: `loops` extra times (-1 for ever), cut off after
+ * `maxtime` ms when that is set. A buffer source can't be paused, so pausing remembers the
+ * position and resuming starts a new source from there.
+ */
+class Playback {
+  private source: AudioBufferSourceNode | null = null;
+  // Context time at which the start of the buffer played, or would have
+  private startedAt = 0;
+  private pausedAt: number | null = null;
+
+  constructor(
+    private readonly gain: GainNode,
+    private readonly buffer: AudioBuffer,
+    private readonly loops: number,
+    private readonly maxtime: number,
+    private readonly onEnd: () => void
+  ) {}
+
+  /** Seconds the whole playback lasts */
+  private get length(): number {
+    const length = this.loops < 0 ? Infinity : this.buffer.duration * (this.loops + 1);
+    return this.maxtime > 0 ? Math.min(length, this.maxtime / 1000) : length;
+  }
+
+  /** Seconds played so far */
+  get position(): number {
+    if (this.pausedAt !== null) return this.pausedAt;
+    return this.source ? this.gain.context.currentTime - this.startedAt : 0;
+  }
+
+  get paused(): boolean {
+    return this.pausedAt !== null;
+  }
+
+  start(offset = 0) {
+    const context = this.gain.context;
+    const source = context.createBufferSource();
+    source.buffer = this.buffer;
+    source.loop = this.loops !== 0;
+    source.connect(this.gain);
+    source.onended = () => {
+      // Sources stopped on purpose have already been let go of
+      if (this.source !== source) return;
+      this.source = null;
+      this.onEnd();
+    };
+    source.start(0, offset % this.buffer.duration);
+    if (Number.isFinite(this.length)) source.stop(context.currentTime + this.length - offset);
+    this.startedAt = context.currentTime - offset;
+    this.source = source;
+  }
+
+  pause() {
+    if (!this.source) return;
+    this.pausedAt = this.position;
+    this.release()?.stop();
+  }
+
+  resume() {
+    if (this.pausedAt === null) return;
+    const offset = this.pausedAt;
+    this.pausedAt = null;
+    this.start(offset);
+  }
+
+  /** End in `seconds`, as if the sound had run out then */
+  end(seconds: number) {
+    this.source?.stop(this.gain.context.currentTime + seconds);
+  }
+
+  stop() {
+    this.pausedAt = null;
+    this.release()?.stop();
+  }
+
+  private release(): AudioBufferSourceNode | null {
+    const source = this.source;
+    this.source = null;
+    return source;
+  }
+}
+
+/** pygame.mixer.Sound: a sound file that can play on several channels at once */
+export class PygameSound {
+  readonly path: string;
+  private volume = 1;
+  private readonly buffer: Promise<AudioBuffer | null>;
+  private length = 0;
+
+  constructor(file: string) {
+    this.path = String(file);
+    if (resolveSoundUrl(this.path) === null) throw soundNotFound(this.path);
+    this.buffer = loadBuffer(this.path);
+    this.buffer.then((buffer) => {
+      this.length = buffer?.duration ?? 0;
+    });
+  }
+
+  /** Play on a free channel; returns None when every channel is busy */
+  play(loops: number | PlayOptions = 0, maxtime = 0, fade_ms = 0): PygameChannel | null {
+    const channel = findChannel();
+    channel?.play(this, loops, maxtime, fade_ms);
+    return channel;
+  }
+
+  stop() {
+    for (const channel of channelsPlaying(this)) channel.stop();
+  }
+
+  fadeout(time: number) {
+    for (const channel of channelsPlaying(this)) channel.fadeout(time);
+  }
+
+  set_volume(value: number) {
+    this.volume = clampVolume(value);
+    for (const channel of channelsPlaying(this)) channel.applyVolume();
+  }
+
+  get_volume() {
+    return this.volume;
+  }
+
+  /** Seconds; 0 until the file has loaded */
+  get_length() {
+    return this.length;
+  }
+
+  get_num_channels() {
+    return channelsPlaying(this).length;
+  }
+
+  /** The decoded audio, for the channels that play it */
+  decoded(): Promise<AudioBuffer | null> {
+    return this.buffer;
+  }
+}
+
+/** pygame.mixer.Channel: plays one sound at a time at its own volume */
+export class PygameChannel {
+  private volume = 1;
+  private sound: PygameSound | null = null;
+  private playback: Playback | null = null;
+  private gain: GainNode | null = null;
+  // Bumped by every play and stop, so a sound that finishes loading late knows it's stale
+  private generation = 0;
+
+  constructor(readonly id: number) {}
+
+  play(sound: PygameSound, loops: number | PlayOptions = 0, maxtime = 0, fade_ms = 0) {
+    const options = typeof loops === 'object' ? loops : { loops, maxtime, fade_ms };
+    this.stop();
+    const audio = getOutput();
+    if (!audio) return;
+
+    this.sound = sound;
+    const generation = this.generation;
+    sound.decoded().then((buffer) => {
+      if (generation !== this.generation) return;
+      if (!buffer) {
+        this.sound = null;
+        return;
+      }
+      // Each playback gets a fresh gain node so an old fade can't carry over
+      this.gain?.disconnect();
+      this.gain = audio.context.createGain();
+      this.gain.gain.value = 0;
+      this.gain.connect(audio.master);
+      this.playback = new Playback(
+        this.gain,
+        buffer,
+        options.loops ?? 0,
+        options.maxtime ?? 0,
+        () => this.finish(generation)
+      );
+      this.playback.start();
+      this.applyVolume(options.fade_ms ?? 0);
+    });
+  }
+
+  stop() {
+    this.generation++;
+    this.playback?.stop();
+    this.playback = null;
+    this.sound = null;
+  }
+
+  pause() {
+    this.playback?.pause();
+  }
+
+  unpause() {
+    this.playback?.resume();
+  }
+
+  /** Fade to silence over `time` ms, then stop */
+  fadeout(time: number) {
+    if (!this.playback || !this.gain) return this.stop();
+    rampGain(this.gain, 0, time);
+    this.playback.end(time / 1000);
+  }
+
+  /** pygame's stereo form (left, right) is played at the louder of the two */
+  set_volume(left: number, right?: number) {
+    this.volume = clampVolume(right === undefined ? left : Math.max(left, right));
+    this.applyVolume();
+  }
+
+  get_volume() {
+    return this.volume;
+  }
+
+  get_busy() {
+    return this.sound !== null && !this.playback?.paused;
+  }
+
+  get_sound() {
+    return this.sound;
+  }
+
+  /** Bring the gain in line with this channel's and its sound's volume */
+  applyVolume(fadeMs = 0) {
+    if (this.gain && this.sound) {
+      rampGain(this.gain, this.volume * this.sound.get_volume(), fadeMs);
+    }
+  }
+
+  private finish(generation: number) {
+    if (generation !== this.generation) return;
+    this.playback = null;
+    this.sound = null;
+  }
+}
+
+let channels: PygameChannel[] = Array.from(
+  { length: DEFAULT_CHANNELS },
+  (_, id) => new PygameChannel(id)
+);
+
+function clampVolume(value: number): number {
+  return Math.max(0, Math.min(1, Number(value) || 0));
+}
+
+function findChannel(force = false): PygameChannel | null {
+  const free = channels.find((channel) => channel.get_sound() === null);
+  if (free || !force) return free ?? null;
+  // pygame takes over the channel that has been playing longest; channel 0 is close enough
+  channels[0]?.stop();
+  return channels[0] ?? null;
+}
+
+function channelsPlaying(sound: PygameSound): PygameChannel[] {
+  return channels.filter((channel) => channel.get_sound() === sound);
+}
+
+/** pygame.mixer.music: one streamed track, separate from the channels */
+class MusicPlayer {
+  private buffer: Promise<AudioBuffer | null> | null = null;
+  private playback: Playback | null = null;
+  private gain: GainNode | null = null;
+  private volume = 1;
+  private loops = 0;
+  private generation = 0;
+  // Set while a play is waiting for the file to load
+  private starting = false;
+
+  load(file: string) {
+    const path = String(file);
+    if (resolveSoundUrl(path) === null) throw soundNotFound(path);
+    this.stop();
+    this.buffer = loadBuffer(path);
+  }
+
+  unload() {
+    this.stop();
+    this.buffer = null;
+  }
+
+  play(loops: number | PlayOptions = 0, start = 0, fade_ms = 0) {
+    const options = typeof loops === 'object' ? { start: 0, ...loops } : { loops, start, fade_ms };
+    if (!this.buffer) throw new Error('pygame.error: music not loaded');
+    this.stop();
+    this.loops = options.loops ?? 0;
+    const audio = getOutput();
+    if (!audio) return;
+
+    const generation = this.generation;
+    this.starting = true;
+    this.buffer.then((buffer) => {
+      if (generation !== this.generation) return;
+      this.starting = false;
+      if (!buffer) return;
+      this.gain?.disconnect();
+      this.gain = audio.context.createGain();
+      this.gain.gain.value = 0;
+      this.gain.connect(audio.master);
+      this.playback = new Playback(this.gain, buffer, this.loops, 0, () => {
+        if (generation === this.generation) this.playback = null;
+      });
+      this.playback.start(options.start ?? 0);
+      rampGain(this.gain, this.volume, options.fade_ms ?? 0);
+    });
+  }
+
+  /** Start the track again from the beginning */
+  rewind() {
+    if (this.playback && !this.playback.paused) this.play(this.loops);
+  }
+
+  stop() {
+    this.generation++;
+    this.starting = false;
+    this.playback?.stop();
+    this.playback = null;
+  }
+
+  pause() {
+    this.playback?.pause();
+  }
+
+  unpause() {
+    this.playback?.resume();
+  }
+
+  fadeout(time: number) {
+    if (!this.playback || !this.gain) return this.stop();
+    rampGain(this.gain, 0, time);
+    this.playback.end(time / 1000);
+  }
+
+  set_volume(value: number) {
+    this.volume = clampVolume(value);
+    if (this.gain && this.playback) rampGain(this.gain, this.volume);
+  }
+
+  get_volume() {
+    return this.volume;
+  }
+
+  get_busy() {
+    return this.starting || (this.playback !== null && !this.playback.paused);
+  }
+
+  /** Milliseconds the track has been playing, or -1 when it isn't */
+  get_pos() {
+    return this.playback ? Math.round(this.playback.position * 1000) : -1;
+  }
+}
+
+const music = new MusicPlayer();
+
+/** Silence everything a program started, e.g. when its preview stops */
+export function stopAllAudio(): void {
+  for (const channel of channels) channel.stop();
+  music.stop();
+}
+
+/** pygame.mixer */
+export const pygameMixer = {
+  init: () => {
+    getOutput();
+  },
+  quit: () => stopAllAudio(),
+  get_init: () => (getOutput() ? [44100, -16, 2] : null),
+  Sound: PygameSound,
+  Channel: (id: number) => {
+    const channel = channels[id];
+    if (!channel) throw new Error('IndexError: invalid channel index');
+    return channel;
+  },
+  set_num_channels: (count: number) => {
+    for (const channel of channels.slice(count)) channel.stop();
+    channels = Array.from({ length: count }, (_, id) => channels[id] ?? new PygameChannel(id));
+  },
+  get_num_channels: () => channels.length,
+  find_channel: (force = false) => findChannel(force),
+  stop: () => {
+    for (const channel of channels) channel.stop();
+  },
+  pause: () => {
+    for (const channel of channels) channel.pause();
+  },
+  unpause: () => {
+    for (const channel of channels) channel.unpause();
+  },
+  fadeout: (time: number) => {
+    for (const channel of channels) channel.fadeout(time);
+  },
+  get_busy: () => channels.some((channel) => channel.get_busy()),
+  music: {
+    load: (file: string) => music.load(file),
+    unload: () => music.unload(),
+    play: (loops: number | PlayOptions = 0, start = 0, fade_ms = 0) =>
+      music.play(loops, start, fade_ms),
+    rewind: () => music.rewind(),
+    stop: () => music.stop(),
+    pause: () => music.pause(),
+    unpause: () => music.unpause(),
+    fadeout: (time: number) => music.fadeout(time),
+    set_volume: (value: number) => music.set_volume(value),
+    get_volume: () => music.get_volume(),
+    get_busy: () => music.get_busy(),
+    get_pos: () => music.get_pos(),
+  },
+};
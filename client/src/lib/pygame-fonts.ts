@@ -0,0 +1,230 @@
+/**
+ * Typefaces and text metrics behind pygame.font and pygame.freetype. Loading a font file in
+ * the browser is asynchronous but pygame's API is not, so the bundled fonts and the font
+ * files a program names are loaded before it starts. Sizes come from measuring text on a
+ * canvas, so text surfaces are as big as the text drawn on them.
+ */
+
+import type { ProjectAsset } from '@shared/schema';
+import { normalizeAssetPath, PUBLIC_ASSET_PREFIX } from './pygame-images';
+
+/** What pygame.font.get_default_font() names; Font(None) and unknown SysFonts use it */
+export const DEFAULT_FONT = 'freesansbold.ttf';
+
+// pygame shrinks its default font, so Font(None, 32) looks like other fonts at 22
+const DEFAULT_FONT_SCALE = 0.6875;
+
+// Fonts the shim always has, by the CSS family they're registered under
+const BUNDLED_FONTS: Record<string, string> = {
+  'pygame-sans': '/assets/fonts/kenney-future.ttf',
+  'pygame-pixel': '/assets/fonts/kenney-pixel.ttf',
+};
+const SANS_FAMILY = 'pygame-sans';
+const PIXEL_FAMILY = 'pygame-pixel';
+
+// SysFont names that mean one of the bundled fonts, as pygame spells them: lower case, no spaces
+const SYSTEM_FONT_ALIASES: Record<string, string> = {
+  freesansbold: SANS_FAMILY,
+  freesans: SANS_FAMILY,
+  sans: SANS_FAMILY,
+  sansserif: SANS_FAMILY,
+  arial: SANS_FAMILY,
+  helvetica: SANS_FAMILY,
+  pixel: PIXEL_FAMILY,
+  kenneypixel: PIXEL_FAMILY,
+  kenneyfuture: SANS_FAMILY,
+};
+
+// String literals that look like font file names, e.g. 'fonts/score.ttf'
+const FONT_PATH = /(['"])([^'"\n]+\.(?:ttf|otf|woff2?))\1/gi;
+const FONT_EXTENSION = /\.(?:ttf|otf|woff2?)$/i;
+
+/** How tall text in a font stands, in pixels; pygame's descent is below the baseline, so negative */
+export interface FontMetrics {
+  ascent: number;
+  descent: number;
+  height: number;
+  linesize: number;
+}
+
+const projectFonts = new Map<string, string>();
+// Font files by path, as the CSS family they were registered as, or null if they failed
+const families = new Map<string, string | null>();
+const pending = new Map<string, Promise<string | null>>();
+let measuringContext: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null = null;
+// Each font file gets a family of its own, so files loaded on different runs never clash
+let nextFamily = 0;
+
+/** Make the project's own font files loadable by their path or file name */
+export function setProjectFonts(assets: ProjectAsset[]): void {
+  projectFonts.clear();
+  // The bundled fonts stay loaded from one run to the next
+  for (const key of families.keys()) if (!(key in BUNDLED_FONTS)) families.delete(key);
+  for (const key of pending.keys()) if (!(key in BUNDLED_FONTS)) pending.delete(key);
+  for (const asset of assets) {
+    if (!FONT_EXTENSION.test(asset.path)) continue;
+    projectFonts.set(normalizeAssetPath(asset.path), asset.dataUrl);
+    projectFonts.set(normalizeAssetPath(asset.name), asset.dataUrl);
+  }
+}
+
+/** Where a font a program asks for lives, or null when it doesn't exist anywhere */
+export function resolveFontUrl(path: string): string | null {
+  const normalized = normalizeAssetPath(path);
+  const projectFont = projectFonts.get(normalized);
+  if (projectFont) return projectFont;
+  return normalized.startsWith(PUBLIC_ASSET_PREFIX) ? `/${normalized}` : null;
+}
+
+/** Font file names written in a program's source, to load before it runs */
+export function findFontPaths(code: string): string[] {
+  const paths = new Set<string>();
+  for (const match of code.matchAll(FONT_PATH)) {
+    if (normalizeAssetPath(match[2]) !== DEFAULT_FONT) paths.add(match[2]);
+  }
+  return [...paths];
+}
+
+/** Where loaded fonts go so canvases can draw with them: the page's, or the worker's */
+function fontSet(): FontFaceSet | null {
+  const scope = globalThis as { fonts?: FontFaceSet; document?: Document };
+  return scope.fonts ?? scope.document?.fonts ?? null;
+}
+
+async function register(family: string, url: string): Promise<string> {
+  const fonts = fontSet();
+  if (typeof FontFace === 'undefined' || !fonts) throw new Error('fonts are not supported here');
+  const face = await new FontFace(family, `url(${url})`).load();
+  fonts.add(face);
+  return family;
+}
+
+/** Load one font file under `family`; resolves to null when it can't be found or read */
+function loadFamily(key: string, family: string, url: string | null): Promise<string | null> {
+  const loaded = families.get(key);
+  if (loaded !== undefined) return Promise.resolve(loaded);
+
+  let promise = pending.get(key);
+  if (!promise) {
+    promise = (url ? register(family, url) : Promise.reject(new Error('not found')))
+      .catch((error) => {
+        console.warn(`🔤 Could not load font ${key}:`, error);
+        return null;
+      })
+      .then((loadedFamily) => {
+        families.set(key, loadedFamily);
+        pending.delete(key);
+        return loadedFamily;
+      });
+    pending.set(key, promise);
+  }
+  return promise;
+}
+
+/** Load the bundled fonts and every font file in `paths` */
+export async function preloadFonts(paths: string[]): Promise<void> {
+  await Promise.all([
+    ...Object.entries(BUNDLED_FONTS).map(([family, url]) => loadFamily(family, family, url)),
+    ...paths.map((path) => {
+      const key = normalizeAssetPath(path);
+      return loadFamily(key, `pygame-font-${nextFamily++}`, resolveFontUrl(key));
+    }),
+  ]);
+}
+
+/**
+ * The CSS family for pygame.font.Font(file): the default font for None, otherwise a font
+ * file loaded before the run. Missing files raise, as they do in pygame.
+ */
+export function fontFileFamily(file: string | null): string {
+  if (file === null || normalizeAssetPath(file) === DEFAULT_FONT) return SANS_FAMILY;
+  const family = families.get(normalizeAssetPath(file));
+  if (family) return family;
+  throw new Error(`FileNotFoundError: No font file '${file}' found in your project`);
+}
+
+/**
+ * The CSS family for pygame.font.SysFont(name): the first of its comma-separated names the
+ * shim knows, then the browser's own font of that name, with the default font behind it
+ */
+export function systemFontFamily(name: string | null): string {
+  const names = (name ?? '')
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+  for (const part of names) {
+    const alias = SYSTEM_FONT_ALIASES[part.toLowerCase().replace(/\s+/g, '')];
+    if (alias) return alias;
+  }
+  const installed = names.map((part) => `"${part.replace(/"/g, '')}"`);
+  return [...installed, SANS_FAMILY].join(', ');
+}
+
+/** The size text really comes out at; the default font is drawn smaller, as in pygame */
+export function fontPixelSize(file: string | null, size: number): number {
+  const isDefault = file === null || normalizeAssetPath(file) === DEFAULT_FONT;
+  return Math.max(1, Math.trunc(isDefault ? size * DEFAULT_FONT_SCALE : size));
+}
+
+function getMeasuringContext() {
+  if (!measuringContext) {
+    try {
+      if (typeof OffscreenCanvas !== 'undefined') {
+        measuringContext = new OffscreenCanvas(1, 1).getContext('2d');
+      } else if (typeof document !== 'undefined') {
+        measuringContext = document.createElement('canvas').getContext('2d');
+      }
+    } catch {
+      measuringContext = null;
+    }
+  }
+  return measuringContext;
+}
+
+/** How tall a font stands; estimated from its size where there's no canvas to measure on */
+export function measureFont(cssFont: string, size: number): FontMetrics {
+  const context = getMeasuringContext();
+  if (context) context.font = cssFont;
+  const measured = context?.measureText('Hg');
+  const ascent = Math.ceil(measured?.fontBoundingBoxAscent ?? size * 0.8);
+  const descent = -Math.ceil(measured?.fontBoundingBoxDescent ?? size * 0.2);
+  const height = ascent - descent;
+  return { ascent, descent, height, linesize: height + 1 };
+}
+
+/** How wide a line of text is drawn, in whole pixels */
+export function measureTextWidth(cssFont: string, size: number, text: string): number {
+  const context = getMeasuringContext();
+  if (!context) return Math.ceil(text.length * size * 0.6);
+  context.font = cssFont;
+  return Math.ceil(context.measureText(text).width);
+}
+
+/** pygame's Font.metrics(): (minx, maxx, miny, maxy, advance) for each character */
+export function measureGlyphs(
+  cssFont: string,
+  size: number,
+  text: string
+): Array<[number, number, number, number, number]> {
+  const context = getMeasuringContext();
+  return [...text].map((char) => {
+    if (!context) {
+      const advance = Math.ceil(size * 0.6);
+      return [0, advance, 0, Math.ceil(size * 0.8), advance];
+    }
+    context.font = cssFont;
+    const box = context.measureText(char);
+    return [
+      Math.floor(-box.actualBoundingBoxLeft),
+      Math.ceil(box.actualBoundingBoxRight),
+      Math.floor(-box.actualBoundingBoxDescent),
+      Math.ceil(box.actualBoundingBoxAscent),
+      Math.round(box.width),
+    ];
+  });
+}
+
+export function clearFontCache(): void {
+  families.clear();
+  pending.clear();
+}
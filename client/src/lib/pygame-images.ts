@@ -0,0 +1,109 @@
+/**
+ * Bitmaps behind pygame.image.load. Decoding an image in the browser is asynchronous but
+ * pygame's API is not, so the images a program names are fetched before it starts and
+ * load() only has to look them up.
+ */
+
+import type { ProjectAsset } from '@shared/schema';
+
+export type PygameBitmap = ImageBitmap;
+
+export type LoadedImage =
+  | { status: 'ready'; bitmap: PygameBitmap }
+  | { status: 'loading'; promise: Promise<PygameBitmap | null> }
+  | { status: 'missing' };
+
+// String literals that look like image file names, e.g. 'images/player.png'
+const IMAGE_PATH = /(['"])([^'"\n]+\.(?:png|jpe?g|gif|bmp|webp))\1/gi;
+
+// Paths under assets/ are served from the public asset library (the Kenney sprites)
+export const PUBLIC_ASSET_PREFIX = 'assets/';
+
+const projectImages = new Map<string, string>();
+const bitmaps = new Map<string, PygameBitmap | null>();
+const pending = new Map<string, Promise<PygameBitmap | null>>();
+
+/** One spelling for a path a program names: forward slashes, no leading ./ or / */
+export function normalizeAssetPath(path: string): string {
+  return path
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^(\.\/|\/)+/, '');
+}
+
+/** Make the project's own images loadable by their path or file name */
+export function setProjectImages(assets: ProjectAsset[]): void {
+  projectImages.clear();
+  clearImageCache();
+  for (const asset of assets) {
+    if (asset.type !== 'image') continue;
+    projectImages.set(normalizeAssetPath(asset.path), asset.dataUrl);
+    projectImages.set(normalizeAssetPath(asset.name), asset.dataUrl);
+  }
+}
+
+/** Where an image a program asks for lives, or null when it doesn't exist anywhere */
+export function resolveImageUrl(path: string): string | null {
+  const normalized = normalizeAssetPath(path);
+  const projectImage = projectImages.get(normalized);
+  if (projectImage) return projectImage;
+  return normalized.startsWith(PUBLIC_ASSET_PREFIX) ? `/${normalized}` : null;
+}
+
+/** Image file names written in a program's source, to fetch before it runs */
+export function findImagePaths(code: string): string[] {
+  const paths = new Set<string>();
+  for (const match of code.matchAll(IMAGE_PATH)) {
+    paths.add(match[2]);
+  }
+  return [...paths];
+}
+
+async function decode(url: string): Promise<PygameBitmap> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  return createImageBitmap(await response.blob());
+}
+
+/** Fetch and decode one image; resolves to null when it can't be found or decoded */
+export function loadImage(path: string): Promise<PygameBitmap | null> {
+  const key = normalizeAssetPath(path);
+  const loaded = bitmaps.get(key);
+  if (loaded !== undefined) return Promise.resolve(loaded);
+
+  let promise = pending.get(key);
+  if (!promise) {
+    const url = resolveImageUrl(key);
+    promise = (url ? decode(url) : Promise.reject(new Error('not found')))
+      .catch((error) => {
+        console.warn(`🖼️ Could not load image ${path}:`, error);
+        return null;
+      })
+      .then((bitmap) => {
+        bitmaps.set(key, bitmap);
+        pending.delete(key);
+        return bitmap;
+      });
+    pending.set(key, promise);
+  }
+  return promise;
+}
+
+/** Fetch every image in `paths`; images that fail are remembered as missing */
+export async function preloadImages(paths: string[]): Promise<void> {
+  await Promise.all(paths.map(loadImage));
+}
+
+/** What load() can hand back right now without waiting */
+export function getImage(path: string): LoadedImage {
+  const key = normalizeAssetPath(path);
+  const bitmap = bitmaps.get(key);
+  if (bitmap) return { status: 'ready', bitmap };
+  if (bitmap === null || resolveImageUrl(key) === null) return { status: 'missing' };
+  return { status: 'loading', promise: loadImage(key) };
+}
+
+export function clearImageCache(): void {
+  bitmaps.clear();
+  pending.clear();
+}
@@ -0,0 +1,249 @@
+/**
+ * Keyboard and mouse input for pygame programs. The preview canvas's DOM events are queued
+ * here until the program's next pygame.event.get(), and the keys and buttons held down are
+ * tracked for key.get_pressed() and mouse.get_pressed().
+ */
+
+export const PYGAME_EVENT_TYPES = {
+  NOEVENT: 0,
+  KEYDOWN: 2,
+  KEYUP: 3,
+  MOUSEMOTION: 4,
+  MOUSEBUTTONDOWN: 5,
+  MOUSEBUTTONUP: 6,
+  QUIT: 12,
+} as const;
+
+// The shim numbers keys as pygame 1 did, so key.get_pressed() fits in 512 entries
+const NAMED_KEYS = {
+  K_BACKSPACE: 8,
+  K_TAB: 9,
+  K_RETURN: 13,
+  K_ESCAPE: 27,
+  K_SPACE: 32,
+  K_DELETE: 127,
+  K_UP: 273,
+  K_DOWN: 274,
+  K_RIGHT: 275,
+  K_LEFT: 276,
+  K_RSHIFT: 303,
+  K_LSHIFT: 304,
+  K_RCTRL: 305,
+  K_LCTRL: 306,
+  K_RALT: 307,
+  K_LALT: 308,
+};
+
+// Letters and digits are their lowercase character codes, e.g. K_a is 97
+const CHARACTER_KEYS = Object.fromEntries(
+  [...'abcdefghijklmnopqrstuvwxyz0123456789'].map((c) => [`K_${c}`, c.charCodeAt(0)])
+);
+
+export const PYGAME_KEYS: Record<string, number> = { ...NAMED_KEYS, ...CHARACTER_KEYS };
+
+// KeyboardEvent.code for keys whose left and right versions pygame tells apart
+const CODE_KEYS: Record<string, number> = {
+  ShiftLeft: NAMED_KEYS.K_LSHIFT,
+  ShiftRight: NAMED_KEYS.K_RSHIFT,
+  ControlLeft: NAMED_KEYS.K_LCTRL,
+  ControlRight: NAMED_KEYS.K_RCTRL,
+  AltLeft: NAMED_KEYS.K_LALT,
+  AltRight: NAMED_KEYS.K_RALT,
+};
+
+const DOM_KEYS: Record<string, number> = {
+  Backspace: NAMED_KEYS.K_BACKSPACE,
+  Tab: NAMED_KEYS.K_TAB,
+  Enter: NAMED_KEYS.K_RETURN,
+  Escape: NAMED_KEYS.K_ESCAPE,
+  Delete: NAMED_KEYS.K_DELETE,
+  ArrowUp: NAMED_KEYS.K_UP,
+  ArrowDown: NAMED_KEYS.K_DOWN,
+  ArrowRight: NAMED_KEYS.K_RIGHT,
+  ArrowLeft: NAMED_KEYS.K_LEFT,
+};
+
+// Events a program that never polls can pile up before the oldest are dropped
+const MAX_QUEUED_EVENTS = 256;
+
+export interface PygameEvent {
+  type: number;
+  [attribute: string]: unknown;
+}
+
+let queue: PygameEvent[] = [];
+const pressedKeys = new Set<number>();
+const mouseButtons = [false, false, false];
+let mousePosition: [number, number] = [0, 0];
+
+/** The pygame key code for a DOM key event, or null for keys pygame has no name for */
+export function pygameKeyCode(event: Pick<KeyboardEvent, 'key' | 'code'>): number | null {
+  const code = CODE_KEYS[event.code] ?? DOM_KEYS[event.key];
+  if (code !== undefined) return code;
+  return event.key.length === 1 ? event.key.toLowerCase().charCodeAt(0) : null;
+}
+
+export function postPygameEvent(event: PygameEvent): void {
+  queue.push(event);
+  if (queue.length > MAX_QUEUED_EVENTS) queue.shift();
+}
+
+/** Forget queued events and held keys, e.g. before the next program runs */
+export function resetPygameInput(): void {
+  queue = [];
+  pressedKeys.clear();
+  mouseButtons.fill(false);
+  mousePosition = [0, 0];
+}
+
+/** Where a mouse event happened in the canvas's own pixels, however it is scaled on the page */
+function canvasPosition(canvas: HTMLCanvasElement, event: MouseEvent): [number, number] {
+  const rect = canvas.getBoundingClientRect();
+  const scaleX = rect.width > 0 ? canvas.width / rect.width : 1;
+  const scaleY = rect.height > 0 ? canvas.height / rect.height : 1;
+  return [
+    Math.round((event.clientX - rect.left) * scaleX),
+    Math.round((event.clientY - rect.top) * scaleY),
+  ];
+}
+
+/** Queue an input event and keep the held keys, buttons and mouse position in step with it */
+export function applyPygameInput(event: PygameEvent): void {
+  const { type } = event;
+  if (type === PYGAME_EVENT_TYPES.KEYDOWN) pressedKeys.add(event.key as number);
+  if (type === PYGAME_EVENT_TYPES.KEYUP) pressedKeys.delete(event.key as number);
+  if (type === PYGAME_EVENT_TYPES.MOUSEBUTTONDOWN || type === PYGAME_EVENT_TYPES.MOUSEBUTTONUP) {
+    const index = (event.button as number) - 1;
+    if (index < mouseButtons.length)
+      mouseButtons[index] = type === PYGAME_EVENT_TYPES.MOUSEBUTTONDOWN;
+  }
+  if (event.pos) mousePosition = event.pos as [number, number];
+  postPygameEvent(event);
+}
+
+/**
+ * Turn the canvas's keyboard and mouse events into pygame events for `sink`: this page's
+ * queue by default, or the Pyodide worker's. Returns a function that stops listening.
+ */
+export function attachPygameInput(
+  canvas: HTMLCanvasElement,
+  sink: (event: PygameEvent) => void = applyPygameInput
+): () => void {
+  // Kept here too, as the sink's state may live in another thread
+  const held = new Set<number>();
+  const buttons = [false, false, false];
+  let position: [number, number] = [0, 0];
+
+  const onKey = (event: KeyboardEvent) => {
+    const key = pygameKeyCode(event);
+    if (key === null) return;
+    // The page shouldn't scroll or tab away while the game has the keyboard
+    event.preventDefault();
+    const down = event.type === 'keydown';
+    // pygame sends one KEYDOWN per press unless key repeat is turned on
+    if (down && event.repeat) return;
+
+    if (down) {
+      held.add(key);
+    } else {
+      held.delete(key);
+    }
+    sink({
+      type: down ? PYGAME_EVENT_TYPES.KEYDOWN : PYGAME_EVENT_TYPES.KEYUP,
+      key,
+      unicode: down && event.key.length === 1 ? event.key : '',
+      mod: 0,
+    });
+  };
+
+  const onMouseMove = (event: MouseEvent) => {
+    const pos = canvasPosition(canvas, event);
+    const rel = [pos[0] - position[0], pos[1] - position[1]];
+    position = pos;
+    sink({ type: PYGAME_EVENT_TYPES.MOUSEMOTION, pos, rel, buttons: [...buttons] });
+  };
+
+  const onMouseButton = (event: MouseEvent) => {
+    const down = event.type === 'mousedown';
+    // DOM buttons count from 0 (left, middle, right); pygame's from 1
+    if (event.button < buttons.length) buttons[event.button] = down;
+    position = canvasPosition(canvas, event);
+    sink({
+      type: down ? PYGAME_EVENT_TYPES.MOUSEBUTTONDOWN : PYGAME_EVENT_TYPES.MOUSEBUTTONUP,
+      pos: position,
+      button: event.button + 1,
+    });
+  };
+
+  // Keys held when focus leaves would otherwise stay down for ever, so let them go
+  const onBlur = () => {
+    for (const key of held) {
+      sink({ type: PYGAME_EVENT_TYPES.KEYUP, key, unicode: '', mod: 0 });
+    }
+    held.clear();
+  };
+
+  canvas.addEventListener('keydown', onKey);
+  canvas.addEventListener('keyup', onKey);
+  canvas.addEventListener('mousemove', onMouseMove);
+  canvas.addEventListener('mousedown', onMouseButton);
+  canvas.addEventListener('mouseup', onMouseButton);
+  canvas.addEventListener('blur', onBlur);
+
+  return () => {
+    canvas.removeEventListener('keydown', onKey);
+    canvas.removeEventListener('keyup', onKey);
+    canvas.removeEventListener('mousemove', onMouseMove);
+    canvas.removeEventListener('mousedown', onMouseButton);
+    canvas.removeEventListener('mouseup', onMouseButton);
+    canvas.removeEventListener('blur', onBlur);
+  };
+}
+
+/** Whether `event` is one of `types`: a single event type or a sequence of them */
+function matchesType(event: PygameEvent, types: unknown): boolean {
+  if (types === undefined || types === null) return true;
+  if (typeof types === 'number') return event.type === types;
+  return Array.from(types as Iterable<number>).includes(event.type);
+}
+
+/** pygame.event */
+export const pygameEvent = {
+  /** Take the queued events, or only those of the given type(s) */
+  get: (eventtype: unknown = null) => {
+    const taken = queue.filter((event) => matchesType(event, eventtype));
+    queue = queue.filter((event) => !matchesType(event, eventtype));
+    return taken;
+  },
+  poll: (): PygameEvent => queue.shift() ?? { type: PYGAME_EVENT_TYPES.NOEVENT },
+  peek: (eventtype: unknown = null) => queue.some((event) => matchesType(event, eventtype)),
+  clear: () => {
+    queue = [];
+  },
+  pump: () => {},
+  post: (event: PygameEvent) => postPygameEvent(event),
+  Event: (type: number, dict: Record<string, unknown> = {}): PygameEvent => ({ type, ...dict }),
+};
+
+/** pygame.key */
+export const pygameKey = {
+  get_pressed: () => {
+    const pressed = new Array(512).fill(false);
+    for (const key of pressedKeys) pressed[key] = true;
+    return pressed;
+  },
+  get_focused: () => true,
+  name: (key: number) =>
+    Object.entries(PYGAME_KEYS)
+      .find(([, code]) => code === key)?.[0]
+      .slice(2)
+      .toLowerCase() ?? '',
+};
+
+/** pygame.mouse */
+export const pygameMouse = {
+  get_pos: () => [...mousePosition],
+  get_pressed: () => [...mouseButtons],
+  set_visible: (_visible: boolean) => true,
+  set_cursor: () => null,
+};
@@ -0,0 +1,610 @@
+/**
+ * pygame.Rect for the shim. Only x, y, width and height are stored; every other attribute
+ * is worked out from them when read and moves or resizes the rect when assigned, so
+ * `rect.x += 5` or `rect.center = (...)` keep everything in step, as they do in pygame.
+ * Coordinates are whole numbers: pygame truncates floats, and so does this.
+ */
+
+export type RectTuple = [number, number, number, number];
+
+/** Python sequences reach JavaScript as proxies; copy them into a plain array */
+function toList(value: unknown): unknown[] | null {
+  if (Array.isArray(value)) return value;
+  const iterable = value as Partial<Iterable<unknown>> | null | undefined;
+  if (typeof value !== 'string' && typeof iterable?.[Symbol.iterator] === 'function') {
+    return Array.from(iterable as Iterable<unknown>);
+  }
+  return null;
+}
+
+/** pygame stores coordinates as C ints */
+function toInt(value: unknown): number {
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new TypeError('Rect coordinates must be numbers');
+  return Math.trunc(number);
+}
+
+/** C integer division, which pygame uses to find centres: rounds toward zero */
+function half(value: number): number {
+  return Math.trunc(value / 2);
+}
+
+function toPair(value: unknown, name: string): [number, number] {
+  const list = toList(value);
+  if (!list || list.length !== 2) throw new TypeError(`${name} must be a pair of numbers`);
+  return [toInt(list[0]), toInt(list[1])];
+}
+
+/**
+ * The rect an argument list describes, in any of pygame's spellings: (x, y, w, h),
+ * ((x, y), (w, h)), a single rect or 4-sequence, or an object with a `rect` attribute.
+ */
+export function rectFromArgs(args: unknown[]): RectTuple {
+  if (args.length === 4) return [toInt(args[0]), toInt(args[1]), toInt(args[2]), toInt(args[3])];
+  if (args.length === 2) return [...toPair(args[0], 'Position'), ...toPair(args[1], 'Size')];
+  if (args.length === 1) {
+    const value = args[0];
+    if (value instanceof PygameRect) return [value.x, value.y, value.w, value.h];
+    const list = toList(value);
+    if (list && (list.length === 4 || list.length === 2)) return rectFromArgs(list);
+    if (value && typeof value === 'object' && 'rect' in value) {
+      const rect = typeof value.rect === 'function' ? value.rect() : value.rect;
+      return rectFromArgs([rect]);
+    }
+  }
+  throw new TypeError('Argument must be rect style object');
+}
+
+/** Offsets given either as (x, y) or as one (x, y) pair */
+function pairFromArgs(args: unknown[], name: string): [number, number] {
+  return args.length === 1 ? toPair(args[0], name) : toPair(args, name);
+}
+
+export class PygameRect {
+  private coords: RectTuple = [0, 0, 0, 0];
+
+  constructor(...args: unknown[]) {
+    if (args.length > 0) this.coords = rectFromArgs(args);
+  }
+
+  /* Position and size, as stored */
+  get x() {
+    return this.coords[0];
+  }
+  set x(value: number) {
+    this.coords[0] = toInt(value);
+  }
+  get y() {
+    return this.coords[1];
+  }
+  set y(value: number) {
+    this.coords[1] = toInt(value);
+  }
+  get w() {
+    return this.coords[2];
+  }
+  set w(value: number) {
+    this.coords[2] = toInt(value);
+  }
+  get h() {
+    return this.coords[3];
+  }
+  set h(value: number) {
+    this.coords[3] = toInt(value);
+  }
+  get width() {
+    return this.w;
+  }
+  set width(value: number) {
+    this.w = value;
+  }
+  get height() {
+    return this.h;
+  }
+  set height(value: number) {
+    this.h = value;
+  }
+  get size(): [number, number] {
+    return [this.w, this.h];
+  }
+  set size(value: [number, number]) {
+    [this.w, this.h] = toPair(value, 'size');
+  }
+
+  /* Edges: setting one moves the rect and keeps its size */
+  get left() {
+    return this.x;
+  }
+  set left(value: number) {
+    this.x = value;
+  }
+  get top() {
+    return this.y;
+  }
+  set top(value: number) {
+    this.y = value;
+  }
+  get right() {
+    return this.x + this.w;
+  }
+  set right(value: number) {
+    this.x = toInt(value) - this.w;
+  }
+  get bottom() {
+    return this.y + this.h;
+  }
+  set bottom(value: number) {
+    this.y = toInt(value) - this.h;
+  }
+  get centerx() {
+    return this.x + half(this.w);
+  }
+  set centerx(value: number) {
+    this.x = toInt(value) - half(this.w);
+  }
+  get centery() {
+    return this.y + half(this.h);
+  }
+  set centery(value: number) {
+    this.y = toInt(value) - half(this.h);
+  }
+
+  /* Points */
+  get topleft(): [number, number] {
+    return [this.left, this.top];
+  }
+  set topleft(value: [number, number]) {
+    [this.left, this.top] = toPair(value, 'topleft');
+  }
+  get topright(): [number, number] {
+    return [this.right, this.top];
+  }
+  set topright(value: [number, number]) {
+    [this.right, this.top] = toPair(value, 'topright');
+  }
+  get bottomleft(): [number, number] {
+    return [this.left, this.bottom];
+  }
+  set bottomleft(value: [number, number]) {
+    [this.left, this.bottom] = toPair(value, 'bottomleft');
+  }
+  get bottomright(): [number, number] {
+    return [this.right, this.bottom];
+  }
+  set bottomright(value: [number, number]) {
+    [this.right, this.bottom] = toPair(value, 'bottomright');
+  }
+  get midtop(): [number, number] {
+    return [this.centerx, this.top];
+  }
+  set midtop(value: [number, number]) {
+    [this.centerx, this.top] = toPair(value, 'midtop');
+  }
+  get midbottom(): [number, number] {
+    return [this.centerx, this.bottom];
+  }
+  set midbottom(value: [number, number]) {
+    [this.centerx, this.bottom] = toPair(value, 'midbottom');
+  }
+  get midleft(): [number, number] {
+    return [this.left, this.centery];
+  }
+  set midleft(value: [number, number]) {
+    [this.left, this.centery] = toPair(value, 'midleft');
+  }
+  get midright(): [number, number] {
+    return [this.right, this.centery];
+  }
+  set midright(value: [number, number]) {
+    [this.right, this.centery] = toPair(value, 'midright');
+  }
+  get center(): [number, number] {
+    return [this.centerx, this.centery];
+  }
+  set center(value: [number, number]) {
+    [this.centerx, this.centery] = toPair(value, 'center');
+  }
+
+  /* A rect is also the sequence (x, y, w, h) */
+  get length() {
+    return 4;
+  }
+  *[Symbol.iterator]() {
+    yield this.x;
+    yield this.y;
+    yield this.w;
+    yield this.h;
+  }
+
+  copy() {
+    return new PygameRect(this.x, this.y, this.w, this.h);
+  }
+
+  update(...args: unknown[]) {
+    this.coords = rectFromArgs(args);
+  }
+
+  move(...args: unknown[]) {
+    const rect = this.copy();
+    rect.move_ip(...args);
+    return rect;
+  }
+  move_ip(...args: unknown[]) {
+    const [dx, dy] = pairFromArgs(args, 'move');
+    this.x += dx;
+    this.y += dy;
+  }
+
+  /** Grow or shrink around the centre */
+  inflate(...args: unknown[]) {
+    const rect = this.copy();
+    rect.inflate_ip(...args);
+    return rect;
+  }
+  inflate_ip(...args: unknown[]) {
+    const [dx, dy] = pairFromArgs(args, 'inflate');
+    this.x -= half(dx);
+    this.y -= half(dy);
+    this.w += dx;
+    this.h += dy;
+  }
+
+  /** Scale around the centre; one factor for both sides, or separate x and y factors */
+  scale_by(x: number | [number, number], y?: number) {
+    const rect = this.copy();
+    rect.scale_by_ip(x, y);
+    return rect;
+  }
+  scale_by_ip(x: number | [number, number], y?: number) {
+    const [sx, sy] = typeof x === 'number' ? [x, y ?? x] : (toList(x) ?? [1, 1]).map(Number);
+    this.inflate_ip(toInt(this.w * sx) - this.w, toInt(this.h * sy) - this.h);
+  }
+
+  /** Moved inside `other`, or centred on it if too big to fit */
+  clamp(...args: unknown[]) {
+    const rect = this.copy();
+    rect.clamp_ip(...args);
+    return rect;
+  }
+  clamp_ip(...args: unknown[]) {
+    const [ox, oy, ow, oh] = rectFromArgs(args);
+    if (this.w >= ow) this.x = ox + half(ow) - half(this.w);
+    else if (this.x < ox) this.x = ox;
+    else if (this.x + this.w > ox + ow) this.x = ox + ow - this.w;
+    if (this.h >= oh) this.y = oy + half(oh) - half(this.h);
+    else if (this.y < oy) this.y = oy;
+    else if (this.y + this.h > oy + oh) this.y = oy + oh - this.h;
+  }
+
+  /** The overlap with `other`; a size-0 rect at this one's corner if there is none */
+  clip(...args: unknown[]) {
+    const [ox, oy, ow, oh] = rectFromArgs(args);
+    const left = Math.max(this.x, ox);
+    const top = Math.max(this.y, oy);
+    const right = Math.min(this.x + this.w, ox + ow);
+    const bottom = Math.min(this.y + this.h, oy + oh);
+    if (right <= left || bottom <= top) return new PygameRect(this.x, this.y, 0, 0);
+    return new PygameRect(left, top, right - left, bottom - top);
+  }
+
+  /** The smallest rect covering this one and `other` */
+  union(...args: unknown[]) {
+    const rect = this.copy();
+    rect.union_ip(...args);
+    return rect;
+  }
+  union_ip(...args: unknown[]) {
+    const [ox, oy, ow, oh] = rectFromArgs(args);
+    const right = Math.max(this.x + this.w, ox + ow);
+    const bottom = Math.max(this.y + this.h, oy + oh);
+    this.x = Math.min(this.x, ox);
+    this.y = Math.min(this.y, oy);
+    this.w = right - this.x;
+    this.h = bottom - this.y;
+  }
+  unionall(rects: unknown) {
+    const rect = this.copy();
+    rect.unionall_ip(rects);
+    return rect;
+  }
+  unionall_ip(rects: unknown) {
+    for (const rect of toList(rects) ?? []) this.union_ip(rect);
+  }
+
+  /** Resized to fit inside `other` keeping its shape, and centred there */
+  fit(...args: unknown[]) {
+    const [ox, oy, ow, oh] = rectFromArgs(args);
+    const ratio = Math.max(this.w / ow, this.h / oh);
+    const w = toInt(this.w / ratio);
+    const h = toInt(this.h / ratio);
+    return new PygameRect(ox + half(ow - w), oy + half(oh - h), w, h);
+  }
+
+  /** Flip negative sizes, keeping the same area */
+  normalize() {
+    if (this.w < 0) {
+      this.x += this.w;
+      this.w = -this.w;
+    }
+    if (this.h < 0) {
+      this.y += this.h;
+      this.h = -this.h;
+    }
+  }
+
+  /** Whether `other` lies entirely inside this rect */
+  contains(...args: unknown[]) {
+    const [ox, oy, ow, oh] = rectFromArgs(args);
+    return (
+      this.x <= ox &&
+      this.y <= oy &&
+      this.x + this.w >= ox + ow &&
+      this.y + this.h >= oy + oh &&
+      this.x + this.w > ox &&
+      this.y + this.h > oy
+    );
+  }
+
+  /** Whether a point is inside; the right and bottom edges are outside */
+  collidepoint(...args: unknown[]) {
+    const [px, py] = pairFromArgs(args, 'Point');
+    return px >= this.x && px < this.x + this.w && py >= this.y && py < this.y + this.h;
+  }
+
+  /** Whether the rects overlap; sharing an edge isn't overlapping, and empty rects never do */
+  colliderect(...args: unknown[]) {
+    const [ox, oy, ow, oh] = rectFromArgs(args);
+    if (this.w === 0 || this.h === 0 || ow === 0 || oh === 0) return false;
+    return (
+      Math.min(this.x, this.x + this.w) < Math.max(ox, ox + ow) &&
+      Math.min(this.y, this.y + this.h) < Math.max(oy, oy + oh) &&
+      Math.max(this.x, this.x + this.w) > Math.min(ox, ox + ow) &&
+      Math.max(this.y, this.y + this.h) > Math.min(oy, oy + oh)
+    );
+  }
+
+  /** Index of the first rect in the list this one hits, or -1 */
+  collidelist(rects: unknown) {
+    return (toList(rects) ?? []).findIndex((rect) => this.colliderect(rect));
+  }
+
+  /** Indices of every rect in the list this one hits */
+  collidelistall(rects: unknown) {
+    const hits: number[] = [];
+    (toList(rects) ?? []).forEach((rect, index) => {
+      if (this.colliderect(rect)) hits.push(index);
+    });
+    return hits;
+  }
+
+  /** The first [key, value] whose key (or value, with `values`) this rect hits, or null */
+  collidedict<K, V>(rects: Map<K, V>, values = false): [K, V] | null {
+    return this.collidedictall(rects, values)[0] ?? null;
+  }
+
+  /** Every [key, value] whose key (or value, with `values`) this rect hits */
+  collidedictall<K, V>(rects: Map<K, V>, values = false): Array<[K, V]> {
+    return [...rects].filter(([key, value]) => this.colliderect(values ? value : key));
+  }
+
+  /** Same position and size as a rect or (x, y, w, h); false for anything that isn't one */
+  equals(other: unknown) {
+    try {
+      const [x, y, w, h] = rectFromArgs([other]);
+      return x === this.x && y === this.y && w === this.w && h === this.h;
+    } catch {
+      return false;
+    }
+  }
+
+  toString() {
+    return `<rect(${this.x}, ${this.y}, ${this.w}, ${this.h})>`;
+  }
+}
+
+/** Whether a value is a shim Rect; Python asks this to know which results to wrap */
+export function isPygameRect(value: unknown): value is PygameRect {
+  return value instanceof PygameRect;
+}
+
+// Makes the rects the shim hands to programs; under Pyodide, Python's wrapper around one
+let rectFactory: ((rect: PygameRect) => unknown) | null = null;
+
+/** Wrap every rect the shim creates for a program with `factory`; null to stop */
+export function setRectFactory(factory: ((rect: PygameRect) => unknown) | null) {
+  rectFactory = factory;
+}
+
+// What get_rect(center=...) and friends may set
+const RECT_ATTRIBUTES = new Set([
+  'x',
+  'y',
+  'w',
+  'h',
+  'width',
+  'height',
+  'size',
+  'left',
+  'top',
+  'right',
+  'bottom',
+  'centerx',
+  'centery',
+  'topleft',
+  'topright',
+  'bottomleft',
+  'bottomright',
+  'midtop',
+  'midbottom',
+  'midleft',
+  'midright',
+  'center',
+]);
+
+/**
+ * A new rect for a program: what get_rect(), blit() and pygame.draw return. `attributes`
+ * are keyword arguments such as get_rect(center=(320, 240)), applied in order.
+ */
+export function createRect(
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  attributes: Record<string, unknown> = {}
+): unknown {
+  const rect = new PygameRect(x, y, w, h);
+  for (const [name, value] of Object.entries(attributes)) {
+    if (!RECT_ATTRIBUTES.has(name)) throw new TypeError(`Invalid Rect attribute '${name}'`);
+    (rect as unknown as Record<string, unknown>)[name] = value;
+  }
+  return rectFactory ? rectFactory(rect) : rect;
+}
+
+/**
+ * pygame.Rect as Python sees it. A JavaScript object can't compare by value, refuse to be
+ * hashed or hand back tuples, so this class wraps a PygameRect and does those parts
+ * itself; the geometry stays in JavaScript. `_pixel_new_rect` and `_pixel_is_rect` are
+ * passed in from installPythonRect.
+ */
+const PYTHON_RECT = `
+from pyodide.ffi import JsProxy, to_js
+
+
+def _to_js(value):
+    """An argument as PygameRect expects it"""
+    if isinstance(value, Rect):
+        return value._rect
+    if isinstance(value, (tuple, list)):
+        return to_js([_to_js(item) for item in value])
+    if not isinstance(value, (int, float, str)) and hasattr(value, 'rect'):
+        rect = value.rect
+        return _to_js(rect() if callable(rect) else rect)
+    return value
+
+
+def _to_py(value):
+    """A PygameRect result as Python expects it: rects wrapped, pairs as tuples"""
+    if isinstance(value, JsProxy):
+        if _pixel_is_rect(value):
+            return Rect._wrap(value)
+        return tuple(_to_py(item) for item in value)
+    return value
+
+
+class Rect:
+    __slots__ = ('_rect',)
+    # Rects change, so like pygame's they can't be set members or dict keys
+    __hash__ = None
+
+    def __init__(self, *args):
+        object.__setattr__(self, '_rect', _pixel_new_rect(*[_to_js(arg) for arg in args]))
+
+    @classmethod
+    def _wrap(cls, rect):
+        self = object.__new__(cls)
+        object.__setattr__(self, '_rect', rect)
+        return self
+
+    def __getattr__(self, name):
+        if name.startswith('_'):
+            raise AttributeError(name)
+        value = getattr(self._rect, name)
+        if callable(value):
+            return lambda *args: _to_py(value(*[_to_js(arg) for arg in args]))
+        return _to_py(value)
+
+    def __setattr__(self, name, value):
+        if name.startswith('_') or not hasattr(self._rect, name):
+            raise AttributeError(f"'Rect' object has no attribute '{name}'")
+        setattr(self._rect, name, _to_js(value))
+
+    def __iter__(self):
+        return iter((self._rect.x, self._rect.y, self._rect.w, self._rect.h))
+
+    def __len__(self):
+        return 4
+
+    def __getitem__(self, index):
+        return tuple(self)[index]
+
+    def __setitem__(self, index, value):
+        values = list(self)
+        values[index] = value
+        if len(values) != 4:
+            raise TypeError('A Rect always has 4 values')
+        self._rect.update(*values)
+
+    def __eq__(self, other):
+        if isinstance(other, Rect) or (isinstance(other, (tuple, list)) and len(other) == 4):
+            return self._rect.equals(_to_js(other))
+        return NotImplemented
+
+    def __bool__(self):
+        return self._rect.w != 0 and self._rect.h != 0
+
+    def __contains__(self, other):
+        return self.contains(other)
+
+    def __copy__(self):
+        return self.copy()
+
+    def __repr__(self):
+        return self._rect.toString()
+
+    # Collisions with Python containers are found here, so what comes back is the
+    # program's own objects
+    def collidelist(self, rects):
+        for index, rect in enumerate(rects):
+            if self.colliderect(rect):
+                return index
+        return -1
+
+    def collidelistall(self, rects):
+        return [index for index, rect in enumerate(rects) if self.colliderect(rect)]
+
+    def collidedict(self, rects, values=False):
+        for key, value in rects.items():
+            if self.colliderect(value if values else key):
+                return (key, value)
+        return None
+
+    def collidedictall(self, rects, values=False):
+        return [(key, value) for key, value in rects.items()
+                if self.colliderect(value if values else key)]
+
+    def collideobjects(self, objects, key=None):
+        for item in objects:
+            if self.colliderect(key(item) if key else item):
+                return item
+        return None
+
+    def collideobjectsall(self, objects, key=None):
+        return [item for item in objects if self.colliderect(key(item) if key else item)]
+`;
+
+interface PythonScope {
+  globals: { get(name: string): unknown; set(name: string, value: unknown): void };
+  runPython(code: string): unknown;
+}
+
+/**
+ * Define pygame.Rect in Python, as the global `_pixel_Rect`, and have the shim hand
+ * programs Python rects from now on
+ */
+export function installPythonRect(pyodide: PythonScope) {
+  pyodide.globals.set('_pixel_rect_helpers', {
+    newRect: (...args: unknown[]) => new PygameRect(...args),
+    isRect: isPygameRect,
+  });
+  pyodide.runPython(`
+_pixel_rect_scope = {
+    '_pixel_new_rect': _pixel_rect_helpers.newRect,
+    '_pixel_is_rect': _pixel_rect_helpers.isRect,
+}
+exec(compile(${JSON.stringify(PYTHON_RECT)}, '<pixel-rect>', 'exec'), _pixel_rect_scope)
+_pixel_Rect = _pixel_rect_scope['Rect']
+del _pixel_rect_helpers, _pixel_rect_scope
+`);
+  const wrap = pyodide.globals.get('_pixel_Rect') as { _wrap: (rect: PygameRect) => unknown };
+  setRectFactory((rect) => wrap._wrap(rect));
+}
@@ -1,3 +1,25 @@
+import { PygameSound, pygameMixer, stopAllAudio } from './pygame-audio';
+import {
+  DEFAULT_FONT,
+  fontFileFamily,
+  fontPixelSize,
+  measureFont,
+  measureGlyphs,
+  measureTextWidth,
+  systemFontFamily,
+} from './pygame-fonts';
+import { getImage, type PygameBitmap } from './pygame-images';
+import {
+  PYGAME_EVENT_TYPES,
+  PYGAME_KEYS,
+  pygameEvent,
+  pygameKey,
+  pygameMouse,
+  resetPygameInput,
+} from './pygame-input';
+import { createRect, installPythonRect, PygameRect, type RectTuple } from './pygame-rect';
+import { installPythonSprites } from './pygame-sprite';
+
 interface GameObject {
   type: string;
   x: number;
@@ -12,156 +34,302 @@ interface SimulationResult {
 }
 
 // Frame buffer for accumulating pygame draw commands
-interface DrawCommand {
-  type: 'circle' | 'rect' | 'line' | 'fill' | 'blit' | 'clear' | 'text';
+export interface DrawCommand {
+  type:
+    | 'circle'
+    | 'rect'
+    | 'line'
+    | 'polygon'
+    | 'ellipse'
+    | 'fill'
+    | 'blit'
+    | 'transform'
+    | 'clipped'
+    | 'clear'
+    | 'text';
   args: any[];
 }
 
+type SurfaceCanvas = OffscreenCanvas | HTMLCanvasElement;
+type DrawContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+type RGB = [number, number, number];
+
 // Global rendering state
 let canvasContext: CanvasRenderingContext2D | null = null;
 let frameBuffer: DrawCommand[] = [];
+// Where finished frames go instead of a canvas, when the program runs in the Pyodide worker
+let frameSink: ((commands: DrawCommand[]) => void) | null = null;
 let isRenderingActive = false;
 let currentFPS = 60;
 let lastFrameTime = 0;
 
-// Enhanced Surface class with real rendering capabilities
+/** Backing pixels for an off-screen surface; null where no canvas API exists */
+function createSurfaceCanvas(width: number, height: number): SurfaceCanvas | null {
+  // A zero-sized canvas can't be drawn from, so keep at least one pixel
+  const w = Math.max(1, Math.round(width));
+  const h = Math.max(1, Math.round(height));
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(w, h);
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = w;
+    canvas.height = h;
+    return canvas;
+  }
+  return null;
+}
+
+function getDrawContext(canvas: SurfaceCanvas | null): DrawContext | null {
+  try {
+    return (canvas?.getContext('2d') as DrawContext | null) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** A tuple or list from Python, or a Rect or Color standing in for one */
+type PySequence = Iterable<unknown>;
+/** A color name, '#rrggbb', an (r, g, b[, a]) sequence or a pygame.Color */
+type ColorLike = string | PySequence;
+/** (x, y), or a Rect, which stands for its top-left corner */
+type PositionLike = PySequence | PygameRect;
+/** (x, y, w, h), ((x, y), (w, h)) or a Rect */
+type RectLike = PySequence | PygameRect;
+/** A size in points, or freetype's (width, height) pair of them */
+type FontSize = number | PySequence;
+
+/** Python sequences reach JavaScript as proxies; copy them into a plain array */
+function toList(value: unknown): unknown[] | null {
+  if (Array.isArray(value)) return value;
+  const iterable = value as Partial<Iterable<unknown>> | null | undefined;
+  if (value && typeof value !== 'string' && typeof iterable?.[Symbol.iterator] === 'function') {
+    return Array.from(iterable as Iterable<unknown>);
+  }
+  return null;
+}
+
+/** An (x, y, w, h) tuple or a Rect-like object as numbers */
+function toRectTuple(value: unknown): RectTuple | null {
+  const list = toList(value);
+  if (list && list.length >= 4) return [list[0], list[1], list[2], list[3]].map(Number) as RectTuple;
+  if (list && list.length === 2) {
+    const [pos, size] = list.map(toList);
+    if (pos && size) return [pos[0], pos[1], size[0], size[1]].map(Number) as RectTuple;
+  }
+  if (value && typeof value === 'object' && 'x' in value) {
+    const rect = value as { x: number; y: number; width?: number; w?: number; height?: number; h?: number };
+    return [rect.x, rect.y, rect.width ?? rect.w ?? 0, rect.height ?? rect.h ?? 0];
+  }
+  return null;
+}
+
+function toRGB(color: unknown): RGB | null {
+  const list = toList(color)?.map(Number);
+  return list && list.length >= 3 ? [list[0], list[1], list[2]] : null;
+}
+
+/** Where a blit lands: a position tuple, or a Rect's top-left corner */
+function toPosition(dest: unknown): [number, number] {
+  const list = toList(dest);
+  if (list && list.length >= 2) return [Number(list[0]), Number(list[1])];
+  if (dest && typeof dest === 'object') {
+    const { x, y, left, top } = dest as { x?: number; y?: number; left?: number; top?: number };
+    return [x ?? left ?? 0, y ?? top ?? 0];
+  }
+  return [0, 0];
+}
+
+// A surface's pixels, or a region of its parent's for a subsurface
+interface SurfaceParent {
+  surface: RenderingSurface;
+  x: number;
+  y: number;
+}
+
+/**
+ * pygame.Surface. Off-screen surfaces keep their pixels in a canvas and are drawn on
+ * straight away; the display surface queues its commands until display.flip().
+ */
 class RenderingSurface {
   public width: number;
   public height: number;
   public size: [number, number];
   public isMainSurface: boolean;
-  private imageData: ImageData | null = null;
-
-  constructor(width = 100, height = 100, isMainSurface = false) {
+  private readonly canvas: SurfaceCanvas | null = null;
+  private readonly context: DrawContext | null = null;
+  private readonly parent: SurfaceParent | null;
+  private version = 0;
+  private snapshotCache: { version: number; image: SurfaceCanvas } | null = null;
+  private alpha: number | null = null;
+  private colorkey: RGB | null = null;
+
+  constructor(width: number | PySequence = 100, height = 100, isMainSurface = false, parent?: SurfaceParent) {
+    // Python code calls Surface((w, h), flags); the flags are ignored
+    if (typeof width !== 'number') {
+      [width, height] = (toList(width) ?? []).map(Number);
+      isMainSurface = false;
+    }
     this.width = width;
     this.height = height;
     this.size = [width, height];
     this.isMainSurface = isMainSurface;
-    
-    // Create image data for surface
-    if (typeof OffscreenCanvas !== 'undefined') {
-      try {
-        const offscreen = new OffscreenCanvas(width, height);
-        const ctx = offscreen.getContext('2d');
-        if (ctx) {
-          this.imageData = ctx.createImageData(width, height);
-        }
-      } catch (e) {
-        console.warn('OffscreenCanvas not available, using fallback');
-      }
+    this.parent = parent ?? null;
+
+    if (!isMainSurface && !parent) {
+      this.canvas = createSurfaceCanvas(width, height);
+      this.context = getDrawContext(this.canvas);
     }
   }
 
+  /** A surface holding a decoded image at its natural size */
+  static fromBitmap(bitmap: PygameBitmap): RenderingSurface {
+    const surface = new RenderingSurface(bitmap.width, bitmap.height);
+    surface.replaceWithBitmap(bitmap);
+    return surface;
+  }
+
   get_width() { return this.width; }
   get_height() { return this.height; }
   get_size() { return this.size; }
-  get_rect() {
-    return new PygameRect(0, 0, this.width, this.height);
+  get_rect(attributes?: Record<string, unknown>) {
+    return createRect(0, 0, this.width, this.height, attributes);
   }
-  convert() { return this; }
-  convert_alpha() { return this; }
-  
-  // Implement fill method for surface clearing
-  fill(color: [number, number, number] | [number, number, number, number]) {
-    if (this.isMainSurface && canvasContext) {
-      const rgbColor = Array.isArray(color) && color.length >= 3 ? 
-        `rgb(${color[0]}, ${color[1]}, ${color[2]})` : 'rgb(0, 0, 0)';
-      frameBuffer.push({ type: 'fill', args: [rgbColor] });
+
+  // Per-pixel alpha is always on, so converting is just copying
+  convert() { return this.copy(); }
+  convert_alpha() { return this.copy(); }
+
+  copy(): RenderingSurface {
+    const copy = new RenderingSurface(this.width, this.height);
+    const pixels = this.readPixels();
+    if (pixels) {
+      copy.draw({
+        type: 'blit',
+        args: [pixels.image, pixels.x, pixels.y, this.width, this.height, 0, 0, this.width, this.height, 1],
+      });
     }
-    return null;
+    copy.alpha = this.alpha;
+    copy.colorkey = this.colorkey;
+    return copy;
   }
-  
-  // Implement blit method for drawing surfaces onto other surfaces
-  blit(source: RenderingSurface, dest: [number, number] | PygameRect) {
-    if (this.isMainSurface && canvasContext) {
-      const x = Array.isArray(dest) ? dest[0] : dest.x;
-      const y = Array.isArray(dest) ? dest[1] : dest.y;
-      frameBuffer.push({ 
-        type: 'blit', 
-        args: [source.width, source.height, x, y] 
-      });
+
+  /** Draw on this surface: straight into its pixels, or into the frame for the display */
+  draw(command: DrawCommand) {
+    if (this.parent) {
+      const { surface, x, y } = this.parent;
+      surface.draw({ type: 'clipped', args: [x, y, this.width, this.height, command] });
+    } else if (this.isMainSurface) {
+      if (canvasContext || frameSink) frameBuffer.push(command);
+    } else if (this.context) {
+      executeDrawCommand(this.context, command);
+      this.version++;
     }
-    return null;
   }
-}
 
-// Enhanced Rect class with collision detection
-class PygameRect {
-  public x: number;
-  public y: number;
-  public width: number;
-  public height: number;
-  public left: number;
-  public top: number;
-  public right: number;
-  public bottom: number;
-  public centerx: number;
-  public centery: number;
-  public center: [number, number];
-
-  constructor(x = 0, y = 0, width = 100, height = 100) {
-    this.x = x;
-    this.y = y;
-    this.width = width;
-    this.height = height;
-    this.left = x;
-    this.top = y;
-    this.right = x + width;
-    this.bottom = y + height;
-    this.centerx = x + width / 2;
-    this.centery = y + height / 2;
-    this.center = [this.centerx, this.centery];
+  fill(color: ColorLike, rect: RectLike | null = null) {
+    this.draw({ type: 'fill', args: [parseColor(color), toRectTuple(rect)] });
+    return this.get_rect();
   }
 
-  // Collision detection methods
-  colliderect(other: PygameRect): boolean {
-    return !(this.right <= other.left || 
-             this.left >= other.right || 
-             this.bottom <= other.top || 
-             this.top >= other.bottom);
+  blit(source: RenderingSurface, dest: PositionLike = [0, 0], area: RectLike | null = null) {
+    const [x, y] = toPosition(dest);
+    const [sx, sy, sw, sh] = toRectTuple(area) ?? [0, 0, source.width, source.height];
+    const image = source.snapshot();
+    if (image) {
+      const alpha = source.alpha === null ? 1 : source.alpha / 255;
+      this.draw({ type: 'blit', args: [image, sx, sy, sw, sh, x, y, sw, sh, alpha] });
+    }
+    return createRect(x, y, sw, sh);
   }
 
-  contains(point: [number, number] | PygameRect): boolean {
-    if (Array.isArray(point)) {
-      const [px, py] = point;
-      return px >= this.left && px < this.right && py >= this.top && py < this.bottom;
-    } else {
-      return point.left >= this.left && point.right <= this.right &&
-             point.top >= this.top && point.bottom <= this.bottom;
+  /** Take the size and pixels of an image; for image surfaces whose file arrived late */
+  replaceWithBitmap(bitmap: PygameBitmap) {
+    this.width = bitmap.width;
+    this.height = bitmap.height;
+    this.size = [bitmap.width, bitmap.height];
+    if (this.canvas) {
+      // Resizing a canvas also clears it
+      this.canvas.width = bitmap.width;
+      this.canvas.height = bitmap.height;
     }
+    const { width, height } = bitmap;
+    this.draw({ type: 'blit', args: [bitmap, 0, 0, width, height, 0, 0, width, height, 1] });
   }
 
-  move(x: number, y: number): PygameRect {
-    return new PygameRect(this.x + x, this.y + y, this.width, this.height);
+  /** Whole-surface transparency, 0-255; None turns it off */
+  set_alpha(value: number | null = null) {
+    this.alpha = value === null || value === undefined ? null : Math.max(0, Math.min(255, value));
   }
 
-  inflate(x: number, y: number): PygameRect {
-    return new PygameRect(
-      this.x - x/2, this.y - y/2, 
-      this.width + x, this.height + y
-    );
+  get_alpha() { return this.alpha; }
+
+  /** Pixels of exactly this color are left out when the surface is blitted */
+  set_colorkey(color: ColorLike | null = null) {
+    this.colorkey = toRGB(color);
+    this.snapshotCache = null;
+  }
+
+  get_colorkey() { return this.colorkey ? [...this.colorkey, 255] : null; }
+
+  /** A surface sharing this one's pixels, so drawing on either changes both */
+  subsurface(rect: RectLike): RenderingSurface {
+    const area = toRectTuple(rect);
+    if (
+      !area ||
+      area[0] < 0 ||
+      area[1] < 0 ||
+      area[0] + area[2] > this.width ||
+      area[1] + area[3] > this.height
+    ) {
+      throw new Error('ValueError: subsurface rectangle outside surface area');
+    }
+    return new RenderingSurface(area[2], area[3], false, { surface: this, x: area[0], y: area[1] });
   }
-}
 
-// Enhanced Sound class
-class PygameSound {
-  private volume: number = 1.0;
-  private filename: string;
+  get_parent() { return this.parent?.surface ?? null; }
+  get_offset() { return this.parent ? [this.parent.x, this.parent.y] : [0, 0]; }
 
-  constructor(filename: string) {
-    this.filename = filename;
+  /** Changes whenever this surface's pixels (or its parent's) may have changed */
+  private get pixelVersion(): number {
+    return this.parent ? this.parent.surface.pixelVersion : this.version;
   }
 
-  play() { 
-    console.log(`🔊 Playing sound: ${this.filename} (volume: ${this.volume})`);
+  /** The live pixels behind this surface; the display surface's can't be read back */
+  private readPixels(): { image: SurfaceCanvas; x: number; y: number } | null {
+    if (this.parent) {
+      const pixels = this.parent.surface.readPixels();
+      return pixels && { image: pixels.image, x: pixels.x + this.parent.x, y: pixels.y + this.parent.y };
+    }
+    return this.canvas && this.context ? { image: this.canvas, x: 0, y: 0 } : null;
   }
-  stop() { 
-    console.log(`🔇 Stopping sound: ${this.filename}`);
+
+  /**
+   * A copy of the pixels as they are now, with the colorkey cut out. The display draws
+   * its queued blits later, after the program may have drawn over the source again.
+   */
+  snapshot(): SurfaceCanvas | null {
+    const version = this.pixelVersion;
+    if (this.snapshotCache?.version === version) return this.snapshotCache.image;
+
+    const pixels = this.readPixels();
+    const image = createSurfaceCanvas(this.width, this.height);
+    const context = getDrawContext(image);
+    if (!pixels || !image || !context) return null;
+
+    context.drawImage(pixels.image, pixels.x, pixels.y, this.width, this.height, 0, 0, this.width, this.height);
+    if (this.colorkey) applyColorkey(context, this.width, this.height, this.colorkey);
+
+    this.snapshotCache = { version, image };
+    return image;
   }
-  set_volume(vol: number) { 
-    this.volume = Math.max(0, Math.min(1, vol));
+}
+
+function applyColorkey(context: DrawContext, width: number, height: number, [r, g, b]: RGB) {
+  const data = context.getImageData(0, 0, width, height);
+  const pixels = data.data;
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i] === r && pixels[i + 1] === g && pixels[i + 2] === b) pixels[i + 3] = 0;
   }
-  get_volume() { return this.volume; }
+  context.putImageData(data, 0, 0);
 }
 
 // Clock class for frame timing
@@ -191,43 +359,273 @@ class PygameClock {
   }
 }
 
-// Font class for text rendering
+/** Python keyword arguments arrive as a trailing plain object; line them up with the positional ones */
+function withKeywords<T>(args: unknown[], names: (keyof T & string)[]): Partial<T> {
+  const last = args[args.length - 1];
+  const isKeywords = last !== null && typeof last === 'object' && Object.getPrototypeOf(last) === Object.prototype;
+  const positional = isKeywords ? args.slice(0, -1) : args;
+  const named: Record<string, unknown> = {};
+  names.forEach((name, i) => {
+    if (positional[i] !== undefined) named[name] = positional[i];
+  });
+  return (isKeywords ? { ...named, ...last } : named) as Partial<T>;
+}
+
+/** The arguments pygame.freetype.Font's methods take, by name */
+interface FreetypeArgs {
+  surf: RenderingSurface;
+  dest: PositionLike;
+  text: string;
+  fgcolor: ColorLike | null;
+  bgcolor: ColorLike | null;
+  style: number;
+  rotation: number;
+  size: FontSize;
+}
+
+interface TextStyle {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strikethrough: boolean;
+}
+
+/** A line of text on a surface of its own, sized to fit it as pygame sizes it */
+function renderText(
+  text: string,
+  family: string,
+  pixelSize: number,
+  style: TextStyle,
+  color: ColorLike,
+  background: ColorLike | null | undefined,
+  antialias: boolean
+): RenderingSurface {
+  const font = cssFont(family, pixelSize, style);
+  const { ascent, height } = measureFont(font, pixelSize);
+  const surface = new RenderingSurface(measureTextWidth(font, pixelSize, text), height);
+  if (background !== null && background !== undefined) surface.fill(background);
+
+  const css = parseColor(color);
+  surface.draw({ type: 'text', args: [text, 0, ascent, css, font, antialias] });
+  // Lines as thick as pygame draws them: a sixteenth of the size, at least a pixel
+  const thickness = Math.max(1, Math.round(pixelSize / 16));
+  if (style.underline) {
+    surface.draw({ type: 'rect', args: [css, 0, ascent + thickness, surface.width, thickness] });
+  }
+  if (style.strikethrough) {
+    const y = ascent - Math.round(ascent * 0.35);
+    surface.draw({ type: 'rect', args: [css, 0, y, surface.width, thickness] });
+  }
+  return surface;
+}
+
+function cssFont(family: string, pixelSize: number, { bold, italic }: TextStyle): string {
+  return `${italic ? 'italic ' : ''}${bold ? 'bold ' : ''}${pixelSize}px ${family}, sans-serif`;
+}
+
+/**
+ * pygame.font.Font: a bundled, project or browser font at one size. Text is measured on
+ * a canvas, so size() and the surfaces render() returns match what gets drawn.
+ */
 class PygameFont {
-  private size: number;
-  private fontFamily: string;
+  private readonly family: string;
+  private readonly pixelSize: number;
+  private readonly style: TextStyle = {
+    bold: false,
+    italic: false,
+    underline: false,
+    strikethrough: false,
+  };
+
+  constructor(file: string | null = null, size: number = 12, family?: string) {
+    const path = file === null || file === undefined ? null : String(file);
+    this.family = family ?? fontFileFamily(path);
+    this.pixelSize = family ? Math.max(1, Math.trunc(size)) : fontPixelSize(path, size);
+  }
+
+  /** pygame.font.SysFont: a font by name, falling back to the default font */
+  static system(name: string | null, size: number, bold = false, italic = false): PygameFont {
+    const font = new PygameFont(null, size, systemFontFamily(name ?? null));
+    font.style.bold = Boolean(bold);
+    font.style.italic = Boolean(italic);
+    return font;
+  }
+
+  private get css() {
+    return cssFont(this.family, this.pixelSize, this.style);
+  }
+
+  render(text: string, antialias: boolean = true, color: ColorLike = [255, 255, 255], background: ColorLike | null = null): RenderingSurface {
+    return renderText(String(text ?? ''), this.family, this.pixelSize, this.style, color, background, Boolean(antialias));
+  }
+
+  /** Width and height render() would make `text` */
+  size(text: string): [number, number] {
+    return [measureTextWidth(this.css, this.pixelSize, String(text)), this.get_height()];
+  }
+
+  get_height() { return measureFont(this.css, this.pixelSize).height; }
+  get_linesize() { return measureFont(this.css, this.pixelSize).linesize; }
+  get_ascent() { return measureFont(this.css, this.pixelSize).ascent; }
+  get_descent() { return measureFont(this.css, this.pixelSize).descent; }
+  metrics(text: string) { return measureGlyphs(this.css, this.pixelSize, String(text)); }
+
+  get bold() { return this.style.bold; }
+  set bold(value: boolean) { this.style.bold = Boolean(value); }
+  get italic() { return this.style.italic; }
+  set italic(value: boolean) { this.style.italic = Boolean(value); }
+  get underline() { return this.style.underline; }
+  set underline(value: boolean) { this.style.underline = Boolean(value); }
+  get strikethrough() { return this.style.strikethrough; }
+  set strikethrough(value: boolean) { this.style.strikethrough = Boolean(value); }
+
+  set_bold(value: boolean) { this.bold = value; }
+  get_bold() { return this.bold; }
+  set_italic(value: boolean) { this.italic = value; }
+  get_italic() { return this.italic; }
+  set_underline(value: boolean) { this.underline = value; }
+  get_underline() { return this.underline; }
+  set_strikethrough(value: boolean) { this.strikethrough = value; }
+  get_strikethrough() { return this.strikethrough; }
+}
+
+// pygame.freetype style flags
+const FREETYPE_STYLES = {
+  STYLE_DEFAULT: 0xff,
+  STYLE_NORMAL: 0,
+  STYLE_STRONG: 1,
+  STYLE_OBLIQUE: 2,
+  STYLE_UNDERLINE: 4,
+  STYLE_WIDE: 8,
+};
 
-  constructor(fontname: string | null = null, size: number = 36) {
+/**
+ * pygame.freetype.Font. Sizes are in points at freetype's 72 dpi, which is pixels, and
+ * colors and styles can be set on the font or passed to each call.
+ */
+class PygameFreetypeFont {
+  size: number;
+  fgcolor: ColorLike = [0, 0, 0, 255];
+  bgcolor: ColorLike | null = null;
+  antialiased = true;
+  strong = false;
+  oblique = false;
+  underline = false;
+  rotation = 0;
+  readonly path: string | null;
+  private readonly family: string;
+
+  constructor(file: string | null = null, size: number = 0, family?: string) {
+    this.path = file === null || file === undefined ? null : String(file);
+    this.family = family ?? fontFileFamily(this.path);
     this.size = size;
-    this.fontFamily = fontname || 'Arial, sans-serif';
   }
 
-  render(text: string, antialias: boolean = true, color: [number, number, number] = [255, 255, 255]): RenderingSurface {
-    // Calculate approximate text dimensions
-    const avgCharWidth = this.size * 0.6; // Rough approximation
-    const textWidth = Math.ceil(text.length * avgCharWidth);
-    const textHeight = Math.ceil(this.size * 1.2);
-    
-    const surface = new RenderingSurface(textWidth, textHeight);
-    
-    // If rendering to main surface, add to frame buffer
-    if (canvasContext) {
-      const rgbColor = `rgb(${color[0]}, ${color[1]}, ${color[2]})`;
-      // Store text rendering command in frame buffer for later execution
-      frameBuffer.push({ 
-        type: 'text' as any, 
-        args: [text, 0, 0, rgbColor, `${this.size}px ${this.fontFamily}`] 
-      });
-    }
-    
-    return surface;
+  static system(name: string | null, size: number, bold = false, italic = false) {
+    const font = new PygameFreetypeFont(null, size, systemFontFamily(name ?? null));
+    font.strong = Boolean(bold);
+    font.oblique = Boolean(italic);
+    return font;
   }
 
-  size_text(text: string): [number, number] {
-    const avgCharWidth = this.size * 0.6;
-    return [Math.ceil(text.length * avgCharWidth), Math.ceil(this.size * 1.2)];
+  get name() { return this.path ?? DEFAULT_FONT; }
+  get height() { return this.get_sized_height(); }
+  get ascender() { return this.get_sized_ascender(); }
+  get descender() { return this.get_sized_descender(); }
+
+  private pixelSize(size: FontSize | undefined): number {
+    const points = toList(size)?.[1] ?? size;
+    const pixels = Number(points) || this.size;
+    if (!pixels) throw new Error('ValueError: No font point size specified');
+    return Math.max(1, Math.trunc(pixels));
+  }
+
+  private textStyle(style: number | undefined): TextStyle {
+    const flags = style === undefined || style === FREETYPE_STYLES.STYLE_DEFAULT ? null : Number(style);
+    return {
+      bold: flags === null ? this.strong : Boolean(flags & FREETYPE_STYLES.STYLE_STRONG),
+      italic: flags === null ? this.oblique : Boolean(flags & FREETYPE_STYLES.STYLE_OBLIQUE),
+      underline: flags === null ? this.underline : Boolean(flags & FREETYPE_STYLES.STYLE_UNDERLINE),
+      strikethrough: false,
+    };
+  }
+
+  /** render(text, fgcolor=None, bgcolor=None, style=STYLE_DEFAULT, rotation=0, size=0) -> (Surface, Rect) */
+  render(...args: unknown[]): [RenderingSurface, unknown] {
+    const options = withKeywords<FreetypeArgs>(args, ['text', 'fgcolor', 'bgcolor', 'style', 'rotation', 'size']);
+    let surface = renderText(
+      String(options.text ?? ''),
+      this.family,
+      this.pixelSize(options.size),
+      this.textStyle(options.style),
+      options.fgcolor ?? this.fgcolor,
+      options.bgcolor ?? this.bgcolor,
+      this.antialiased
+    );
+    const rotation = Number(options.rotation ?? this.rotation) || 0;
+    if (rotation) surface = pygameTransform.rotate(surface, rotation);
+    return [surface, createRect(0, 0, surface.width, surface.height)];
+  }
+
+  /** render_to(surf, dest, text, fgcolor=None, bgcolor=None, style, rotation, size) -> Rect */
+  render_to(...args: unknown[]) {
+    const options = withKeywords<FreetypeArgs>(args, ['surf', 'dest', 'text', 'fgcolor', 'bgcolor', 'style', 'rotation', 'size']);
+    const [surface] = this.render(options.text, options.fgcolor, options.bgcolor, {
+      style: options.style,
+      rotation: options.rotation,
+      size: options.size,
+    });
+    const [x, y] = toPosition(options.dest);
+    (options.surf as RenderingSurface).blit(surface, [x, y]);
+    return createRect(x, y, surface.width, surface.height);
+  }
+
+  /** The size text would render at, as a rect at (0, 0) */
+  get_rect(...args: unknown[]) {
+    const options = withKeywords<FreetypeArgs>(args, ['text', 'style', 'rotation', 'size']);
+    const size = this.pixelSize(options.size);
+    const font = cssFont(this.family, size, this.textStyle(options.style));
+    const width = measureTextWidth(font, size, String(options.text ?? ''));
+    return createRect(0, 0, width, measureFont(font, size).height);
+  }
+
+  get_sized_height(size: FontSize = 0) { return this.sizedMetrics(size).height; }
+  get_sized_ascender(size: FontSize = 0) { return this.sizedMetrics(size).ascent; }
+  get_sized_descender(size: FontSize = 0) { return this.sizedMetrics(size).descent; }
+  get_sized_glyph_height(size: FontSize = 0) { return this.sizedMetrics(size).height; }
+
+  private sizedMetrics(size: FontSize) {
+    const pixels = this.pixelSize(size);
+    return measureFont(cssFont(this.family, pixels, this.textStyle(undefined)), pixels);
   }
 }
 
+/** pygame.font; fonts are ready as soon as the program starts, so init() has nothing to do */
+const pygameFont = {
+  Font: PygameFont,
+  SysFont: (name: string | null, size: number, bold = false, italic = false) =>
+    PygameFont.system(name, size, bold, italic),
+  init: () => {},
+  quit: () => {},
+  get_init: () => true,
+  get_default_font: () => DEFAULT_FONT,
+  get_fonts: () => ['freesansbold', 'pixel'],
+  match_font: () => null,
+};
+
+/** pygame.freetype */
+const pygameFreetype = {
+  ...FREETYPE_STYLES,
+  Font: PygameFreetypeFont,
+  SysFont: (name: string | null, size: number, bold = false, italic = false) =>
+    PygameFreetypeFont.system(name, size, bold, italic),
+  init: () => {},
+  quit: () => {},
+  get_init: () => true,
+  was_init: () => true,
+  get_default_font: () => DEFAULT_FONT,
+};
+
 // Core rendering bridge functions
 export function setCanvasContext(ctx: CanvasRenderingContext2D | null) {
   canvasContext = ctx;
@@ -240,16 +638,153 @@ export function setCanvasContext(ctx: CanvasRenderingContext2D | null) {
   }
 }
 
+/** Send each finished frame to `sink` rather than drawing it; null to draw again */
+export function setFrameSink(sink: ((commands: DrawCommand[]) => void) | null) {
+  frameSink = sink;
+}
+
 // Reset pygame state
 export function resetPygameState() {
   frameBuffer = [];
   isRenderingActive = false;
   currentFPS = 60;
   lastFrameTime = 0;
+  stopAllAudio();
+  resetPygameInput();
+}
+
+// Size of an image surface whose file is still downloading
+const PLACEHOLDER_IMAGE_SIZE = 64;
+
+/** A surface showing a loaded image; one still downloading fills in when it arrives */
+function surfaceFromImage(filename: string): RenderingSurface {
+  const image = getImage(filename);
+  if (image.status === 'missing') {
+    throw new Error(
+      `FileNotFoundError: No file '${filename}' found in your project or the asset library`
+    );
+  }
+  if (image.status === 'ready') return RenderingSurface.fromBitmap(image.bitmap);
+
+  // Only names written out in the code are fetched before it runs, so one built at run
+  // time (e.g. with an f-string) shows up a moment later
+  console.warn(`🖼️ ${filename} was still loading, so it will appear in a moment`);
+  const surface = new RenderingSurface(PLACEHOLDER_IMAGE_SIZE, PLACEHOLDER_IMAGE_SIZE);
+  image.promise.then((bitmap) => {
+    if (bitmap) surface.replaceWithBitmap(bitmap);
+  });
+  return surface;
+}
+
+/** A new surface with `surface` drawn into it through an affine transform */
+function transformSurface(
+  surface: RenderingSurface,
+  width: number,
+  height: number,
+  matrix: [number, number, number, number, number, number]
+): RenderingSurface {
+  const result = new RenderingSurface(width, height);
+  const image = surface.snapshot();
+  if (image) result.draw({ type: 'transform', args: [image, ...matrix] });
+  result.set_alpha(surface.get_alpha());
+  return result;
+}
+
+/** pygame.draw; shapes go onto any surface, not only the display */
+const pygameDraw = {
+  circle(surface: RenderingSurface, color: ColorLike, center: PositionLike, radius: number, width: number = 0) {
+    const [x, y] = toPosition(center);
+    surface.draw({ type: 'circle', args: [parseColor(color), x, y, radius, width] });
+    return createRect(x - radius, y - radius, radius * 2, radius * 2);
+  },
+  rect(surface: RenderingSurface, color: ColorLike, rect: RectLike, width: number = 0) {
+    const [x, y, w, h] = toRectTuple(rect) ?? [0, 0, 50, 50];
+    surface.draw({ type: 'rect', args: [parseColor(color), x, y, w, h, width] });
+    return createRect(x, y, w, h);
+  },
+  line(surface: RenderingSurface, color: ColorLike, start: PositionLike, end: PositionLike, width: number = 1) {
+    const [x1, y1] = toPosition(start);
+    const [x2, y2] = toPosition(end);
+    surface.draw({ type: 'line', args: [parseColor(color), x1, y1, x2, y2, width] });
+    return createRect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1));
+  },
+  polygon(surface: RenderingSurface, color: ColorLike, points: Iterable<PositionLike>, width: number = 0) {
+    const corners = (toList(points) ?? []).map(toPosition);
+    surface.draw({ type: 'polygon', args: [parseColor(color), corners, width] });
+    return null;
+  },
+  ellipse(surface: RenderingSurface, color: ColorLike, rect: RectLike, width: number = 0) {
+    const [x, y, w, h] = toRectTuple(rect) ?? [0, 0, 50, 50];
+    surface.draw({ type: 'ellipse', args: [parseColor(color), x, y, w, h, width] });
+    return createRect(x, y, w, h);
+  },
+};
+
+/** pygame.image; pygame-images finds and fetches the files */
+const pygameImage = {
+  load(filename: string) {
+    return surfaceFromImage(String(filename));
+  },
+  save(surface: RenderingSurface, filename: string) {
+    console.log(`💾 Saving image: ${filename}`);
+  },
+};
+
+/** pygame.transform; every function returns a new surface and leaves its input alone */
+const pygameTransform = {
+  scale(surface: RenderingSurface, size: PySequence) {
+    const [width, height] = toPosition(size);
+    return transformSurface(surface, width, height, [
+      width / surface.width,
+      0,
+      0,
+      height / surface.height,
+      0,
+      0,
+    ]);
+  },
+  /** Counterclockwise by `angle` degrees; the result grows to fit the rotated corners */
+  rotate(surface: RenderingSurface, angle: number) {
+    const radians = (angle * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const { width: w, height: h } = surface;
+    // Round away float noise first so a quarter turn doesn't gain a pixel
+    const roundUp = (n: number) => Math.ceil(Math.round(n * 1e6) / 1e6);
+    const width = roundUp(Math.abs(w * cos) + Math.abs(h * sin));
+    const height = roundUp(Math.abs(w * sin) + Math.abs(h * cos));
+    // The screen's y axis points down, so counterclockwise is a negative canvas rotation
+    const [a, b, c, d] = [cos, -sin, sin, cos];
+    return transformSurface(surface, width, height, [
+      a,
+      b,
+      c,
+      d,
+      width / 2 - (a * w + c * h) / 2,
+      height / 2 - (b * w + d * h) / 2,
+    ]);
+  },
+  flip(surface: RenderingSurface, xbool: boolean = false, ybool: boolean = false) {
+    const { width, height } = surface;
+    return transformSurface(surface, width, height, [
+      xbool ? -1 : 1,
+      0,
+      0,
+      ybool ? -1 : 1,
+      xbool ? width : 0,
+      ybool ? height : 0,
+    ]);
+  },
+};
+
+/** Parts of the environment that differ where the program runs off the page */
+interface PygameEnvironmentOptions {
+  /** pygame.mixer; the Pyodide worker relays its sounds to the page */
+  mixer?: unknown;
 }
 
 // Create complete pygame environment for Pyodide
-export function createPygameEnvironment() {
+export function createPygameEnvironment({ mixer = pygameMixer }: PygameEnvironmentOptions = {}) {
   const pygame = {
     init: () => console.log('🎮 Pygame initialized'),
     quit: () => {
@@ -258,8 +793,9 @@ export function createPygameEnvironment() {
     },
     display: {
       set_mode: (size: [number, number]) => {
-        console.log(`🖼️ Display mode set: ${size[0]}x${size[1]}`);
-        return new RenderingSurface(size[0], size[1], true);
+        const [width, height] = toPosition(size);
+        console.log(`🖼️ Display mode set: ${width}x${height}`);
+        return new RenderingSurface(width, height, true);
       },
       flip: () => {
         flushFrameBuffer();
@@ -271,146 +807,23 @@ export function createPygameEnvironment() {
       },
       set_caption: (title: string) => console.log(`🏷️ Window caption: ${title}`)
     },
-    draw: {
-      circle: (surface: RenderingSurface, color: [number, number, number], center: [number, number], radius: number) => {
-        if (surface.isMainSurface && canvasContext) {
-          const rgbColor = `rgb(${color[0]}, ${color[1]}, ${color[2]})`;
-          frameBuffer.push({ type: 'circle', args: [rgbColor, center[0], center[1], radius] });
-        }
-        return null;
-      },
-      rect: (surface: RenderingSurface, color: [number, number, number], rect: [number, number, number, number] | PygameRect) => {
-        if (surface.isMainSurface && canvasContext) {
-          const rgbColor = `rgb(${color[0]}, ${color[1]}, ${color[2]})`;
-          if (Array.isArray(rect)) {
-            frameBuffer.push({ type: 'rect', args: [rgbColor, rect[0], rect[1], rect[2], rect[3]] });
-          } else {
-            frameBuffer.push({ type: 'rect', args: [rgbColor, rect.x, rect.y, rect.width, rect.height] });
-          }
-        }
-        return null;
-      },
-      line: (surface: RenderingSurface, color: [number, number, number], start: [number, number], end: [number, number], width: number = 1) => {
-        if (surface.isMainSurface && canvasContext) {
-          const rgbColor = `rgb(${color[0]}, ${color[1]}, ${color[2]})`;
-          frameBuffer.push({ type: 'line', args: [rgbColor, start[0], start[1], end[0], end[1], width] });
-        }
-        return null;
-      },
-      polygon: (surface: RenderingSurface, color: [number, number, number], points: [number, number][]) => {
-        if (surface.isMainSurface && canvasContext) {
-          const rgbColor = `rgb(${color[0]}, ${color[1]}, ${color[2]})`;
-          frameBuffer.push({ type: 'polygon' as any, args: [rgbColor, points] });
-        }
-        return null;
-      },
-      ellipse: (surface: RenderingSurface, color: [number, number, number], rect: [number, number, number, number]) => {
-        if (surface.isMainSurface && canvasContext) {
-          const rgbColor = `rgb(${color[0]}, ${color[1]}, ${color[2]})`;
-          frameBuffer.push({ type: 'ellipse' as any, args: [rgbColor, rect[0], rect[1], rect[2], rect[3]] });
-        }
-        return null;
-      }
-    },
-    font: {
-      Font: PygameFont,
-      SysFont: (name: string | null, size: number) => new PygameFont(name, size)
-    },
+    draw: pygameDraw,
+    font: pygameFont,
+    freetype: pygameFreetype,
     time: {
       Clock: PygameClock,
       get_ticks: () => performance.now()
     },
-    mixer: {
-      init: () => console.log('🔊 Mixer initialized'),
-      quit: () => console.log('🔇 Mixer quit'),
-      Sound: PygameSound,
-      music: {
-        load: (file: string) => console.log(`🎵 Loading music: ${file}`),
-        play: (loops: number = -1) => console.log('🎵 Playing music'),
-        stop: () => console.log('🎵 Music stopped'),
-        set_volume: (vol: number) => console.log(`🎵 Music volume: ${vol}`)
-      }
-    },
-    event: {
-      get: () => [],
-      poll: () => null,
-      Event: (type: number, dict: any = {}) => ({ type, ...dict })
-    },
-    key: {
-      get_pressed: () => new Array(512).fill(false),
-      name: (key: number) => `Key${key}`
-    },
-    mouse: {
-      get_pos: () => [0, 0],
-      get_pressed: () => [false, false, false],
-      set_cursor: (size: [number, number], hotspot: [number, number], xormasks: any, andmasks: any) => null
-    },
+    mixer,
+    event: pygameEvent,
+    key: pygameKey,
+    mouse: pygameMouse,
     Surface: RenderingSurface,
     Rect: PygameRect,
     Color: (r: number, g: number = 0, b: number = 0, a: number = 255) => [r, g, b, a],
-    image: {
-      load: (filename: string) => {
-        console.log(`📷 Loading image: ${filename}`);
-        return new RenderingSurface(100, 100);
-      },
-      save: (surface: RenderingSurface, filename: string) => {
-        console.log(`💾 Saving image: ${filename}`);
-      }
-    },
-    transform: {
-      scale: (surface: RenderingSurface, size: [number, number]) => {
-        return new RenderingSurface(size[0], size[1]);
-      },
-      rotate: (surface: RenderingSurface, angle: number) => surface,
-      flip: (surface: RenderingSurface, xbool: boolean, ybool: boolean) => surface
-    },
-    sprite: {
-      Sprite: class {
-        image: RenderingSurface | null = null;
-        rect: PygameRect | null = null;
-        update() {}
-        kill() {}
-      },
-      Group: class {
-        sprites: any[] = [];
-        add(sprite: any) { this.sprites.push(sprite); }
-        remove(sprite: any) { 
-          const idx = this.sprites.indexOf(sprite);
-          if (idx > -1) this.sprites.splice(idx, 1);
-        }
-        empty() { this.sprites = []; }
-        update() { this.sprites.forEach(s => s.update()); }
-        draw(surface: RenderingSurface) {
-          this.sprites.forEach(s => {
-            if (s.image && s.rect) {
-              surface.blit(s.image, [s.rect.x, s.rect.y]);
-            }
-          });
-        }
-      }
-    },
-    locals: {
-      QUIT: 12,
-      KEYDOWN: 2,
-      KEYUP: 3,
-      MOUSEBUTTONDOWN: 5,
-      MOUSEBUTTONUP: 6,
-      MOUSEMOTION: 4,
-      K_LEFT: 276,
-      K_RIGHT: 275,
-      K_UP: 273,
-      K_DOWN: 274,
-      K_SPACE: 32,
-      K_RETURN: 13,
-      K_ESCAPE: 27,
-      K_a: 97,
-      K_d: 100,
-      K_w: 119,
-      K_s: 115,
-      K_x: 120,
-      K_LSHIFT: 304,
-      K_RSHIFT: 303
-    },
+    image: pygameImage,
+    transform: pygameTransform,
+    locals: { ...PYGAME_EVENT_TYPES, ...PYGAME_KEYS },
     math: Math,
     random: {
       randint: (min: number, max: number) => Math.floor(Math.random() * (max - min + 1)) + min,
@@ -432,102 +845,247 @@ export function createPygameEnvironment() {
   return pygame;
 }
 
-export function flushFrameBuffer() {
-  if (!canvasContext || frameBuffer.length === 0) {
+/** Run one draw command on a canvas: the display's when flushing, or a surface's own */
+function executeDrawCommand(ctx: DrawContext, command: DrawCommand) {
+  const args = command.args;
+  switch (command.type) {
+    case 'clear':
+      ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+      break;
+
+    case 'fill': {
+      // Filling replaces pixels, transparency included, rather than painting over them
+      const [color, rect] = args;
+      const [x, y, w, h] = rect ?? [0, 0, ctx.canvas.width, ctx.canvas.height];
+      ctx.clearRect(x, y, w, h);
+      ctx.fillStyle = color;
+      ctx.fillRect(x, y, w, h);
+      break;
+    }
+
+    case 'circle': {
+      const [color, centerX, centerY, radius, width = 0] = args;
+      ctx.beginPath();
+      ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
+      paintPath(ctx, color, width);
+      break;
+    }
+
+    case 'rect': {
+      const [color, x, y, w, h, width = 0] = args;
+      ctx.beginPath();
+      ctx.rect(x, y, w, h);
+      paintPath(ctx, color, width);
+      break;
+    }
+
+    case 'line': {
+      const [color, startX, startY, endX, endY, width] = args;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = width || 1;
+      ctx.beginPath();
+      ctx.moveTo(startX, startY);
+      ctx.lineTo(endX, endY);
+      ctx.stroke();
+      break;
+    }
+
+    case 'polygon': {
+      const [color, points, width = 0] = args;
+      if (!points || points.length === 0) break;
+      ctx.beginPath();
+      ctx.moveTo(points[0][0], points[0][1]);
+      for (let i = 1; i < points.length; i++) {
+        ctx.lineTo(points[i][0], points[i][1]);
+      }
+      ctx.closePath();
+      paintPath(ctx, color, width);
+      break;
+    }
+
+    case 'ellipse': {
+      const [color, x, y, w, h, width = 0] = args;
+      ctx.beginPath();
+      ctx.ellipse(x + w / 2, y + h / 2, w / 2, h / 2, 0, 0, 2 * Math.PI);
+      paintPath(ctx, color, width);
+      break;
+    }
+
+    case 'text': {
+      // y is the baseline, so glyphs sit where pygame puts them
+      const [text, x, y, color, font, antialias = true] = args;
+      if (antialias) {
+        ctx.fillStyle = color;
+        ctx.font = font;
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillText(text, x, y);
+      } else {
+        drawAliasedText(ctx, text, x, y, color, font);
+      }
+      break;
+    }
+
+    case 'blit': {
+      const [image, sx, sy, sw, sh, dx, dy, dw, dh, alpha] = args;
+      ctx.globalAlpha = alpha;
+      ctx.drawImage(image, sx, sy, sw, sh, dx, dy, dw, dh);
+      ctx.globalAlpha = 1;
+      break;
+    }
+
+    case 'transform': {
+      const [image, a, b, c, d, e, f] = args;
+      ctx.save();
+      ctx.transform(a, b, c, d, e, f);
+      ctx.drawImage(image, 0, 0);
+      ctx.restore();
+      break;
+    }
+
+    case 'clipped': {
+      // A subsurface draws in its own coordinates, inside its area of the parent
+      const [x, y, w, h, inner] = args;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(x, y, w, h);
+      ctx.clip();
+      ctx.translate(x, y);
+      executeDrawCommand(ctx, inner);
+      ctx.restore();
+      break;
+    }
+  }
+}
+
+/**
+ * Text without antialiasing, as pygame renders it with antialias=False: each pixel is
+ * either the text color or untouched. Canvases always smooth text, so the smoothing is
+ * thresholded away on a scratch canvas first.
+ */
+function drawAliasedText(ctx: DrawContext, text: string, x: number, y: number, color: string, font: string) {
+  const { width, height } = ctx.canvas;
+  const scratch = createSurfaceCanvas(width, height);
+  const scratchContext = getDrawContext(scratch);
+  if (!scratch || !scratchContext) return;
+  scratchContext.fillStyle = color;
+  scratchContext.font = font;
+  scratchContext.textBaseline = 'alphabetic';
+  scratchContext.fillText(text, x, y);
+  const data = scratchContext.getImageData(0, 0, width, height);
+  const pixels = data.data;
+  for (let i = 3; i < pixels.length; i += 4) pixels[i] = pixels[i] >= 128 ? 255 : 0;
+  scratchContext.putImageData(data, 0, 0);
+  ctx.drawImage(scratch, 0, 0);
+}
+
+/** pygame's width argument: 0 fills the shape, anything else outlines it that thick */
+function paintPath(ctx: DrawContext, color: string, width: number) {
+  if (width > 0) {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = width;
+    ctx.stroke();
+  } else {
+    ctx.fillStyle = color;
+    ctx.fill();
+  }
+}
+
+interface PythonScope {
+  globals: { get(name: string): unknown; set(name: string, value: unknown): void };
+  runPython(code: string): unknown;
+}
+
+/**
+ * Make the shim importable, so `import pygame` and `from pygame.locals import *` work as
+ * they would with the real package. pygame.Rect and pygame.sprite are Python classes, so
+ * programs can subclass them. Returns the pygame object the program will see.
+ */
+export function installPygameModule(pyodide: PythonScope, options?: PygameEnvironmentOptions) {
+  const pygame = createPygameEnvironment(options);
+  pyodide.globals.set('_pixel_pygame', pygame);
+  installPythonRect(pyodide);
+  installPythonSprites(pyodide);
+  pyodide.runPython(`
+import sys
+import types
+
+
+# Namespaces of the shim that programs can import on their own, e.g. import pygame.mixer
+_PIXEL_SUBMODULES = (
+    'display', 'draw', 'event', 'font', 'freetype', 'image', 'key', 'mixer', 'mouse', 'time',
+    'transform',
+)
+
+
+def _pixel_value(value):
+    # Pyodide calls a JavaScript class like a function, which classes refuse, so make it new
+    if getattr(value, 'typeof', None) == 'function' and str(value).startswith('class'):
+        def construct(*args, **kwargs):
+            return value.new(*args, **kwargs)
+
+        construct.__name__ = construct.__qualname__ = value.name
+        return construct
+    return value
+
+
+def _pixel_module(name, source):
+    module = types.ModuleType(name)
+    # dir() of a JavaScript object lists the proxy's own dunders too; the module keeps its own
+    for attribute in dir(source):
+        if not attribute.startswith('__'):
+            setattr(module, attribute, _pixel_value(getattr(source, attribute)))
+    return module
+
+
+sys.modules['pygame'] = _pixel_module('pygame', _pixel_pygame)
+sys.modules['pygame.locals'] = _pixel_module('pygame.locals', _pixel_pygame.locals)
+sys.modules['pygame'].locals = sys.modules['pygame.locals']
+pygame = sys.modules['pygame']
+pygame.Rect = pygame.locals.Rect = _pixel_Rect
+sys.modules['pygame.sprite'] = pygame.sprite = _pixel_sprite
+for _pixel_name in _PIXEL_SUBMODULES:
+    _pixel_submodule = _pixel_module(f'pygame.{_pixel_name}', getattr(_pixel_pygame, _pixel_name))
+    sys.modules[f'pygame.{_pixel_name}'] = _pixel_submodule
+    setattr(pygame, _pixel_name, _pixel_submodule)
+del _pixel_module, _pixel_value, _pixel_pygame, _pixel_Rect, _pixel_sprite
+del _pixel_name, _pixel_submodule, _PIXEL_SUBMODULES
+`);
+  return pygame;
+}
+
+/**
+ * Finish the frame: hand it to the frame sink, or draw it on the canvas. A frame streamed
+ * from the Pyodide worker is drawn by passing its `commands`.
+ */
+export function flushFrameBuffer(commands?: DrawCommand[]) {
+  if (frameSink && !commands) {
+    if (frameBuffer.length > 0) frameSink(frameBuffer);
+    frameBuffer = [];
+    return;
+  }
+  const frame = commands ?? frameBuffer;
+  if (!canvasContext || frame.length === 0) {
     return;
   }
 
   try {
     // Process all draw commands in the frame buffer
-    for (const command of frameBuffer) {
-      switch (command.type) {
-        case 'clear':
-          canvasContext.clearRect(0, 0, canvasContext.canvas.width, canvasContext.canvas.height);
-          break;
-          
-        case 'fill':
-          const [fillColor] = command.args;
-          canvasContext.fillStyle = fillColor;
-          canvasContext.fillRect(0, 0, canvasContext.canvas.width, canvasContext.canvas.height);
-          break;
-          
-        case 'circle':
-          const [circleColor, centerX, centerY, radius] = command.args;
-          canvasContext.fillStyle = circleColor;
-          canvasContext.beginPath();
-          canvasContext.arc(centerX, centerY, radius, 0, 2 * Math.PI);
-          canvasContext.fill();
-          break;
-          
-        case 'rect':
-          const [rectColor, rectX, rectY, rectWidth, rectHeight] = command.args;
-          canvasContext.fillStyle = rectColor;
-          canvasContext.fillRect(rectX, rectY, rectWidth, rectHeight);
-          break;
-          
-        case 'line':
-          const [lineColor, startX, startY, endX, endY, lineWidth] = command.args;
-          canvasContext.strokeStyle = lineColor;
-          canvasContext.lineWidth = lineWidth || 1;
-          canvasContext.beginPath();
-          canvasContext.moveTo(startX, startY);
-          canvasContext.lineTo(endX, endY);
-          canvasContext.stroke();
-          break;
-          
-        case 'polygon' as any:
-          const [polyColor, points] = command.args;
-          if (points && points.length > 0) {
-            canvasContext.fillStyle = polyColor;
-            canvasContext.beginPath();
-            canvasContext.moveTo(points[0][0], points[0][1]);
-            for (let i = 1; i < points.length; i++) {
-              canvasContext.lineTo(points[i][0], points[i][1]);
-            }
-            canvasContext.closePath();
-            canvasContext.fill();
-          }
-          break;
-          
-        case 'ellipse' as any:
-          const [ellipseColor, ellipseX, ellipseY, ellipseWidth, ellipseHeight] = command.args;
-          canvasContext.fillStyle = ellipseColor;
-          canvasContext.beginPath();
-          canvasContext.ellipse(
-            ellipseX + ellipseWidth / 2,
-            ellipseY + ellipseHeight / 2,
-            ellipseWidth / 2,
-            ellipseHeight / 2,
-            0, 0, 2 * Math.PI
-          );
-          canvasContext.fill();
-          break;
-          
-        case 'text':
-          const [text, textX, textY, textColor, font] = command.args;
-          canvasContext.fillStyle = textColor;
-          canvasContext.font = font;
-          canvasContext.fillText(text, textX, textY);
-          break;
-          
-        case 'blit':
-          // For now, just draw a placeholder rectangle for blits
-          const [blitWidth, blitHeight, blitX, blitY] = command.args;
-          canvasContext.fillStyle = 'rgba(100, 100, 100, 0.5)';
-          canvasContext.fillRect(blitX, blitY, blitWidth, blitHeight);
-          break;
-      }
+    for (const command of frame) {
+      executeDrawCommand(canvasContext, command);
     }
   } catch (error) {
     console.error('Pygame rendering error:', error);
   } finally {
     // Clear the frame buffer after rendering
-    frameBuffer = [];
+    if (!commands) frameBuffer = [];
   }
 }
 
 // Utility function to convert pygame color to CSS color
 function parseColor(color: any): string {
+  if (typeof color !== 'string') {
+    color = toList(color) ?? color;
+  }
   if (Array.isArray(color)) {
     if (color.length >= 3) {
       const r = Math.max(0, Math.min(255, Math.floor(color[0])));
@@ -548,6 +1106,7 @@ export const strata = {
     isRenderingActive = false;
     canvasContext = null;
     frameBuffer = [];
+    stopAllAudio();
   },
   isRunning() { return isRenderingActive; },
   
@@ -567,7 +1126,7 @@ export const strata = {
   font: {
     init() { return true; },
     Font(fontname: string | null = null, size: number = 36) {
-      return new PygameFont(fontname, size);
+      return PygameFont.system(fontname, size);
     },
     get_default_font() {
       return 'Arial';
@@ -577,7 +1136,8 @@ export const strata = {
   // Display module with real surface creation
   display: {
     setMode(size: [number, number] = [800, 600]) {
-      const surface = new RenderingSurface(size[0], size[1], true);
+      const [width, height] = toPosition(size);
+      const surface = new RenderingSurface(width, height, true);
       if (isRenderingActive) {
         frameBuffer.push({ type: 'clear', args: [] });
       }
@@ -602,133 +1162,34 @@ export const strata = {
   },
 
   // Image module
-  image: {
-    load(filename: string) {
-      console.log(`🖼️ Loading image: ${filename} (placeholder surface created)`);
-      return new RenderingSurface(64, 64);
-    }
-  },
+  image: pygameImage,
 
-  // Enhanced mixer module
+  // Mixer module; Sound is a factory here since compiled games call it without new
   mixer: {
-    init() { return true; },
-    quit() { console.log('🔇 Audio mixer stopped'); },
+    ...pygameMixer,
     Sound(file: string) {
       return new PygameSound(file);
     },
     music: {
-      load(filename: string) {
-        console.log(`🎵 Loading music: ${filename}`);
-      },
-      play(loops: number = 0) {
-        console.log(`🎵 Playing music (loops: ${loops})`);
-      },
-      stop() {
-        console.log('🔇 Music stopped');
-      },
-      setVolume(volume: number) {
-        console.log(`🔊 Music volume: ${volume}`);
-      }
-    }
-  },
-
-  // Enhanced draw module with real rendering
-  draw: {
-    circle(surface: RenderingSurface, color: any, pos: [number, number], radius: number) {
-      if (surface.isMainSurface && isRenderingActive) {
-        const cssColor = parseColor(color);
-        frameBuffer.push({ 
-          type: 'circle', 
-          args: [cssColor, pos[0], pos[1], radius] 
-        });
-      }
-    },
-    rect(surface: RenderingSurface, color: any, rect: any) {
-      if (surface.isMainSurface && isRenderingActive) {
-        const cssColor = parseColor(color);
-        let x, y, width, height;
-        
-        if (Array.isArray(rect) && rect.length >= 4) {
-          [x, y, width, height] = rect;
-        } else if (rect && typeof rect === 'object') {
-          x = rect.x || rect.left || 0;
-          y = rect.y || rect.top || 0;
-          width = rect.width || rect.w || 50;
-          height = rect.height || rect.h || 50;
-        } else {
-          x = y = 0; width = height = 50;
-        }
-        
-        frameBuffer.push({ 
-          type: 'rect', 
-          args: [cssColor, x, y, width, height] 
-        });
-      }
-    },
-    line(surface: RenderingSurface, color: any, start: [number, number], end: [number, number], width: number = 1) {
-      if (surface.isMainSurface && isRenderingActive) {
-        const cssColor = parseColor(color);
-        frameBuffer.push({ 
-          type: 'line', 
-          args: [cssColor, start[0], start[1], end[0], end[1], width] 
-        });
-      }
+      ...pygameMixer.music,
+      setVolume: pygameMixer.music.set_volume,
     },
-    polygon(surface: RenderingSurface, color: any, points: [number, number][]) {
-      // Approximate polygon with lines for now
-      if (surface.isMainSurface && isRenderingActive && points.length > 1) {
-        const cssColor = parseColor(color);
-        for (let i = 0; i < points.length; i++) {
-          const start = points[i];
-          const end = points[(i + 1) % points.length];
-          frameBuffer.push({ 
-            type: 'line', 
-            args: [cssColor, start[0], start[1], end[0], end[1], 1] 
-          });
-        }
-      }
-    }
   },
 
+  // Draw module; shapes go onto any surface
+  draw: pygameDraw,
+
   // Event module with basic event simulation
-  event: {
-    get() { 
-      // Return empty events list - real event handling would need browser integration
-      return []; 
-    },
-    pump() { /* Process events - no-op for simulation */ },
-    Event(type: number, dict: any = {}) {
-      return { type, ...dict };
-    }
-  },
+  event: pygameEvent,
 
   // Key module
   key: {
-    getPressed() { 
-      // Return array of 512 False values to simulate no keys pressed
-      return new Array(512).fill(false);
-    },
-    getFocused() {
-      return true; // Assume window has focus
-    }
+    getPressed: pygameKey.get_pressed,
+    getFocused: pygameKey.get_focused,
   },
 
   // Transform module
-  transform: {
-    scale(surface: RenderingSurface, size: [number, number]) {
-      return new RenderingSurface(size[0], size[1]);
-    },
-    rotate(surface: RenderingSurface, angle: number) {
-      // Return same surface for now - rotation is complex
-      console.log(`🔄 Rotating surface by ${angle} degrees (placeholder)`);
-      return surface;
-    },
-    flip(surface: RenderingSurface, xbool: boolean = false, ybool: boolean = false) {
-      // Return same surface for now
-      console.log(`🔄 Flipping surface (x:${xbool}, y:${ybool}) (placeholder)`);
-      return surface;
-    }
-  },
+  transform: pygameTransform,
 
   // Common color constants and utilities
   Color: {
@@ -743,23 +1204,9 @@ export const strata = {
   },
   
   // Constants
-  QUIT: 12,
-  KEYDOWN: 2,
-  KEYUP: 3,
-  K_LEFT: 276,
-  K_RIGHT: 275,
-  K_UP: 273,
-  K_DOWN: 274,
-  K_SPACE: 32,
-  K_w: 119,
-  K_a: 97,
-  K_s: 115,
-  K_d: 100,
-  K_r: 114,
-  K_ESCAPE: 27,
-  K_RETURN: 13,
-  K_p: 112,
-  
+  ...PYGAME_EVENT_TYPES,
+  ...PYGAME_KEYS,
+
   // Rect constructor
   Rect: PygameRect
 };
@@ -0,0 +1,581 @@
+/**
+ * pygame.sprite for the shim. Programs subclass Sprite and Group, which a JavaScript class
+ * can't offer Python, so the module is written in Python, following pygame's own
+ * sprite.py: the same classes, draw and update order, and collision helpers. Sprites draw
+ * by blitting their `image` at their `rect` onto the shim's surfaces.
+ */
+
+interface PythonScope {
+  runPython(code: string): unknown;
+}
+
+const PYTHON_SPRITE = `
+from operator import truth
+
+
+class Sprite:
+    """A game object that knows which groups it is in"""
+
+    def __init__(self, *groups):
+        self.__g = {}
+        if groups:
+            self.add(*groups)
+
+    def add(self, *groups):
+        has = self.__g.__contains__
+        for group in groups:
+            if hasattr(group, '_spritegroup'):
+                if not has(group):
+                    group.add_internal(self)
+                    self.add_internal(group)
+            else:
+                self.add(*group)
+
+    def remove(self, *groups):
+        has = self.__g.__contains__
+        for group in groups:
+            if hasattr(group, '_spritegroup'):
+                if has(group):
+                    group.remove_internal(self)
+                    self.remove_internal(group)
+            else:
+                self.remove(*group)
+
+    def add_internal(self, group):
+        self.__g[group] = 0
+
+    def remove_internal(self, group):
+        del self.__g[group]
+
+    def update(self, *args, **kwargs):
+        pass
+
+    def kill(self):
+        for group in list(self.__g):
+            group.remove_internal(self)
+        self.__g.clear()
+
+    def groups(self):
+        return list(self.__g)
+
+    def alive(self):
+        return truth(self.__g)
+
+    @property
+    def layer(self):
+        return getattr(self, '_layer', 0)
+
+    @layer.setter
+    def layer(self, value):
+        if self.alive():
+            raise AttributeError("Can't set layer directly after adding to group")
+        self._layer = value
+
+    def __repr__(self):
+        return f'<{self.__class__.__name__} Sprite(in {len(self.__g)} groups)>'
+
+
+class DirtySprite(Sprite):
+    """A Sprite with the flags pygame's dirty-rect groups read"""
+
+    def __init__(self, *groups):
+        self.dirty = 1
+        self.blendmode = 0
+        self._visible = 1
+        self._layer = getattr(self, '_layer', 0)
+        self.source_rect = None
+        Sprite.__init__(self, *groups)
+
+    @property
+    def visible(self):
+        return self._visible
+
+    @visible.setter
+    def visible(self, value):
+        self._visible = value
+        if self.dirty < 2:
+            self.dirty = 1
+
+
+class AbstractGroup:
+    """What every group shares: the sprites in it, and where each was last drawn"""
+
+    _spritegroup = True
+
+    def __init__(self):
+        self.spritedict = {}
+        self.lostsprites = []
+
+    def sprites(self):
+        return list(self.spritedict)
+
+    def add_internal(self, sprite, layer=None):
+        self.spritedict[sprite] = None
+
+    def remove_internal(self, sprite):
+        lost_rect = self.spritedict[sprite]
+        if lost_rect:
+            self.lostsprites.append(lost_rect)
+        del self.spritedict[sprite]
+
+    def has_internal(self, sprite):
+        return sprite in self.spritedict
+
+    def copy(self):
+        return self.__class__(self.sprites())
+
+    def __iter__(self):
+        return iter(self.sprites())
+
+    def __contains__(self, sprite):
+        return self.has(sprite)
+
+    def add(self, *sprites):
+        for sprite in sprites:
+            if isinstance(sprite, Sprite):
+                if not self.has_internal(sprite):
+                    self.add_internal(sprite)
+                    sprite.add_internal(self)
+            else:
+                try:
+                    self.add(*sprite)
+                except (TypeError, AttributeError):
+                    if hasattr(sprite, '_spritegroup'):
+                        for spr in sprite.sprites():
+                            if not self.has_internal(spr):
+                                self.add_internal(spr)
+                                spr.add_internal(self)
+                    elif not self.has_internal(sprite):
+                        self.add_internal(sprite)
+                        sprite.add_internal(self)
+
+    def remove(self, *sprites):
+        for sprite in sprites:
+            if isinstance(sprite, Sprite):
+                if self.has_internal(sprite):
+                    self.remove_internal(sprite)
+                    sprite.remove_internal(self)
+            else:
+                try:
+                    self.remove(*sprite)
+                except (TypeError, AttributeError):
+                    if hasattr(sprite, '_spritegroup'):
+                        for spr in sprite.sprites():
+                            if self.has_internal(spr):
+                                self.remove_internal(spr)
+                                spr.remove_internal(self)
+                    elif self.has_internal(sprite):
+                        self.remove_internal(sprite)
+                        sprite.remove_internal(self)
+
+    def has(self, *sprites):
+        if not sprites:
+            return False
+        for sprite in sprites:
+            if isinstance(sprite, Sprite):
+                if not self.has_internal(sprite):
+                    return False
+            else:
+                try:
+                    if not self.has(*sprite):
+                        return False
+                except (TypeError, AttributeError):
+                    if hasattr(sprite, '_spritegroup'):
+                        if not all(self.has_internal(spr) for spr in sprite.sprites()):
+                            return False
+                    elif not self.has_internal(sprite):
+                        return False
+        return True
+
+    def update(self, *args, **kwargs):
+        for sprite in self.sprites():
+            sprite.update(*args, **kwargs)
+
+    def draw(self, surface, bgsurf=None, special_flags=0):
+        for sprite in self.sprites():
+            self.spritedict[sprite] = surface.blit(sprite.image, sprite.rect, None, special_flags)
+        self.lostsprites = []
+        return list(self.spritedict.values())
+
+    def clear(self, surface, bgd):
+        for rect in self.lostsprites + [r for r in self.spritedict.values() if r]:
+            if callable(bgd):
+                bgd(surface, rect)
+            else:
+                surface.blit(bgd, rect, rect)
+
+    def empty(self):
+        for sprite in self.sprites():
+            self.remove_internal(sprite)
+            sprite.remove_internal(self)
+
+    def __bool__(self):
+        return truth(self.sprites())
+
+    def __len__(self):
+        return len(self.sprites())
+
+    def __repr__(self):
+        return f'<{self.__class__.__name__}({len(self)} sprites)>'
+
+
+class Group(AbstractGroup):
+    """A container of sprites that updates and draws them in the order they were added"""
+
+    def __init__(self, *sprites):
+        AbstractGroup.__init__(self)
+        self.add(*sprites)
+
+
+RenderPlain = Group
+RenderClear = Group
+
+
+class RenderUpdates(Group):
+    """A Group whose draw() returns the areas of the screen that changed"""
+
+    def draw(self, surface, bgsurf=None, special_flags=0):
+        dirty = self.lostsprites
+        self.lostsprites = []
+        for sprite in self.sprites():
+            old_rect = self.spritedict[sprite]
+            new_rect = surface.blit(sprite.image, sprite.rect, None, special_flags)
+            if old_rect:
+                if new_rect.colliderect(old_rect):
+                    dirty.append(new_rect.union(old_rect))
+                else:
+                    dirty.append(new_rect)
+                    dirty.append(old_rect)
+            else:
+                dirty.append(new_rect)
+            self.spritedict[sprite] = new_rect
+        return dirty
+
+
+class OrderedUpdates(RenderUpdates):
+    """RenderUpdates drawn in the order sprites were added"""
+
+    def __init__(self, *sprites):
+        self._spritelist = []
+        RenderUpdates.__init__(self, *sprites)
+
+    def sprites(self):
+        return list(self._spritelist)
+
+    def add_internal(self, sprite, layer=None):
+        RenderUpdates.add_internal(self, sprite)
+        self._spritelist.append(sprite)
+
+    def remove_internal(self, sprite):
+        RenderUpdates.remove_internal(self, sprite)
+        self._spritelist.remove(sprite)
+
+
+class LayeredUpdates(AbstractGroup):
+    """A group drawn bottom layer first; a sprite's layer is its \`_layer\` or given on add"""
+
+    _init_rect = None
+
+    def __init__(self, *sprites, **kwargs):
+        self._spritelayers = {}
+        self._spritelist = []
+        AbstractGroup.__init__(self)
+        self._default_layer = kwargs.get('default_layer', 0)
+        self.add(*sprites, **kwargs)
+
+    def add_internal(self, sprite, layer=None):
+        self.spritedict[sprite] = self._init_rect
+        if layer is None:
+            layer = getattr(sprite, '_layer', self._default_layer)
+        else:
+            try:
+                sprite._layer = layer
+            except AttributeError:
+                pass
+        self._spritelayers[sprite] = layer
+
+        # Insert after the last sprite on the same or a lower layer
+        sprites = self._spritelist
+        leng = len(sprites)
+        low = mid = 0
+        high = leng - 1
+        while low <= high:
+            mid = low + (high - low) // 2
+            if self._spritelayers[sprites[mid]] <= layer:
+                low = mid + 1
+            else:
+                high = mid - 1
+        while mid < leng and self._spritelayers[sprites[mid]] <= layer:
+            mid += 1
+        sprites.insert(mid, sprite)
+
+    def add(self, *sprites, **kwargs):
+        if not sprites:
+            return
+        layer = kwargs.get('layer')
+        for sprite in sprites:
+            if isinstance(sprite, Sprite):
+                if not self.has_internal(sprite):
+                    self.add_internal(sprite, layer)
+                    sprite.add_internal(self)
+            else:
+                try:
+                    self.add(*sprite, **kwargs)
+                except (TypeError, AttributeError):
+                    if hasattr(sprite, '_spritegroup'):
+                        for spr in sprite.sprites():
+                            if not self.has_internal(spr):
+                                self.add_internal(spr, layer)
+                                spr.add_internal(self)
+                    elif not self.has_internal(sprite):
+                        self.add_internal(sprite, layer)
+                        sprite.add_internal(self)
+
+    def remove_internal(self, sprite):
+        self._spritelist.remove(sprite)
+        old_rect = self.spritedict[sprite]
+        if old_rect is not self._init_rect:
+            self.lostsprites.append(old_rect)
+        if hasattr(sprite, 'rect'):
+            self.lostsprites.append(sprite.rect)
+        del self.spritedict[sprite]
+        del self._spritelayers[sprite]
+
+    def sprites(self):
+        return list(self._spritelist)
+
+    def draw(self, surface, bgsurf=None, special_flags=0):
+        dirty = self.lostsprites
+        self.lostsprites = []
+        for sprite in self.sprites():
+            old_rect = self.spritedict[sprite]
+            new_rect = surface.blit(sprite.image, sprite.rect, None, special_flags)
+            if old_rect is self._init_rect:
+                dirty.append(new_rect)
+            elif new_rect.colliderect(old_rect):
+                dirty.append(new_rect.union(old_rect))
+            else:
+                dirty.append(new_rect)
+                dirty.append(old_rect)
+            self.spritedict[sprite] = new_rect
+        return dirty
+
+    def get_sprites_at(self, pos):
+        return [sprite for sprite in self._spritelist if sprite.rect.collidepoint(pos)]
+
+    def get_sprite(self, idx):
+        return self._spritelist[idx]
+
+    def remove_sprites_of_layer(self, layer_nr):
+        sprites = self.get_sprites_from_layer(layer_nr)
+        self.remove(*sprites)
+        return sprites
+
+    def layers(self):
+        return sorted(set(self._spritelayers.values()))
+
+    def change_layer(self, sprite, new_layer):
+        sprites = self._spritelist
+        sprites.remove(sprite)
+        self._spritelayers.pop(sprite)
+        leng = len(sprites)
+        low = mid = 0
+        high = leng - 1
+        while low <= high:
+            mid = low + (high - low) // 2
+            if self._spritelayers[sprites[mid]] <= new_layer:
+                low = mid + 1
+            else:
+                high = mid - 1
+        while mid < leng and self._spritelayers[sprites[mid]] <= new_layer:
+            mid += 1
+        sprites.insert(mid, sprite)
+        if hasattr(sprite, '_layer'):
+            sprite._layer = new_layer
+        self._spritelayers[sprite] = new_layer
+
+    def get_layer_of_sprite(self, sprite):
+        return self._spritelayers.get(sprite, self._default_layer)
+
+    def get_top_layer(self):
+        return self._spritelayers[self._spritelist[-1]]
+
+    def get_bottom_layer(self):
+        return self._spritelayers[self._spritelist[0]]
+
+    def move_to_front(self, sprite):
+        self.change_layer(sprite, self.get_top_layer())
+
+    def move_to_back(self, sprite):
+        self.change_layer(sprite, self.get_bottom_layer() - 1)
+
+    def get_top_sprite(self):
+        return self._spritelist[-1]
+
+    def get_sprites_from_layer(self, layer):
+        return [sprite for sprite in self._spritelist if self._spritelayers[sprite] == layer]
+
+    def switch_layer(self, layer1_nr, layer2_nr):
+        sprites1 = self.remove_sprites_of_layer(layer1_nr)
+        for sprite in self.get_sprites_from_layer(layer2_nr):
+            self.change_layer(sprite, layer1_nr)
+        self.add(*sprites1, layer=layer2_nr)
+
+
+class GroupSingle(AbstractGroup):
+    """A group that holds at most one sprite; adding another replaces it"""
+
+    def __init__(self, sprite=None):
+        AbstractGroup.__init__(self)
+        self.__sprite = None
+        if sprite is not None:
+            self.add(sprite)
+
+    def copy(self):
+        return GroupSingle(self.__sprite)
+
+    def sprites(self):
+        return [self.__sprite] if self.__sprite is not None else []
+
+    def add_internal(self, sprite, layer=None):
+        if self.__sprite is not None:
+            self.__sprite.remove_internal(self)
+            self.remove_internal(self.__sprite)
+        self.__sprite = sprite
+
+    def __bool__(self):
+        return self.__sprite is not None
+
+    def _get_sprite(self):
+        return self.__sprite
+
+    def _set_sprite(self, sprite):
+        self.add_internal(sprite)
+        sprite.add_internal(self)
+        return sprite
+
+    sprite = property(_get_sprite, _set_sprite, None, 'The group\\'s sprite, or None')
+
+    def remove_internal(self, sprite):
+        if sprite is self.__sprite:
+            self.__sprite = None
+        if sprite in self.spritedict:
+            AbstractGroup.remove_internal(self, sprite)
+
+    def has_internal(self, sprite):
+        return self.__sprite is sprite
+
+    def __contains__(self, sprite):
+        return self.__sprite is sprite
+
+
+def collide_rect(left, right):
+    return left.rect.colliderect(right.rect)
+
+
+class collide_rect_ratio:
+    """collide_rect with both rects scaled by \`ratio\` about their centres"""
+
+    def __init__(self, ratio):
+        self.ratio = ratio
+
+    def __call__(self, left, right):
+        ratio = self.ratio
+        leftrect = left.rect
+        width, height = leftrect.width, leftrect.height
+        leftrect = leftrect.inflate(width * ratio - width, height * ratio - height)
+        rightrect = right.rect
+        width, height = rightrect.width, rightrect.height
+        rightrect = rightrect.inflate(width * ratio - width, height * ratio - height)
+        return rightrect.colliderect(leftrect)
+
+
+def _radius_squared(sprite, ratio=1):
+    if hasattr(sprite, 'radius'):
+        return (sprite.radius * ratio) ** 2
+    # Without a radius, the circle is the one through the rect's corners
+    width, height = sprite.rect.width, sprite.rect.height
+    return (width ** 2 + height ** 2) / 4 * ratio ** 2
+
+
+def collide_circle(left, right):
+    xdistance = left.rect.centerx - right.rect.centerx
+    ydistance = left.rect.centery - right.rect.centery
+    distancesquared = xdistance ** 2 + ydistance ** 2
+    leftradius = _radius_squared(left) ** 0.5
+    rightradius = _radius_squared(right) ** 0.5
+    return distancesquared <= (leftradius + rightradius) ** 2
+
+
+class collide_circle_ratio:
+    """collide_circle with both radii scaled by \`ratio\`"""
+
+    def __init__(self, ratio):
+        self.ratio = ratio
+
+    def __call__(self, left, right):
+        xdistance = left.rect.centerx - right.rect.centerx
+        ydistance = left.rect.centery - right.rect.centery
+        distancesquared = xdistance ** 2 + ydistance ** 2
+        leftradius = _radius_squared(left, self.ratio) ** 0.5
+        rightradius = _radius_squared(right, self.ratio) ** 0.5
+        return distancesquared <= (leftradius + rightradius) ** 2
+
+
+def spritecollide(sprite, group, dokill, collided=None):
+    """The sprites in \`group\` that \`sprite\` hits; with \`dokill\`, they are killed"""
+    default_sprite_collide_func = sprite.rect.colliderect
+    if dokill:
+        crashed = []
+        for group_sprite in group.sprites():
+            if collided is not None:
+                hit = collided(sprite, group_sprite)
+            else:
+                hit = default_sprite_collide_func(group_sprite.rect)
+            if hit:
+                group_sprite.kill()
+                crashed.append(group_sprite)
+        return crashed
+    if collided is not None:
+        return [group_sprite for group_sprite in group if collided(sprite, group_sprite)]
+    return [
+        group_sprite for group_sprite in group
+        if default_sprite_collide_func(group_sprite.rect)
+    ]
+
+
+def groupcollide(groupa, groupb, dokilla, dokillb, collided=None):
+    """Each sprite in \`groupa\` that hits something, mapped to what it hits in \`groupb\`"""
+    crashed = {}
+    for group_a_sprite in groupa.sprites():
+        collision = spritecollide(group_a_sprite, groupb, dokillb, collided)
+        if collision:
+            crashed[group_a_sprite] = collision
+            if dokilla:
+                group_a_sprite.kill()
+    return crashed
+
+
+def spritecollideany(sprite, group, collided=None):
+    """The first sprite in \`group\` that \`sprite\` hits, or None"""
+    if collided is not None:
+        for group_sprite in group:
+            if collided(sprite, group_sprite):
+                return group_sprite
+    else:
+        spritecollide = sprite.rect.colliderect
+        for group_sprite in group:
+            if spritecollide(group_sprite.rect):
+                return group_sprite
+    return None
+`;
+
+/** Build pygame.sprite in Python and leave it as the global module `_pixel_sprite` */
+export function installPythonSprites(pyodide: PythonScope) {
+  pyodide.runPython(`
+import types
+
+_pixel_sprite = types.ModuleType('pygame.sprite')
+exec(compile(${JSON.stringify(PYTHON_SPRITE)}, '<pixel-sprite>', 'exec'), _pixel_sprite.__dict__)
+`);
+}
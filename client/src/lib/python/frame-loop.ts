@@ -0,0 +1,216 @@
+/**
+ * Frame yielding for pygame programs.
+ * A `while running:` loop run synchronously would never hand the tab back to the browser,
+ * so before it runs the program is rewritten to await the next animation frame where each
+ * frame ends: after `clock.tick()`, or after `display.flip()`/`display.update()` in programs
+ * without a clock. Functions that reach one become `async def` and their calls are awaited,
+ * so the loop can sit inside `main()` or a method. Calls are matched by name only, so a
+ * game's own `update()` shares its name with `Group.update()` and `display.update()`; those
+ * calls are awaited only when what they return is a coroutine.
+ */
+
+import type { PyodideInterface } from './runner';
+
+// Pyodide runs snippets under this filename; keep it so tracebacks point at the student's code
+const STUDENT_FILE = '<exec>';
+
+const FRAME_LOOP_PRELUDE = `
+import ast
+import inspect
+
+# clock.tick() wherever the clock lives; flip/update only on pygame.display
+_PIXEL_TICK_METHODS = {'tick', 'tick_busy_loop'}
+_PIXEL_DISPLAY_METHODS = {'flip', 'update'}
+_PIXEL_SCOPES = (ast.FunctionDef, ast.AsyncFunctionDef, ast.Lambda, ast.ClassDef)
+
+
+def _pixel_is_tick(node):
+    return (
+        isinstance(node, ast.Call)
+        and isinstance(node.func, ast.Attribute)
+        and node.func.attr in _PIXEL_TICK_METHODS
+    )
+
+
+def _pixel_is_display_update(node):
+    if not isinstance(node, ast.Call) or not isinstance(node.func, ast.Attribute):
+        return False
+    owner = node.func.value
+    owner_name = owner.attr if isinstance(owner, ast.Attribute) else getattr(owner, 'id', None)
+    return node.func.attr in _PIXEL_DISPLAY_METHODS and owner_name == 'display'
+
+
+def _pixel_frame_end(tree):
+    # One yield per frame: yielding at both flip() and tick() would halve the frame rate
+    if any(_pixel_is_tick(node) for node in ast.walk(tree)):
+        return _pixel_is_tick
+    return _pixel_is_display_update
+
+
+def _pixel_called_name(node):
+    if isinstance(node.func, ast.Name):
+        return node.func.id
+    if isinstance(node.func, ast.Attribute):
+        return node.func.attr
+    return None
+
+
+def _pixel_own_nodes(node):
+    # Nodes that run in node's own scope, leaving out nested functions and classes
+    for child in ast.iter_child_nodes(node):
+        if isinstance(child, _PIXEL_SCOPES):
+            continue
+        yield child
+        yield from _pixel_own_nodes(child)
+
+
+def _pixel_async_functions(tree, is_frame_end):
+    # Functions that end a frame, or call one that does; dunder methods can't be async.
+    # A sprite's update() stays a plain function even when the game's update() ends a frame
+    functions = [
+        node for node in ast.walk(tree)
+        if isinstance(node, ast.FunctionDef) and not node.name.startswith('__')
+    ]
+    found = set()
+    names = set()
+    changed = True
+    while changed:
+        changed = False
+        for function in functions:
+            if function in found:
+                continue
+            calls = [node for node in _pixel_own_nodes(function) if isinstance(node, ast.Call)]
+            if any(is_frame_end(call) or _pixel_called_name(call) in names for call in calls):
+                found.add(function)
+                names.add(function.name)
+                changed = True
+    return found, names
+
+
+class _PixelFrameLoop(ast.NodeTransformer):
+    def __init__(self, tree):
+        self.is_frame_end = _pixel_frame_end(tree)
+        self.async_functions, self.async_names = _pixel_async_functions(tree, self.is_frame_end)
+        # Whether await is allowed where the transformer is; the module allows top-level await
+        self.can_await = [True]
+
+    def visit_FunctionDef(self, node):
+        is_async = node in self.async_functions
+        self.can_await.append(is_async)
+        self.generic_visit(node)
+        self.can_await.pop()
+        if not is_async:
+            return node
+        fields = {field: getattr(node, field) for field in node._fields}
+        return ast.copy_location(ast.AsyncFunctionDef(**fields), node)
+
+    def visit_AsyncFunctionDef(self, node):
+        return self._visit_scope(node, True)
+
+    def visit_Lambda(self, node):
+        return self._visit_scope(node, False)
+
+    def visit_ClassDef(self, node):
+        return self._visit_scope(node, False)
+
+    def _visit_scope(self, node, can_await):
+        self.can_await.append(can_await)
+        self.generic_visit(node)
+        self.can_await.pop()
+        return node
+
+    def visit_Call(self, node):
+        self.generic_visit(node)
+        if self.can_await[-1] and _pixel_called_name(node) in self.async_names:
+            resolve = ast.Call(ast.Name('_pixel_resolve', ast.Load()), [node], [])
+            return ast.copy_location(ast.Await(resolve), node)
+        return node
+
+    def generic_visit(self, node):
+        super().generic_visit(node)
+        if self.can_await[-1]:
+            for field in ('body', 'orelse', 'finalbody'):
+                statements = getattr(node, field, None)
+                if isinstance(statements, list):
+                    setattr(node, field, self._yield_after_frames(statements))
+        return node
+
+    def _yield_after_frames(self, statements):
+        result = []
+        for statement in statements:
+            result.append(statement)
+            if not isinstance(statement, ast.stmt) or hasattr(statement, 'body'):
+                continue
+            if any(self.is_frame_end(node) for node in (statement, *_pixel_own_nodes(statement))):
+                next_frame = ast.Call(ast.Name('_pixel_next_frame', ast.Load()), [], [])
+                result.append(ast.copy_location(ast.Expr(ast.Await(next_frame)), statement))
+        return result
+
+
+async def _pixel_resolve(value):
+    # A call that shares a rewritten function's name may still be an ordinary one
+    if inspect.isawaitable(value):
+        return await value
+    return value
+
+
+async def _pixel_next_frame():
+    if await _pixel_frames.next():
+        raise SystemExit('Stopped')
+
+
+async def _pixel_run_game(source):
+    tree = ast.parse(source, '${STUDENT_FILE}')
+    tree = ast.fix_missing_locations(_PixelFrameLoop(tree).visit(tree))
+    code = compile(tree, '${STUDENT_FILE}', 'exec', flags=ast.PyCF_ALLOW_TOP_LEVEL_AWAIT)
+    try:
+        result = eval(code, globals())
+        if inspect.iscoroutine(result):
+            await result
+    except (SystemExit, KeyboardInterrupt):
+        # The Stop button, at a frame or mid-frame, or the program calling sys.exit();
+        # either way a clean finish
+        pass
+`;
+
+/** Hands the browser's animation frames to a running program, and tells it when to stop */
+export class FrameLoop {
+  private stopRequested = false;
+
+  /** Called by the program after each frame; resolves true when it should stop */
+  readonly next = (): Promise<boolean> =>
+    new Promise((resolve) => {
+      if (this.stopRequested) {
+        resolve(true);
+        return;
+      }
+      const resume = () => resolve(this.stopRequested);
+      if (typeof requestAnimationFrame === 'function') {
+        requestAnimationFrame(resume);
+      } else {
+        setTimeout(resume, 16);
+      }
+    });
+
+  begin(): void {
+    this.stopRequested = false;
+  }
+
+  /** Make the program's next frame raise SystemExit */
+  stop(): void {
+    this.stopRequested = true;
+  }
+}
+
+/** Define the rewriting helpers, compiled under their own filename, and connect `frames` */
+export function installFrameLoop(pyodide: PyodideInterface, frames: FrameLoop): void {
+  pyodide.globals.set('_pixel_frames', frames);
+  pyodide.runPython(
+    `exec(compile(${JSON.stringify(FRAME_LOOP_PRELUDE)}, '<pixel-frames>', 'exec'), globals())`
+  );
+}
+
+/** Run a pygame program to the end, yielding a frame at a time; resolves when it finishes */
+export async function runFrameLoop(pyodide: PyodideInterface, code: string): Promise<void> {
+  await pyodide.runPythonAsync(`await _pixel_run_game(${JSON.stringify(code)})`);
+}
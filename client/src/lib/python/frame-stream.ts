@@ -0,0 +1,122 @@
+/**
+ * Carrying display frames from the Pyodide worker to the page.
+ * A frame is the draw commands the program issued before display.flip(). Their images are
+ * off-screen canvases, which can't be posted, so each is sent as an ImageBitmap the first
+ * frame it appears in and referred to by id while it stays in use. Both ends forget an image
+ * as soon as a frame doesn't draw it, so they agree on what the page has without asking.
+ */
+
+import type { DrawCommand } from '../pygame-simulation';
+
+export interface ImageRef {
+  imageId: number;
+}
+
+export interface EncodedFrame {
+  commands: DrawCommand[];
+  /** Images the page hasn't got yet */
+  images: [number, ImageBitmap][];
+}
+
+type FrameImage = CanvasImageSource | OffscreenCanvas;
+
+// Argument that holds the image, for the commands that draw one
+const IMAGE_ARGUMENT: Partial<Record<DrawCommand['type'], number>> = { blit: 0, transform: 0 };
+
+function isImageRef(value: unknown): value is ImageRef {
+  return typeof value === 'object' && value !== null && 'imageId' in value;
+}
+
+/** Call `replace` on the image of every command, including those inside clipped ones */
+function mapImages(commands: DrawCommand[], replace: (image: unknown) => unknown): DrawCommand[] {
+  return commands.map((command) => {
+    if (command.type === 'clipped') {
+      const [x, y, w, h, inner] = command.args;
+      return { type: 'clipped', args: [x, y, w, h, mapImages([inner], replace)[0]] };
+    }
+    const index = IMAGE_ARGUMENT[command.type];
+    if (index === undefined) return command;
+    const args = [...command.args];
+    args[index] = replace(args[index]);
+    return { ...command, args };
+  });
+}
+
+/** A copy of a canvas's pixels that can be posted; leaves the canvas itself alone */
+function canvasToBitmap(image: FrameImage): ImageBitmap {
+  if (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap) return image;
+  const source = image as OffscreenCanvas;
+  const copy = new OffscreenCanvas(source.width, source.height);
+  copy.getContext('2d')?.drawImage(source, 0, 0);
+  return copy.transferToImageBitmap();
+}
+
+/** Worker side */
+export class FrameEncoder {
+  private readonly ids = new WeakMap<object, number>();
+  private nextId = 1;
+  private previous = new Set<number>();
+
+  constructor(private readonly toBitmap: (image: FrameImage) => ImageBitmap = canvasToBitmap) {}
+
+  /** The frame to post, and the bitmaps made for it, which can be transferred */
+  encode(commands: DrawCommand[]): { frame: EncodedFrame; transfer: ImageBitmap[] } {
+    const current = new Set<number>();
+    const images: [number, ImageBitmap][] = [];
+    const transfer: ImageBitmap[] = [];
+
+    const encoded = mapImages(commands, (image) => {
+      const key = image as object;
+      let id = this.ids.get(key);
+      if (id === undefined) {
+        id = this.nextId++;
+        this.ids.set(key, id);
+      }
+      if (!current.has(id) && !this.previous.has(id)) {
+        const bitmap = this.toBitmap(image as FrameImage);
+        images.push([id, bitmap]);
+        // Bitmaps of loaded images stay in use here, so only fresh copies are given away
+        if (bitmap !== image) transfer.push(bitmap);
+      }
+      current.add(id);
+      return { imageId: id } satisfies ImageRef;
+    });
+
+    this.previous = current;
+    return { frame: { commands: encoded, images }, transfer };
+  }
+
+  /** Start over, e.g. for a new page canvas that has none of the images */
+  reset(): void {
+    this.previous = new Set();
+  }
+}
+
+/** Page side */
+export class FrameDecoder {
+  private images = new Map<number, ImageBitmap>();
+
+  /** Draw commands with their images back in place */
+  decode(frame: EncodedFrame): DrawCommand[] {
+    for (const [id, bitmap] of frame.images) this.images.set(id, bitmap);
+
+    const used = new Map<number, ImageBitmap>();
+    const commands = mapImages(frame.commands, (image) => {
+      if (!isImageRef(image)) return image;
+      const bitmap = this.images.get(image.imageId);
+      if (bitmap) used.set(image.imageId, bitmap);
+      return bitmap;
+    });
+
+    // Bitmaps hold GPU memory, so free the ones this frame stopped drawing
+    for (const [id, bitmap] of this.images) {
+      if (!used.has(id)) bitmap.close?.();
+    }
+    this.images = used;
+    return commands;
+  }
+
+  reset(): void {
+    this.images.clear();
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * A project's files and assets in Pyodide's virtual filesystem.
+ * Everything is written through Emscripten's FS API as bytes, so file contents never pass
+ * through Python source. After a run, what the program wrote is read back into the project.
+ */
+
+import type { Project, ProjectAsset, ProjectFile } from '@shared/schema';
+import { nanoid } from 'nanoid';
+
+export type ProjectContents = Pick<Project, 'files' | 'assets'>;
+
+/** The parts of Emscripten's FS API the project needs */
+export interface PyodideFS {
+  mkdirTree: (path: string) => void;
+  writeFile: (path: string, data: string | Uint8Array) => void;
+  readFile: (path: string) => Uint8Array;
+  readdir: (path: string) => string[];
+  stat: (path: string) => { mode: number };
+  isDir: (mode: number) => boolean;
+  unlink: (path: string) => void;
+  rmdir: (path: string) => void;
+  analyzePath: (path: string) => { exists: boolean };
+}
+
+/** Where the project lives; runs start here with it on sys.path, so its modules import */
+export const PROJECT_DIR = '/home/pyodide/project';
+
+// Directories Python makes for itself, which aren't the program's to sync back
+const IGNORED_DIRS = new Set(['__pycache__']);
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  webp: 'image/webp',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  mp3: 'audio/mpeg',
+};
+
+/** What was mounted, to tell afterwards which files the program changed */
+export interface MountedProject {
+  project: ProjectContents;
+  written: Map<string, Uint8Array>;
+}
+
+/**
+ * A project path made relative to the project folder. Paths that climb out of it are
+ * refused rather than written somewhere else in the filesystem.
+ */
+export function projectPath(path: string): string {
+  const parts = path.replace(/\\/g, '/').split('/');
+  const kept = parts.filter((part) => part !== '' && part !== '.');
+  if (kept.length === 0 || kept.includes('..')) {
+    throw new Error(`'${path}' isn't a file inside the project`);
+  }
+  return kept.join('/');
+}
+
+/** The bytes behind a data: URL, base64 or not */
+export function decodeDataUrl(url: string): Uint8Array {
+  const comma = url.indexOf(',');
+  if (!url.startsWith('data:') || comma < 0) throw new Error('Not a data URL');
+  const header = url.slice(5, comma);
+  const body = url.slice(comma + 1);
+  if (!header.endsWith(';base64')) return new TextEncoder().encode(decodeURIComponent(body));
+
+  const binary = atob(body);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function encodeDataUrl(bytes: Uint8Array, mimeType: string): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+function extensionOf(path: string): string {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+function mimeTypeOf(path: string, dataUrl?: string): string {
+  const declared = dataUrl?.match(/^data:([^;,]+)/)?.[1];
+  return declared ?? MIME_TYPES[extensionOf(path)] ?? 'application/octet-stream';
+}
+
+function assetTypeOf(path: string): ProjectAsset['type'] {
+  const mimeType = MIME_TYPES[extensionOf(path)] ?? '';
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'sound';
+  return 'other';
+}
+
+/** Text, if the bytes are valid UTF-8 */
+function decodeText(bytes: Uint8Array): string | null {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+function removeTree(fs: PyodideFS, dir: string) {
+  for (const name of fs.readdir(dir)) {
+    if (name === '.' || name === '..') continue;
+    const path = `${dir}/${name}`;
+    if (fs.isDir(fs.stat(path).mode)) {
+      removeTree(fs, path);
+      fs.rmdir(path);
+    } else {
+      fs.unlink(path);
+    }
+  }
+}
+
+function writeProjectFile(fs: PyodideFS, path: string, bytes: Uint8Array) {
+  const full = `${PROJECT_DIR}/${path}`;
+  fs.mkdirTree(full.slice(0, full.lastIndexOf('/')));
+  fs.writeFile(full, bytes);
+}
+
+/** Replace whatever was in the project folder with this project's files and assets */
+export function mountProject(fs: PyodideFS, project: ProjectContents): MountedProject {
+  if (fs.analyzePath(PROJECT_DIR).exists) removeTree(fs, PROJECT_DIR);
+  fs.mkdirTree(PROJECT_DIR);
+
+  const written = new Map<string, Uint8Array>();
+  const encoder = new TextEncoder();
+  for (const file of project.files) {
+    const path = projectPath(file.path);
+    const bytes = encoder.encode(file.content);
+    writeProjectFile(fs, path, bytes);
+    written.set(path, bytes);
+  }
+  for (const asset of project.assets) {
+    const path = projectPath(asset.path);
+    const bytes = decodeDataUrl(asset.dataUrl);
+    writeProjectFile(fs, path, bytes);
+    written.set(path, bytes);
+  }
+  return { project, written };
+}
+
+function listFiles(fs: PyodideFS, dir: string, prefix = ''): string[] {
+  const paths: string[] = [];
+  for (const name of fs.readdir(dir).sort()) {
+    if (name === '.' || name === '..') continue;
+    const path = `${prefix}${name}`;
+    if (fs.isDir(fs.stat(`${dir}/${name}`).mode)) {
+      if (!IGNORED_DIRS.has(name)) paths.push(...listFiles(fs, `${dir}/${name}`, `${path}/`));
+    } else {
+      paths.push(path);
+    }
+  }
+  return paths;
+}
+
+/** A file the program made: an asset if it is media or isn't text, else a project file */
+function readNewFile(path: string, bytes: Uint8Array): ProjectFile | ProjectAsset {
+  const type = assetTypeOf(path);
+  const text = type === 'other' ? decodeText(bytes) : null;
+  if (text !== null) return { path, content: text };
+  return {
+    id: nanoid(),
+    name: path.slice(path.lastIndexOf('/') + 1),
+    type,
+    path,
+    dataUrl: encodeDataUrl(bytes, mimeTypeOf(path)),
+  };
+}
+
+/** One file as the program left it; a file stays a file and an asset stays an asset */
+function readBack(
+  mounted: MountedProject,
+  path: string,
+  bytes: Uint8Array
+): ProjectFile | ProjectAsset {
+  const before = mounted.written.get(path);
+  const unchanged = before !== undefined && sameBytes(before, bytes);
+  const file = mounted.project.files.find((file) => projectPath(file.path) === path);
+  if (file) return unchanged ? file : { ...file, content: new TextDecoder().decode(bytes) };
+
+  const asset = mounted.project.assets.find((asset) => projectPath(asset.path) === path);
+  if (asset) {
+    return unchanged
+      ? asset
+      : { ...asset, dataUrl: encodeDataUrl(bytes, mimeTypeOf(path, asset.dataUrl)) };
+  }
+  return readNewFile(path, bytes);
+}
+
+/**
+ * The project as the program left it. Files it didn't touch are returned as they were;
+ * ones it changed or made are read back, and ones it deleted are gone.
+ */
+export function readProject(fs: PyodideFS, mounted: MountedProject): ProjectContents {
+  const result: ProjectContents = { files: [], assets: [] };
+  for (const path of listFiles(fs, PROJECT_DIR)) {
+    const entry = readBack(mounted, path, fs.readFile(`${PROJECT_DIR}/${path}`));
+    if ('content' in entry) result.files.push(entry);
+    else result.assets.push(entry);
+  }
+  return result;
+}
@@ -0,0 +1,266 @@
+/**
+ * The app's Python interpreter, shared by every component that runs Python and kept in a
+ * worker so programs can't freeze the page. Runs queue up and take turns. Stop interrupts
+ * the running program through Pyodide's interrupt buffer; where the page isn't cross-origin
+ * isolated and can't share memory, a program that won't stop has its worker replaced.
+ */
+
+import type { ProjectAsset } from '@shared/schema';
+import { stopAllAudio } from '../pygame-audio';
+import { AudioRelayHost } from '../pygame-audio-relay';
+import { attachPygameInput, type PygameEvent } from '../pygame-input';
+import { flushFrameBuffer } from '../pygame-simulation';
+import { FrameDecoder } from './frame-stream';
+import type { ProjectContents } from './project-fs';
+import type { ExecutionResult } from './runner';
+import {
+  canShareMemory,
+  createStdinBuffer,
+  type PageMessage,
+  type RunRequest,
+  type RunResult,
+  SIGINT,
+  type SnippetResult,
+  type WorkerMessage,
+  writeStdin,
+} from './worker-protocol';
+
+// How long a stopped program has to end before a worker without an interrupt buffer is replaced
+const STOP_GRACE_MS = 1000;
+
+type OutputListener = (text: string, stream: 'stdout' | 'stderr') => void;
+
+/** Answers input(); resolves to null for end of input */
+export type StdinHandler = (prompt: string) => Promise<string | null>;
+
+interface PendingRun {
+  request: RunRequest;
+  resolve: (result: RunResult) => void;
+}
+
+/** What a run that was stopped by replacing its worker reports */
+function stoppedResult(request: RunRequest): RunResult {
+  switch (request.kind) {
+    case 'game':
+      // Stopping is how games end, so it isn't an error
+      return { output: '', error: '' };
+    case 'snippet':
+      return { output: '', error: 'KeyboardInterrupt' };
+    case 'project':
+      return {
+        output: '',
+        hasError: true,
+        error: {
+          title: 'KeyboardInterrupt',
+          message: 'The program was stopped',
+          details: 'The program was stopped',
+          traceback: 'KeyboardInterrupt',
+          suggestions: [],
+        },
+      };
+  }
+}
+
+function createPyodideWorker(): Worker {
+  return new Worker(new URL('./pyodide.worker.ts', import.meta.url), { type: 'module' });
+}
+
+export class PyodideService {
+  private worker!: Worker;
+  private loaded!: Promise<void>;
+  private interrupt: Uint8Array | null = null;
+  private stdin: SharedArrayBuffer | null = null;
+  // Counts stdin requests; the one being waited on, or 0 when the worker isn't waiting
+  private stdinRequest = 0;
+  private awaitingStdin = 0;
+  private readonly runs = new Map<number, PendingRun>();
+  private nextRunId = 1;
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly frames = new FrameDecoder();
+  private readonly audio = new AudioRelayHost();
+  private readonly outputListeners = new Set<OutputListener>();
+  private stdinHandler: StdinHandler | null = null;
+
+  constructor(private readonly createWorker: () => Worker = createPyodideWorker) {
+    this.start();
+  }
+
+  /** Resolves once Python has loaded; rejects if it couldn't be */
+  whenReady(): Promise<void> {
+    return this.loaded;
+  }
+
+  runSnippet(request: { code: string; input?: string }): Promise<SnippetResult> {
+    return this.run({ kind: 'snippet', ...request }) as Promise<SnippetResult>;
+  }
+
+  /** Run a project's main file; the result has the project as the program left it */
+  runProject(request: {
+    project: ProjectContents;
+    main: string;
+    input?: string;
+  }): Promise<ExecutionResult> {
+    return this.run({ kind: 'project', ...request }) as Promise<ExecutionResult>;
+  }
+
+  /**
+   * Run a pygame program until it ends or stop() is called. Its frames are drawn on the
+   * canvas given to setCanvasContext, and its sounds play on the page.
+   */
+  runGame(request: { code: string; assets?: ProjectAsset[] }): Promise<SnippetResult> {
+    const game = this.queue.then(() => {
+      this.frames.reset();
+      this.audio.reset();
+      stopAllAudio();
+    });
+    this.queue = game;
+    return this.run({ kind: 'game', ...request }) as Promise<SnippetResult>;
+  }
+
+  /** Stop whatever is running, as Ctrl-C would */
+  stop(): void {
+    if (this.runs.size === 0) return;
+    // A game waiting for its next frame ends there
+    this.send({ type: 'stop' });
+    // A program waiting for input gets none, or it would never see the interrupt
+    if (this.awaitingStdin) this.answerStdin(this.awaitingStdin, null);
+
+    if (this.interrupt) {
+      Atomics.store(this.interrupt, 0, SIGINT);
+      return;
+    }
+    const stopping = [...this.runs.keys()];
+    setTimeout(() => {
+      if (stopping.some((id) => this.runs.has(id))) this.restart();
+    }, STOP_GRACE_MS);
+  }
+
+  /** Start Python again from scratch: after it failed to load, or is stuck in a program */
+  restart(): void {
+    this.worker.terminate();
+    for (const { request, resolve } of this.runs.values()) resolve(stoppedResult(request));
+    this.runs.clear();
+    this.start();
+  }
+
+  /** Pass a keyboard or mouse event to the running game */
+  sendInput(event: PygameEvent): void {
+    this.send({ type: 'input', event });
+  }
+
+  /** Feed the canvas's keyboard and mouse to the running game; returns a function that stops */
+  attachInput(canvas: HTMLCanvasElement): () => void {
+    return attachPygameInput(canvas, (event) => this.sendInput(event));
+  }
+
+  /** Listen to everything programs print; returns a function that stops listening */
+  subscribeOutput(listener: OutputListener): () => void {
+    this.outputListeners.add(listener);
+    return () => {
+      this.outputListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Choose who answers input(); without a handler, or shared memory, input() gets EOF.
+   * Returns a function that removes the handler, unless another has replaced it since.
+   */
+  setStdinHandler(handler: StdinHandler | null): () => void {
+    this.stdinHandler = handler;
+    return () => {
+      if (this.stdinHandler === handler) this.stdinHandler = null;
+    };
+  }
+
+  /** Whether Stop can interrupt a program that never yields, rather than restarting Python */
+  get canInterrupt(): boolean {
+    return this.interrupt !== null;
+  }
+
+  private run(request: RunRequest): Promise<RunResult> {
+    const result = this.queue.then(async () => {
+      await this.loaded;
+      const id = this.nextRunId++;
+      return new Promise<RunResult>((resolve) => {
+        this.runs.set(id, { request, resolve });
+        this.send({ type: 'run', id, request });
+      });
+    });
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private start() {
+    const shared = canShareMemory();
+    const interruptBuffer = shared ? new SharedArrayBuffer(1) : null;
+    this.interrupt = interruptBuffer ? new Uint8Array(interruptBuffer) : null;
+    this.stdin = shared ? createStdinBuffer() : null;
+    this.awaitingStdin = 0;
+
+    const worker = this.createWorker();
+    this.worker = worker;
+    this.loaded = new Promise((resolve, reject) => {
+      worker.onmessage = ({ data }: MessageEvent<WorkerMessage>) => {
+        if (data.type === 'ready') {
+          resolve();
+        } else if (data.type === 'load-error') {
+          reject(new Error(`Python failed to load: ${data.message}`));
+        } else {
+          this.handle(data);
+        }
+      };
+    });
+    // Whoever waits on it hears about a failed load; nobody waiting is fine too
+    this.loaded.catch(() => {});
+    this.send({ type: 'init', interruptBuffer, stdinBuffer: this.stdin });
+  }
+
+  private handle(message: WorkerMessage) {
+    switch (message.type) {
+      case 'result':
+        this.runs.get(message.id)?.resolve(message.result);
+        this.runs.delete(message.id);
+        break;
+      case 'stdout':
+      case 'stderr':
+        for (const listener of this.outputListeners) listener(message.text, message.type);
+        break;
+      case 'stdin-request': {
+        const request = ++this.stdinRequest;
+        this.awaitingStdin = request;
+        (this.stdinHandler?.(message.prompt) ?? Promise.resolve(null)).then(
+          (line) => this.answerStdin(request, line),
+          () => this.answerStdin(request, null)
+        );
+        break;
+      }
+      case 'frame':
+        flushFrameBuffer(this.frames.decode(message.frame));
+        // Let the game's get_busy() and friends see what the page is playing
+        this.send({ type: 'audio-state', state: this.audio.state() });
+        break;
+      case 'audio':
+        this.audio.apply(message.call);
+        break;
+    }
+  }
+
+  /** Answer stdin request `request`; an answer that arrives after Stop, or a restart, is dropped */
+  private answerStdin(request: number, line: string | null) {
+    if (this.awaitingStdin !== request || !this.stdin) return;
+    this.awaitingStdin = 0;
+    writeStdin(this.stdin, line);
+  }
+
+  private send(message: PageMessage) {
+    this.worker.postMessage(message);
+  }
+}
+
+let shared: PyodideService | null = null;
+
+/** The app's interpreter, started the first time something needs Python */
+export function getPyodideService(): PyodideService {
+  shared ??= new PyodideService();
+  return shared;
+}
@@ -0,0 +1,132 @@
+/**
+ * The Pyodide worker: the app's one Python interpreter, off the page's thread so a busy
+ * program can't freeze it. Runs go through PythonRunner as they did on the page; pygame draws
+ * into frames that are streamed to the page's canvas, and its mixer is relayed to the page.
+ */
+
+import { setProjectSounds } from '../pygame-audio';
+import { createMixerRelay } from '../pygame-audio-relay';
+import { findFontPaths, preloadFonts, setProjectFonts } from '../pygame-fonts';
+import { findImagePaths, preloadImages, setProjectImages } from '../pygame-images';
+import { applyPygameInput } from '../pygame-input';
+import { installPygameModule, resetPygameState, setFrameSink } from '../pygame-simulation';
+import { FrameEncoder } from './frame-stream';
+import { type PyodideInterface, PythonRunner } from './runner';
+import { installInteractiveInput } from './stdin';
+import {
+  type PageMessage,
+  type RunRequest,
+  type RunResult,
+  readStdin,
+  type WorkerMessage,
+} from './worker-protocol';
+
+const PYODIDE_URL = 'https://cdn.jsdelivr.net/pyodide/v0.24.1/full/';
+
+/** The parts of Pyodide's API only the worker uses */
+interface WorkerPyodide extends PyodideInterface {
+  setInterruptBuffer: (buffer: Uint8Array) => void;
+  setStdin: (options: { stdin: () => string | null }) => void;
+  setStdout: (options: { batched: (text: string) => void }) => void;
+  setStderr: (options: { batched: (text: string) => void }) => void;
+}
+
+// tsconfig has no webworker lib, so describe the little of the worker scope used here
+interface WorkerScope {
+  postMessage: (message: WorkerMessage, transfer?: Transferable[]) => void;
+  onmessage: ((event: MessageEvent<PageMessage>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+const post = (message: WorkerMessage, transfer: Transferable[] = []) =>
+  scope.postMessage(message, transfer);
+
+let runner: PythonRunner | null = null;
+let interrupt: Uint8Array | null = null;
+const frames = new FrameEncoder();
+const audio = createMixerRelay((call) => post({ type: 'audio', call }));
+
+async function load(interruptBuffer: SharedArrayBuffer | null, stdin: SharedArrayBuffer | null) {
+  const { loadPyodide } = await import(/* @vite-ignore */ `${PYODIDE_URL}pyodide.mjs`);
+  const pyodide: WorkerPyodide = await loadPyodide({ indexURL: PYODIDE_URL });
+
+  pyodide.setStdout({ batched: (text) => post({ type: 'stdout', text }) });
+  pyodide.setStderr({ batched: (text) => post({ type: 'stderr', text }) });
+
+  // The page answers input() while this thread waits on the shared stdin buffer
+  const readLine = (prompt: string) => {
+    // Without shared memory the page can't answer in time, so input() finds no more input
+    if (!stdin) return undefined;
+    post({ type: 'stdin-request', prompt });
+    return readStdin(stdin) ?? undefined;
+  };
+  installInteractiveInput(pyodide, readLine);
+  pyodide.setStdin({
+    stdin: () => {
+      const line = readLine('');
+      return line === undefined ? null : `${line}\n`;
+    },
+  });
+  if (interruptBuffer) {
+    interrupt = new Uint8Array(interruptBuffer);
+    pyodide.setInterruptBuffer(interrupt);
+  }
+
+  setFrameSink((commands) => {
+    const { frame, transfer } = frames.encode(commands);
+    post({ type: 'frame', frame }, transfer);
+  });
+  installPygameModule(pyodide, { mixer: audio.mixer });
+  runner = new PythonRunner(pyodide);
+}
+
+async function run(request: RunRequest): Promise<RunResult> {
+  if (!runner) throw new Error('Python is still loading');
+  // A Stop meant for the last run mustn't interrupt this one
+  if (interrupt) interrupt[0] = 0;
+
+  switch (request.kind) {
+    case 'snippet':
+      return runner.runSnippet(request);
+    case 'project':
+      return runner.runProject(request);
+    case 'game': {
+      resetPygameState();
+      frames.reset();
+      setProjectImages(request.assets ?? []);
+      setProjectSounds(request.assets ?? []);
+      setProjectFonts(request.assets ?? []);
+      // pygame.image.load and pygame.font.Font can't wait, so fetch the files the code names first
+      await Promise.all([
+        preloadImages(findImagePaths(request.code)),
+        preloadFonts(findFontPaths(request.code)),
+      ]);
+      return runner.runGame(request);
+    }
+  }
+}
+
+scope.onmessage = ({ data: message }) => {
+  switch (message.type) {
+    case 'init':
+      load(message.interruptBuffer, message.stdinBuffer).then(
+        () => post({ type: 'ready' }),
+        (error) => post({ type: 'load-error', message: String(error) })
+      );
+      break;
+    case 'run':
+      run(message.request)
+        .catch((error): RunResult => ({ output: '', error: String(error) }))
+        .then((result) => post({ type: 'result', id: message.id, result }));
+      break;
+    case 'stop':
+      runner?.stopGame();
+      break;
+    case 'input':
+      applyPygameInput(message.event);
+      break;
+    case 'audio-state':
+      audio.receiveState(message.state);
+      break;
+  }
+};
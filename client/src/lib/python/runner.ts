@@ -1,9 +1,24 @@
+import type { ExecutionTrace } from '../grading/types';
+import { FrameLoop, installFrameLoop, runFrameLoop } from './frame-loop';
+import {
+  mountProject,
+  PROJECT_DIR,
+  type ProjectContents,
+  type PyodideFS,
+  projectPath,
+  readProject,
+} from './project-fs';
+import { beginPythonTrace, endPythonTrace, installPythonTrace } from './trace';
+
 // Define PyodideInterface locally to avoid import issues
 export interface PyodideInterface {
   runPython: (code: string) => any;
+  runPythonAsync: (code: string) => Promise<any>;
   globals: {
     get: (name: string) => any;
+    set: (name: string, value: unknown) => void;
   };
+  FS: PyodideFS;
 }
 
 export interface ExecutionContext {
@@ -23,6 +38,10 @@ export interface ExecutionResult {
     traceback: string;
     suggestions: string[];
   };
+  /** Program state observed during the run */
+  trace?: ExecutionTrace;
+  /** runProject only: the project's files and assets after the run */
+  project?: ProjectContents;
 }
 
 export interface RunnerOptions {
@@ -36,6 +55,8 @@ export class PythonRunner {
     context: ExecutionContext
   ) => Promise<ExecutionResult>;
   private isEnhancedReady: boolean;
+  private traceInstalled = false;
+  private frames: FrameLoop | null = null;
 
   constructor(
     private pyodide: PyodideInterface,
@@ -45,15 +66,28 @@ export class PythonRunner {
     this.isEnhancedReady = options?.isEnhancedReady || false;
   }
 
-  setInputValues(inputValues: string) {
+  /** Run `execute` with tracing on, feeding `input` to the program's stdin */
+  private async withTrace<T extends object>(
+    input: string | undefined,
+    execute: () => Promise<T>
+  ): Promise<T & { trace?: ExecutionTrace }> {
     try {
-      if (inputValues && inputValues.trim()) {
-        this.pyodide.runPython(`set_input_values_from_js("${inputValues.replace(/"/g, '\\"')}")`);
-      } else {
-        this.pyodide.runPython(`set_input_values_from_js("")`);
+      if (!this.traceInstalled) {
+        installPythonTrace(this.pyodide);
+        this.traceInstalled = true;
       }
+      beginPythonTrace(this.pyodide, input);
+    } catch (error) {
+      console.warn('Failed to start execution trace:', error);
+      return execute();
+    }
+
+    try {
+      const result = await execute();
+      return { ...result, trace: endPythonTrace(this.pyodide) };
     } catch (error) {
-      console.warn('Failed to set input values:', error);
+      endPythonTrace(this.pyodide);
+      throw error;
     }
   }
 
@@ -63,76 +97,110 @@ export class PythonRunner {
   }: {
     code: string;
     input?: string;
-  }): Promise<{ output: string; error: string }> {
+  }): Promise<{ output: string; error: string; trace?: ExecutionTrace }> {
     try {
-      // Set input if provided
-      if (input) {
-        this.setInputValues(input);
-      }
+      return await this.withTrace(input, async () => {
+        // Check if enhanced error reporting is available
+        if (!this.isEnhancedReady || !this.executeWithEnhancedErrors) {
+          console.warn('Enhanced error reporting not ready, falling back to basic execution');
+          return this.executeCodeBasic(code);
+        }
 
-      // Check if enhanced error reporting is available
-      if (!this.isEnhancedReady || !this.executeWithEnhancedErrors) {
-        console.warn('Enhanced error reporting not ready, falling back to basic execution');
-        return this.executeCodeBasic(code);
-      }
+        // Use enhanced error capture
+        const context: ExecutionContext = {
+          code,
+          fileName: 'snippet.py',
+          isEducational: true,
+        };
 
-      // Use enhanced error capture
-      const context: ExecutionContext = {
-        code,
-        fileName: 'snippet.py',
-        isEducational: true,
-      };
+        const result = await this.executeWithEnhancedErrors(code, context);
 
-      const result = await this.executeWithEnhancedErrors(code, context);
+        if (result.hasError && result.error) {
+          const errorText = `${result.error.title}\n\n${result.error.message}\n\n${result.error.details}`;
+          return { output: '', error: errorText };
+        }
 
-      if (result.hasError && result.error) {
-        const errorText = `${result.error.title}\n\n${result.error.message}\n\n${result.error.details}`;
-        return { output: '', error: errorText };
+        return { output: result.output || 'Code executed successfully!', error: '' };
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { output: '', error: errorMessage };
+    }
+  }
+
+  /**
+   * Run a pygame program whose main loop never returns on its own. Each frame yields to
+   * the browser, so the page stays responsive; the promise settles when the program ends,
+   * which stopGame() makes happen at the next frame.
+   */
+  async runGame({ code }: { code: string }): Promise<{ output: string; error: string }> {
+    try {
+      if (!this.frames) {
+        this.frames = new FrameLoop();
+        installFrameLoop(this.pyodide, this.frames);
       }
+      this.frames.begin();
 
-      return { output: result.output || 'Code executed successfully!', error: '' };
+      this.pyodide.runPython(`
+        import sys
+        import io
+        sys.stdout = io.StringIO()
+        sys.stderr = io.StringIO()
+      `);
+      await runFrameLoop(this.pyodide, code);
+      const output = this.pyodide.runPython('sys.stdout.getvalue()');
+      this.restoreStreams();
+      return { output, error: '' };
     } catch (error) {
+      this.restoreStreams();
       const errorMessage = error instanceof Error ? error.message : String(error);
       return { output: '', error: errorMessage };
     }
   }
 
+  /** Stop the running game by raising SystemExit inside it at its next frame */
+  stopGame(): void {
+    this.frames?.stop();
+  }
+
+  /**
+   * Run a project: its files and assets are mounted in the project folder, the main file
+   * runs there and can import the others, and the result carries the project as the
+   * program left it, files it wrote included.
+   */
   async runProject({
-    files,
+    project,
     main,
     input,
     context,
   }: {
-    files: Record<string, string>;
+    project: ProjectContents;
     main: string;
     input?: string;
     context?: ExecutionContext;
   }): Promise<ExecutionResult> {
     try {
-      // Write files to Pyodide filesystem
-      this.writeFilesToFS(files);
-
-      // Set input if provided
-      if (input) {
-        this.setInputValues(input);
-      }
-
-      // Execute main file
-      const mainCode = files[main];
-      if (!mainCode) {
+      const mainPath = projectPath(main);
+      const mainFile = project.files.find((file) => projectPath(file.path) === mainPath);
+      if (!mainFile) {
         throw new Error(`Main file '${main}' not found in project files`);
       }
+      const mainCode = mainFile.content;
+
+      const mounted = mountProject(this.pyodide.FS, project);
+      this.enterProject();
 
       const executionContext: ExecutionContext = context || {
         code: mainCode,
-        fileName: main,
+        fileName: mainPath,
         isEducational: true,
-        files,
+        files: Object.fromEntries(project.files.map((file) => [file.path, file.content])),
       };
 
-      if (this.isEnhancedReady && this.executeWithEnhancedErrors) {
-        return await this.executeWithEnhancedErrors(mainCode, executionContext);
-      } else {
+      const result = await this.withTrace(input, async (): Promise<ExecutionResult> => {
+        if (this.isEnhancedReady && this.executeWithEnhancedErrors) {
+          return this.executeWithEnhancedErrors(mainCode, executionContext);
+        }
         const result = await this.executeCodeBasic(mainCode);
         return {
           output: result.output,
@@ -147,7 +215,8 @@ export class PythonRunner {
               }
             : undefined,
         };
-      }
+      });
+      return { ...result, project: readProject(this.pyodide.FS, mounted) };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
@@ -164,19 +233,22 @@ export class PythonRunner {
     }
   }
 
-  writeFilesToFS(files: Record<string, string>) {
-    try {
-      for (const [path, content] of Object.entries(files)) {
-        this.pyodide.runPython(`
-          import os
-          os.makedirs(os.path.dirname("${path}") or ".", exist_ok=True)
-          with open("${path}", "w") as f:
-              f.write("""${content.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}""")
-        `);
-      }
-    } catch (error) {
-      console.warn('Failed to write files to filesystem:', error);
-    }
+  /** Work in the project folder, importing this run's files rather than the last run's */
+  private enterProject() {
+    this.pyodide.runPython(`
+      import importlib
+      import os
+      import sys
+      _pixel_project = ${JSON.stringify(PROJECT_DIR)}
+      sys.dont_write_bytecode = True
+      os.chdir(_pixel_project)
+      if _pixel_project not in sys.path:
+          sys.path.insert(0, _pixel_project)
+      for _pixel_name, _pixel_module in list(sys.modules.items()):
+          if (getattr(_pixel_module, '__file__', None) or '').startswith(_pixel_project + '/'):
+              del sys.modules[_pixel_name]
+      importlib.invalidate_caches()
+    `);
   }
 
   private async executeCodeBasic(code: string): Promise<{ output: string; error: string }> {
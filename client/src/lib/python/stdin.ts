@@ -0,0 +1,43 @@
+/**
+ * Interactive input() for Python programs.
+ * input() pauses the program until the page answers its prompt, then echoes the answer the
+ * way a terminal would, so the program's output reads as a transcript of the conversation.
+ */
+
+import type { PyodideInterface } from './runner';
+
+const STDIN_PRELUDE = `
+import builtins
+import sys
+
+
+def _pixel_ask(prompt=''):
+    prompt = str(prompt)
+    sys.stdout.write(prompt)
+    answer = _pixel_read_line(prompt)
+    if answer is None:
+        sys.stdout.write('\\n')
+        raise EOFError('EOF when reading a line')
+    sys.stdout.write(answer + '\\n')
+    return answer
+
+
+builtins.input = _pixel_ask
+`;
+
+/**
+ * Answers one input() call, blocking until it has the line; undefined means end of input.
+ * (Pyodide turns undefined into None, which null isn't guaranteed to become.)
+ */
+export type ReadLine = (prompt: string) => string | undefined;
+
+/**
+ * Make input() ask `readLine` for each line. Compiled under its own filename, like the
+ * trace helpers, so the profiler never mistakes it for the student's code.
+ */
+export function installInteractiveInput(pyodide: PyodideInterface, readLine: ReadLine): void {
+  pyodide.globals.set('_pixel_read_line', readLine);
+  pyodide.runPython(
+    `exec(compile(${JSON.stringify(STDIN_PRELUDE)}, '<pixel-stdin>', 'exec'), globals())`
+  );
+}
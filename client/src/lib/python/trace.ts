@@ -0,0 +1,122 @@
+/**
+ * Execution tracing for Python lessons.
+ * Records the student's top-level variables, the functions their code calls and the stdin
+ * lines it reads, so runtime rules can check program state and not just printed text.
+ */
+
+import type { ExecutionTrace } from '../grading/types';
+import type { PyodideInterface } from './runner';
+
+// Pyodide runs snippets under this filename; only calls made from it are recorded
+const STUDENT_FILE = '<exec>';
+
+const TRACE_PRELUDE = `
+import builtins
+import json
+import sys
+import types
+
+
+class _PixelTrace:
+    def __init__(self):
+        self.calls = []
+        self.inputs = []
+        self.queue = []
+        self.names = []
+        self.baseline = set()
+        self.original_input = builtins.input
+
+
+def _pixel_input(prompt=''):
+    if _pixel_trace.queue:
+        if prompt:
+            sys.stdout.write(str(prompt))
+        value = _pixel_trace.queue.pop(0)
+    elif '_pixel_ask' in globals():
+        # Past the prepared lines, the learner answers
+        value = _pixel_ask(prompt)
+    else:
+        if prompt:
+            sys.stdout.write(str(prompt))
+        raise EOFError('EOF when reading a line')
+    _pixel_trace.inputs.append(value)
+    return value
+
+
+def _pixel_profile(frame, event, arg):
+    if event == 'call':
+        caller = frame.f_back
+        if caller is None or caller.f_code.co_filename != '${STUDENT_FILE}':
+            return
+        code = frame.f_code
+        if code is _pixel_input.__code__:
+            _pixel_trace.calls.append('input')
+        elif code.co_filename == '${STUDENT_FILE}' and not code.co_name.startswith('<'):
+            _pixel_trace.calls.append(getattr(code, 'co_qualname', code.co_name))
+    elif event == 'c_call' and frame.f_code.co_filename == '${STUDENT_FILE}':
+        _pixel_trace.calls.append(getattr(arg, '__qualname__', getattr(arg, '__name__', '?')))
+
+
+def _pixel_trace_begin(inputs_json):
+    namespace = globals()
+    # Forget the previous run's variables so a stale one can't satisfy a rule
+    for name in _pixel_trace.names:
+        namespace.pop(name, None)
+    _pixel_trace.calls = []
+    _pixel_trace.inputs = []
+    _pixel_trace.queue = json.loads(inputs_json)
+    _pixel_trace.baseline = set(namespace)
+    _pixel_trace.original_input = builtins.input
+    builtins.input = _pixel_input
+    sys.setprofile(_pixel_profile)
+
+
+def _pixel_trace_end():
+    sys.setprofile(None)
+    builtins.input = _pixel_trace.original_input
+    bindings = {}
+    for name, value in globals().items():
+        if name.startswith('_') or name in _pixel_trace.baseline:
+            continue
+        if isinstance(value, types.ModuleType):
+            continue
+        bindings[name] = value
+    _pixel_trace.names = list(bindings)
+    return json.dumps(
+        {'bindings': bindings, 'calls': _pixel_trace.calls, 'inputsConsumed': _pixel_trace.inputs},
+        default=repr,
+    )
+
+
+if '_pixel_trace' not in globals():
+    _pixel_trace = _PixelTrace()
+`;
+
+/**
+ * Define the tracing helpers in the interpreter. They are compiled under their own
+ * filename so the profiler never mistakes them for the student's code.
+ */
+export function installPythonTrace(pyodide: PyodideInterface): void {
+  pyodide.runPython(
+    `exec(compile(${JSON.stringify(TRACE_PRELUDE)}, '<pixel-trace>', 'exec'), globals())`
+  );
+}
+
+/**
+ * Start recording a run; `input` is split into the lines `input()` will return. Once they
+ * run out, input() asks the learner if installInteractiveInput has been called, else hits EOF.
+ */
+export function beginPythonTrace(pyodide: PyodideInterface, input?: string): void {
+  const lines = input ? input.split('\n') : [];
+  pyodide.runPython(`_pixel_trace_begin(${JSON.stringify(JSON.stringify(lines))})`);
+}
+
+/** Stop recording and collect the trace; undefined if the interpreter state was lost */
+export function endPythonTrace(pyodide: PyodideInterface): ExecutionTrace | undefined {
+  try {
+    return JSON.parse(pyodide.runPython('_pixel_trace_end()')) as ExecutionTrace;
+  } catch (error) {
+    console.warn('Failed to collect execution trace:', error);
+    return undefined;
+  }
+}
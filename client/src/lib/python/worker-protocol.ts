@@ -0,0 +1,97 @@
+/**
+ * Messages between the page and the Pyodide worker.
+ * The page asks for runs and forwards input; the worker streams back output, frames for the
+ * canvas and mixer calls, and asks for stdin lines. Stop and stdin also go through shared
+ * memory, because a busy program never gets round to reading messages.
+ */
+
+import type { ProjectAsset } from '@shared/schema';
+import type { ExecutionTrace } from '../grading/types';
+import type { AudioCall, AudioState } from '../pygame-audio-relay';
+import type { PygameEvent } from '../pygame-input';
+import type { EncodedFrame } from './frame-stream';
+import type { ProjectContents } from './project-fs';
+import type { ExecutionResult } from './runner';
+
+export interface SnippetResult {
+  output: string;
+  error: string;
+  trace?: ExecutionTrace;
+}
+
+export type RunRequest =
+  | { kind: 'snippet'; code: string; input?: string }
+  | { kind: 'project'; project: ProjectContents; main: string; input?: string }
+  | { kind: 'game'; code: string; assets?: ProjectAsset[] };
+
+export type RunResult = SnippetResult | ExecutionResult;
+
+/** Page to worker */
+export type PageMessage =
+  | {
+      type: 'init';
+      interruptBuffer: SharedArrayBuffer | null;
+      stdinBuffer: SharedArrayBuffer | null;
+    }
+  | { type: 'run'; id: number; request: RunRequest }
+  | { type: 'stop' }
+  | { type: 'input'; event: PygameEvent }
+  | { type: 'audio-state'; state: AudioState };
+
+/** Worker to page */
+export type WorkerMessage =
+  | { type: 'ready' }
+  | { type: 'load-error'; message: string }
+  | { type: 'result'; id: number; result: RunResult }
+  | { type: 'stdout'; text: string }
+  | { type: 'stderr'; text: string }
+  | { type: 'stdin-request'; prompt: string }
+  | { type: 'frame'; frame: EncodedFrame }
+  | { type: 'audio'; call: AudioCall };
+
+// What Pyodide's interrupt buffer must hold to raise KeyboardInterrupt: SIGINT
+export const SIGINT = 2;
+
+// Longest line of stdin the page can hand over at once
+export const STDIN_BUFFER_BYTES = 64 * 1024;
+
+// Header of the stdin buffer: [state, byte length], then the line as UTF-8
+const STDIN_HEADER_BYTES = 8;
+const STDIN_WAITING = 0;
+const STDIN_LINE = 1;
+const STDIN_EOF = 2;
+
+export function createStdinBuffer(): SharedArrayBuffer {
+  return new SharedArrayBuffer(STDIN_HEADER_BYTES + STDIN_BUFFER_BYTES);
+}
+
+/** Page side: answer the worker's stdin request with a line, or null for end of input */
+export function writeStdin(buffer: SharedArrayBuffer, line: string | null): void {
+  const header = new Int32Array(buffer, 0, 2);
+  if (line === null) {
+    Atomics.store(header, 0, STDIN_EOF);
+  } else {
+    const bytes = new TextEncoder().encode(line).slice(0, STDIN_BUFFER_BYTES);
+    new Uint8Array(buffer, STDIN_HEADER_BYTES).set(bytes);
+    Atomics.store(header, 1, bytes.length);
+    Atomics.store(header, 0, STDIN_LINE);
+  }
+  Atomics.notify(header, 0);
+}
+
+/** Worker side: block until the page has answered, then make the buffer ready for the next */
+export function readStdin(buffer: SharedArrayBuffer): string | null {
+  const header = new Int32Array(buffer, 0, 2);
+  Atomics.wait(header, 0, STDIN_WAITING);
+  const state = Atomics.load(header, 0);
+  const length = Atomics.load(header, 1);
+  // TextDecoder won't read shared memory directly
+  const bytes = new Uint8Array(buffer, STDIN_HEADER_BYTES, length).slice();
+  Atomics.store(header, 0, STDIN_WAITING);
+  return state === STDIN_EOF ? null : new TextDecoder().decode(bytes);
+}
+
+/** Whether the page may share memory with the worker; it needs cross-origin isolation */
+export function canShareMemory(): boolean {
+  return typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated === true;
+}
@@ -9,6 +9,9 @@ export const isStaticMode = (): boolean => {
   );
 };
 
+// Who local progress and projects belong to while nobody is signed in
+export const ANONYMOUS_USER_ID = 'anonymous-user';
+
 // Singleton client storage instance
 let clientStorageInstance: ClientStorage | null = null;
 
@@ -37,20 +40,24 @@ export class StorageAdapter {
   }
 
   // Progress methods
-  async getUserProgress(userId: string = 'anonymous-user') {
+  async getUserProgress(userId: string = ANONYMOUS_USER_ID) {
     return this.storage.getUserProgress(userId);
   }
 
-  async getUserProgressForLesson(lessonId: string, userId: string = 'anonymous-user') {
+  async getUserProgressForLesson(lessonId: string, userId: string = ANONYMOUS_USER_ID) {
     return this.storage.getUserProgressForLesson(userId, lessonId);
   }
 
-  async updateUserProgress(lessonId: string, progressData: any, userId: string = 'anonymous-user') {
+  async updateUserProgress(
+    lessonId: string,
+    progressData: any,
+    userId: string = ANONYMOUS_USER_ID
+  ) {
     return this.storage.updateUserProgress(userId, lessonId, progressData);
   }
 
   // Project methods
-  async listProjects(userId: string = 'anonymous-user') {
+  async listProjects(userId: string = ANONYMOUS_USER_ID) {
     return this.storage.listProjects(userId);
   }
 
@@ -58,7 +65,7 @@ export class StorageAdapter {
     return this.storage.getProject(id);
   }
 
-  async createProject(project: any, userId: string = 'anonymous-user') {
+  async createProject(project: any, userId: string = ANONYMOUS_USER_ID) {
     return this.storage.createProject({ ...project, userId });
   }
 
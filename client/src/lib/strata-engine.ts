@@ -3,28 +3,21 @@
  * Provides the classes and interfaces referenced in the TypeScript lessons.
  */
 
+/** A 2D point or direction. Arithmetic returns a new vector and leaves this one alone. */
 export class Vector2 {
   constructor(public x: number = 0, public y: number = 0) {}
 
   add(v: Vector2): Vector2 {
-    this.x += v.x;
-    this.y += v.y;
-    return this;
+    return new Vector2(this.x + v.x, this.y + v.y);
   }
 
   scale(s: number): Vector2 {
-    this.x *= s;
-    this.y *= s;
-    return this;
+    return new Vector2(this.x * s, this.y * s);
   }
 
   normalize(): Vector2 {
     const len = Math.sqrt(this.x * this.x + this.y * this.y);
-    if (len > 0) {
-      this.x /= len;
-      this.y /= len;
-    }
-    return this;
+    return len > 0 ? new Vector2(this.x / len, this.y / len) : new Vector2();
   }
 
   distanceTo(v: Vector2): number {
@@ -53,6 +46,10 @@ export class Sprite {
   public color: string;
   public texture?: string;
   public components: any[] = [];
+  /** Pixels per second, applied by the game every frame */
+  public velocity: Vector2 = new Vector2();
+  /** True while a sprite with Gravity is standing on the bottom of the screen */
+  public onGround = false;
 
   constructor(config: SpriteConfig = {}) {
     this.x = config.x || 0;
@@ -67,6 +64,10 @@ export class Sprite {
     this.components.push(component);
   }
 
+  getComponent<T>(type: new (...args: never[]) => T): T | undefined {
+    return this.components.find((component) => component instanceof type);
+  }
+
   collidesWith(other: Sprite): boolean {
     return (
       this.x < other.x + other.width &&
@@ -78,9 +79,15 @@ export class Sprite {
 
   takeDamage(amount: number): void {
     console.log(`Sprite took ${amount} damage`);
+    this.getComponent(Health)?.damage(amount);
   }
 }
 
+/** Anything attached with addComponent; components with an `update` method run every frame */
+export interface Component {
+  update?(sprite: Sprite, game: Game, dt: number): void;
+}
+
 export interface GameConfig {
   width: number;
   height: number;
@@ -88,14 +95,33 @@ export interface GameConfig {
   backgroundColor?: string;
 }
 
+export type GameCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/** Frame length used for the first frame and for single steps */
+const FIXED_DT = 1 / 60;
+/** Longest frame the simulation will take, so a stalled tab doesn't teleport sprites */
+const MAX_DT = 0.1;
+
 export class Game {
   public width: number;
   public height: number;
   public title: string;
   public backgroundColor: string;
+  /** Frames simulated since the game started */
+  public frame = 0;
   private updateCallbacks: ((dt: number) => void)[] = [];
   private renderCallbacks: ((ctx: CanvasRenderingContext2D) => void)[] = [];
   private keysDown: Set<string> = new Set();
+  private sprites: Sprite[] = [];
+  private context: RenderContext | null = null;
+  private running = false;
+  private paused = false;
+  private frameRequest: number | null = null;
+  private lastFrameTime: number | null = null;
+  private readonly onKeyDown = (e: KeyboardEvent) => this.setKeyDown(e.key, true);
+  private readonly onKeyUp = (e: KeyboardEvent) => this.setKeyDown(e.key, false);
 
   constructor(config: GameConfig) {
     this.width = config.width;
@@ -103,10 +129,9 @@ export class Game {
     this.title = config.title || 'Strata Game';
     this.backgroundColor = config.backgroundColor || '#000000';
 
-    // Mock keyboard listeners
     if (typeof window !== 'undefined') {
-      window.addEventListener('keydown', (e) => this.keysDown.add(e.key));
-      window.addEventListener('keyup', (e) => this.keysDown.delete(e.key));
+      window.addEventListener('keydown', this.onKeyDown);
+      window.addEventListener('keyup', this.onKeyUp);
     }
   }
 
@@ -122,56 +147,377 @@ export class Game {
     return this.keysDown.has(key);
   }
 
+  setKeyDown(key: string, down: boolean): void {
+    if (down) {
+      this.keysDown.add(key);
+    } else {
+      this.keysDown.delete(key);
+    }
+  }
+
+  /** Draw the game into this canvas, resizing it to the game's resolution */
+  attachCanvas(canvas: GameCanvas): void {
+    canvas.width = this.width;
+    canvas.height = this.height;
+    this.context = canvas.getContext('2d') as RenderContext | null;
+  }
+
   addSprite(sprite: Sprite): void {
-    console.log('Sprite added to game');
+    if (!this.sprites.includes(sprite)) {
+      this.sprites.push(sprite);
+    }
   }
 
   removeSprite(sprite: Sprite): void {
-    console.log('Sprite removed from game');
+    this.sprites = this.sprites.filter((s) => s !== sprite);
+  }
+
+  getSprites(): Sprite[] {
+    return [...this.sprites];
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
   }
 
   start(): void {
     console.log(`Game "${this.title}" started!`);
+    if (this.running) return;
+    this.running = true;
+    this.paused = false;
+    this.lastFrameTime = null;
+    this.scheduleNextFrame();
+  }
+
+  pause(): void {
+    if (!this.running || this.paused) return;
+    this.paused = true;
+    this.cancelNextFrame();
+  }
+
+  resume(): void {
+    if (!this.running || !this.paused) return;
+    this.paused = false;
+    this.lastFrameTime = null;
+    this.scheduleNextFrame();
+  }
+
+  /** Advance a paused game by exactly one frame */
+  stepFrame(): void {
+    if (this.paused) {
+      this.advanceFrame();
+    }
+  }
+
+  /**
+   * Simulate one frame of `dt` seconds right away, paused or not. Lets a script drive a
+   * started game without a screen or real time passing.
+   */
+  advanceFrame(dt: number = FIXED_DT): void {
+    if (this.running) {
+      this.runFrame(dt);
+    }
+  }
+
+  stop(): void {
+    this.running = false;
+    this.cancelNextFrame();
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('keydown', this.onKeyDown);
+      window.removeEventListener('keyup', this.onKeyUp);
+    }
   }
 
   gameOver(): void {
     console.log('Game Over!');
+    this.stop();
+  }
+
+  /**
+   * Move the world forward by `dt` seconds: components steer their sprites, velocities
+   * are applied, and then the game's own update callbacks run.
+   */
+  update(dt: number): void {
+    for (const sprite of [...this.sprites]) {
+      for (const component of sprite.components) {
+        component?.update?.(sprite, this, dt);
+      }
+
+      sprite.x += sprite.velocity.x * dt;
+      sprite.y += sprite.velocity.y * dt;
+
+      if (sprite.getComponent(Gravity)) {
+        const floor = this.height - sprite.height;
+        sprite.onGround = sprite.y >= floor;
+        if (sprite.onGround) {
+          sprite.y = floor;
+          sprite.velocity.y = Math.min(sprite.velocity.y, 0);
+        }
+      }
+    }
+
+    for (const callback of this.updateCallbacks) {
+      callback(dt);
+    }
+  }
+
+  render(): void {
+    const ctx = this.context;
+    if (!ctx) return;
+
+    ctx.fillStyle = this.backgroundColor;
+    ctx.fillRect(0, 0, this.width, this.height);
+
+    for (const sprite of this.sprites) {
+      ctx.fillStyle = sprite.color;
+      ctx.fillRect(sprite.x, sprite.y, sprite.width, sprite.height);
+    }
+
+    for (const callback of this.renderCallbacks) {
+      callback(ctx as CanvasRenderingContext2D);
+    }
+  }
+
+  /** Schedule a callback for the next frame; subclasses can drive the loop another way */
+  protected requestFrame(callback: (now: number) => void): number {
+    if (typeof requestAnimationFrame === 'function') {
+      return requestAnimationFrame(callback);
+    }
+    return setTimeout(() => callback(performance.now()), FIXED_DT * 1000) as unknown as number;
+  }
+
+  protected cancelFrame(handle: number): void {
+    if (typeof cancelAnimationFrame === 'function') {
+      cancelAnimationFrame(handle);
+    } else {
+      clearTimeout(handle);
+    }
+  }
+
+  /** Called after every simulated frame */
+  protected afterFrame(): void {}
+
+  /** Called when an update or render callback throws; the game has already stopped */
+  protected reportError(error: unknown): void {
+    console.error('Game stopped because of an error:', error);
+  }
+
+  private runFrame(dt: number): void {
+    try {
+      this.update(dt);
+      this.render();
+      this.frame++;
+      this.afterFrame();
+    } catch (error) {
+      this.stop();
+      this.reportError(error);
+    }
+  }
+
+  private readonly tick = (now: number): void => {
+    this.frameRequest = null;
+    if (!this.running || this.paused) return;
+
+    const dt =
+      this.lastFrameTime === null ? FIXED_DT : Math.min((now - this.lastFrameTime) / 1000, MAX_DT);
+    this.lastFrameTime = now;
+
+    this.runFrame(dt);
+    if (this.running && !this.paused) {
+      this.scheduleNextFrame();
+    }
+  };
+
+  private scheduleNextFrame(): void {
+    if (this.frameRequest === null) {
+      this.frameRequest = this.requestFrame(this.tick);
+    }
+  }
+
+  private cancelNextFrame(): void {
+    if (this.frameRequest !== null) {
+      this.cancelFrame(this.frameRequest);
+      this.frameRequest = null;
+    }
   }
 }
 
 // Components
-export class Gravity {
+
+/** Either a single key name or several keys that all do the same thing */
+type KeyBinding = string | string[];
+
+function anyKeyDown(game: Game, binding: KeyBinding | undefined): boolean {
+  if (binding === undefined) return false;
+  const keys = Array.isArray(binding) ? binding : [binding];
+  return keys.some((key) => game.isKeyDown(key));
+}
+
+/** Pulls the sprite down by `strength` px/s² until it falls at `terminal` px/s */
+export class Gravity implements Component {
   constructor(public config: { strength: number; terminal: number }) {}
+
+  update(sprite: Sprite, _game: Game, dt: number): void {
+    sprite.velocity.y = Math.min(
+      sprite.velocity.y + this.config.strength * dt,
+      this.config.terminal
+    );
+  }
 }
 
-export class PlatformerMovement {
+/** Left/right running at `speed` px/s, and a jump of `jumpPower` px/s while on the ground */
+export class PlatformerMovement implements Component {
   constructor(public config: { speed: number; jumpPower: number; keys: any }) {}
+
+  update(sprite: Sprite, game: Game): void {
+    const keys = {
+      left: ['ArrowLeft', 'a'],
+      right: ['ArrowRight', 'd'],
+      jump: ['ArrowUp', ' ', 'w'],
+      ...this.config.keys,
+    };
+
+    const direction = Number(anyKeyDown(game, keys.right)) - Number(anyKeyDown(game, keys.left));
+    sprite.velocity.x = direction * this.config.speed;
+
+    if (sprite.onGround && anyKeyDown(game, keys.jump)) {
+      sprite.velocity.y = -this.config.jumpPower;
+      sprite.onGround = false;
+    }
+  }
 }
 
-export class TopDownMovement {
+/** Eight-way movement at `speed` px/s, no faster on diagonals */
+export class TopDownMovement implements Component {
   constructor(public config: { speed: number; keys: any }) {}
+
+  update(sprite: Sprite, game: Game): void {
+    const keys = {
+      up: ['ArrowUp', 'w'],
+      down: ['ArrowDown', 's'],
+      left: ['ArrowLeft', 'a'],
+      right: ['ArrowRight', 'd'],
+      ...this.config.keys,
+    };
+
+    const direction = new Vector2(
+      Number(anyKeyDown(game, keys.right)) - Number(anyKeyDown(game, keys.left)),
+      Number(anyKeyDown(game, keys.down)) - Number(anyKeyDown(game, keys.up))
+    )
+      .normalize()
+      .scale(this.config.speed);
+
+    sprite.velocity.x = direction.x;
+    sprite.velocity.y = direction.y;
+  }
 }
 
+/** Hit points for a sprite; `onDeath` runs once when they reach zero */
 export class Health {
+  private dead = false;
+
   constructor(public config: { max: number; current: number; onDeath: () => void }) {}
+
+  damage(amount: number): void {
+    if (this.dead) return;
+    this.config.current = Math.max(0, this.config.current - amount);
+    if (this.config.current === 0) {
+      this.dead = true;
+      this.config.onDeath();
+    }
+  }
+
+  heal(amount: number): void {
+    if (this.dead) return;
+    this.config.current = Math.min(this.config.max, this.config.current + amount);
+  }
 }
 
 // Audio
+
+/** What a Sound or Music asks the speakers to do */
+export interface AudioCommand {
+  /** One per Music track; every Sound.play gets its own so effects can overlap */
+  channel: number;
+  action: 'play' | 'pause' | 'resume' | 'stop';
+  src: string;
+  volume: number;
+  loop: boolean;
+}
+
+let nextAudioChannel = 1;
+
 export class Sound {
   constructor(public path: string) {}
+
   play(config?: { volume: number }): void {
+    this.output({
+      channel: nextAudioChannel++,
+      action: 'play',
+      src: this.path,
+      volume: config?.volume ?? 1,
+      loop: false,
+    });
+  }
+
+  /** Hand a command to whatever can play it; on its own the mock can only describe it */
+  protected output(_command: AudioCommand): void {
     console.log(`Playing sound: ${this.path}`);
   }
 }
 
 export class Music {
+  private readonly channel = nextAudioChannel++;
+  private state: 'stopped' | 'playing' | 'paused' = 'stopped';
+  private volume = 1;
+  private loop = false;
+
   constructor(public path: string) {}
+
+  /** Starts the track from the beginning, even if it is already playing */
   play(config?: { loop: boolean; volume: number }): void {
-    console.log(`Playing music: ${this.path}`);
+    this.volume = config?.volume ?? 1;
+    this.loop = config?.loop ?? false;
+    this.state = 'playing';
+    this.send('play');
+  }
+
+  pause(): void {
+    if (this.state !== 'playing') return;
+    this.state = 'paused';
+    this.send('pause');
+  }
+
+  resume(): void {
+    if (this.state !== 'paused') return;
+    this.state = 'playing';
+    this.send('resume');
+  }
+
+  stop(): void {
+    if (this.state === 'stopped') return;
+    this.state = 'stopped';
+    this.send('stop');
+  }
+
+  /** Like Sound's output; only starting the track is worth mentioning in the console */
+  protected output(command: AudioCommand): void {
+    if (command.action === 'play') console.log(`Playing music: ${this.path}`);
+  }
+
+  private send(action: AudioCommand['action']): void {
+    this.output({
+      channel: this.channel,
+      action,
+      src: this.path,
+      volume: this.volume,
+      loop: this.loop,
+    });
   }
-  pause(): void {}
-  resume(): void {}
-  stop(): void {}
 }
 
 // Scene Management
@@ -185,6 +531,7 @@ export class Scene {
 export class SceneManager {
   private scenes: Map<string, Scene> = new Map();
   private currentScene: Scene | null = null;
+  public currentSceneName: string | null = null;
 
   constructor(public game: Game) {}
 
@@ -198,6 +545,7 @@ export class SceneManager {
     if (scene) {
       if (this.currentScene) this.currentScene.onExit();
       this.currentScene = scene;
+      this.currentSceneName = name;
       this.currentScene.onEnter();
       console.log(`Switched to scene: ${name}`);
     }
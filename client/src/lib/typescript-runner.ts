@@ -1,73 +1,393 @@
 /**
  * TypeScript Runner for Strata Lessons
- * Executes student code in a controlled environment with access to the Strata Engine mock.
+ * Transpiles student code in the browser, then executes it in a Web Worker sandbox with
+ * its own copy of the Strata Engine mock, a wall-clock timeout and an output cap.
  */
 
-import * as Strata from './strata-engine';
+import type { ExecutionTrace, GradingRunner, Simulation } from './grading/types';
+import { AudioOutput } from './typescript/audio-output';
+import { type CodeDiagnostic, formatDiagnostic } from './typescript/diagnostics';
+import {
+  type GameAction,
+  GameControls,
+  type GameEvent,
+  loadStrataModule,
+  type ProgramResult,
+  type RunProgramRequest,
+  runProgram,
+  type SandboxHost,
+  type SandboxResponse,
+} from './typescript/sandbox';
+import { transpileLessonCode, transpileStrataModule } from './typescript/transpile';
+
+export type { CodeDiagnostic } from './typescript/diagnostics';
+export type { GameAction, GameEvent } from './typescript/sandbox';
 
 export interface ExecutionResult {
   output: string;
   error: string | null;
+  /** Compiler diagnostics, positioned in the student's own line/column numbers */
+  diagnostics?: CodeDiagnostic[];
+  /** Program state observed during the run; absent when the code never started */
+  trace?: ExecutionTrace;
+  /** A Strata game is still running in the canvas after the program returned */
+  gameStarted?: boolean;
+}
+
+export interface RunOptions {
+  /** Text fed to the program's stdin, one `prompt()` answer per line */
+  input?: string;
+  /**
+   * Canvas that games started by this run draw into. A canvas can only be handed to the
+   * sandbox once, so every run needs a fresh one.
+   */
+  canvas?: HTMLCanvasElement;
+  /**
+   * Frames, output and errors from the game after the program itself has returned. Its
+   * sounds are played by the runner and not passed on.
+   */
+  onGameEvent?: (event: GameEvent) => void;
+  /** Run the program's games headlessly on a scripted timeline before reading its state */
+  simulation?: Simulation;
+}
+
+export interface RunnerOptions {
+  /** Wall-clock limit for one run, and for one game frame, before the sandbox is torn down */
+  timeoutMs?: number;
+  /** Total characters a program may print before it is stopped */
+  maxOutputChars?: number;
 }
 
-export class TypeScriptRunner {
-  private outputBuffer: string[] = [];
+export const DEFAULT_TIMEOUT_MS = 5000;
+export const DEFAULT_MAX_OUTPUT_CHARS = 100_000;
 
-  constructor() {
-    this.outputBuffer = [];
+const WATCHDOG_INTERVAL_MS = 500;
+
+type RunOutcome = Omit<ProgramResult, 'id'>;
+
+interface PendingRun {
+  id: number;
+  finish: (result: RunOutcome) => void;
+}
+
+interface GameSession {
+  /** The run that started the game */
+  id: number;
+  onEvent?: (event: GameEvent) => void;
+  paused: boolean;
+  /** When the game last showed signs of life; 0 until it has started */
+  lastActivity: number;
+  watchdog?: ReturnType<typeof setInterval>;
+}
+
+export class TypeScriptRunner implements GradingRunner {
+  private readonly timeoutMs: number;
+  private readonly maxOutputChars: number;
+  private worker: Worker | null = null;
+  /** Where the worker's replies arrive; messages it posts any other way are ignored */
+  private port: MessagePort | null = null;
+  private pending: PendingRun | null = null;
+  private game: GameSession | null = null;
+  /** Games of the in-process fallback, which has no worker to hold them */
+  private localGames: GameControls | null = null;
+  private readonly audio = new AudioOutput();
+  private nextRunId = 1;
+
+  constructor(options: RunnerOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxOutputChars = options.maxOutputChars ?? DEFAULT_MAX_OUTPUT_CHARS;
   }
 
-  private mockConsole = {
-    log: (...args: any[]) => {
-      this.outputBuffer.push(args.map(arg => 
-        typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)
-      ).join(' '));
-    },
-    error: (...args: any[]) => {
-      this.outputBuffer.push(`ERROR: ${args.join(' ')}`);
-    },
-    warn: (...args: any[]) => {
-      this.outputBuffer.push(`WARN: ${args.join(' ')}`);
-    }
-  };
+  async runSnippet(code: string, options: RunOptions = {}): Promise<ExecutionResult> {
+    let diagnostics: CodeDiagnostic[] = [];
 
-  async runSnippet(code: string): Promise<ExecutionResult> {
-    this.outputBuffer = [];
-    
     try {
-      // Create a context with Strata classes and mock console
-      const context = {
-        ...Strata,
-        console: this.mockConsole,
-        Math,
-        Object,
-        Array,
-        String,
-        Number,
-        Boolean,
-        Date
+      const transpiled = await transpileLessonCode(code, { trace: true });
+      diagnostics = transpiled.diagnostics;
+
+      const errors = diagnostics.filter((d) => d.severity === 'error');
+      if (errors.length > 0) {
+        return {
+          output: '',
+          error: `SyntaxError: ${errors.map(formatDiagnostic).join('\n')}`,
+          diagnostics,
+        };
+      }
+
+      const request: RunProgramRequest = {
+        type: 'run',
+        id: this.nextRunId++,
+        javascript: transpiled.javascript,
+        topLevelNames: transpiled.topLevelNames ?? [],
+        input: options.input,
+        maxOutputChars: this.maxOutputChars,
+        simulation: options.simulation,
       };
 
-      // Remove imports from code as they are provided in context
-      const cleanedCode = code.replace(/import\s+.*?\s+from\s+['"].*?['"];?/g, '');
+      // Only one program runs at a time; starting another stops the previous one, and the
+      // game it left running even when this run has no canvas to take it over
+      this.abort('⏹️ Stopped because a newer run started.');
+      this.stopGame();
+      if (options.canvas) {
+        this.beginGame(request.id, options.onGameEvent);
+      }
 
-      // Execute code
-      const execute = new Function(...Object.keys(context), cleanedCode);
-      execute(...Object.values(context));
+      const result =
+        typeof Worker === 'undefined'
+          ? await this.runInProcess(request, options.canvas)
+          : await this.runInWorker(request, options.canvas);
+
+      if (this.game?.id === request.id) {
+        if (result.gameStarted) {
+          this.game.lastActivity = Date.now();
+        } else {
+          this.endGame(false);
+        }
+      }
 
       return {
-        output: this.outputBuffer.join('\n'),
-        error: null
+        output: result.output,
+        error: result.error,
+        diagnostics,
+        trace: result.trace,
+        gameStarted: result.gameStarted,
       };
     } catch (err) {
       return {
-        output: this.outputBuffer.join('\n'),
-        error: err instanceof Error ? err.message : String(err)
+        output: '',
+        error: err instanceof Error ? err.message : String(err),
+        diagnostics,
+      };
+    }
+  }
+
+  /** Stop the program that is currently running, or else the game it left running */
+  cancel(): void {
+    if (this.pending) {
+      this.abort('⏹️ Stopped. Your code was cancelled before it finished.');
+    } else {
+      this.controlGame('stop');
+    }
+  }
+
+  /** Pause, resume, single-step or stop the game left running by the last run */
+  controlGame(action: GameAction): void {
+    const game = this.game;
+    if (!game) return;
+
+    if (action === 'pause') game.paused = true;
+    if (action === 'resume') {
+      game.paused = false;
+      game.lastActivity = Date.now();
+    }
+
+    if (this.worker) {
+      this.worker.postMessage({ type: 'game', action });
+    } else {
+      this.localGames?.apply(action);
+    }
+
+    if (action === 'stop') this.endGame();
+  }
+
+  /** Tell the running game a key went down or up */
+  setGameKey(key: string, down: boolean): void {
+    if (!this.game) return;
+    if (this.worker) {
+      this.worker.postMessage({ type: 'key', key, down });
+    } else {
+      this.localGames?.setKey(key, down);
+    }
+  }
+
+  /** Release the worker; a later run starts a fresh one */
+  dispose(): void {
+    this.localGames?.apply('stop');
+    this.resetSandbox('⏹️ Stopped. Your code was cancelled before it finished.');
+  }
+
+  private abort(error: string): void {
+    if (this.pending) this.resetSandbox(error);
+  }
+
+  /** Stop every game the sandbox holds, whether or not this runner still watches one */
+  private stopGame(): void {
+    this.worker?.postMessage({ type: 'game', action: 'stop' });
+    this.localGames?.apply('stop');
+    this.localGames = null;
+    this.endGame();
+  }
+
+  /** A busy worker can't be interrupted, only replaced; its games go with it */
+  private resetSandbox(error: string): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.port?.close();
+    this.port = null;
+    this.pending?.finish({ output: '', error });
+    this.endGame();
+  }
+
+  private beginGame(id: number, onEvent?: (event: GameEvent) => void): void {
+    this.endGame();
+    const game: GameSession = { id, onEvent, paused: false, lastActivity: 0 };
+    if (typeof Worker !== 'undefined') {
+      game.watchdog = setInterval(() => this.checkGameAlive(game), WATCHDOG_INTERVAL_MS);
+    }
+    this.game = game;
+  }
+
+  private endGame(notify = true): void {
+    const game = this.game;
+    if (!game) return;
+    clearInterval(game.watchdog);
+    this.audio.stopAll();
+    this.game = null;
+    if (notify) game.onEvent?.({ type: 'stopped' });
+  }
+
+  private handleGameEvent(id: number, event: GameEvent): void {
+    const game = this.game;
+    if (game?.id !== id) return;
+
+    if (event.type === 'audio') {
+      this.audio.apply(event.command);
+      return;
+    }
+    if (event.type === 'frame') game.lastActivity = Date.now();
+    game.onEvent?.(event);
+    if (event.type === 'error') this.endGame();
+  }
+
+  /** A frame that never finishes means the worker is stuck in the student's update code */
+  private checkGameAlive(game: GameSession): void {
+    if (game !== this.game || game.paused || game.lastActivity === 0) return;
+
+    // Hidden tabs get few or no animation frames, which is not the program's fault
+    if (typeof document !== 'undefined' && document.hidden) {
+      game.lastActivity = Date.now();
+      return;
+    }
+
+    if (Date.now() - game.lastActivity > this.timeoutMs) {
+      game.onEvent?.({
+        type: 'error',
+        error: `⏱️ Your game froze for more than ${this.timeoutMs / 1000} seconds, so Pixel stopped it. Is there a loop in onUpdate that never ends?`,
+      });
+      this.resetSandbox('⏹️ Stopped because the game froze.');
+    }
+  }
+
+  private handleMessage(message: SandboxResponse): void {
+    if (message.type === 'game') {
+      this.handleGameEvent(message.id, message.event);
+    } else if (this.pending?.id === message.id) {
+      this.pending.finish(message);
+    }
+  }
+
+  private async getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      const strataModule = await transpileStrataModule();
+      // Another run may have started the worker while this one waited
+      if (this.worker) return this.worker;
+      const worker = new Worker(new URL('./typescript/sandbox-worker.ts', import.meta.url), {
+        type: 'module',
+      });
+      const channel = new MessageChannel();
+      channel.port1.onmessage = (event: MessageEvent<SandboxResponse>) =>
+        this.handleMessage(event.data);
+      worker.onerror = (event) => {
+        event.preventDefault();
+        const error = event.message || 'The code sandbox crashed.';
+        if (!this.pending) this.game?.onEvent?.({ type: 'error', error });
+        this.resetSandbox(error);
+      };
+      worker.postMessage({ type: 'init', strataModule, port: channel.port2 }, [channel.port2]);
+      this.worker = worker;
+      this.port = channel.port1;
+    }
+    return this.worker;
+  }
+
+  private async runInWorker(
+    request: RunProgramRequest,
+    canvas?: HTMLCanvasElement
+  ): Promise<RunOutcome> {
+    // The run is claimed before waiting for the worker, so a run started meanwhile stops this
+    // one instead of both thinking they are the current run
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const outcome = new Promise<RunOutcome>((resolve) => {
+      this.pending = {
+        id: request.id,
+        finish: (result) => {
+          clearTimeout(timer);
+          if (this.pending?.id === request.id) this.pending = null;
+          resolve(result);
+        },
       };
+    });
+    const isCurrent = () => this.pending?.id === request.id;
+
+    let worker: Worker;
+    try {
+      worker = await this.getWorker();
+    } catch (err) {
+      if (isCurrent()) {
+        this.pending?.finish({
+          output: '',
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+      return outcome;
     }
+    if (!isCurrent()) return outcome;
+
+    // Browsers without OffscreenCanvas still run the game's logic, just without drawing it
+    const offscreen =
+      canvas && 'transferControlToOffscreen' in canvas
+        ? canvas.transferControlToOffscreen()
+        : undefined;
+
+    timer = setTimeout(() => {
+      if (!isCurrent()) return;
+      this.abort(
+        `⏱️ Your code ran for more than ${this.timeoutMs / 1000} seconds, so Pixel stopped it. Is there a loop that never ends?`
+      );
+    }, this.timeoutMs);
+
+    if (offscreen) {
+      worker.postMessage({ ...request, canvas: offscreen }, [offscreen]);
+    } else {
+      worker.postMessage(request);
+    }
+    return outcome;
+  }
+
+  /**
+   * Without worker support (tests, older browsers) the same sandbox code runs in-process.
+   * The output cap still applies, but a runaway loop can't be interrupted.
+   */
+  private async runInProcess(
+    request: RunProgramRequest,
+    canvas?: HTMLCanvasElement
+  ): Promise<ProgramResult> {
+    const strata = loadStrataModule(await transpileStrataModule());
+
+    let host: SandboxHost | undefined;
+    if (canvas) {
+      this.localGames?.apply('stop');
+      this.localGames = new GameControls();
+      host = {
+        controls: this.localGames,
+        onGameEvent: (event) => this.handleGameEvent(request.id, event),
+      };
+    }
+
+    return runProgram({ ...request, canvas }, strata, host);
   }
 }
 
-export function createTypeScriptRunner(): TypeScriptRunner {
-  return new TypeScriptRunner();
+export function createTypeScriptRunner(options?: RunnerOptions): TypeScriptRunner {
+  return new TypeScriptRunner(options);
 }
@@ -0,0 +1,47 @@
+/**
+ * Page-side speakers for the sandbox. Games run in a worker, which has no audio of its
+ * own, so their Sound and Music objects send commands here to be played.
+ */
+
+import type { AudioCommand } from '../strata-engine';
+
+export class AudioOutput {
+  private readonly channels = new Map<number, HTMLAudioElement>();
+
+  apply(command: AudioCommand): void {
+    if (typeof Audio === 'undefined') return;
+    const current = this.channels.get(command.channel);
+
+    if (command.action === 'play') {
+      current?.pause();
+      const element = new Audio(command.src);
+      element.volume = Math.min(1, Math.max(0, command.volume));
+      element.loop = command.loop;
+      element.addEventListener('ended', () => {
+        if (this.channels.get(command.channel) === element) this.channels.delete(command.channel);
+      });
+      this.channels.set(command.channel, element);
+      play(element);
+      return;
+    }
+
+    if (!current) return;
+    if (command.action === 'resume') {
+      play(current);
+    } else {
+      current.pause();
+      if (command.action === 'stop') this.channels.delete(command.channel);
+    }
+  }
+
+  /** Silence everything, e.g. when the game that started it stops */
+  stopAll(): void {
+    for (const element of this.channels.values()) element.pause();
+    this.channels.clear();
+  }
+}
+
+function play(element: HTMLAudioElement): void {
+  // A missing file or the browser's autoplay policy only costs the game this one sound
+  element.play()?.catch(() => {});
+}
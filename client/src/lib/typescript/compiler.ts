@@ -0,0 +1,25 @@
+/**
+ * Lazy loader for the TypeScript compiler.
+ * The compiler is several megabytes, so it is only fetched the first time a lesson needs it.
+ */
+
+import type * as TS from 'typescript';
+
+export type TypeScriptCompiler = typeof TS;
+
+let compilerPromise: Promise<TypeScriptCompiler> | null = null;
+
+export function loadTypeScript(): Promise<TypeScriptCompiler> {
+  if (!compilerPromise) {
+    compilerPromise = import('typescript')
+      .then(
+        (mod) => ((mod as { default?: TypeScriptCompiler }).default ?? mod) as TypeScriptCompiler
+      )
+      .catch((error) => {
+        // Allow a later run to retry if the chunk failed to load
+        compilerPromise = null;
+        throw error;
+      });
+  }
+  return compilerPromise;
+}
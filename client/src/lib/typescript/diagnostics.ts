@@ -0,0 +1,63 @@
+/**
+ * Compiler diagnostics expressed in the student's own line and column numbers.
+ */
+
+import type * as TS from 'typescript';
+import type { TypeScriptCompiler } from './compiler';
+
+export interface CodeDiagnostic {
+  /** 1-based line in the student's code */
+  line: number;
+  /** 1-based column in the student's code */
+  column: number;
+  endLine: number;
+  endColumn: number;
+  /** TypeScript error code, e.g. 1005 for "';' expected" */
+  code: number;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+}
+
+export function toCodeDiagnostic(
+  ts: TypeScriptCompiler,
+  diagnostic: TS.Diagnostic
+): CodeDiagnostic {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+  const severity =
+    diagnostic.category === ts.DiagnosticCategory.Error
+      ? 'error'
+      : diagnostic.category === ts.DiagnosticCategory.Warning
+        ? 'warning'
+        : 'info';
+
+  if (!diagnostic.file || diagnostic.start === undefined) {
+    return {
+      line: 1,
+      column: 1,
+      endLine: 1,
+      endColumn: 1,
+      code: diagnostic.code,
+      severity,
+      message,
+    };
+  }
+
+  const start = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+  const end = diagnostic.file.getLineAndCharacterOfPosition(
+    diagnostic.start + (diagnostic.length ?? 0)
+  );
+
+  return {
+    line: start.line + 1,
+    column: start.character + 1,
+    endLine: end.line + 1,
+    endColumn: end.character + 1,
+    code: diagnostic.code,
+    severity,
+    message,
+  };
+}
+
+export function formatDiagnostic(diagnostic: CodeDiagnostic): string {
+  return `Line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.message} (TS${diagnostic.code})`;
+}
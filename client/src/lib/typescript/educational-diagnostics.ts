@@ -0,0 +1,436 @@
+/**
+ * Educational TypeScript Diagnostics
+ * Turns compiler error codes into Pixel-voiced explanations, the TypeScript counterpart
+ * of the Python patterns in educational-errors.ts.
+ */
+
+import type { EducationalError } from '../educational-errors';
+import { type CodeDiagnostic, formatDiagnostic } from './diagnostics';
+
+interface DiagnosticExplainer {
+  explain: (args: string[], diagnostic: CodeDiagnostic) => Omit<EducationalError, 'originalError'>;
+}
+
+/** Pull the quoted names and types out of a compiler message, in order */
+export function extractMessageArguments(message: string): string[] {
+  return Array.from(message.matchAll(/'([^']*)'/g)).map((match) => match[1]);
+}
+
+const explainers: Record<number, DiagnosticExplainer> = {
+  // Type 'X' is not assignable to type 'Y'.
+  2322: {
+    explain: ([actual, expected], { line }) => ({
+      friendlyMessage: `Whoa there! On line ${line} you're putting a ${actual} where TypeScript expects a ${expected}. 🧐`,
+      explanation:
+        'Every variable and property has a type, like a labelled box. TypeScript checks that what you put in the box matches the label, so a number box can never end up holding text.',
+      learningTips: [
+        'Numbers are written without quotes: 100, not "100"',
+        'Text (strings) always goes inside quotes',
+        'Check the interface or type annotation to see what the property expects',
+      ],
+      nextSteps: [
+        `Look at line ${line} and find the value that is a ${actual}`,
+        `Change it into a ${expected}, or fix the type annotation if the label is wrong`,
+      ],
+      exampleCode: `// Problem:
+const health: number = '100';  // text in a number box!
+
+// Solution:
+const health: number = 100;`,
+      relatedConcepts: ['Type Annotations', 'Primitive Types', 'Interfaces'],
+    }),
+  },
+
+  // Argument of type 'X' is not assignable to parameter of type 'Y'.
+  2345: {
+    explain: ([actual, expected], { line }) => ({
+      friendlyMessage: `Oops! The function call on line ${line} is getting a ${actual}, but that parameter wants a ${expected}. 🎯`,
+      explanation:
+        'Function parameters have types too. When you call a function, each value you pass in has to match the type of the parameter it lands in.',
+      learningTips: [
+        'Hover over a function name in your editor to see its parameter types',
+        'Arguments are matched to parameters in order: first to first, second to second',
+      ],
+      nextSteps: [
+        `Find the argument on line ${line} that is a ${actual}`,
+        `Pass a ${expected} instead`,
+      ],
+      exampleCode: `function heal(amount: number): void { /* ... */ }
+
+heal('20');  // Problem: '20' is a string
+heal(20);    // Solution: pass a number`,
+      relatedConcepts: ['Functions', 'Parameters', 'Type Annotations'],
+    }),
+  },
+
+  // Cannot find name 'X'.
+  2304: {
+    explain: ([name], { line }) => ({
+      friendlyMessage: `Hmm, I don't know anything called '${name}' yet (line ${line}). Did it get created somewhere? 🔍`,
+      explanation:
+        'TypeScript can only use names that have been declared with const, let, function, class or interface, or imported from a module.',
+      learningTips: [
+        "Names are case-sensitive: 'player' and 'Player' are different",
+        'Declare a variable before you use it',
+      ],
+      nextSteps: [
+        `Check the spelling and capitalisation of '${name}'`,
+        `If '${name}' is new, declare it first with const or let`,
+      ],
+      relatedConcepts: ['Variables', 'Scope', 'Declarations'],
+    }),
+  },
+
+  // Cannot find name 'X'. Did you mean 'Y'?
+  2552: {
+    explain: ([name, suggestion], { line }) => ({
+      friendlyMessage: `I can't find '${name}' on line ${line}... did you mean '${suggestion}'? ✨`,
+      explanation:
+        'This is usually a small typo. TypeScript found a name that looks very similar to the one you wrote.',
+      learningTips: ["Names are case-sensitive: 'player' and 'Player' are different"],
+      nextSteps: [`Try changing '${name}' to '${suggestion}'`],
+      relatedConcepts: ['Variables', 'Spelling & Case'],
+    }),
+  },
+
+  // Property 'X' does not exist on type 'Y'.
+  2339: {
+    explain: ([property, type], { line }) => ({
+      friendlyMessage: `A ${type} doesn't have a '${property}' (line ${line}). Let's check what it does have! 🔎`,
+      explanation:
+        "An object's type lists exactly which properties and methods it has. Reading anything else is almost always a typo or a missing field in the interface.",
+      learningTips: [
+        'Check the interface or class to see the property names it declares',
+        "If the object really should have this property, add it to the type's definition",
+      ],
+      nextSteps: [
+        `Look at how ${type} is defined`,
+        `Fix the spelling of '${property}', or add '${property}' to ${type}`,
+      ],
+      relatedConcepts: ['Interfaces', 'Classes', 'Properties'],
+    }),
+  },
+
+  // Property 'X' does not exist on type 'Y'. Did you mean 'Z'?
+  2551: {
+    explain: ([property, type, suggestion], { line }) => ({
+      friendlyMessage: `${type} doesn't have '${property}' (line ${line}), but it does have '${suggestion}'. Was that it? ✨`,
+      explanation:
+        'TypeScript found a property with a very similar name. This is usually a small typo or a capitalisation slip.',
+      learningTips: ["Property names are case-sensitive: 'Health' and 'health' are different"],
+      nextSteps: [`Try changing '${property}' to '${suggestion}'`],
+      relatedConcepts: ['Properties', 'Spelling & Case'],
+    }),
+  },
+
+  // Property 'X' is missing in type 'A' but required in type 'B'.
+  2741: {
+    explain: ([property, , type], { line }) => ({
+      friendlyMessage: `Your object on line ${line} forgot its '${property}'! Every ${type} needs one. 📋`,
+      explanation:
+        "An interface is like a checklist. An object of that type has to include every property on the list (unless it's marked optional with ?).",
+      learningTips: [
+        'Compare your object with the interface, property by property',
+        'Mark a property optional with ? in the interface if it can be left out',
+      ],
+      nextSteps: [`Add '${property}' to the object on line ${line}`],
+      exampleCode: `interface Player { name: string; health: number; }
+
+const hero: Player = { name: 'Hero' };               // Missing health!
+const hero2: Player = { name: 'Hero', health: 100 }; // Complete`,
+      relatedConcepts: ['Interfaces', 'Object Literals', 'Optional Properties'],
+    }),
+  },
+
+  // Object literal may only specify known properties, and 'X' does not exist in type 'Y'.
+  2353: {
+    explain: ([property, type], { line }) => ({
+      friendlyMessage: `'${property}' isn't part of ${type}, so TypeScript doesn't expect it on line ${line}. 🤔`,
+      explanation:
+        "When you create an object for a specific type, TypeScript flags extra properties. They're usually typos, or a property that still needs adding to the interface.",
+      learningTips: ['Check the spelling of the property against the interface'],
+      nextSteps: [`Remove '${property}', fix its spelling, or add it to ${type}`],
+      relatedConcepts: ['Interfaces', 'Object Literals'],
+    }),
+  },
+
+  // Expected N arguments, but got M.
+  2554: {
+    explain: (_args, { line, message }) => {
+      const [, expected, got] = message.match(/Expected (\S+) arguments?, but got (\d+)/) ?? [];
+      return {
+        friendlyMessage: `The function call on line ${line} has ${got ?? 'the wrong number of'} argument(s), but it needs ${expected ?? 'a different number'}. 🧮`,
+        explanation:
+          'A function declares how many parameters it takes. Each call has to pass one value per required parameter.',
+        learningTips: [
+          'Parameters with a default value (like amount: number = 1) can be left out',
+          'Separate arguments with commas',
+        ],
+        nextSteps: [
+          'Look at the function definition to see its parameters',
+          `Add or remove arguments on line ${line} to match`,
+        ],
+        relatedConcepts: ['Functions', 'Parameters', 'Default Values'],
+      };
+    },
+  },
+
+  // Cannot assign to 'X' because it is a constant.
+  2588: {
+    explain: ([name], { line }) => ({
+      friendlyMessage: `'${name}' was made with const, so it can't change on line ${line}. 🔒`,
+      explanation:
+        'const creates a variable that keeps the same value forever. Use let when a value needs to change, like a score or a position.',
+      learningTips: [
+        'Use const for values that never change',
+        'Use let for values that change, like score or lives',
+      ],
+      nextSteps: [`Change the declaration of '${name}' from const to let`],
+      exampleCode: `let score = 0;
+score += 10;  // Fine, score was declared with let`,
+      relatedConcepts: ['const vs let', 'Variables'],
+    }),
+  },
+
+  // Cannot assign to 'X' because it is a read-only property.
+  2540: {
+    explain: ([property], { line }) => ({
+      friendlyMessage: `'${property}' is read-only, so line ${line} can't change it. 🔒`,
+      explanation:
+        'The readonly keyword protects a property so it can only be set once, in the constructor. That keeps values like maxHealth from being changed by accident.',
+      learningTips: ['Readonly properties can only be set when the object is created'],
+      nextSteps: [
+        `Set '${property}' in the constructor instead`,
+        `Or remove readonly if '${property}' really should change`,
+      ],
+      relatedConcepts: ['readonly', 'Classes', 'Constructors'],
+    }),
+  },
+
+  // A function whose declared type is neither 'undefined', 'void', nor 'any' must return a value.
+  2355: {
+    explain: (_args, { line }) => ({
+      friendlyMessage: `The function on line ${line} promises to give back a value, but it never returns one! 🎁`,
+      explanation:
+        'The type after the parentheses, like ): number, is a promise about what the function returns. If it promises a number, it has to return one.',
+      learningTips: [
+        'Use return to send a value back from a function',
+        'Use ): void for functions that do something but return nothing',
+      ],
+      nextSteps: ['Add a return statement, or change the return type to void'],
+      exampleCode: `function double(n: number): number {
+  return n * 2;
+}`,
+      relatedConcepts: ['Return Types', 'Functions'],
+    }),
+  },
+
+  // Function lacks ending return statement and return type does not include 'undefined'.
+  2366: {
+    explain: (_args, { line }) => ({
+      friendlyMessage: `Some paths through the function on line ${line} reach the end without returning anything. 🛤️`,
+      explanation:
+        'When a function has a return type, every possible path (every if and else branch) needs to end with a return.',
+      learningTips: ['Add an else branch or a final return after your if statements'],
+      nextSteps: ['Make sure the last line of the function returns a value'],
+      relatedConcepts: ['Return Types', 'Conditionals'],
+    }),
+  },
+
+  // Parameter 'X' implicitly has an 'any' type.
+  7006: {
+    explain: ([name], { line }) => ({
+      friendlyMessage: `Parameter '${name}' on line ${line} needs a type so TypeScript can help you! 🏷️`,
+      explanation:
+        "Without a type annotation TypeScript can't tell what kind of value the parameter holds, so it can't catch mistakes for you.",
+      learningTips: ['Add a type after the parameter name, like (amount: number)'],
+      nextSteps: [`Write '${name}: number', '${name}: string' or whatever type it should be`],
+      exampleCode: `function heal(amount: number): void { /* ... */ }`,
+      relatedConcepts: ['Type Annotations', 'Parameters'],
+    }),
+  },
+
+  // Cannot redeclare block-scoped variable 'X'.
+  2451: {
+    explain: ([name], { line }) => ({
+      friendlyMessage: `'${name}' was already declared, so line ${line} can't create it again. 👯`,
+      explanation:
+        'Each const or let name can only be declared once in the same block. To change the value, assign to the existing variable instead.',
+      learningTips: ['Declare once with let, then update with ='],
+      nextSteps: [`Remove the extra declaration of '${name}' or give it a different name`],
+      relatedConcepts: ['Variables', 'Scope'],
+    }),
+  },
+
+  // Block-scoped variable 'X' used before its declaration.
+  2448: {
+    explain: ([name], { line }) => ({
+      friendlyMessage: `Line ${line} uses '${name}' before it's been created. Let's move things around! ⏳`,
+      explanation:
+        'Code runs from top to bottom, so a variable has to be declared above where it is used.',
+      learningTips: ['Put declarations near the top of your code'],
+      nextSteps: [`Move the declaration of '${name}' above line ${line}`],
+      relatedConcepts: ['Variables', 'Execution Order'],
+    }),
+  },
+
+  // Cannot find module 'X' or its corresponding type declarations.
+  2307: {
+    explain: ([moduleName], { line }) => ({
+      friendlyMessage: `I can't find a module called '${moduleName}' (line ${line}). In these lessons everything comes from '@strata/engine'! 📦`,
+      explanation:
+        'The lesson sandbox only knows about the Strata engine. Its classes, like Game, Sprite and Vector2, are also available without importing them.',
+      learningTips: ["Import Strata classes with: import { Game } from '@strata/engine';"],
+      nextSteps: [`Change '${moduleName}' to '@strata/engine', or remove the import`],
+      relatedConcepts: ['Modules', 'Imports'],
+    }),
+  },
+
+  // This comparison appears to be unintentional because the types 'X' and 'Y' have no overlap.
+  2367: {
+    explain: ([left, right], { line }) => ({
+      friendlyMessage: `Line ${line} compares a ${left} with a ${right}. Those can never be equal! ⚖️`,
+      explanation:
+        "TypeScript noticed that the two sides of the comparison have completely different types, so the check is always false. That's usually a bug.",
+      learningTips: ['Compare numbers with numbers and strings with strings'],
+      nextSteps: ['Check both sides of the comparison and make their types match'],
+      relatedConcepts: ['Comparisons', 'Union Types'],
+    }),
+  },
+
+  // 'X' is possibly 'null' / 'undefined'.
+  18047: {
+    explain: ([name], { line }) => ({
+      friendlyMessage: `'${name}' might be null on line ${line}. Let's make sure it's really there first! 🕵️`,
+      explanation:
+        'Some values can be missing. TypeScript wants you to check before using them so the game never crashes.',
+      learningTips: [
+        'Wrap the code in if (value) { ... } or use optional chaining: value?.property',
+      ],
+      nextSteps: [`Add a check that '${name}' exists before line ${line}`],
+      relatedConcepts: ['null and undefined', 'Type Narrowing'],
+    }),
+  },
+  18048: {
+    explain: ([name], { line }) => ({
+      friendlyMessage: `'${name}' might be undefined on line ${line}. Let's make sure it's really there first! 🕵️`,
+      explanation:
+        'Some values can be missing, like the result of find() when nothing matches. TypeScript wants you to check before using them.',
+      learningTips: [
+        'Wrap the code in if (value) { ... } or use optional chaining: value?.property',
+      ],
+      nextSteps: [`Add a check that '${name}' exists before line ${line}`],
+      relatedConcepts: ['null and undefined', 'Type Narrowing'],
+    }),
+  },
+
+  // Class 'X' incorrectly implements interface 'Y'.
+  2420: {
+    explain: ([className, interfaceName], { line }) => ({
+      friendlyMessage: `${className} promised to implement ${interfaceName} on line ${line}, but something's missing! 📝`,
+      explanation:
+        'implements is a promise that the class has everything the interface lists. TypeScript checks that every property and method is there with the right type.',
+      learningTips: ['Compare the class with the interface, member by member'],
+      nextSteps: [`Add the missing members from ${interfaceName} to ${className}`],
+      relatedConcepts: ['Interfaces', 'Classes', 'implements'],
+    }),
+  },
+
+  // Constructors for derived classes must contain a 'super' call.
+  2377: {
+    explain: (_args, { line }) => ({
+      friendlyMessage: `The constructor on line ${line} needs to call super(...) first! 🦸`,
+      explanation:
+        'When a class extends another, its constructor has to call super(...) so the parent class gets set up before the child adds its own parts.',
+      learningTips: ['Call super(...) as the first line of the constructor'],
+      nextSteps: ['Add super(...) with the arguments the parent constructor needs'],
+      exampleCode: `class Player extends Character {
+  constructor(name: string) {
+    super(name);  // Set up the Character part first
+  }
+}`,
+      relatedConcepts: ['Inheritance', 'extends', 'Constructors'],
+    }),
+  },
+
+  // Property 'X' has no initializer and is not definitely assigned in the constructor.
+  2564: {
+    explain: ([property], { line }) => ({
+      friendlyMessage: `'${property}' never gets a starting value (line ${line}). Every property needs one! 🌱`,
+      explanation:
+        'TypeScript makes sure every property has a value when an object is created, so nothing is accidentally undefined.',
+      learningTips: [
+        'Give the property a default: score: number = 0;',
+        'Or set it in the constructor: this.score = 0;',
+      ],
+      nextSteps: [`Give '${property}' a starting value`],
+      relatedConcepts: ['Classes', 'Constructors', 'Properties'],
+    }),
+  },
+
+  // 'X' expected.
+  1005: {
+    explain: ([token], { line, column }) => ({
+      friendlyMessage: `I was expecting a '${token}' on line ${line}, around column ${column}. ✏️`,
+      explanation:
+        "TypeScript couldn't understand the structure of your code here. A symbol like a bracket, comma or semicolon is probably missing.",
+      learningTips: [
+        'Every ( needs a matching ), and every { needs a matching }',
+        'Separate object properties with commas',
+      ],
+      nextSteps: [
+        `Look just before column ${column} on line ${line}`,
+        'Check the line above too. The real mistake is sometimes there',
+      ],
+      relatedConcepts: ['Syntax', 'Brackets', 'Punctuation'],
+    }),
+  },
+
+  // Expression expected.
+  1109: {
+    explain: (_args, { line, column }) => ({
+      friendlyMessage: `Something's missing on line ${line} around column ${column}. TypeScript expected a value there. ✏️`,
+      explanation:
+        'A value, like a number, string or variable, is missing. This often happens after = or inside an empty pair of brackets.',
+      learningTips: ['Make sure every = has something on its right-hand side'],
+      nextSteps: [`Fill in the missing value on line ${line}`],
+      relatedConcepts: ['Syntax', 'Expressions'],
+    }),
+  },
+};
+
+/**
+ * Explain a compiler diagnostic in Pixel's voice. Codes without a dedicated explanation
+ * fall back to the compiler's own message, wrapped in encouragement.
+ */
+export function explainDiagnostic(diagnostic: CodeDiagnostic): EducationalError {
+  const originalError = formatDiagnostic(diagnostic);
+  const explainer = explainers[diagnostic.code];
+
+  if (explainer) {
+    return {
+      originalError,
+      ...explainer.explain(extractMessageArguments(diagnostic.message), diagnostic),
+    };
+  }
+
+  return {
+    originalError,
+    friendlyMessage: `TypeScript spotted something on line ${diagnostic.line}: ${diagnostic.message} Let's figure it out together! 💙`,
+    explanation:
+      "This one isn't in my usual list, but the message tells us what TypeScript expected. Read it slowly and compare it with your code.",
+    learningTips: [
+      'Words in quotes in the message are the names and types TypeScript is talking about',
+    ],
+    nextSteps: [
+      `Look at line ${diagnostic.line}, column ${diagnostic.column}`,
+      'Compare your code with the hints for this step',
+    ],
+    relatedConcepts: ['Debugging', 'Type Errors'],
+  };
+}
+
+/** One-line summary suitable for GradeResult.errors */
+export function summarizeDiagnostic(diagnostic: CodeDiagnostic): string {
+  return explainDiagnostic(diagnostic).friendlyMessage;
+}
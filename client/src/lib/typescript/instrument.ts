@@ -0,0 +1,111 @@
+/**
+ * Execution-trace instrumentation for lesson code.
+ * A transpile-time transformer that wraps the student's top-level functions and class
+ * methods so the runner can log their calls, and records every top-level name so the
+ * runner can read the final value of each binding once the program has finished.
+ */
+
+import type * as TS from 'typescript';
+import type { TypeScriptCompiler } from './compiler';
+
+/** Runtime helpers the instrumented code calls; the runner provides them as globals */
+export const TRACE_FUNCTION = '__traceFunction';
+export const TRACE_METHODS = '__traceMethods';
+
+function bindingNames(ts: TypeScriptCompiler, name: TS.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  return name.elements.flatMap((element) =>
+    ts.isOmittedExpression(element) ? [] : bindingNames(ts, element.name)
+  );
+}
+
+function isFunctionValue(ts: TypeScriptCompiler, node: TS.Expression | undefined): boolean {
+  return !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+}
+
+function callHelper(
+  ts: TypeScriptCompiler,
+  helper: string,
+  name: string,
+  value: TS.Expression
+): TS.CallExpression {
+  return ts.factory.createCallExpression(ts.factory.createIdentifier(helper), undefined, [
+    ts.factory.createStringLiteral(name),
+    value,
+  ]);
+}
+
+/**
+ * Create the transformer. `topLevelNames` is filled in while transpiling, in source order.
+ */
+export function createTraceTransformer(
+  ts: TypeScriptCompiler,
+  topLevelNames: string[]
+): TS.TransformerFactory<TS.SourceFile> {
+  const { factory } = ts;
+
+  return () => (sourceFile) => {
+    // Function declarations are hoisted, so their wrappers go first to catch calls made
+    // before the declaration appears in the file
+    const functionWrappers: TS.Statement[] = [];
+    const statements: TS.Statement[] = [];
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isVariableStatement(statement)) {
+        const declarations = statement.declarationList.declarations.map((declaration) => {
+          topLevelNames.push(...bindingNames(ts, declaration.name));
+          if (!ts.isIdentifier(declaration.name) || !isFunctionValue(ts, declaration.initializer)) {
+            return declaration;
+          }
+          return factory.updateVariableDeclaration(
+            declaration,
+            declaration.name,
+            declaration.exclamationToken,
+            declaration.type,
+            callHelper(
+              ts,
+              TRACE_FUNCTION,
+              declaration.name.text,
+              declaration.initializer as TS.Expression
+            )
+          );
+        });
+        statements.push(
+          factory.updateVariableStatement(
+            statement,
+            statement.modifiers,
+            factory.updateVariableDeclarationList(statement.declarationList, declarations)
+          )
+        );
+        continue;
+      }
+
+      statements.push(statement);
+
+      if (ts.isFunctionDeclaration(statement) && statement.name && statement.body) {
+        const name = statement.name.text;
+        topLevelNames.push(name);
+        functionWrappers.push(
+          factory.createExpressionStatement(
+            factory.createAssignment(
+              factory.createIdentifier(name),
+              callHelper(ts, TRACE_FUNCTION, name, factory.createIdentifier(name))
+            )
+          )
+        );
+      } else if (ts.isClassDeclaration(statement) && statement.name) {
+        const name = statement.name.text;
+        topLevelNames.push(name);
+        statements.push(
+          factory.createExpressionStatement(
+            callHelper(ts, TRACE_METHODS, name, factory.createIdentifier(name))
+          )
+        );
+      } else if (ts.isEnumDeclaration(statement)) {
+        topLevelNames.push(statement.name.text);
+      }
+    }
+
+    return factory.updateSourceFile(sourceFile, [...functionWrappers, ...statements]);
+  };
+}
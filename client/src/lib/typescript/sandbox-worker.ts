@@ -0,0 +1,71 @@
+/**
+ * Web Worker that runs student TypeScript (already transpiled) away from the page.
+ * The page terminates it when a program runs too long, so an infinite loop can only ever
+ * freeze this worker. Replies go over the port the page sent with `init`, which student
+ * code can't get hold of, so a program posting messages of its own can't forge results.
+ */
+
+import {
+  GameControls,
+  loadStrataModule,
+  runProgram,
+  type SandboxHost,
+  type SandboxRequest,
+  type SandboxResponse,
+  type StrataModule,
+} from './sandbox';
+
+// The project compiles against the DOM lib, so describe just the worker API used here
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<SandboxRequest>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+
+// Bound when the port arrives, before any program runs, so patching MessagePort can't reach it
+let reply: (message: SandboxResponse) => void = () => {};
+let strata: StrataModule | null = null;
+// Games of the last run that was given a canvas; they keep running between messages
+let controls: GameControls | null = null;
+
+scope.onmessage = (event) => {
+  const request = event.data;
+
+  if (request.type === 'init') {
+    reply = request.port.postMessage.bind(request.port);
+    strata = loadStrataModule(request.strataModule);
+    return;
+  }
+
+  if (request.type === 'game') {
+    controls?.apply(request.action);
+    return;
+  }
+
+  if (request.type === 'key') {
+    controls?.setKey(request.key, request.down);
+    return;
+  }
+
+  if (!strata) {
+    reply({
+      type: 'result',
+      id: request.id,
+      output: '',
+      error: 'The code sandbox is not ready yet. Please try again.',
+    });
+    return;
+  }
+
+  let host: SandboxHost | undefined;
+  if (request.canvas) {
+    controls?.apply('stop');
+    controls = new GameControls();
+    host = {
+      controls,
+      onGameEvent: (gameEvent) => reply({ type: 'game', id: request.id, event: gameEvent }),
+    };
+  }
+
+  reply({ type: 'result', ...runProgram(request, strata, host) });
+};
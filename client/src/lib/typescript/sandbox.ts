@@ -0,0 +1,491 @@
+/**
+ * Execution of transpiled lesson code inside the sandbox.
+ * Shared by the Web Worker and the in-process fallback used where workers don't exist,
+ * so both produce exactly the same output, errors and trace.
+ */
+
+import type { ExecutionTrace, GameReport, Simulation } from '../grading/types';
+import type {
+  AudioCommand,
+  Game,
+  GameCanvas,
+  GameConfig,
+  Music,
+  SceneManager,
+  Sound,
+  Sprite,
+} from '../strata-engine';
+import { TRACE_FUNCTION, TRACE_METHODS } from './instrument';
+
+/** Module specifiers lessons may import the Strata API from */
+export const STRATA_MODULE_SPECIFIERS = ['@strata/engine', '@jbcom/strata', 'strata'];
+
+export interface RunProgramRequest {
+  type: 'run';
+  id: number;
+  javascript: string;
+  topLevelNames: string[];
+  input?: string;
+  maxOutputChars: number;
+  /** Canvas the program's games draw into; without one they never animate */
+  canvas?: GameCanvas;
+  /** Drive the program's games headlessly after it returns, for grading */
+  simulation?: Simulation;
+}
+
+export interface InitSandboxRequest {
+  type: 'init';
+  /** The Strata mock, transpiled to CommonJS so it can be shipped as text */
+  strataModule: string;
+  /** The sandbox's end of a private channel; the page only listens for results on it */
+  port: MessagePort;
+}
+
+export type GameAction = 'pause' | 'resume' | 'step' | 'stop';
+
+export interface GameControlRequest {
+  type: 'game';
+  action: GameAction;
+}
+
+export interface GameKeyRequest {
+  type: 'key';
+  key: string;
+  down: boolean;
+}
+
+export type SandboxRequest =
+  | InitSandboxRequest
+  | RunProgramRequest
+  | GameControlRequest
+  | GameKeyRequest;
+
+export interface ProgramResult {
+  id: number;
+  output: string;
+  error: string | null;
+  trace?: ExecutionTrace;
+  /** A game was left running after the top-level code finished */
+  gameStarted?: boolean;
+}
+
+/**
+ * Something a program's games did that the page has to show or play. Output only arrives
+ * this way once the top-level code has finished.
+ */
+export type GameEvent =
+  | { type: 'output'; text: string }
+  | { type: 'frame'; frame: number; paused: boolean }
+  | { type: 'error'; error: string }
+  | { type: 'stopped' }
+  | { type: 'audio'; command: AudioCommand };
+
+/** Messages the sandbox worker posts back to the page, over the port it was given */
+export type SandboxResponse =
+  | ({ type: 'result' } & ProgramResult)
+  | { type: 'game'; id: number; event: GameEvent };
+
+/** Where a run's games report to; runs without a host can't be watched or controlled */
+export interface SandboxHost {
+  controls: GameControls;
+  onGameEvent: (event: GameEvent) => void;
+}
+
+export type StrataModule = Record<string, unknown>;
+
+type BindingReaders = Record<string, () => unknown>;
+
+/**
+ * Browser globals the student's code shouldn't reach by accident. This is not a wall: the
+ * Function constructor still hands a program the worker's global object, so the page
+ * ignores the worker's own postMessage and only trusts results from the private port.
+ */
+const SHADOWED_GLOBALS = [
+  'self',
+  'globalThis',
+  'window',
+  'document',
+  'postMessage',
+  'close',
+  'importScripts',
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'indexedDB',
+  'localStorage',
+  'sessionStorage',
+];
+
+const MAX_CLONE_DEPTH = 4;
+
+const SIMULATION_DT = 1 / 60;
+const DEFAULT_SIMULATION_SEED = 1;
+
+class OutputLimitError extends Error {
+  constructor(limit: number) {
+    super(`Your program printed more than ${limit} characters, so Pixel stopped it.`);
+    this.name = 'OutputLimitError';
+  }
+}
+
+/** The games one program created, paused, stepped and fed keys together */
+export class GameControls {
+  private readonly games: Game[] = [];
+
+  add(game: Game): void {
+    this.games.push(game);
+  }
+
+  /** Simulate one frame of every running game */
+  advance(dt: number): void {
+    for (const game of this.games) {
+      game.advanceFrame(dt);
+    }
+  }
+
+  get running(): boolean {
+    return this.games.some((game) => game.isRunning());
+  }
+
+  apply(action: GameAction): void {
+    for (const game of this.games) {
+      if (action === 'pause') game.pause();
+      else if (action === 'resume') game.resume();
+      else if (action === 'step') game.stepFrame();
+      else game.stop();
+    }
+  }
+
+  setKey(key: string, down: boolean): void {
+    for (const game of this.games) {
+      game.setKeyDown(key, down);
+    }
+  }
+}
+
+/** Evaluate the serialized Strata mock into a module object */
+export function loadStrataModule(source: string): StrataModule {
+  const module = { exports: {} as StrataModule };
+  new Function('module', 'exports', source)(module, module.exports);
+  return module.exports;
+}
+
+/**
+ * Copy a value into something postMessage can carry: functions become a description and
+ * deep or circular structures are cut off.
+ */
+export function toCloneable(value: unknown, depth = 0, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+  if (typeof value === 'bigint' || typeof value === 'symbol') return String(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (seen.has(value) || depth >= MAX_CLONE_DEPTH) return '[…]';
+  seen.add(value);
+
+  if (Array.isArray(value)) return value.map((item) => toCloneable(item, depth + 1, seen));
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = toCloneable(item, depth + 1, seen);
+  }
+  return copy;
+}
+
+/** Mulberry32: a tiny PRNG whose sequence depends only on the seed */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface SandboxStrataOptions {
+  canvas?: GameCanvas;
+  /** Every game the program creates is added here */
+  controls: GameControls;
+  /** Whether games animate on their own; headless games only move when advanced */
+  animate: boolean;
+  /** Whether sounds go to the page's speakers; otherwise they are only logged */
+  audible: boolean;
+  onGameEvent: (event: GameEvent) => void;
+  report: GameReport;
+}
+
+/**
+ * The Strata API as the program sees it: games draw into the run's canvas and report
+ * their frames, output and errors, while collisions and scene switches are recorded
+ * for the grader.
+ */
+function createSandboxStrata(strata: StrataModule, options: SandboxStrataOptions) {
+  const { canvas, controls, animate, audible, onGameEvent, report } = options;
+  const StrataGame = strata.Game as typeof Game;
+  const StrataSprite = strata.Sprite as typeof Sprite;
+  const StrataSceneManager = strata.SceneManager as typeof SceneManager;
+  const StrataSound = strata.Sound as typeof Sound;
+  const StrataMusic = strata.Music as typeof Music;
+
+  return {
+    ...strata,
+
+    Game: class Game extends StrataGame {
+      constructor(config: GameConfig) {
+        super(config);
+        if (canvas) this.attachCanvas(canvas);
+        controls.add(this);
+      }
+
+      protected requestFrame(callback: (now: number) => void): number {
+        return animate ? super.requestFrame(callback) : 0;
+      }
+
+      protected afterFrame(): void {
+        onGameEvent({ type: 'frame', frame: this.frame, paused: this.isPaused() });
+      }
+
+      protected reportError(error: unknown): void {
+        onGameEvent({
+          type: 'error',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+
+    Sprite: class Sprite extends StrataSprite {
+      collidesWith(other: Sprite): boolean {
+        const hit = super.collidesWith(other);
+        if (hit) report.collisions++;
+        return hit;
+      }
+    },
+
+    SceneManager: class SceneManager extends StrataSceneManager {
+      switchTo(name: string): void {
+        super.switchTo(name);
+        if (this.currentSceneName === name) report.scenes.push(name);
+      }
+    },
+
+    // A worker has no speakers, so sounds are played by the page
+    Sound: class Sound extends StrataSound {
+      protected output(command: AudioCommand): void {
+        if (audible) onGameEvent({ type: 'audio', command });
+        else super.output(command);
+      }
+    },
+
+    Music: class Music extends StrataMusic {
+      protected output(command: AudioCommand): void {
+        if (audible) onGameEvent({ type: 'audio', command });
+        else super.output(command);
+      }
+    },
+  };
+}
+
+/**
+ * Play a test's input script against the program's running games, one fixed-length frame
+ * at a time. Stops early once every game has stopped (or crashed).
+ */
+function simulate(simulation: Simulation, controls: GameControls, report: GameReport): void {
+  const dt = simulation.dt ?? SIMULATION_DT;
+  const inputs = (simulation.inputs ?? []).map((input) => ({
+    key: input.key === 'Space' ? ' ' : input.key,
+    down: input.frame,
+    up: input.frame + (input.hold ?? 1),
+  }));
+
+  for (let frame = 0; frame < simulation.frames && controls.running; frame++) {
+    // Release before pressing so a key tapped again right away still registers
+    for (const input of inputs) {
+      if (input.up === frame) controls.setKey(input.key, false);
+    }
+    for (const input of inputs) {
+      if (input.down === frame) controls.setKey(input.key, true);
+    }
+
+    controls.advance(dt);
+    report.frames++;
+  }
+}
+
+export function runProgram(
+  request: RunProgramRequest,
+  strata: StrataModule,
+  host?: SandboxHost
+): ProgramResult {
+  const output: string[] = [];
+  const calls: string[] = [];
+  const inputsConsumed: string[] = [];
+  const pendingInput = request.input ? request.input.split('\n') : [];
+  const report: GameReport = { frames: 0, collisions: 0, scenes: [] };
+  const controls = host?.controls ?? new GameControls();
+  // Nobody can watch or hear a game without a canvas, so it never animates or plays sound
+  const live = Boolean(request.canvas && host);
+  let gameError: string | null = null;
+  const runtimeStrata = createSandboxStrata(strata, {
+    canvas: request.canvas,
+    controls,
+    animate: live,
+    audible: live,
+    onGameEvent: (event) => {
+      if (event.type === 'error') gameError = event.error;
+      host?.onGameEvent(event);
+    },
+    report,
+  });
+  let outputChars = 0;
+  let finished = false;
+
+  const print = (line: string) => {
+    outputChars += line.length + 1;
+    if (outputChars > request.maxOutputChars) {
+      throw new OutputLimitError(request.maxOutputChars);
+    }
+    // Games keep printing from their callbacks after the program itself has returned
+    if (finished) {
+      host?.onGameEvent({ type: 'output', text: line });
+    } else {
+      output.push(line);
+    }
+  };
+
+  const sandboxConsole = {
+    log: (...args: unknown[]) => {
+      calls.push('console.log');
+      print(
+        args
+          .map((arg) => (typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)))
+          .join(' ')
+      );
+    },
+    error: (...args: unknown[]) => {
+      calls.push('console.error');
+      print(`ERROR: ${args.join(' ')}`);
+    },
+    warn: (...args: unknown[]) => {
+      calls.push('console.warn');
+      print(`WARN: ${args.join(' ')}`);
+    },
+  };
+
+  // Reads the next stdin line, returning null once input runs out like a dismissed prompt
+  const readInput = (): string | null => {
+    calls.push('prompt');
+    const line = pendingInput.shift();
+    if (line === undefined) return null;
+    inputsConsumed.push(line);
+    return line;
+  };
+
+  const traceFunction = <T>(name: string, fn: T): T => {
+    if (typeof fn !== 'function') return fn;
+    const traced = function (this: unknown, ...args: unknown[]) {
+      calls.push(name);
+      return fn.apply(this, args);
+    };
+    Object.defineProperty(traced, 'name', { value: fn.name });
+    return traced as T;
+  };
+
+  const traceMethods = (className: string, cls: unknown): void => {
+    if (typeof cls !== 'function') return;
+    const prototype = cls.prototype as Record<string, unknown>;
+    for (const key of Object.getOwnPropertyNames(prototype)) {
+      const descriptor = Object.getOwnPropertyDescriptor(prototype, key);
+      if (key === 'constructor' || typeof descriptor?.value !== 'function') continue;
+      prototype[key] = traceFunction(`${className}.${key}`, descriptor.value);
+    }
+  };
+
+  const requireModule = (specifier: string): unknown => {
+    if (STRATA_MODULE_SPECIFIERS.includes(specifier)) {
+      return runtimeStrata;
+    }
+    throw new Error(
+      `Cannot find module '${specifier}'. Lessons can only import from '@strata/engine'.`
+    );
+  };
+
+  const moduleObject = { exports: {} as Record<string, unknown> };
+  const context: Record<string, unknown> = {
+    ...Object.fromEntries(SHADOWED_GLOBALS.map((name) => [name, undefined])),
+    ...runtimeStrata,
+    console: sandboxConsole,
+    require: requireModule,
+    module: moduleObject,
+    exports: moduleObject.exports,
+    prompt: readInput,
+    [TRACE_FUNCTION]: traceFunction,
+    [TRACE_METHODS]: traceMethods,
+  };
+
+  // Simulated games must place their random gems in the same spots on every run
+  if (request.simulation) {
+    const random = createSeededRandom(request.simulation.seed ?? DEFAULT_SIMULATION_SEED);
+    context.Math = Object.create(Math, { random: { value: random } });
+  }
+
+  const readBindings = (readers: BindingReaders) => {
+    const bindings: Record<string, unknown> = {};
+    for (const [name, read] of Object.entries(readers)) {
+      try {
+        bindings[name] = toCloneable(read());
+      } catch {
+        // Exported declarations only live on `exports` after the CommonJS transform
+        if (name in moduleObject.exports) {
+          bindings[name] = toCloneable(moduleObject.exports[name]);
+        }
+      }
+    }
+    return bindings;
+  };
+
+  const trace = (bindings: Record<string, unknown>): ExecutionTrace => ({
+    bindings,
+    calls,
+    inputsConsumed,
+    game: report,
+  });
+
+  // Hand back a reader for each top-level binding so its final value can be inspected
+  // after the program finishes
+  const readers = request.topLevelNames
+    .map((name) => `${JSON.stringify(name)}: () => ${name}`)
+    .join(', ');
+
+  try {
+    const execute = new Function(
+      ...Object.keys(context),
+      `${request.javascript}\nreturn { ${readers} };`
+    );
+    const bindingReaders: BindingReaders = execute(...Object.values(context));
+
+    if (request.simulation) {
+      simulate(request.simulation, controls, report);
+      controls.apply('stop');
+    }
+
+    return {
+      id: request.id,
+      output: output.join('\n'),
+      error: gameError,
+      // Read after the simulation, so rules see where the game left everything
+      trace: trace(readBindings(bindingReaders)),
+      gameStarted: host?.controls.running ?? false,
+    };
+  } catch (err) {
+    // A program that crashed doesn't get to keep its game running
+    host?.controls.apply('stop');
+    return {
+      id: request.id,
+      output: output.join('\n'),
+      error: err instanceof Error ? err.message : String(err),
+      trace: trace({}),
+    };
+  } finally {
+    finished = true;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * In-browser TypeScript → JavaScript transpilation for lesson code.
+ */
+
+import strataEngineSource from '../strata-engine.ts?raw';
+import { loadTypeScript } from './compiler';
+import { type CodeDiagnostic, toCodeDiagnostic } from './diagnostics';
+import { createTraceTransformer } from './instrument';
+
+export const LESSON_FILE_NAME = 'lesson.ts';
+
+export interface TranspileOptions {
+  /** Instrument the code so the runner can record an execution trace */
+  trace?: boolean;
+}
+
+export interface TranspileResult {
+  javascript: string;
+  diagnostics: CodeDiagnostic[];
+  /** Names declared at the top level of the lesson, when transpiled with `trace` */
+  topLevelNames?: string[];
+}
+
+/**
+ * Strip types from the student's code. Imports are emitted as CommonJS `require` calls
+ * so the runner can resolve them to the Strata mock without rewriting source text,
+ * which keeps every diagnostic position aligned with what the student typed.
+ */
+export async function transpileLessonCode(
+  code: string,
+  options: TranspileOptions = {}
+): Promise<TranspileResult> {
+  const ts = await loadTypeScript();
+  const topLevelNames: string[] = [];
+
+  const result = ts.transpileModule(code, {
+    fileName: LESSON_FILE_NAME,
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      esModuleInterop: true,
+      sourceMap: false,
+      removeComments: false,
+    },
+    transformers: options.trace
+      ? { before: [createTraceTransformer(ts, topLevelNames)] }
+      : undefined,
+  });
+
+  return {
+    javascript: result.outputText,
+    diagnostics: (result.diagnostics ?? []).map((diagnostic) => toCodeDiagnostic(ts, diagnostic)),
+    topLevelNames: options.trace ? topLevelNames : undefined,
+  };
+}
+
+let strataModulePromise: Promise<string> | null = null;
+
+/**
+ * The Strata mock as CommonJS source, so a sandbox can evaluate its own copy instead of
+ * sharing the page's objects.
+ */
+export function transpileStrataModule(): Promise<string> {
+  if (!strataModulePromise) {
+    strataModulePromise = loadTypeScript()
+      .then(
+        (ts) =>
+          ts.transpileModule(strataEngineSource, {
+            fileName: 'strata-engine.ts',
+            compilerOptions: {
+              target: ts.ScriptTarget.ES2020,
+              module: ts.ModuleKind.CommonJS,
+            },
+          }).outputText
+      )
+      .catch((error) => {
+        strataModulePromise = null;
+        throw error;
+      });
+  }
+  return strataModulePromise;
+}
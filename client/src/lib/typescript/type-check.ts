@@ -0,0 +1,205 @@
+/**
+ * Semantic type-checking of lesson code against the Strata engine mock.
+ * Runs the real TypeScript checker over an in-memory program so students see the same
+ * type errors an editor would show them, positioned in their own line numbers.
+ */
+
+import type * as TS from 'typescript';
+import strataEngineSource from '../strata-engine.ts?raw';
+import { loadTypeScript, type TypeScriptCompiler } from './compiler';
+import { type CodeDiagnostic, toCodeDiagnostic } from './diagnostics';
+import { STRATA_MODULE_SPECIFIERS } from './sandbox';
+import { LESSON_FILE_NAME } from './transpile';
+
+const LESSON_PATH = `/${LESSON_FILE_NAME}`;
+const STRATA_PATH = '/strata-engine.ts';
+const STRATA_GLOBALS_PATH = '/strata-globals.d.ts';
+const ROOT_LIBS = ['lib.es2020.d.ts', 'lib.dom.d.ts'];
+
+// Relative to this file rather than the Vite root, which is client/ in the app but the
+// repository in tests
+const LIB_DIRECTORY = '../../../../node_modules/typescript/lib/';
+const libLoaders = import.meta.glob<string>('../../../../node_modules/typescript/lib/lib.*.d.ts', {
+  query: '?raw',
+  import: 'default',
+});
+
+const libTexts = new Map<string, string>();
+const sourceFileCache = new Map<string, TS.SourceFile>();
+let previousProgram: TS.Program | undefined;
+
+async function loadLib(name: string): Promise<void> {
+  if (libTexts.has(name)) return;
+
+  const loader = libLoaders[`${LIB_DIRECTORY}${name}`];
+  if (!loader) return;
+
+  const text = await loader();
+  libTexts.set(name, text);
+
+  // Lib files pull each other in with /// <reference lib="..." /> directives
+  const references = Array.from(text.matchAll(/\/\/\/\s*<reference\s+lib="([^"]+)"/g)).map(
+    (match) => `lib.${match[1].toLowerCase()}.d.ts`
+  );
+  await Promise.all(references.map(loadLib));
+}
+
+/**
+ * Lessons may use the Strata API without importing it, so every export of the mock is
+ * also declared as a global. The list is derived from the mock's own source so the two
+ * can never drift apart.
+ */
+export function buildStrataGlobals(ts: TypeScriptCompiler, source: TS.SourceFile): string {
+  const declarations: string[] = [];
+
+  const isExported = (node: TS.Node) =>
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+
+  const typeParams = (params: TS.NodeArray<TS.TypeParameterDeclaration> | undefined) =>
+    params && params.length > 0
+      ? {
+          declared: `<${params.map((p) => p.getText(source)).join(', ')}>`,
+          applied: `<${params.map((p) => p.name.text).join(', ')}>`,
+        }
+      : { declared: '', applied: '' };
+
+  for (const statement of source.statements) {
+    if (!isExported(statement)) continue;
+
+    if (ts.isClassDeclaration(statement) && statement.name) {
+      const name = statement.name.text;
+      const { declared, applied } = typeParams(statement.typeParameters);
+      declarations.push(`  const ${name}: typeof Strata.${name};`);
+      declarations.push(`  type ${name}${declared} = Strata.${name}${applied};`);
+    } else if (
+      (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) &&
+      statement.name
+    ) {
+      const name = statement.name.text;
+      const { declared, applied } = typeParams(statement.typeParameters);
+      declarations.push(`  type ${name}${declared} = Strata.${name}${applied};`);
+    } else if (ts.isFunctionDeclaration(statement) && statement.name) {
+      const name = statement.name.text;
+      declarations.push(`  const ${name}: typeof Strata.${name};`);
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          const name = declaration.name.text;
+          declarations.push(`  const ${name}: typeof Strata.${name};`);
+        }
+      }
+    }
+  }
+
+  return [
+    `import type * as Strata from '${STRATA_MODULE_SPECIFIERS[0]}';`,
+    '',
+    'declare global {',
+    ...declarations,
+    '}',
+    '',
+  ].join('\n');
+}
+
+function getCachedSourceFile(
+  ts: TypeScriptCompiler,
+  fileName: string,
+  text: string
+): TS.SourceFile {
+  let sourceFile = sourceFileCache.get(fileName);
+  if (!sourceFile) {
+    sourceFile = ts.createSourceFile(fileName, text, ts.ScriptTarget.ES2020, true);
+    sourceFileCache.set(fileName, sourceFile);
+  }
+  return sourceFile;
+}
+
+function createCompilerOptions(ts: TypeScriptCompiler): TS.CompilerOptions {
+  return {
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.ESNext,
+    lib: ROOT_LIBS,
+    strict: true,
+    noEmit: true,
+    types: [],
+    // Treat the student's snippet as its own module so names like `name` or `status`
+    // don't collide with DOM globals
+    moduleDetection: ts.ModuleDetectionKind.Force,
+  };
+}
+
+function createHost(ts: TypeScriptCompiler, code: string): TS.CompilerHost {
+  const strataSource = getCachedSourceFile(ts, STRATA_PATH, strataEngineSource);
+
+  const readFile = (fileName: string): string | undefined => {
+    if (fileName === LESSON_PATH) return code;
+    if (fileName === STRATA_PATH) return strataEngineSource;
+    if (fileName === STRATA_GLOBALS_PATH) return buildStrataGlobals(ts, strataSource);
+    return libTexts.get(fileName.replace(/^\//, ''));
+  };
+
+  return {
+    getSourceFile: (fileName, languageVersionOrOptions) => {
+      // The compiler's parse options carry the moduleDetection setting, so the lesson
+      // file must be parsed with them rather than taken from the cache
+      if (fileName === LESSON_PATH) {
+        return ts.createSourceFile(fileName, code, languageVersionOrOptions, true);
+      }
+      const text = readFile(fileName);
+      return text === undefined ? undefined : getCachedSourceFile(ts, fileName, text);
+    },
+    getDefaultLibFileName: () => `/${ROOT_LIBS[0]}`,
+    writeFile: () => {},
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: (fileName) => readFile(fileName) !== undefined,
+    readFile,
+    resolveModuleNameLiterals: (moduleLiterals) =>
+      moduleLiterals.map((literal) => ({
+        resolvedModule: STRATA_MODULE_SPECIFIERS.includes(literal.text)
+          ? {
+              resolvedFileName: STRATA_PATH,
+              extension: ts.Extension.Ts,
+              isExternalLibraryImport: false,
+            }
+          : undefined,
+      })),
+    getDirectories: () => [],
+    directoryExists: () => true,
+    realpath: (path) => path,
+    getEnvironmentVariable: () => undefined,
+  };
+}
+
+/**
+ * Type-check a lesson snippet. Only diagnostics inside the student's code are returned;
+ * problems in the lib files or the Strata mock itself are never the student's fault.
+ */
+export async function typeCheckLessonCode(code: string): Promise<CodeDiagnostic[]> {
+  const ts = await loadTypeScript();
+  await Promise.all(ROOT_LIBS.map(loadLib));
+
+  const options = createCompilerOptions(ts);
+  const host = createHost(ts, code);
+
+  const program = ts.createProgram({
+    rootNames: [LESSON_PATH, STRATA_GLOBALS_PATH],
+    options,
+    host,
+    oldProgram: previousProgram,
+  });
+  previousProgram = program;
+
+  const lessonSource = program.getSourceFile(LESSON_PATH);
+  if (!lessonSource) return [];
+
+  const diagnostics = [
+    ...program.getSyntacticDiagnostics(lessonSource),
+    ...program.getSemanticDiagnostics(lessonSource),
+  ];
+
+  return diagnostics.map((diagnostic) => toCodeDiagnostic(ts, diagnostic));
+}
@@ -17,6 +17,23 @@ export const saveUserProfile = (profile: UserProfile): void => {
   localStorage.setItem('pygame_academy_profile', JSON.stringify(profile));
 };
 
+// A profile that came from an account rather than from this browser while signed out, so a
+// later sign-in doesn't claim it again
+const CLAIMED_PROFILE_KEY = 'pygame_academy_profile_claimed';
+
+export const isUserProfileClaimed = (): boolean =>
+  localStorage.getItem(CLAIMED_PROFILE_KEY) === 'true';
+
+export const saveClaimedUserProfile = (profile: UserProfile): void => {
+  saveUserProfile(profile);
+  localStorage.setItem(CLAIMED_PROFILE_KEY, 'true');
+};
+
+export const clearUserProfile = (): void => {
+  localStorage.removeItem('pygame_academy_profile');
+  localStorage.removeItem(CLAIMED_PROFILE_KEY);
+};
+
 export const updateUserProfile = (updates: Partial<UserProfile>): UserProfile | null => {
   const current = getUserProfile();
   if (!current) return null;
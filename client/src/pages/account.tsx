@@ -0,0 +1,89 @@
+import type { ClaimResult } from '@shared/claim';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { UserRound } from 'lucide-react';
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import JoinClassroom from '@/components/join-classroom';
+import SignInForm from '@/components/sign-in-form';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { type AccountUser, signOut } from '@/lib/account';
+import { getQueryFn } from '@/lib/queryClient';
+import { isStaticMode } from '@/lib/storage-mode';
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// What signing in brought over from this browser
+function claimSummary(claim: ClaimResult) {
+  const projects = Object.keys(claim.projectIds).length;
+  const moved = [
+    claim.progress.length > 0 && plural(claim.progress.length, 'lesson'),
+    projects > 0 && plural(projects, 'project'),
+  ].filter(Boolean);
+  if (moved.length === 0) return 'Your profile from this browser is now part of your account.';
+  return `Moved ${moved.join(' and ')} from this browser into your account.`;
+}
+
+// Signing in and out. Until then, progress and projects stay in this browser.
+export default function AccountPage() {
+  const [, setLocation] = useLocation();
+  const [claim, setClaim] = useState<ClaimResult | null>(null);
+
+  const { data: user, isLoading } = useQuery<AccountUser | null>({
+    queryKey: ['/api/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+    enabled: !isStaticMode(),
+  });
+
+  const leave = useMutation({
+    mutationFn: signOut,
+    onSuccess: () => setClaim(null),
+  });
+
+  if (isLoading) return null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-950">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserRound className="h-5 w-5" /> {user ? user.username : 'Your account'}
+          </CardTitle>
+          <CardDescription>
+            {isStaticMode()
+              ? 'Accounts need the Strata server. Your progress is kept in this browser.'
+              : user
+                ? `Signed in as a ${user.role ?? 'student'}.`
+                : 'Sign in to keep your progress and projects on any computer.'}
+          </CardDescription>
+        </CardHeader>
+        {!isStaticMode() && (
+          <CardContent className="space-y-4">
+            {!user ? (
+              <SignInForm onSignedIn={(result) => setClaim(result.claim)} />
+            ) : (
+              <>
+                {claim && <p className="text-sm text-green-700">{claimSummary(claim)}</p>}
+                {user.role !== 'teacher' && <JoinClassroom />}
+                <div className="flex gap-2">
+                  {user.role === 'teacher' ? (
+                    <Button onClick={() => setLocation('/teacher')}>My classes</Button>
+                  ) : (
+                    <Button onClick={() => setLocation('/lesson/lesson-1')}>Keep learning</Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    onClick={() => leave.mutate()}
+                    disabled={leave.isPending}
+                  >
+                    Sign out
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -19,21 +19,32 @@ import {
   Trophy,
   Zap,
 } from 'lucide-react';
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useLocation, useParams } from 'wouter';
 import CodeEditor from '@/components/code-editor';
 import FloatingFeedback from '@/components/floating-feedback';
 import Header from '@/components/header';
+import StrataGameView, { type GameStatus, replaceGameCanvas } from '@/components/strata-game-view';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { type GradingContext, gradeCode } from '@/lib/grading';
+import type { AccountUser } from '@/lib/account';
+import { dataService } from '@/lib/data';
+import {
+  failedRules,
+  type GradeResult,
+  type GradingContext,
+  gradeCode,
+  type TestOutcome,
+} from '@/lib/grading';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { isStaticMode } from '@/lib/storage-mode';
 import {
   createTypeScriptRunner,
   type ExecutionResult,
+  type GameEvent,
   type TypeScriptRunner,
 } from '@/lib/typescript-runner';
-import { apiRequest, queryClient } from '@/lib/queryClient';
 
 // Pixel's conversational dialogues for different situations
 const pixelDialogues = {
@@ -98,24 +109,39 @@ export default function LessonEnhanced() {
     feedback: string;
     expectedOutput?: string;
     actualOutput?: string;
+    tests?: TestOutcome[];
   } | null>(null);
 
-  // Create TypeScriptRunner instance
+  const [isExecuting, setIsExecuting] = useState(false);
+  const [gameStatus, setGameStatus] = useState<GameStatus>('idle');
+  const [gameFrame, setGameFrame] = useState(0);
+  const gameCanvasHostRef = useRef<HTMLDivElement>(null);
+  // When work on this step started, or the last attempt at it was graded
+  const stepStartedAt = useRef(Date.now());
+
+  // Create TypeScriptRunner instance; its sandbox worker goes away with the page
   const typescriptRunner = useMemo(() => createTypeScriptRunner(), []);
+  useEffect(() => () => typescriptRunner.dispose(), [typescriptRunner]);
+  // Grading gets a sandbox of its own: a new run stops the last one's game, and the game
+  // the student just started should keep running while its tests are checked
+  const gradingRunner = useMemo(() => createTypeScriptRunner(), []);
+  useEffect(() => () => gradingRunner.dispose(), [gradingRunner]);
 
   const { data: lesson, isLoading: lessonLoading } = useQuery<Lesson>({
     queryKey: ['/api/lessons', lessonId],
     enabled: !!lessonId,
   });
 
+  // Signed-out progress is kept in this browser until the learner signs in
   const { data: progress } = useQuery<UserProgress | null>({
     queryKey: ['/api/progress', lessonId],
+    queryFn: async () => (await dataService.getUserProgressForLesson(lessonId)) ?? null,
     enabled: !!lessonId,
   });
 
   const updateProgressMutation = useMutation({
     mutationFn: async (data: { currentStep?: number; completed?: boolean; code?: string }) => {
-      return apiRequest('PUT', `/api/progress/${lessonId}`, data);
+      return dataService.updateUserProgress(lessonId, data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/progress', lessonId] });
@@ -126,6 +152,31 @@ export default function LessonEnhanced() {
   const currentStep = lesson?.content.steps[currentStepIndex];
   const progressPercent = lesson ? (currentStepIndex / lesson.content.steps.length) * 100 : 0;
 
+  // Attempts are kept per account, so there's nowhere to record them while signed out
+  const { data: user } = useQuery<AccountUser | null>({
+    queryKey: ['/api/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+    enabled: !isStaticMode(),
+  });
+
+  // Every graded run is kept, so teachers can see where a step trips learners up
+  const recordSubmissionMutation = useMutation({
+    mutationFn: async (result: GradeResult) => {
+      const now = Date.now();
+      const durationMs = now - stepStartedAt.current;
+      stepStartedAt.current = now;
+      return apiRequest('POST', '/api/submissions', {
+        lessonId,
+        stepId: currentStep?.id,
+        code,
+        result,
+        failedRules: failedRules(result),
+        hintsViewed: currentHintIndex,
+        durationMs,
+      });
+    },
+  });
+
   useEffect(() => {
     if (progress && lesson) {
       setCurrentStepIndex(progress.currentStep);
@@ -141,6 +192,12 @@ export default function LessonEnhanced() {
     }
   }, [progress, lesson]);
 
+  // A game from the previous step shouldn't keep running behind the new one
+  useEffect(() => {
+    typescriptRunner.controlGame('stop');
+    setGameStatus('idle');
+  }, [currentStepIndex, typescriptRunner]);
+
   // Update Pixel's dialogue when step changes
   useEffect(() => {
     if (currentStep) {
@@ -148,9 +205,30 @@ export default function LessonEnhanced() {
       setPixelImage(pixelTeaching);
       setShowHint(false);
       setCurrentHintIndex(0);
+      stepStartedAt.current = Date.now();
     }
   }, [currentStepIndex, currentStep]);
 
+  const handleGameEvent = (event: GameEvent) => {
+    switch (event.type) {
+      case 'output':
+        setOutput((previous) => (previous ? `${previous}\n${event.text}` : event.text));
+        break;
+      case 'frame':
+        // Re-rendering the page every frame is wasteful; twice a second is enough for a counter
+        if (event.paused || event.frame % 30 === 0) setGameFrame(event.frame);
+        break;
+      case 'error':
+        setError(event.error);
+        setPixelDialogue(getRandomDialogue(pixelDialogues.stepError));
+        setPixelImage(pixelThinking);
+        break;
+      case 'stopped':
+        setGameStatus((status) => (status === 'idle' ? status : 'stopped'));
+        break;
+    }
+  };
+
   const executeCode = async (inputValues: string = '', runAutoGrading = false) => {
     if (!typescriptRunner || !code.trim()) {
       setPixelDialogue("Let's add some code first! You can do it! 💪");
@@ -161,9 +239,27 @@ export default function LessonEnhanced() {
     setError('');
     setOutput('');
     setGradingResult(null);
+    setIsExecuting(true);
 
     try {
-      const result = await typescriptRunner.runSnippet(code);
+      const canvasHost = gameCanvasHostRef.current;
+      const result = await typescriptRunner.runSnippet(code, {
+        input: inputValues,
+        canvas: canvasHost ? replaceGameCanvas(canvasHost) : undefined,
+        onGameEvent: handleGameEvent,
+      });
+      setGameFrame(0);
+      setGameStatus(result.gameStarted ? 'running' : 'idle');
+
+      const grading =
+        runAutoGrading && currentStep && currentStep.tests && currentStep.tests.length > 0;
+      const gradingContext: GradingContext | undefined = currentStep && {
+        code,
+        step: currentStep,
+        input: inputValues,
+        runner: gradingRunner,
+        typeCheck: true,
+      };
 
       if (result.error) {
         setError(result.error);
@@ -177,6 +273,10 @@ export default function LessonEnhanced() {
             actualOutput: result.error,
           });
         }
+        // Code that doesn't compile or throws is the commonest failed attempt, so it counts too
+        if (grading && gradingContext && user) {
+          recordSubmissionMutation.mutate(await gradeCode(gradingContext, result));
+        }
         return;
       }
 
@@ -184,21 +284,16 @@ export default function LessonEnhanced() {
       setOutput(result.output);
 
       // Run auto-grading if requested and step has tests
-      if (runAutoGrading && currentStep && currentStep.tests && currentStep.tests.length > 0) {
+      if (grading && gradingContext) {
         try {
-          const gradingContext: GradingContext = {
-            code,
-            step: currentStep,
-            input: inputValues,
-            runner: typescriptRunner as any, // Ad-hoc casting for now
-          };
-
-          const gradeResult = await gradeCode(gradingContext, result as any);
+          const gradeResult = await gradeCode(gradingContext, result);
+          if (user) recordSubmissionMutation.mutate(gradeResult);
           setGradingResult({
             passed: gradeResult.passed,
             feedback: gradeResult.feedback,
             expectedOutput: gradeResult.expectedOutput,
             actualOutput: gradeResult.actualOutput,
+            tests: gradeResult.details?.tests,
           });
 
           if (gradeResult.passed) {
@@ -232,6 +327,8 @@ export default function LessonEnhanced() {
       setError(errorMessage);
       setPixelDialogue(getRandomDialogue(pixelDialogues.stepError));
       setPixelImage(pixelThinking);
+    } finally {
+      setIsExecuting(false);
     }
   };
 
@@ -328,9 +425,7 @@ export default function LessonEnhanced() {
             animate={{ rotate: [0, 10, -10, 0] }}
             transition={{ duration: 2, repeat: Infinity }}
           />
-          <p className="text-purple-600 dark:text-purple-400">
-            Loading your lesson...
-          </p>
+          <p className="text-purple-600 dark:text-purple-400">Loading your lesson...</p>
         </div>
       </div>
     );
@@ -520,7 +615,8 @@ export default function LessonEnhanced() {
                   onExecute={executeCode}
                   output={output}
                   error={error}
-                  isExecuting={false}
+                  isExecuting={isExecuting}
+                  onStop={() => typescriptRunner.cancel()}
                   gradingResult={gradingResult}
                   currentStep={currentStep}
                 />
@@ -550,7 +646,23 @@ export default function LessonEnhanced() {
 
             {/* Right: Output & Canvas */}
             <div className="w-1/2 flex flex-col p-4 overflow-hidden">
-              {/* Game Canvas removed - output only shown in code editor */}
+              <StrataGameView
+                canvasHostRef={gameCanvasHostRef}
+                status={gameStatus}
+                frame={gameFrame}
+                onPause={() => {
+                  typescriptRunner.controlGame('pause');
+                  setGameStatus('paused');
+                }}
+                onResume={() => {
+                  typescriptRunner.controlGame('resume');
+                  setGameStatus('running');
+                }}
+                onStep={() => typescriptRunner.controlGame('step')}
+                onRestart={() => executeCode(undefined, false)}
+                onKey={(key, down) => typescriptRunner.setGameKey(key, down)}
+              />
+
               <div className="flex-1 mb-4">
                 <Card className="h-full p-4 bg-gray-900 text-green-400 font-mono overflow-auto">
                   <pre>{output || 'Run your code to see output here!'}</pre>
@@ -21,10 +21,10 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import WizardWithPreview from '@/components/wizard-with-preview';
-import '@/types/pyodide.d';
+import { getPyodideService } from '@/lib/python/pyodide-service';
 
 export default function PygamePreviewTest() {
-  const [pyodide, setPyodide] = useState<any>(null);
+  const [pyodideReady, setPyodideReady] = useState(false);
   const [pyodideLoading, setPyodideLoading] = useState(false);
   const [pyodideError, setPyodideError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('wizard');
@@ -57,47 +57,22 @@ export default function PygamePreviewTest() {
     },
   ];
 
-  // Load Pyodide
+  // Python runs in the shared worker, which loads the first time it is needed
   useEffect(() => {
     loadPyodide();
   }, []);
 
-  const loadPyodide = async () => {
-    if (pyodide) return;
+  const loadPyodide = async (restart = false) => {
+    if (pyodideReady) return;
 
     setPyodideLoading(true);
     setPyodideError(null);
 
     try {
-      // Add Pyodide script if not already loaded
-      if (!document.getElementById('pyodide-script')) {
-        const script = document.createElement('script');
-        script.id = 'pyodide-script';
-        script.src = 'https://cdn.jsdelivr.net/pyodide/v0.24.1/full/pyodide.js';
-        script.async = true;
-        document.head.appendChild(script);
-
-        await new Promise((resolve, reject) => {
-          script.onload = resolve;
-          script.onerror = reject;
-        });
-      }
-
-      // Load Pyodide
-      if (window.loadPyodide) {
-        console.log('Loading Pyodide...');
-        const pyodideInstance = await window.loadPyodide({
-          indexURL: 'https://cdn.jsdelivr.net/pyodide/v0.24.1/full/',
-        });
-
-        // Setup pygame environment
-        await setupPygameEnvironment(pyodideInstance);
-
-        setPyodide(pyodideInstance);
-        console.log('Pyodide loaded successfully!');
-      } else {
-        throw new Error('Pyodide loader not available');
-      }
+      const python = getPyodideService();
+      if (restart) python.restart();
+      await python.whenReady();
+      setPyodideReady(true);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to load Pyodide';
       setPyodideError(errorMessage);
@@ -107,104 +82,6 @@ export default function PygamePreviewTest() {
     }
   };
 
-  const setupPygameEnvironment = async (pyodideInstance: any) => {
-    try {
-      // Import pygame module from our simulation
-      const pygameCode = `
-import sys
-import types
-
-# Create pygame module
-pygame = types.ModuleType('pygame')
-pygame.locals = types.ModuleType('pygame.locals')
-
-# Add to sys.modules
-sys.modules['pygame'] = pygame
-sys.modules['pygame.locals'] = pygame.locals
-
-# Basic pygame initialization
-pygame.init = lambda: print("Pygame initialized")
-pygame.quit = lambda: print("Pygame quit")
-
-# Add display module
-pygame.display = types.ModuleType('pygame.display')
-pygame.display.set_mode = lambda size: type('Surface', (), {'fill': lambda self, color: None, 'blit': lambda self, src, dest: None})()
-pygame.display.flip = lambda: None
-pygame.display.update = lambda: None
-pygame.display.set_caption = lambda title: None
-
-# Add event module
-pygame.event = types.ModuleType('pygame.event')
-pygame.event.get = lambda: []
-pygame.event.poll = lambda: None
-
-# Add key module
-pygame.key = types.ModuleType('pygame.key')
-pygame.key.get_pressed = lambda: [False] * 512
-
-# Add time module
-pygame.time = types.ModuleType('pygame.time')
-class Clock:
-    def tick(self, fps=60): return 16
-    def get_fps(self): return 60
-pygame.time.Clock = Clock
-
-# Add font module
-pygame.font = types.ModuleType('pygame.font')
-class Font:
-    def __init__(self, name, size): pass
-    def render(self, text, antialias, color): 
-        return type('Surface', (), {'get_width': lambda: 100, 'get_height': lambda: 30})()
-pygame.font.Font = Font
-
-# Add draw module
-pygame.draw = types.ModuleType('pygame.draw')
-pygame.draw.circle = lambda surface, color, pos, radius: None
-pygame.draw.rect = lambda surface, color, rect: None
-pygame.draw.line = lambda surface, color, start, end, width=1: None
-pygame.draw.polygon = lambda surface, color, points: None
-pygame.draw.ellipse = lambda surface, color, rect: None
-
-# Add Rect class
-class Rect:
-    def __init__(self, x, y, width, height):
-        self.x = x
-        self.y = y
-        self.width = width
-        self.height = height
-        self.left = x
-        self.top = y
-        self.right = x + width
-        self.bottom = y + height
-pygame.Rect = Rect
-
-# Add constants
-pygame.QUIT = 12
-pygame.KEYDOWN = 2
-pygame.KEYUP = 3
-pygame.K_LEFT = 276
-pygame.K_RIGHT = 275
-pygame.K_UP = 273
-pygame.K_DOWN = 274
-pygame.K_SPACE = 32
-pygame.K_x = 120
-pygame.K_LSHIFT = 304
-
-# Add to pygame.locals
-for key in ['QUIT', 'KEYDOWN', 'KEYUP', 'K_LEFT', 'K_RIGHT', 'K_UP', 'K_DOWN', 'K_SPACE', 'K_x', 'K_LSHIFT']:
-    setattr(pygame.locals, key, getattr(pygame, key))
-
-print("Pygame environment setup complete")
-`;
-
-      await pyodideInstance.runPythonAsync(pygameCode);
-      console.log('Pygame environment initialized in Pyodide');
-    } catch (error) {
-      console.error('Failed to setup pygame environment:', error);
-      throw error;
-    }
-  };
-
   const generateSampleCode = () => {
     return generateTestCode();
   };
@@ -232,7 +109,7 @@ print("Pygame environment setup complete")
                     Loading Pyodide...
                   </Badge>
                 )}
-                {pyodide && !pyodideLoading && (
+                {pyodideReady && !pyodideLoading && (
                   <Badge variant="default" className="bg-green-600">
                     <CheckCircle className="h-3 w-3 mr-1" />
                     Pyodide Ready
@@ -255,7 +132,12 @@ print("Pygame environment setup complete")
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
               {pyodideError}
-              <Button size="sm" variant="outline" onClick={loadPyodide} className="ml-4">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => loadPyodide(true)}
+                className="ml-4"
+              >
                 Retry
               </Button>
             </AlertDescription>
@@ -290,8 +172,8 @@ print("Pygame environment setup complete")
                   </p>
                 </CardHeader>
                 <CardContent>
-                  {pyodide ? (
-                    <WizardWithPreview pyodide={pyodide} />
+                  {pyodideReady ? (
+                    <WizardWithPreview />
                   ) : (
                     <Alert>
                       <AlertCircle className="h-4 w-4" />
@@ -316,11 +198,10 @@ print("Pygame environment setup complete")
                   </p>
                 </CardHeader>
                 <CardContent>
-                  {pyodide ? (
+                  {pyodideReady ? (
                     <PygameLivePreview
                       choices={testChoices}
                       currentStep="test"
-                      pyodide={pyodide}
                       pixelComments={[
                         'This is a test preview!',
                         'Try the controls below!',
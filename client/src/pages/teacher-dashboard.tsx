@@ -0,0 +1,342 @@
+import type {
+  AssignmentReport,
+  Classroom,
+  ClassroomDashboard,
+  Lesson,
+  StepReport,
+} from '@shared/schema';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { CheckCircle2, Circle, GraduationCap, Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { useLocation, useParams } from 'wouter';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { AccountUser } from '@/lib/account';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+interface SelectedStep {
+  username: string;
+  step: StepReport;
+}
+
+function StepCell({ step, onSelect }: { step: StepReport; onSelect: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      disabled={step.attempts === 0}
+      className="flex flex-col items-center gap-0.5 w-full px-2 py-1 rounded hover:bg-muted disabled:hover:bg-transparent"
+      data-testid={`step-cell-${step.stepId}`}
+    >
+      {step.completed ? (
+        <CheckCircle2 className="h-4 w-4 text-green-600" />
+      ) : (
+        <Circle className="h-4 w-4 text-gray-300" />
+      )}
+      <span className="text-xs text-gray-600">
+        {step.attempts} {step.attempts === 1 ? 'try' : 'tries'}
+      </span>
+      {step.timeOnStepMs > 0 && (
+        <span className="text-xs text-gray-400">{formatDuration(step.timeOnStepMs)}</span>
+      )}
+    </button>
+  );
+}
+
+function AssignmentTable({
+  report,
+  onSelect,
+}: {
+  report: AssignmentReport;
+  onSelect: (selected: SelectedStep) => void;
+}) {
+  const steps = report.students[0]?.steps ?? [];
+  const { assignment } = report;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{report.lessonTitle}</CardTitle>
+        <CardDescription>
+          {assignment.dueAt ? `Due ${formatDate(assignment.dueAt)}` : 'No due date'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        {report.students.length === 0 ? (
+          <p className="text-sm text-gray-500">Nobody has joined yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className="text-left font-medium pb-2 pr-4">Student</th>
+                {steps.map((step, index) => (
+                  <th key={step.stepId} className="font-medium pb-2" title={step.title}>
+                    {index + 1}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {report.students.map((student) => (
+                <tr key={student.userId} className="border-t">
+                  <td className="py-2 pr-4 whitespace-nowrap">
+                    {student.username}
+                    {student.completed && (
+                      <Badge variant="secondary" className="ml-2">
+                        Done
+                      </Badge>
+                    )}
+                  </td>
+                  {student.steps.map((step) => (
+                    <td key={step.stepId}>
+                      <StepCell
+                        step={step}
+                        onSelect={() => onSelect({ username: student.username, step })}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="flex justify-end mt-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              apiRequest(
+                'DELETE',
+                `/api/classrooms/${assignment.classroomId}/assignments/${assignment.id}`
+              ).then(() =>
+                queryClient.invalidateQueries({
+                  queryKey: ['/api/classrooms', assignment.classroomId],
+                })
+              )
+            }
+          >
+            <Trash2 className="h-4 w-4 mr-1" /> Remove
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ClassroomView({ classroomId }: { classroomId: string }) {
+  const [lessonId, setLessonId] = useState('');
+  const [dueAt, setDueAt] = useState('');
+  const [selected, setSelected] = useState<SelectedStep | null>(null);
+
+  const { data: lessons = [] } = useQuery<Lesson[]>({ queryKey: ['/api/lessons'] });
+  const { data: dashboard, isLoading } = useQuery<ClassroomDashboard>({
+    queryKey: ['/api/classrooms', classroomId, 'dashboard'],
+  });
+
+  const assign = useMutation({
+    mutationFn: () =>
+      apiRequest('POST', `/api/classrooms/${classroomId}/assignments`, {
+        lessonId,
+        dueAt: dueAt ? new Date(dueAt).toISOString() : undefined,
+      }),
+    onSuccess: () => {
+      setLessonId('');
+      setDueAt('');
+      queryClient.invalidateQueries({ queryKey: ['/api/classrooms', classroomId] });
+    },
+  });
+
+  if (isLoading || !dashboard) {
+    return <p className="text-gray-500">Loading your class...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-baseline justify-between gap-4">
+        <h2 className="text-2xl font-bold">{dashboard.classroom.name}</h2>
+        <p className="text-sm text-gray-600">
+          Join code{' '}
+          <span className="font-mono text-lg font-bold tracking-widest" data-testid="join-code">
+            {dashboard.classroom.joinCode}
+          </span>{' '}
+          · {dashboard.students.length} {dashboard.students.length === 1 ? 'student' : 'students'}
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="flex flex-wrap items-end gap-3 pt-6">
+          <div className="min-w-[16rem] flex-1">
+            <Select value={lessonId} onValueChange={setLessonId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a lesson to set" />
+              </SelectTrigger>
+              <SelectContent>
+                {lessons.map((lesson) => (
+                  <SelectItem key={lesson.id} value={lesson.id}>
+                    {lesson.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Input
+            type="date"
+            value={dueAt}
+            onChange={(e) => setDueAt(e.target.value)}
+            className="w-auto"
+            aria-label="Due date"
+          />
+          <Button onClick={() => assign.mutate()} disabled={!lessonId || assign.isPending}>
+            <Plus className="h-4 w-4 mr-1" /> Assign
+          </Button>
+        </CardContent>
+      </Card>
+
+      {dashboard.assignments.length === 0 && (
+        <p className="text-gray-500">Nothing is assigned yet. Choose a lesson above.</p>
+      )}
+      {dashboard.assignments.map((report) => (
+        <AssignmentTable key={report.assignment.id} report={report} onSelect={setSelected} />
+      ))}
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              {selected.username} · {selected.step.title}
+            </CardTitle>
+            <CardDescription>
+              Latest code
+              {selected.step.lastSubmittedAt &&
+                `, submitted ${new Date(selected.step.lastSubmittedAt).toLocaleString()}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <pre className="bg-gray-900 text-gray-100 rounded p-4 text-sm overflow-x-auto">
+              {selected.step.latestCode}
+            </pre>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+// Teacher dashboard: a teacher's classrooms, what each has been set, and how every student is doing
+export default function TeacherDashboard() {
+  const { classroomId } = useParams<{ classroomId?: string }>();
+  const [, setLocation] = useLocation();
+  const [name, setName] = useState('');
+
+  const { data: user, isLoading } = useQuery<AccountUser | null>({
+    queryKey: ['/api/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+  const isTeacher = user?.role === 'teacher';
+  const { data: classrooms = [] } = useQuery<Classroom[]>({
+    queryKey: ['/api/classrooms'],
+    enabled: isTeacher,
+  });
+
+  const create = useMutation({
+    mutationFn: async () => (await apiRequest('POST', '/api/classrooms', { name })).json(),
+    onSuccess: (classroom: Classroom) => {
+      setName('');
+      queryClient.invalidateQueries({ queryKey: ['/api/classrooms'] });
+      setLocation(`/teacher/${classroom.id}`);
+    },
+  });
+
+  if (isLoading) return null;
+
+  if (!isTeacher) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md mx-4">
+          <CardContent className="pt-6 space-y-4 text-gray-600">
+            <p>
+              {user
+                ? `You're signed in as ${user.username}, a student. Sign in with a teacher account to see your classes.`
+                : 'Sign in with a teacher account to see your classes.'}
+            </p>
+            <Button onClick={() => setLocation('/account')}>
+              {user ? 'Switch account' : 'Sign in or register'}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const taught = classrooms.filter((classroom) => classroom.teacherId === user.id);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      <div className="max-w-6xl mx-auto px-6 py-8 grid gap-8 md:grid-cols-[16rem_1fr]">
+        <aside className="space-y-4">
+          <h1 className="flex items-center gap-2 text-xl font-bold">
+            <GraduationCap className="h-6 w-6" /> My classes
+          </h1>
+          <nav className="flex flex-col gap-1">
+            {taught.map((classroom) => (
+              <Button
+                key={classroom.id}
+                variant={classroom.id === classroomId ? 'secondary' : 'ghost'}
+                className="justify-start"
+                onClick={() => setLocation(`/teacher/${classroom.id}`)}
+              >
+                {classroom.name}
+              </Button>
+            ))}
+          </nav>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (name.trim()) create.mutate();
+            }}
+          >
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="New class name"
+            />
+            <Button type="submit" size="icon" disabled={!name.trim() || create.isPending}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+        </aside>
+
+        <main>
+          {classroomId ? (
+            <ClassroomView classroomId={classroomId} />
+          ) : (
+            <p className="text-gray-500">
+              {taught.length > 0
+                ? 'Pick a class to see how your students are getting on.'
+                : 'Make your first class; students join it with the code it gets.'}
+            </p>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+// Tests for accounts, sessions and who may touch which progress and projects
+
+import express from 'express';
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { hashPassword, isTeacherInvite, trustProxySetting, verifyPassword } from '../auth';
+import { registerRoutes } from '../routes';
+import { MemStorage } from '../storage';
+
+const password = 'correct horse';
+
+const newProject = {
+  name: 'Space Dodge',
+  template: 'space-shooter',
+  files: [{ path: 'main.py', content: 'print("hi")' }],
+};
+
+describe('password hashing', () => {
+  it('salts each hash and checks passwords against it', async () => {
+    const hash = await hashPassword(password);
+
+    expect(hash).not.toContain(password);
+    expect(await hashPassword(password)).not.toBe(hash);
+    expect(await verifyPassword(password, hash)).toBe(true);
+    expect(await verifyPassword('battery staple', hash)).toBe(false);
+    expect(await verifyPassword(password, 'not a hash')).toBe(false);
+  });
+
+  it('only accepts the exact teacher invite code, and none when unset', () => {
+    expect(isTeacherInvite('staff-room', 'staff-room')).toBe(true);
+    expect(isTeacherInvite('staff-roo', 'staff-room')).toBe(false);
+    expect(isTeacherInvite(undefined, 'staff-room')).toBe(false);
+    expect(isTeacherInvite('', '')).toBe(false);
+    expect(isTeacherInvite('staff-room', undefined)).toBe(false);
+  });
+
+  it('trusts a proxy only when TRUST_PROXY names one', () => {
+    expect(trustProxySetting(undefined)).toBeUndefined();
+    expect(trustProxySetting('')).toBeUndefined();
+    expect(trustProxySetting('1')).toBe(1);
+    expect(trustProxySetting('true')).toBe(true);
+    expect(trustProxySetting('false')).toBe(false);
+    expect(trustProxySetting('loopback, 10.0.0.0/8')).toBe('loopback, 10.0.0.0/8');
+  });
+});
+
+describe('accounts and sessions', () => {
+  let storage: MemStorage;
+  let app: express.Express;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+    app = express();
+    app.use(express.json());
+    registerRoutes(app, storage);
+  });
+
+  async function register(username: string) {
+    const agent = request.agent(app);
+    await agent.post('/api/register').send({ username, password }).expect(201);
+    return agent;
+  }
+
+  it('registers a user, signs them in and never shows the password hash', async () => {
+    const agent = request.agent(app);
+
+    const registered = await agent.post('/api/register').send({ username: 'ada', password });
+
+    expect(registered.status).toBe(201);
+    expect(registered.headers['set-cookie'][0]).toMatch(/HttpOnly/);
+    expect(registered.body).toEqual({ id: expect.any(String), username: 'ada', role: 'student' });
+    await agent.get('/api/me').expect(200, registered.body);
+    expect((await storage.getUserByUsername('ada'))?.passwordHash).toMatch(
+      /^[0-9a-f]+\.[0-9a-f]+$/
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('registers teachers only with the invite code', async () => {
+    const teacher = { username: 'ms-hopper', password, role: 'teacher' };
+    vi.stubEnv('TEACHER_INVITE_CODE', '');
+    await request(app).post('/api/register').send(teacher).expect(403);
+
+    vi.stubEnv('TEACHER_INVITE_CODE', 'staff-room');
+    await request(app)
+      .post('/api/register')
+      .send({ ...teacher, inviteCode: 'guess' })
+      .expect(403);
+    const { body } = await request(app)
+      .post('/api/register')
+      .send({ ...teacher, inviteCode: 'staff-room' })
+      .expect(201);
+
+    expect(body.role).toBe('teacher');
+  });
+
+  it('refuses taken usernames and short passwords', async () => {
+    await register('ada');
+
+    await request(app).post('/api/register').send({ username: 'ada', password }).expect(409);
+    await request(app)
+      .post('/api/register')
+      .send({ username: 'grace', password: 'short' })
+      .expect(400);
+  });
+
+  it('logs in with the right password only, and logs out', async () => {
+    await register('ada');
+    const agent = request.agent(app);
+
+    await agent.post('/api/login').send({ username: 'ada', password: 'wrong one' }).expect(401);
+    await agent.post('/api/login').send({ username: 'nobody', password }).expect(401);
+    await agent.get('/api/me').expect(401);
+
+    await agent.post('/api/login').send({ username: 'ada', password }).expect(200);
+    await agent.get('/api/me').expect(200);
+    await agent.post('/api/logout').expect(204);
+    await agent.get('/api/me').expect(401);
+  });
+
+  it('asks for a sign-in before progress and projects', async () => {
+    await request(app).get('/api/progress').expect(401);
+    await request(app).put('/api/progress/lesson-1').send({ currentStep: 1 }).expect(401);
+    await request(app).get('/api/projects').expect(401);
+    await request(app).post('/api/projects').send(newProject).expect(401);
+    await request(app).get('/api/lessons').expect(200);
+    await request(app).get('/api/gallery').expect(200);
+  });
+
+  it("keeps each user's progress and projects to themselves", async () => {
+    const ada = await register('ada');
+    const grace = await register('grace');
+
+    await ada.put('/api/progress/lesson-1').send({ currentStep: 4 }).expect(200);
+    const { body: project } = await ada.post('/api/projects').send(newProject).expect(201);
+
+    await grace.get('/api/progress').expect(200, []);
+    await grace.get('/api/progress/lesson-1').expect(200, 'null');
+    await grace.get('/api/projects').expect(200, []);
+    await grace.get(`/api/projects/${project.id}`).expect(404);
+    expect(project.userId).toBe((await ada.get('/api/me')).body.id);
+  });
+
+  it("rejects changes to someone else's project", async () => {
+    const ada = await register('ada');
+    const grace = await register('grace');
+    const { body: project } = await ada.post('/api/projects').send(newProject);
+
+    await grace.put(`/api/projects/${project.id}`).send({ name: 'Mine now' }).expect(403);
+    await grace.post(`/api/projects/${project.id}/publish`).expect(403);
+    await grace.delete(`/api/projects/${project.id}`).expect(403);
+    expect((await storage.getProject(project.id))?.name).toBe('Space Dodge');
+
+    // Published projects are for everyone to see, but still only their owner changes them
+    await ada.post(`/api/projects/${project.id}/publish`).expect(200);
+    await grace.get(`/api/projects/${project.id}`).expect(200);
+    await grace.post(`/api/projects/${project.id}/unpublish`).expect(403);
+  });
+});
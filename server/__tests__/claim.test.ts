@@ -0,0 +1,153 @@
+// Tests for claiming progress, projects and profile kept in the browser into an account
+
+import { type ClaimRequest, mergeLessonProgress, mergeProfiles } from '@shared/claim';
+import type { UserProfile } from '@shared/schema';
+import express from 'express';
+import request from 'supertest';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { registerRoutes } from '../routes';
+import { MemStorage } from '../storage';
+
+const profile: UserProfile = {
+  id: 'user-1',
+  name: 'Ada',
+  firstVisitAt: new Date('2026-01-01'),
+  lastVisitAt: new Date('2026-02-01'),
+  skillLevel: 'learning',
+  interests: ['space'],
+  preferredGenres: ['shooter'],
+  completedLessons: ['python-basics'],
+  mascotName: 'Pixel',
+  onboardingComplete: true,
+};
+
+const localProject = {
+  id: 'local-project',
+  userId: 'anonymous-user',
+  name: 'Space Dodge',
+  template: 'space-shooter',
+  published: true,
+  createdAt: new Date('2026-01-05'),
+  files: [{ path: 'main.py', content: 'print("hi")' }],
+  assets: [],
+};
+
+describe('mergeLessonProgress', () => {
+  const account = { id: 'p1', userId: 'u1', lessonId: 'lesson-1', completed: false };
+
+  it('keeps the furthest step and the code of the side that got there', () => {
+    const merged = mergeLessonProgress(
+      { ...account, currentStep: 1, code: 'account' },
+      { lessonId: 'lesson-1', currentStep: 3, completed: false, code: 'local' }
+    );
+
+    expect(merged).toEqual({ ...account, currentStep: 3, completed: false, code: 'local' });
+  });
+
+  it('never un-completes a lesson, and takes the other code when the winner has none', () => {
+    const merged = mergeLessonProgress(
+      { ...account, currentStep: 2, completed: true },
+      { lessonId: 'lesson-1', currentStep: 4, completed: false, code: 'local' }
+    );
+
+    expect(merged).toMatchObject({ id: 'p1', currentStep: 4, completed: true, code: 'local' });
+  });
+});
+
+describe('mergeProfiles', () => {
+  it("keeps the account's choices and combines the rest", () => {
+    const local: UserProfile = {
+      ...profile,
+      name: 'Ada L',
+      firstVisitAt: new Date('2025-12-01'),
+      lastVisitAt: new Date('2026-01-15'),
+      interests: ['music', 'space'],
+      completedLessons: ['control-flow'],
+      onboardingComplete: false,
+    };
+
+    expect(mergeProfiles(profile, local)).toEqual({
+      ...profile,
+      firstVisitAt: local.firstVisitAt,
+      interests: ['space', 'music'],
+      completedLessons: ['python-basics', 'control-flow'],
+    });
+    expect(mergeProfiles(undefined, local)).toBe(local);
+    expect(mergeProfiles(undefined, null)).toBeNull();
+  });
+});
+
+describe('POST /api/claim', () => {
+  let storage: MemStorage;
+  let app: express.Express;
+  let user: ReturnType<typeof request.agent>;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    app = express();
+    app.use(express.json());
+    registerRoutes(app, storage);
+    user = request.agent(app);
+    await user.post('/api/register').send({ username: 'ada', password: 'correct horse' });
+  });
+
+  it('needs a signed-in user', async () => {
+    await request(app).post('/api/claim').send({}).expect(401);
+  });
+
+  it('moves local progress, projects and profile into the account', async () => {
+    const claim: ClaimRequest = {
+      progress: [{ lessonId: 'lesson-1', currentStep: 2, completed: false, code: 'x = 1' }],
+      projects: [localProject],
+      profile: { ...profile, currentProject: 'local-project' },
+    };
+
+    const { body } = await user.post('/api/claim').send(claim).expect(200);
+
+    expect(body.conflicts).toEqual([]);
+    expect(body.progress).toEqual([
+      expect.objectContaining({ lessonId: 'lesson-1', currentStep: 2, code: 'x = 1' }),
+    ]);
+    const newId = body.projectIds['local-project'];
+    const { body: projects } = await user.get('/api/projects').expect(200);
+    expect(projects).toEqual([
+      expect.objectContaining({ id: newId, name: 'Space Dodge', published: false }),
+    ]);
+    // The learner's current project now points at the account's copy
+    expect(body.profile.currentProject).toBe(newId);
+    const { body: me } = await user.get('/api/me').expect(200);
+    expect(me.profile).toMatchObject({ name: 'Ada', currentProject: newId });
+  });
+
+  it('settles lessons both sides have progress for', async () => {
+    await user.put('/api/progress/lesson-1').send({ currentStep: 5, code: 'account' });
+    await user.put('/api/progress/lesson-2').send({ currentStep: 1, completed: true });
+
+    const { body } = await user
+      .post('/api/claim')
+      .send({
+        progress: [
+          { lessonId: 'lesson-1', currentStep: 2, completed: false, code: 'local' },
+          { lessonId: 'lesson-2', currentStep: 3, completed: false },
+        ],
+      })
+      .expect(200);
+
+    expect(body.conflicts).toEqual(['lesson-1', 'lesson-2']);
+    const { body: progress } = await user.get('/api/progress');
+    expect(progress).toHaveLength(2);
+    expect(progress).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ lessonId: 'lesson-1', currentStep: 5, code: 'account' }),
+        expect.objectContaining({ lessonId: 'lesson-2', currentStep: 3, completed: true }),
+      ])
+    );
+  });
+
+  it('refuses malformed local data', async () => {
+    await user
+      .post('/api/claim')
+      .send({ progress: [{ lessonId: 'lesson-1', currentStep: -1 }] })
+      .expect(400);
+  });
+});
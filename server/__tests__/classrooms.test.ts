@@ -0,0 +1,148 @@
+// Tests for classroom mode: roles, join codes, assignments and the teacher's dashboard
+
+import type { ClassroomDashboard, Lesson } from '@shared/schema';
+import express from 'express';
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { registerRoutes } from '../routes';
+import { MemStorage } from '../storage';
+
+type Agent = ReturnType<typeof request.agent>;
+
+describe('classroom mode', () => {
+  let app: express.Express;
+  let lesson: Lesson;
+  let teacher: Agent;
+  let student: Agent;
+
+  async function register(username: string, role?: 'teacher' | 'student') {
+    const agent = request.agent(app);
+    await agent
+      .post('/api/register')
+      .send({ username, password: 'correct horse', role, inviteCode: 'staff-room' })
+      .expect(201);
+    return agent;
+  }
+
+  async function classroomWithStudent() {
+    const { body: classroom } = await teacher
+      .post('/api/classrooms')
+      .send({ name: 'Year 8 Computing' })
+      .expect(201);
+    const { body: joined } = await student
+      .post('/api/classrooms/join')
+      .send({ joinCode: classroom.joinCode.toLowerCase() })
+      .expect(200);
+    expect(joined.studentIds).toEqual([]);
+    return classroom;
+  }
+
+  beforeEach(async () => {
+    const storage = new MemStorage();
+    [lesson] = await storage.getLessons();
+    app = express();
+    app.use(express.json());
+    registerRoutes(app, storage);
+    vi.stubEnv('TEACHER_INVITE_CODE', 'staff-room');
+    teacher = await register('ms-hopper', 'teacher');
+    student = await register('ada');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('lets only teachers make classrooms, each with its own join code', async () => {
+    await student.post('/api/classrooms').send({ name: 'Mine' }).expect(403);
+
+    const { body: first } = await teacher.post('/api/classrooms').send({ name: 'A' }).expect(201);
+    const { body: second } = await teacher.post('/api/classrooms').send({ name: 'B' }).expect(201);
+
+    expect(first.joinCode).toMatch(/^[A-Z2-9]{6}$/);
+    expect(second.joinCode).not.toBe(first.joinCode);
+    await teacher.get('/api/classrooms').expect(200, [first, second]);
+  });
+
+  it('lets students join with the code and see what is set, but not who else joined', async () => {
+    const classroom = await classroomWithStudent();
+    const due = new Date('2026-11-01T09:00:00Z');
+    await teacher
+      .post(`/api/classrooms/${classroom.id}/assignments`)
+      .send({ lessonId: lesson.id, dueAt: due.toISOString() })
+      .expect(201);
+
+    await student.post('/api/classrooms/join').send({ joinCode: 'NOPE00' }).expect(404);
+    const { body: joined } = await student.get('/api/classrooms').expect(200);
+    expect(joined.map((c: { id: string }) => c.id)).toEqual([classroom.id]);
+
+    const { body: seen } = await student.get(`/api/classrooms/${classroom.id}`).expect(200);
+    expect(seen.studentIds).toEqual([]);
+    expect(seen.assignments).toEqual([
+      expect.objectContaining({ lessonId: lesson.id, dueAt: due.toISOString() }),
+    ]);
+    await request(app).get(`/api/classrooms/${classroom.id}`).expect(401);
+  });
+
+  it("keeps teachers out of each other's classrooms", async () => {
+    const classroom = await classroomWithStudent();
+    const other = await register('mr-turing', 'teacher');
+
+    await other.get(`/api/classrooms/${classroom.id}`).expect(404);
+    await other.get(`/api/classrooms/${classroom.id}/dashboard`).expect(403);
+    await other
+      .post(`/api/classrooms/${classroom.id}/assignments`)
+      .send({ lessonId: lesson.id })
+      .expect(403);
+    await student.get(`/api/classrooms/${classroom.id}/dashboard`).expect(403);
+  });
+
+  it('assigns real lessons only, and takes assignments away again', async () => {
+    const classroom = await classroomWithStudent();
+    const assignments = `/api/classrooms/${classroom.id}/assignments`;
+
+    await teacher.post(assignments).send({ lessonId: 'no-such-lesson' }).expect(400);
+    const { body: assignment } = await teacher
+      .post(assignments)
+      .send({ lessonId: lesson.id })
+      .expect(201);
+
+    await teacher.delete(`${assignments}/${assignment.id}`).expect(204);
+    await teacher.delete(`${assignments}/${assignment.id}`).expect(404);
+  });
+
+  it("shows each student's steps, attempts, time and latest code on the dashboard", async () => {
+    const classroom = await classroomWithStudent();
+    await teacher
+      .post(`/api/classrooms/${classroom.id}/assignments`)
+      .send({ lessonId: lesson.id })
+      .expect(201);
+    const [first, second] = lesson.content.steps;
+    const submit = (stepId: string, code: string, passed: boolean, durationMs: number) =>
+      student
+        .post('/api/submissions')
+        .send({ lessonId: lesson.id, stepId, code, result: { passed, feedback: '' }, durationMs })
+        .expect(201);
+    await submit(first.id, 'print(1)', false, 30_000);
+    await submit(first.id, 'print(1)\nprint(2)', true, 15_000);
+    await student.put(`/api/progress/${lesson.id}`).send({ currentStep: 1 }).expect(200);
+    await submit(second.id, 'name = ', false, 5_000);
+
+    const { body } = await teacher.get(`/api/classrooms/${classroom.id}/dashboard`).expect(200);
+    const dashboard = body as ClassroomDashboard;
+
+    expect(dashboard.students).toEqual([{ id: expect.any(String), username: 'ada' }]);
+    const [report] = dashboard.assignments;
+    expect(report.lessonTitle).toBe(lesson.title);
+    const [ada] = report.students;
+    expect(ada).toMatchObject({ username: 'ada', currentStep: 1, completed: false });
+    expect(ada.steps).toHaveLength(lesson.content.steps.length);
+    expect(ada.steps[0]).toMatchObject({
+      stepId: first.id,
+      completed: true,
+      attempts: 2,
+      timeOnStepMs: 45_000,
+      latestCode: 'print(1)\nprint(2)',
+    });
+    expect(ada.steps[1]).toMatchObject({ completed: false, attempts: 1, latestCode: 'name = ' });
+  });
+});
@@ -0,0 +1,146 @@
+// Route tests for the API, run against each storage backend
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import express from 'express';
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { registerRoutes } from '../routes';
+import { FileStorage, type IStorage, MemStorage } from '../storage';
+
+let directory: string;
+
+const backends: Array<[string, () => IStorage]> = [
+  ['memory', () => new MemStorage()],
+  ['file', () => new FileStorage(path.join(directory, 'storage.json'))],
+];
+
+function createApp(storage: IStorage) {
+  const app = express();
+  app.use(express.json());
+  registerRoutes(app, storage);
+  return app;
+}
+
+const password = 'correct horse';
+
+/** A client holding the session cookie of a newly registered user */
+async function signedIn(app: express.Express, username = 'ada') {
+  const agent = request.agent(app);
+  await agent.post('/api/register').send({ username, password }).expect(201);
+  return agent;
+}
+
+const newProject = {
+  name: 'Space Dodge',
+  template: 'space-shooter',
+  files: [{ path: 'main.py', content: 'print("hi")' }],
+};
+
+describe.each(backends)('API routes with %s storage', (_name, createStorage) => {
+  let app: express.Express;
+  let user: ReturnType<typeof request.agent>;
+
+  beforeEach(async () => {
+    directory = mkdtempSync(path.join(tmpdir(), 'routes-'));
+    app = createApp(createStorage());
+    user = await signedIn(app);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('lists the curriculum in order and serves one lesson', async () => {
+    const lessons = await request(app).get('/api/lessons').expect(200);
+    expect(lessons.body.length).toBeGreaterThan(0);
+    const orders = lessons.body.map((lesson: { order: number }) => lesson.order);
+    expect(orders).toEqual([...orders].sort((a, b) => a - b));
+
+    const lesson = await request(app).get(`/api/lessons/${lessons.body[0].id}`).expect(200);
+    expect(lesson.body.title).toBe(lessons.body[0].title);
+    await request(app).get('/api/lessons/missing').expect(404);
+  });
+
+  it('saves progress and updates it in place', async () => {
+    await user.get('/api/progress/lesson-1').expect(200, 'null');
+
+    await user.put('/api/progress/lesson-1').send({ currentStep: 2 }).expect(200);
+    const updated = await user
+      .put('/api/progress/lesson-1')
+      .send({ completed: true, code: 'x = 1' })
+      .expect(200);
+
+    expect(updated.body).toMatchObject({ currentStep: 2, completed: true, code: 'x = 1' });
+    const all = await user.get('/api/progress').expect(200);
+    expect(all.body).toHaveLength(1);
+    await user.put('/api/progress/lesson-1').send({ currentStep: 'two' }).expect(400);
+  });
+
+  it('creates, updates and deletes projects', async () => {
+    const created = await user.post('/api/projects').send(newProject).expect(201);
+    const { id } = created.body;
+    expect(created.body).toMatchObject({ ...newProject, published: false });
+
+    const renamed = await user
+      .put(`/api/projects/${id}`)
+      .send({ name: 'Space Dodge 2' })
+      .expect(200);
+    expect(renamed.body.name).toBe('Space Dodge 2');
+    await user
+      .get('/api/projects')
+      .expect(200)
+      .expect((res) => {
+        expect(res.body.map((project: { id: string }) => project.id)).toEqual([id]);
+      });
+
+    await user.delete(`/api/projects/${id}`).expect(204);
+    await user.get(`/api/projects/${id}`).expect(404);
+    await user.put(`/api/projects/${id}`).send({ name: 'Gone' }).expect(404);
+  });
+
+  it('publishes projects to the gallery and takes them down again', async () => {
+    const { body: project } = await user.post('/api/projects').send(newProject);
+
+    const published = await user.post(`/api/projects/${project.id}/publish`).expect(200);
+    expect(published.body.published).toBe(true);
+    expect(published.body.publishedAt).toBeTruthy();
+    const gallery = await request(app).get('/api/gallery').expect(200);
+    expect(gallery.body.map((entry: { id: string }) => entry.id)).toEqual([project.id]);
+    await request(app).get(`/api/gallery/${project.id}`).expect(200);
+
+    await user.post(`/api/projects/${project.id}/unpublish`).expect(200);
+    await request(app).get(`/api/gallery/${project.id}`).expect(404);
+    await user.post('/api/projects/missing/publish').expect(404);
+  });
+});
+
+describe('API routes with file storage across restarts', () => {
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'routes-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('still has progress and projects after the server restarts', async () => {
+    const file = path.join(directory, 'storage.json');
+    const before = await signedIn(createApp(new FileStorage(file)));
+    await before.put('/api/progress/lesson-1').send({ currentStep: 3 });
+    const { body: project } = await before.post('/api/projects').send(newProject);
+    await before.post(`/api/projects/${project.id}/publish`);
+
+    // Sessions live in memory, so signing in again is the first thing after a restart
+    const app = createApp(new FileStorage(file));
+    const after = request.agent(app);
+    await after.post('/api/login').send({ username: 'ada', password }).expect(200);
+    const progress = await after.get('/api/progress/lesson-1').expect(200);
+    expect(progress.body.currentStep).toBe(3);
+    const gallery = await request(app).get('/api/gallery').expect(200);
+    expect(gallery.body).toEqual([
+      { ...project, published: true, publishedAt: expect.any(String) },
+    ]);
+  });
+});
@@ -0,0 +1,168 @@
+// Unit tests for the file-backed storage and its migrations
+
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  createStorage,
+  FileStorage,
+  MemStorage,
+  STORAGE_MIGRATIONS,
+  type StorageMigration,
+} from '../storage';
+
+describe('FileStorage', () => {
+  let directory: string;
+  let file: string;
+
+  const readFile = () => JSON.parse(readFileSync(file, 'utf8'));
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'storage-'));
+    file = path.join(directory, 'nested', 'storage.json');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('creates its file in the current format', () => {
+    new FileStorage(file);
+
+    expect(readFile()).toEqual({
+      version: STORAGE_MIGRATIONS.at(-1)?.version,
+      users: [],
+      lessons: expect.any(Array),
+      userProgress: [],
+      projects: [],
+      classrooms: [],
+      assignments: [],
+      submissions: [],
+    });
+  });
+
+  it('writes every change, replacing the file whole', async () => {
+    const storage = new FileStorage(file);
+    const user = await storage.createUser({ username: 'ada' });
+    const project = await storage.createProject({
+      userId: user.id,
+      name: 'Pong',
+      template: 'pong',
+      published: false,
+      files: [],
+      assets: [],
+    });
+
+    expect(readFile().users).toEqual([user]);
+    expect(readFile().projects[0]).toMatchObject({ id: project.id, name: 'Pong' });
+    expect(readdirSync(path.dirname(file))).toEqual(['storage.json']);
+
+    const reopened = new FileStorage(file);
+    expect(await reopened.getUserByUsername('ada')).toEqual(user);
+    expect((await reopened.getProject(project.id))?.createdAt).toEqual(project.createdAt);
+  });
+
+  it('keeps the built-in curriculum over lessons saved in the file', async () => {
+    const [first] = await new MemStorage().getLessons();
+    writeFileSync(
+      path.join(directory, 'old.json'),
+      JSON.stringify({
+        version: 1,
+        users: [],
+        userProgress: [],
+        projects: [],
+        lessons: [{ ...first, title: 'An old title' }],
+      })
+    );
+
+    const storage = new FileStorage(path.join(directory, 'old.json'));
+
+    expect((await storage.getLesson(first.id))?.title).toBe(first.title);
+  });
+
+  it('runs the migrations a file is missing, in order, and saves the result', () => {
+    const latest = STORAGE_MIGRATIONS.at(-1)?.version ?? 0;
+    const migrations: StorageMigration[] = [
+      ...STORAGE_MIGRATIONS,
+      {
+        version: latest + 1,
+        description: 'Usernames are lower case',
+        migrate: (data) => ({
+          ...data,
+          users: data.users.map((user: { username: string }) => ({
+            ...user,
+            username: user.username.toLowerCase(),
+          })),
+        }),
+      },
+    ];
+    writeFileSync(
+      path.join(directory, 'storage.json'),
+      JSON.stringify({ users: [{ id: 'u1', username: 'Ada' }] })
+    );
+
+    new FileStorage(path.join(directory, 'storage.json'), migrations);
+
+    const saved = JSON.parse(readFileSync(path.join(directory, 'storage.json'), 'utf8'));
+    expect(saved).toMatchObject({
+      version: latest + 1,
+      users: [{ id: 'u1', username: 'ada', role: 'student' }],
+    });
+    expect(saved.projects).toEqual([]);
+    expect(saved.submissions).toEqual([]);
+  });
+
+  it('fills in what older submissions did not record', async () => {
+    const submission = {
+      id: 's1',
+      userId: 'u1',
+      lessonId: 'lesson-1',
+      stepId: 'step-1',
+      code: 'print(1)',
+      passed: true,
+      durationMs: 5000,
+      submittedAt: new Date().toISOString(),
+    };
+    writeFileSync(
+      path.join(directory, 'storage.json'),
+      JSON.stringify({
+        version: 2,
+        users: [],
+        lessons: [],
+        userProgress: [],
+        projects: [],
+        classrooms: [],
+        assignments: [],
+        submissions: [submission],
+      })
+    );
+
+    const storage = new FileStorage(path.join(directory, 'storage.json'));
+
+    expect(await storage.listStepSubmissions('lesson-1', 'step-1')).toEqual([
+      {
+        ...submission,
+        submittedAt: new Date(submission.submittedAt),
+        result: { passed: true, feedback: '' },
+        failedRules: [],
+        hintsViewed: 0,
+      },
+    ]);
+  });
+
+  it('refuses a file written by a newer server', () => {
+    writeFileSync(path.join(directory, 'storage.json'), JSON.stringify({ version: 99 }));
+
+    expect(() => new FileStorage(path.join(directory, 'storage.json'))).toThrow(/format 99/);
+  });
+
+  it('is chosen by STORAGE_BACKEND', () => {
+    expect(createStorage({})).toBeInstanceOf(MemStorage);
+    expect(createStorage({ STORAGE_BACKEND: 'file', STORAGE_FILE: file })).toBeInstanceOf(
+      FileStorage
+    );
+    expect(existsSync(file)).toBe(true);
+    expect(() => createStorage({ STORAGE_BACKEND: 'postgres' })).toThrow(/STORAGE_BACKEND/);
+  });
+});
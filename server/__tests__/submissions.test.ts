@@ -0,0 +1,210 @@
+// Tests for submission history and the per-step stats built from it
+
+import type { Lesson, StepStats, Submission } from '@shared/schema';
+import express from 'express';
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { registerRoutes } from '../routes';
+import { MemStorage } from '../storage';
+import { stepStats } from '../submissions';
+
+type Agent = ReturnType<typeof request.agent>;
+
+let nextId = 0;
+function submission(userId: string, passed: boolean, failedRules: string[] = []): Submission {
+  return {
+    id: String(nextId++),
+    userId,
+    lessonId: 'lesson-1',
+    stepId: 'step-1',
+    code: '',
+    passed,
+    result: { passed, feedback: '' },
+    failedRules,
+    hintsViewed: 0,
+    durationMs: 1000,
+    submittedAt: new Date(),
+  };
+}
+
+describe('stepStats', () => {
+  it('has nothing to say about a step nobody tried', () => {
+    expect(stepStats('step-1', [])).toEqual({
+      stepId: 'step-1',
+      learners: 0,
+      submissions: 0,
+      passRate: null,
+      medianAttempts: null,
+      mostCommonFailingRule: null,
+      failingRules: [],
+    });
+  });
+
+  it('counts attempts to the first pass and the rules broken most', () => {
+    const stats = stepStats('step-1', [
+      submission('ada', false, ['ast:function_call print']),
+      submission('ada', true),
+      // Attempts after passing don't count towards the median
+      submission('ada', true),
+      submission('grace', false, ['ast:function_call print', 'runtime:Output should contain']),
+      submission('grace', false, ['ast:function_call print']),
+      submission('grace', false, ['type-check']),
+      submission('alan', true),
+    ]);
+
+    expect(stats).toMatchObject({
+      learners: 3,
+      submissions: 7,
+      passRate: 3 / 7,
+      medianAttempts: 2,
+      mostCommonFailingRule: 'ast:function_call print',
+    });
+    expect(stats.failingRules).toEqual([
+      { rule: 'ast:function_call print', count: 3 },
+      { rule: 'runtime:Output should contain', count: 1 },
+      { rule: 'type-check', count: 1 },
+    ]);
+  });
+});
+
+describe('submission routes', () => {
+  let app: express.Express;
+  let lesson: Lesson;
+  let stepId: string;
+
+  async function register(username: string, role?: 'teacher' | 'student') {
+    const agent = request.agent(app);
+    await agent
+      .post('/api/register')
+      .send({ username, password: 'correct horse', role, inviteCode: 'staff-room' })
+      .expect(201);
+    return agent;
+  }
+
+  const submit = (agent: Agent, passed: boolean, failedRules: string[] = []) =>
+    agent
+      .post('/api/submissions')
+      .send({
+        lessonId: lesson.id,
+        stepId,
+        code: passed ? 'print("hi")' : 'print(',
+        result: { passed, feedback: passed ? 'Perfect!' : 'Not yet', tests: [] },
+        failedRules,
+        hintsViewed: passed ? 0 : 2,
+        durationMs: 12_000,
+      })
+      .expect(201);
+
+  beforeEach(async () => {
+    const storage = new MemStorage();
+    [lesson] = await storage.getLessons();
+    stepId = lesson.content.steps[0].id;
+    app = express();
+    app.use(express.json());
+    registerRoutes(app, storage);
+    vi.stubEnv('TEACHER_INVITE_CODE', 'staff-room');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('keeps every attempt with its grade result, hints and time', async () => {
+    const ada = await register('ada');
+    await submit(ada, false, ['type-check']);
+    await submit(ada, true);
+
+    const { body } = await ada
+      .get(`/api/lessons/${lesson.id}/steps/${stepId}/submissions`)
+      .expect(200);
+
+    expect(body).toEqual([
+      expect.objectContaining({
+        passed: false,
+        code: 'print(',
+        result: { passed: false, feedback: 'Not yet', tests: [] },
+        failedRules: ['type-check'],
+        hintsViewed: 2,
+        durationMs: 12_000,
+        submittedAt: expect.any(String),
+      }),
+      expect.objectContaining({ passed: true, failedRules: [] }),
+    ]);
+    await ada.get(`/api/lessons/${lesson.id}/steps/other-step/submissions`).expect(200, []);
+  });
+
+  it("shows a learner's attempts only to them and their teachers", async () => {
+    const ada = await register('ada');
+    const grace = await register('grace');
+    const teacher = await register('ms-hopper', 'teacher');
+    await submit(ada, false);
+    const { body: me } = await ada.get('/api/me');
+    const url = `/api/lessons/${lesson.id}/steps/${stepId}/submissions?userId=${me.id}`;
+
+    await grace.get(url).expect(403);
+    await teacher.get(url).expect(403);
+
+    const { body: classroom } = await teacher.post('/api/classrooms').send({ name: '8C' });
+    await ada.post('/api/classrooms/join').send({ joinCode: classroom.joinCode }).expect(200);
+    const { body } = await teacher.get(url).expect(200);
+    expect(body).toHaveLength(1);
+  });
+
+  it('reports per-step stats to teachers', async () => {
+    const ada = await register('ada');
+    const grace = await register('grace');
+    const teacher = await register('ms-hopper', 'teacher');
+    await submit(ada, false, ['ast:function_call print']);
+    await submit(ada, true);
+    await submit(grace, false, ['ast:function_call print']);
+
+    await ada.get(`/api/lessons/${lesson.id}/stats`).expect(403);
+    const { body } = await teacher.get(`/api/lessons/${lesson.id}/stats`).expect(200);
+    const stats = body as StepStats[];
+
+    expect(stats.map((step) => step.stepId)).toEqual(lesson.content.steps.map((step) => step.id));
+    expect(stats[0]).toMatchObject({
+      learners: 2,
+      submissions: 3,
+      medianAttempts: 1.5,
+      mostCommonFailingRule: 'ast:function_call print',
+    });
+    expect(stats[1]).toMatchObject({ submissions: 0, passRate: null });
+    await teacher
+      .get(`/api/lessons/${lesson.id}/steps/${stepId}/stats`)
+      .expect(200)
+      .expect((res) => expect(res.body.submissions).toBe(3));
+    await teacher.get(`/api/lessons/${lesson.id}/steps/missing/stats`).expect(404);
+    await teacher.get('/api/lessons/missing/stats').expect(404);
+  });
+
+  it('refuses submissions without a signed-in user, with bad data or for unknown steps', async () => {
+    const ada = await register('ada');
+    const valid = { lessonId: lesson.id, stepId, code: '', result: { passed: true, feedback: '' } };
+
+    await request(app)
+      .post('/api/submissions')
+      .send({ ...valid, durationMs: 1 })
+      .expect(401);
+    await ada
+      .post('/api/submissions')
+      .send({ ...valid, durationMs: -1 })
+      .expect(400);
+    await ada
+      .post('/api/submissions')
+      .send({ ...valid, result: { passed: 'yes' }, durationMs: 1 })
+      .expect(400);
+    await ada
+      .post('/api/submissions')
+      .send({ ...valid, lessonId: 'made-up', durationMs: 1 })
+      .expect(400, /Lesson not found/);
+    await ada
+      .post('/api/submissions')
+      .send({ ...valid, stepId: 'made-up', durationMs: 1 })
+      .expect(400, /Step not found/);
+    await ada
+      .post('/api/submissions')
+      .send({ ...valid, durationMs: 1 })
+      .expect(201);
+  });
+});
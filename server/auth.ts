@@ -0,0 +1,193 @@
+/**
+ * Accounts and sessions. Passwords are stored as scrypt hashes; signing in keeps the user in
+ * an express-session cookie through passport, and routes find them on `req.user`. Everyone
+ * registers as a student unless they have the server's TEACHER_INVITE_CODE.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import type { User as Account } from '@shared/schema';
+import type { Express as App, NextFunction, Request, Response } from 'express';
+import session from 'express-session';
+import createMemoryStore from 'memorystore';
+import { Passport } from 'passport';
+import { Strategy as LocalStrategy } from 'passport-local';
+import { z } from 'zod';
+import type { IStorage } from './storage';
+
+declare global {
+  namespace Express {
+    interface User extends Account {}
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  length: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+export const credentialsSchema = z.object({
+  username: z.string().trim().min(3).max(32),
+  password: z.string().min(8).max(200),
+});
+
+export const registrationSchema = credentialsSchema.extend({
+  role: z.enum(['teacher', 'student']).default('student'),
+  inviteCode: z.string().optional(),
+});
+
+/** `hash.salt`, both hex */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${hash.toString('hex')}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split('.');
+  if (!hash || !salt) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/** Whether `given` is the teacher invite code; without one set, nobody can become a teacher */
+export function isTeacherInvite(given: string | undefined, invite: string | undefined): boolean {
+  if (!invite || given === undefined) return false;
+  const expected = Buffer.from(invite);
+  const actual = Buffer.from(given);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * TRUST_PROXY as Express's `trust proxy` takes it: how many proxies to trust, true for all,
+ * or the addresses of the trusted ones. Unset, the server trusts no proxy.
+ */
+export function trustProxySetting(
+  value: string | undefined
+): boolean | number | string | undefined {
+  if (!value) return undefined;
+  if (value === 'true' || value === 'false') return value === 'true';
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+/** What the API says about a user: never their password hash */
+export function publicUser({ id, username, role, profile }: Account) {
+  return { id, username, role, profile };
+}
+
+/** Answer 401 unless someone is signed in */
+export function requireUser(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Sign in to continue' });
+  }
+  next();
+}
+
+/**
+ * Sessions, passport and the account endpoints: register, login, logout and me. Each app gets
+ * its own passport, so apps serving different storage never share users.
+ */
+export function setupAuth(app: App, storage: IStorage): void {
+  const MemoryStore = createMemoryStore(session);
+  const authenticator = new Passport();
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && app.get('env') === 'production') {
+    console.warn('SESSION_SECRET is not set; sessions end whenever the server restarts');
+  }
+
+  // Behind a proxy, secure cookies need Express to believe the proxy's X-Forwarded-Proto
+  const trustProxy = trustProxySetting(process.env.TRUST_PROXY);
+  if (trustProxy !== undefined) app.set('trust proxy', trustProxy);
+  app.use(
+    session({
+      // Without a fixed secret, cookies from before a restart simply stop working
+      secret: secret || randomBytes(32).toString('hex'),
+      resave: false,
+      saveUninitialized: false,
+      store: new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }),
+      cookie: {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: app.get('env') === 'production',
+        maxAge: SESSION_MAX_AGE,
+      },
+    })
+  );
+  app.use(authenticator.initialize());
+  app.use(authenticator.session());
+
+  authenticator.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim());
+        const valid = user?.passwordHash && (await verifyPassword(password, user.passwordHash));
+        return done(null, valid ? user : false);
+      } catch (error) {
+        return done(error);
+      }
+    })
+  );
+  authenticator.serializeUser((user, done) => done(null, user.id));
+  authenticator.deserializeUser(async (id: string, done) => {
+    try {
+      // A user missing from storage just isn't signed in any more
+      done(null, (await storage.getUser(id)) ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post('/api/register', async (req, res, next) => {
+    try {
+      const { username, password, role, inviteCode } = registrationSchema.parse(req.body);
+      if (role === 'teacher' && !isTeacherInvite(inviteCode, process.env.TEACHER_INVITE_CODE)) {
+        return res.status(403).json({ message: 'Teacher accounts need an invite code' });
+      }
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: 'That username is taken' });
+      }
+
+      const user = await storage.createUser({
+        username,
+        role,
+        passwordHash: await hashPassword(password),
+      });
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(publicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid account details', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to create account' });
+    }
+  });
+
+  app.post('/api/login', (req, res, next) => {
+    authenticator.authenticate('local', (error: unknown, user: Account | false) => {
+      if (error) return next(error);
+      if (!user) return res.status(401).json({ message: 'Wrong username or password' });
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(publicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post('/api/logout', (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.status(204).send();
+    });
+  });
+
+  app.get('/api/me', requireUser, (req, res) => {
+    res.json(publicUser(req.user as Account));
+  });
+}
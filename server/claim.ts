@@ -0,0 +1,54 @@
+import { type Claim, type ClaimResult, mergeLessonProgress, mergeProfiles } from '@shared/claim';
+import type { User } from '@shared/schema';
+import type { IStorage } from './storage';
+
+async function claimProgress(storage: IStorage, userId: string, claim: Claim, result: ClaimResult) {
+  for (const local of claim.progress) {
+    const existing = await storage.getUserProgressForLesson(userId, local.lessonId);
+    if (existing) result.conflicts.push(local.lessonId);
+    const { currentStep, completed, code } = existing
+      ? mergeLessonProgress(existing, local)
+      : local;
+    result.progress.push(
+      await storage.updateUserProgress(userId, local.lessonId, { currentStep, completed, code })
+    );
+  }
+}
+
+async function claimProjects(storage: IStorage, userId: string, claim: Claim, result: ClaimResult) {
+  for (const { id, ...local } of claim.projects) {
+    // Only this browser ever saw them published; going public is for the learner to choose
+    const project = await storage.createProject({
+      ...local,
+      userId,
+      published: false,
+    });
+    result.projectIds[id] = project.id;
+  }
+}
+
+/**
+ * Move what a learner did signed out into their account: progress is merged lesson by lesson,
+ * projects are copied in under new ids and the profile is merged with the account's.
+ */
+export async function claimLocalData(
+  storage: IStorage,
+  user: User,
+  claim: Claim
+): Promise<ClaimResult> {
+  const result: ClaimResult = { progress: [], projectIds: {}, profile: null, conflicts: [] };
+  await claimProgress(storage, user.id, claim, result);
+  await claimProjects(storage, user.id, claim, result);
+
+  const profile = mergeProfiles(user.profile, claim.profile);
+  if (profile) {
+    // The learner's current project is now the account's copy of it
+    const { currentProject } = profile;
+    if (currentProject && result.projectIds[currentProject]) {
+      profile.currentProject = result.projectIds[currentProject];
+    }
+    await storage.updateUser(user.id, { profile });
+    result.profile = profile;
+  }
+  return result;
+}
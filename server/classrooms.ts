@@ -0,0 +1,270 @@
+/**
+ * Classroom mode. Teachers make classrooms and set lessons with due dates; students join with
+ * the classroom's code. A teacher's dashboard reports each student's progress through every
+ * assigned lesson, step by step, from their UserProgress and submissions (see submissions.ts).
+ */
+
+import type {
+  Assignment,
+  Classroom,
+  ClassroomDashboard,
+  Lesson,
+  StepReport,
+  StudentReport,
+  Submission,
+  User,
+} from '@shared/schema';
+import type { Express, NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+import { requireUser } from './auth';
+import type { IStorage } from './storage';
+
+const classroomSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+const joinSchema = z.object({
+  joinCode: z.string().trim().min(1),
+});
+
+const assignmentSchema = z.object({
+  lessonId: z.string().min(1),
+  dueAt: z.coerce.date().optional(),
+});
+
+/** Answer 403 unless the signed-in user is a teacher; use after requireUser */
+export function requireTeacher(req: Request, res: Response, next: NextFunction) {
+  if (req.user?.role !== 'teacher') {
+    return res.status(403).json({ message: 'Only teachers can do that' });
+  }
+  next();
+}
+
+function reportSteps(lesson: Lesson, progressStep: number, submissions: Submission[]) {
+  return lesson.content.steps.map((step, index): StepReport => {
+    const attempts = submissions.filter((submission) => submission.stepId === step.id);
+    const latest = attempts.at(-1);
+    return {
+      stepId: step.id,
+      title: step.title,
+      completed: index < progressStep || attempts.some((attempt) => attempt.passed),
+      attempts: attempts.length,
+      timeOnStepMs: attempts.reduce((total, attempt) => total + attempt.durationMs, 0),
+      latestCode: latest?.code,
+      lastSubmittedAt: latest?.submittedAt,
+    };
+  });
+}
+
+async function reportStudent(
+  storage: IStorage,
+  student: User,
+  lesson: Lesson
+): Promise<StudentReport> {
+  const progress = await storage.getUserProgressForLesson(student.id, lesson.id);
+  const submissions = await storage.listSubmissions(student.id, lesson.id);
+  const currentStep = progress?.currentStep ?? 0;
+  const completed = progress?.completed ?? false;
+  return {
+    userId: student.id,
+    username: student.username,
+    currentStep,
+    completed,
+    steps: reportSteps(lesson, completed ? lesson.content.steps.length : currentStep, submissions),
+  };
+}
+
+/** Everything the teacher's dashboard shows for `classroom` */
+export async function buildDashboard(
+  storage: IStorage,
+  classroom: Classroom
+): Promise<ClassroomDashboard> {
+  const students: User[] = [];
+  for (const id of classroom.studentIds) {
+    const student = await storage.getUser(id);
+    if (student) students.push(student);
+  }
+
+  const assignments = await storage.listAssignments(classroom.id);
+  const reports = [];
+  for (const assignment of sortByDueDate(assignments)) {
+    const lesson = await storage.getLesson(assignment.lessonId);
+    if (!lesson) continue;
+    const studentReports = [];
+    for (const student of students) {
+      studentReports.push(await reportStudent(storage, student, lesson));
+    }
+    reports.push({ assignment, lessonTitle: lesson.title, students: studentReports });
+  }
+
+  return {
+    classroom,
+    students: students.map(({ id, username }) => ({ id, username })),
+    assignments: reports,
+  };
+}
+
+/** Whether `teacherId` teaches a classroom `studentId` has joined */
+export async function teachesStudent(storage: IStorage, teacherId: string, studentId: string) {
+  const classrooms = await storage.listClassrooms(teacherId);
+  return classrooms.some(
+    (classroom) => classroom.teacherId === teacherId && classroom.studentIds.includes(studentId)
+  );
+}
+
+/** A classroom as `userId` may see it: students don't see who else is in the class */
+function visibleTo(classroom: Classroom, userId: string): Classroom {
+  return classroom.teacherId === userId ? classroom : { ...classroom, studentIds: [] };
+}
+
+/** Soonest due first; assignments without a due date last, oldest first */
+function sortByDueDate(assignments: Assignment[]) {
+  const due = (assignment: Assignment) => assignment.dueAt?.getTime() ?? Number.POSITIVE_INFINITY;
+  return [...assignments].sort(
+    (a, b) => due(a) - due(b) || a.createdAt.getTime() - b.createdAt.getTime()
+  );
+}
+
+export function registerClassroomRoutes(app: Express, storage: IStorage): void {
+  /** The classroom in the URL if the signed-in user teaches it; otherwise sends 404 or 403 */
+  async function taughtClassroom(req: Request, res: Response): Promise<Classroom | undefined> {
+    const classroom = await storage.getClassroom(req.params.id);
+    if (!classroom) {
+      res.status(404).json({ message: 'Classroom not found' });
+      return undefined;
+    }
+    if (classroom.teacherId !== req.user?.id) {
+      res.status(403).json({ message: 'This classroom belongs to another teacher' });
+      return undefined;
+    }
+    return classroom;
+  }
+
+  // Create a classroom, with a fresh join code
+  app.post('/api/classrooms', requireUser, requireTeacher, async (req, res) => {
+    try {
+      const { name } = classroomSchema.parse(req.body);
+      const classroom = await storage.createClassroom({ name, teacherId: req.user!.id });
+      res.status(201).json(classroom);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid classroom data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to create classroom' });
+    }
+  });
+
+  // Classrooms the signed-in user teaches or has joined
+  app.get('/api/classrooms', requireUser, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const classrooms = await storage.listClassrooms(userId);
+      res.json(classrooms.map((classroom) => visibleTo(classroom, userId)));
+    } catch {
+      res.status(500).json({ message: 'Failed to fetch classrooms' });
+    }
+  });
+
+  // Join a classroom as a student
+  app.post('/api/classrooms/join', requireUser, async (req, res) => {
+    try {
+      const { joinCode } = joinSchema.parse(req.body);
+      const classroom = await storage.getClassroomByJoinCode(joinCode);
+
+      if (!classroom) {
+        return res.status(404).json({ message: 'No classroom has that code' });
+      }
+      if (classroom.teacherId === req.user!.id) {
+        return res.status(400).json({ message: 'You teach this classroom' });
+      }
+
+      const joined = await storage.addStudent(classroom.id, req.user!.id);
+      res.json(visibleTo(joined, req.user!.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid join code', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to join classroom' });
+    }
+  });
+
+  // A classroom and what it has been set, for its teacher and its students
+  app.get('/api/classrooms/:id', requireUser, async (req, res) => {
+    try {
+      const classroom = await storage.getClassroom(req.params.id);
+      const userId = req.user!.id;
+
+      if (
+        !classroom ||
+        (classroom.teacherId !== userId && !classroom.studentIds.includes(userId))
+      ) {
+        return res.status(404).json({ message: 'Classroom not found' });
+      }
+
+      const assignments = sortByDueDate(await storage.listAssignments(classroom.id));
+      res.json({ ...visibleTo(classroom, userId), assignments });
+    } catch {
+      res.status(500).json({ message: 'Failed to fetch classroom' });
+    }
+  });
+
+  // Set the class a lesson
+  app.post('/api/classrooms/:id/assignments', requireUser, requireTeacher, async (req, res) => {
+    try {
+      const { lessonId, dueAt } = assignmentSchema.parse(req.body);
+      const classroom = await taughtClassroom(req, res);
+      if (!classroom) return;
+
+      if (!(await storage.getLesson(lessonId))) {
+        return res.status(400).json({ message: 'Lesson not found' });
+      }
+
+      const assignment = await storage.createAssignment({
+        classroomId: classroom.id,
+        lessonId,
+        dueAt,
+      });
+      res.status(201).json(assignment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid assignment data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to create assignment' });
+    }
+  });
+
+  // Take a lesson off the class's list
+  app.delete(
+    '/api/classrooms/:id/assignments/:assignmentId',
+    requireUser,
+    requireTeacher,
+    async (req, res) => {
+      try {
+        const classroom = await taughtClassroom(req, res);
+        if (!classroom) return;
+
+        const assignments = await storage.listAssignments(classroom.id);
+        if (!assignments.some((assignment) => assignment.id === req.params.assignmentId)) {
+          return res.status(404).json({ message: 'Assignment not found' });
+        }
+
+        await storage.deleteAssignment(req.params.assignmentId);
+        res.status(204).send();
+      } catch {
+        res.status(500).json({ message: 'Failed to delete assignment' });
+      }
+    }
+  );
+
+  // Every student's progress through every assigned lesson
+  app.get('/api/classrooms/:id/dashboard', requireUser, requireTeacher, async (req, res) => {
+    try {
+      const classroom = await taughtClassroom(req, res);
+      if (!classroom) return;
+
+      res.json(await buildDashboard(storage, classroom));
+    } catch {
+      res.status(500).json({ message: 'Failed to build dashboard' });
+    }
+  });
+}
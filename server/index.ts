@@ -8,6 +8,14 @@ export const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
+// Cross-origin isolation lets the page share memory with the Pyodide worker, which is how
+// Stop interrupts a running program; credentialless keeps third-party fonts loading
+app.use((_req, res, next) => {
+  res.setHeader('Cross-Origin-Opener-Policy', 'same-origin');
+  res.setHeader('Cross-Origin-Embedder-Policy', 'credentialless');
+  next();
+});
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
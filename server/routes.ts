@@ -1,9 +1,31 @@
-import type { InsertProject } from '@shared/schema';
-import type { Express } from 'express';
+import { claimRequestSchema } from '@shared/claim';
+import type { InsertProject, Project } from '@shared/schema';
+import type { Express, Request, Response } from 'express';
 import { z } from 'zod';
-import { storage } from './storage';
+import { requireUser, setupAuth } from './auth';
+import { claimLocalData } from './claim';
+import { registerClassroomRoutes } from './classrooms';
+import { storage as defaultStorage, type IStorage } from './storage';
+import { registerSubmissionRoutes } from './submissions';
+
+/** Serve the API from `storage`: the one STORAGE_BACKEND picks, unless a test brings its own */
+export function registerRoutes(app: Express, storage: IStorage = defaultStorage): void {
+  setupAuth(app, storage);
+
+  /** The signed-in user's project, or undefined once a 404 or 403 has been sent */
+  async function ownProject(req: Request, res: Response): Promise<Project | undefined> {
+    const project = await storage.getProject(req.params.id);
+    if (!project) {
+      res.status(404).json({ message: 'Project not found' });
+      return undefined;
+    }
+    if (project.userId !== req.user?.id) {
+      res.status(403).json({ message: 'This project belongs to someone else' });
+      return undefined;
+    }
+    return project;
+  }
 
-export function registerRoutes(app: Express): void {
   // Get all lessons
   app.get('/api/lessons', async (req, res) => {
     try {
@@ -30,10 +52,10 @@ export function registerRoutes(app: Express): void {
     }
   });
 
-  // Get user progress for all lessons (mock user ID for now)
-  app.get('/api/progress', async (req, res) => {
+  // Get the signed-in user's progress for all lessons
+  app.get('/api/progress', requireUser, async (req, res) => {
     try {
-      const userId = 'mock-user-id'; // In a real app, this would come from authentication
+      const userId = req.user!.id;
       const progress = await storage.getUserProgress(userId);
       res.json(progress);
     } catch (error) {
@@ -42,10 +64,10 @@ export function registerRoutes(app: Express): void {
   });
 
   // Get user progress for specific lesson
-  app.get('/api/progress/:lessonId', async (req, res) => {
+  app.get('/api/progress/:lessonId', requireUser, async (req, res) => {
     try {
       const { lessonId } = req.params;
-      const userId = 'mock-user-id'; // In a real app, this would come from authentication
+      const userId = req.user!.id;
 
       const progress = await storage.getUserProgressForLesson(userId, lessonId);
       res.json(progress || null);
@@ -55,10 +77,10 @@ export function registerRoutes(app: Express): void {
   });
 
   // Update user progress
-  app.put('/api/progress/:lessonId', async (req, res) => {
+  app.put('/api/progress/:lessonId', requireUser, async (req, res) => {
     try {
       const { lessonId } = req.params;
-      const userId = 'mock-user-id'; // In a real app, this would come from authentication
+      const userId = req.user!.id;
 
       const updateSchema = z.object({
         currentStep: z.number().optional(),
@@ -78,6 +100,20 @@ export function registerRoutes(app: Express): void {
     }
   });
 
+  // Move progress, projects and the profile kept in the browser into the signed-in account
+  app.post('/api/claim', requireUser, async (req, res) => {
+    try {
+      const claim = claimRequestSchema.parse(req.body);
+      const result = await claimLocalData(storage, req.user!, claim);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid local data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to claim local data' });
+    }
+  });
+
   // Execute Python code endpoint (for validation/testing)
   app.post('/api/execute', async (req, res) => {
     try {
@@ -100,9 +136,9 @@ export function registerRoutes(app: Express): void {
   });
 
   // Get user's projects
-  app.get('/api/projects', async (req, res) => {
+  app.get('/api/projects', requireUser, async (req, res) => {
     try {
-      const userId = 'mock-user-id'; // In a real app, this would come from authentication
+      const userId = req.user!.id;
       const projects = await storage.listProjects(userId);
       res.json(projects);
     } catch (error) {
@@ -111,9 +147,9 @@ export function registerRoutes(app: Express): void {
   });
 
   // Create new project
-  app.post('/api/projects', async (req, res) => {
+  app.post('/api/projects', requireUser, async (req, res) => {
     try {
-      const userId = 'mock-user-id'; // In a real app, this would come from authentication
+      const userId = req.user!.id;
       const projectData: InsertProject = {
         ...req.body,
         userId,
@@ -129,13 +165,13 @@ export function registerRoutes(app: Express): void {
     }
   });
 
-  // Get specific project
+  // Get specific project: its owner's, or anyone's once published
   app.get('/api/projects/:id', async (req, res) => {
     try {
       const { id } = req.params;
       const project = await storage.getProject(id);
 
-      if (!project) {
+      if (!project || (project.userId !== req.user?.id && !project.published)) {
         return res.status(404).json({ message: 'Project not found' });
       }
 
@@ -146,7 +182,7 @@ export function registerRoutes(app: Express): void {
   });
 
   // Update project
-  app.put('/api/projects/:id', async (req, res) => {
+  app.put('/api/projects/:id', requireUser, async (req, res) => {
     try {
       const { id } = req.params;
 
@@ -178,6 +214,7 @@ export function registerRoutes(app: Express): void {
       });
 
       const updateData = updateSchema.parse(req.body);
+      if (!(await ownProject(req, res))) return;
       const project = await storage.updateProject(id, updateData);
 
       res.json(project);
@@ -193,9 +230,13 @@ export function registerRoutes(app: Express): void {
   });
 
   // Delete project
-  app.delete('/api/projects/:id', async (req, res) => {
+  app.delete('/api/projects/:id', requireUser, async (req, res) => {
     try {
       const { id } = req.params;
+      const project = await storage.getProject(id);
+      if (project && project.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'This project belongs to someone else' });
+      }
       await storage.deleteProject(id);
       res.status(204).send();
     } catch (error) {
@@ -233,9 +274,10 @@ export function registerRoutes(app: Express): void {
   });
 
   // Publish a project
-  app.post('/api/projects/:id/publish', async (req, res) => {
+  app.post('/api/projects/:id/publish', requireUser, async (req, res) => {
     try {
       const { id } = req.params;
+      if (!(await ownProject(req, res))) return;
       const project = await storage.publishProject(id);
       res.json(project);
     } catch (error) {
@@ -247,9 +289,10 @@ export function registerRoutes(app: Express): void {
   });
 
   // Unpublish a project
-  app.post('/api/projects/:id/unpublish', async (req, res) => {
+  app.post('/api/projects/:id/unpublish', requireUser, async (req, res) => {
     try {
       const { id } = req.params;
+      if (!(await ownProject(req, res))) return;
       const project = await storage.unpublishProject(id);
       res.json(project);
     } catch (error) {
@@ -259,4 +302,7 @@ export function registerRoutes(app: Express): void {
       res.status(500).json({ message: 'Failed to unpublish project' });
     }
   });
+
+  registerClassroomRoutes(app, storage);
+  registerSubmissionRoutes(app, storage);
 }
@@ -1,19 +1,34 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { mkdir, open, rename } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { parseLessons } from '@shared/lesson-schema';
 import type {
+  Assignment,
+  Classroom,
+  InsertAssignment,
+  InsertClassroom,
   InsertLesson,
   InsertProject,
+  InsertSubmission,
   InsertUser,
   InsertUserProgress,
   Lesson,
   Project,
+  Submission,
   User,
   UserProgress,
 } from '@shared/schema';
-import { randomUUID } from 'crypto';
+import { randomInt, randomUUID } from 'crypto';
+
+// Join codes leave out letters and digits that are easy to mix up when read off a board
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 6;
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, updates: Partial<InsertUser>): Promise<User>;
 
   getLessons(): Promise<Lesson[]>;
   getLesson(id: string): Promise<Lesson | undefined>;
@@ -37,19 +52,43 @@ export interface IStorage {
   listPublishedProjects(): Promise<Project[]>;
   publishProject(id: string): Promise<Project>;
   unpublishProject(id: string): Promise<Project>;
+
+  // Classroom methods
+  createClassroom(classroom: InsertClassroom): Promise<Classroom>;
+  getClassroom(id: string): Promise<Classroom | undefined>;
+  getClassroomByJoinCode(joinCode: string): Promise<Classroom | undefined>;
+  /** Classrooms the user teaches or has joined */
+  listClassrooms(userId: string): Promise<Classroom[]>;
+  addStudent(classroomId: string, userId: string): Promise<Classroom>;
+  createAssignment(assignment: InsertAssignment): Promise<Assignment>;
+  listAssignments(classroomId: string): Promise<Assignment[]>;
+  deleteAssignment(id: string): Promise<void>;
+
+  // Submission methods
+  createSubmission(submission: InsertSubmission): Promise<Submission>;
+  /** A user's submissions, oldest first, for one lesson or all of them */
+  listSubmissions(userId: string, lessonId?: string): Promise<Submission[]>;
+  /** Everyone's submissions for a lesson step, oldest first */
+  listStepSubmissions(lessonId: string, stepId: string): Promise<Submission[]>;
 }
 
 export class MemStorage implements IStorage {
-  private users: Map<string, User>;
-  private lessons: Map<string, Lesson>;
-  private userProgress: Map<string, UserProgress>;
-  private projects: Map<string, Project>;
+  protected users: Map<string, User>;
+  protected lessons: Map<string, Lesson>;
+  protected userProgress: Map<string, UserProgress>;
+  protected projects: Map<string, Project>;
+  protected classrooms: Map<string, Classroom>;
+  protected assignments: Map<string, Assignment>;
+  protected submissions: Map<string, Submission>;
 
   constructor() {
     this.users = new Map();
     this.lessons = new Map();
     this.userProgress = new Map();
     this.projects = new Map();
+    this.classrooms = new Map();
+    this.assignments = new Map();
+    this.submissions = new Map();
 
     // Initialize with comprehensive fundamentals curriculum
     this.initializeLessons();
@@ -1560,8 +1599,8 @@ export class MemStorage implements IStorage {
       },
     ];
 
-    // Add lessons to storage
-    fundamentalsCurriculum.forEach((lesson) => {
+    // Add lessons to storage, refusing to start with a curriculum the grader can't read
+    parseLessons(fundamentalsCurriculum, 'server curriculum').forEach((lesson) => {
       this.lessons.set(lesson.id, lesson);
     });
   }
@@ -1589,6 +1628,17 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User> {
+    const user = this.users.get(id);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const updated = { ...user, ...updates };
+    this.users.set(id, updated);
+    return updated;
+  }
+
   async getLessons(): Promise<Lesson[]> {
     return Array.from(this.lessons.values()).sort((a, b) => a.order - b.order);
   }
@@ -1813,7 +1863,378 @@ export class MemStorage implements IStorage {
     this.projects.set(id, updated);
     return updated;
   }
+
+  // Classroom methods implementation
+  private newJoinCode(): string {
+    const taken = new Set(Array.from(this.classrooms.values(), (c) => c.joinCode));
+    let code: string;
+    do {
+      code = Array.from(
+        { length: JOIN_CODE_LENGTH },
+        () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)]
+      ).join('');
+    } while (taken.has(code));
+    return code;
+  }
+
+  async createClassroom(classroomData: InsertClassroom): Promise<Classroom> {
+    const classroom: Classroom = {
+      id: randomUUID(),
+      ...classroomData,
+      joinCode: this.newJoinCode(),
+      studentIds: [],
+      createdAt: new Date(),
+    };
+    this.classrooms.set(classroom.id, classroom);
+    return classroom;
+  }
+
+  async getClassroom(id: string): Promise<Classroom | undefined> {
+    return this.classrooms.get(id);
+  }
+
+  async getClassroomByJoinCode(joinCode: string): Promise<Classroom | undefined> {
+    const code = joinCode.trim().toUpperCase();
+    return Array.from(this.classrooms.values()).find((classroom) => classroom.joinCode === code);
+  }
+
+  async listClassrooms(userId: string): Promise<Classroom[]> {
+    return Array.from(this.classrooms.values()).filter(
+      (classroom) => classroom.teacherId === userId || classroom.studentIds.includes(userId)
+    );
+  }
+
+  async addStudent(classroomId: string, userId: string): Promise<Classroom> {
+    const existing = this.classrooms.get(classroomId);
+    if (!existing) {
+      throw new Error('Classroom not found');
+    }
+    if (existing.studentIds.includes(userId)) return existing;
+
+    const updated: Classroom = { ...existing, studentIds: [...existing.studentIds, userId] };
+    this.classrooms.set(classroomId, updated);
+    return updated;
+  }
+
+  async createAssignment(assignmentData: InsertAssignment): Promise<Assignment> {
+    const assignment: Assignment = {
+      id: randomUUID(),
+      ...assignmentData,
+      createdAt: new Date(),
+    };
+    this.assignments.set(assignment.id, assignment);
+    return assignment;
+  }
+
+  async listAssignments(classroomId: string): Promise<Assignment[]> {
+    return Array.from(this.assignments.values()).filter(
+      (assignment) => assignment.classroomId === classroomId
+    );
+  }
+
+  async deleteAssignment(id: string): Promise<void> {
+    this.assignments.delete(id);
+  }
+
+  // Submission methods implementation
+  async createSubmission(submissionData: InsertSubmission): Promise<Submission> {
+    const submission: Submission = {
+      id: randomUUID(),
+      ...submissionData,
+      submittedAt: new Date(),
+    };
+    this.submissions.set(submission.id, submission);
+    return submission;
+  }
+
+  async listSubmissions(userId: string, lessonId?: string): Promise<Submission[]> {
+    return Array.from(this.submissions.values()).filter(
+      (submission) =>
+        submission.userId === userId && (lessonId === undefined || submission.lessonId === lessonId)
+    );
+  }
+
+  async listStepSubmissions(lessonId: string, stepId: string): Promise<Submission[]> {
+    return Array.from(this.submissions.values()).filter(
+      (submission) => submission.lessonId === lessonId && submission.stepId === stepId
+    );
+  }
+}
+
+/** Everything a FileStorage keeps, as its JSON file holds it */
+interface StorageFile {
+  version: number;
+  users: User[];
+  lessons: Lesson[];
+  userProgress: UserProgress[];
+  projects: Project[];
+  classrooms: Classroom[];
+  assignments: Assignment[];
+  submissions: Submission[];
+}
+
+/** One change to the storage file's layout: turns a file at `version - 1` into one at `version` */
+export interface StorageMigration {
+  version: number;
+  description: string;
+  migrate: (data: Record<string, any>) => Record<string, any>;
+}
+
+/**
+ * Every layout change, oldest first. Add a migration here, with the next version number,
+ * whenever what FileStorage writes changes shape; files on disk are upgraded when loaded.
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'A list for each collection, with the format version alongside',
+    migrate: (data) => ({ users: [], lessons: [], userProgress: [], projects: [], ...data }),
+  },
+  {
+    version: 2,
+    description: 'Classroom mode: users are students unless made teachers, plus its collections',
+    migrate: (data) => ({
+      classrooms: [],
+      assignments: [],
+      submissions: [],
+      ...data,
+      users: data.users.map((user: User) => ({ role: 'student', ...user })),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Submissions keep the grade result, the rules broken and the hints viewed',
+    migrate: (data) => ({
+      ...data,
+      submissions: data.submissions.map(
+        (submission: Omit<Submission, 'result' | 'failedRules' | 'hintsViewed'>) => ({
+          result: { passed: submission.passed, feedback: '' },
+          failedRules: [],
+          hintsViewed: 0,
+          ...submission,
+        })
+      ),
+    }),
+  },
+];
+
+/**
+ * MemStorage that survives restarts: its collections are loaded from a JSON file and written
+ * back after every change. Writes go to a temporary file that replaces the real one, so a
+ * crash mid-write leaves the last complete copy. The curriculum comes from the code, so
+ * lessons in the file never replace the built-in ones.
+ */
+export class FileStorage extends MemStorage {
+  private writing: Promise<void> = Promise.resolve();
+  // The format this server writes: the newest migration's
+  private readonly version: number;
+
+  constructor(
+    private readonly path: string,
+    migrations: StorageMigration[] = STORAGE_MIGRATIONS
+  ) {
+    super();
+    const latest = migrations.at(-1)?.version ?? 0;
+    this.version = latest;
+    const stored = existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : { version: 0 };
+    const version: number = stored.version ?? 0;
+    if (version > latest) {
+      throw new Error(
+        `${path} is in storage format ${version}, newer than this server's ${latest}; upgrade the server`
+      );
+    }
+
+    let data = stored;
+    for (const migration of migrations) {
+      if (migration.version > version) {
+        data = { ...migration.migrate(data), version: migration.version };
+      }
+    }
+    this.restore(data as StorageFile);
+    if (version < latest) this.writeNow();
+  }
+
+  private restore(data: StorageFile) {
+    // JSON has no dates, so they come back as strings
+    for (const user of data.users) {
+      const { profile } = user;
+      this.users.set(
+        user.id,
+        profile
+          ? {
+              ...user,
+              profile: {
+                ...profile,
+                firstVisitAt: new Date(profile.firstVisitAt),
+                lastVisitAt: new Date(profile.lastVisitAt),
+              },
+            }
+          : user
+      );
+    }
+    for (const lesson of data.lessons) {
+      if (!this.lessons.has(lesson.id)) this.lessons.set(lesson.id, lesson);
+    }
+    for (const progress of data.userProgress) this.userProgress.set(progress.id, progress);
+    for (const project of data.projects) {
+      this.projects.set(project.id, {
+        ...project,
+        createdAt: new Date(project.createdAt),
+        publishedAt: project.publishedAt ? new Date(project.publishedAt) : undefined,
+      });
+    }
+    for (const classroom of data.classrooms) {
+      this.classrooms.set(classroom.id, { ...classroom, createdAt: new Date(classroom.createdAt) });
+    }
+    for (const assignment of data.assignments) {
+      this.assignments.set(assignment.id, {
+        ...assignment,
+        createdAt: new Date(assignment.createdAt),
+        dueAt: assignment.dueAt ? new Date(assignment.dueAt) : undefined,
+      });
+    }
+    for (const submission of data.submissions) {
+      this.submissions.set(submission.id, {
+        ...submission,
+        submittedAt: new Date(submission.submittedAt),
+      });
+    }
+  }
+
+  private serialize(): string {
+    const data: StorageFile = {
+      version: this.version,
+      users: Array.from(this.users.values()),
+      lessons: Array.from(this.lessons.values()),
+      userProgress: Array.from(this.userProgress.values()),
+      projects: Array.from(this.projects.values()),
+      classrooms: Array.from(this.classrooms.values()),
+      assignments: Array.from(this.assignments.values()),
+      submissions: Array.from(this.submissions.values()),
+    };
+    return JSON.stringify(data);
+  }
+
+  private get temporaryPath() {
+    return `${this.path}.${process.pid}.tmp`;
+  }
+
+  /** Write the file before the server starts taking requests, e.g. after a migration */
+  private writeNow() {
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.temporaryPath, this.serialize());
+    renameSync(this.temporaryPath, this.path);
+  }
+
+  private async write() {
+    await mkdir(dirname(this.path), { recursive: true });
+    const file = await open(this.temporaryPath, 'w');
+    try {
+      await file.writeFile(this.serialize());
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+    await rename(this.temporaryPath, this.path);
+  }
+
+  /** Save the current state once the write before it has finished; one write at a time */
+  private persist(): Promise<void> {
+    const next = this.writing.then(() => this.write());
+    // A failed write is reported to its caller; the next one still goes ahead
+    this.writing = next.catch(() => {});
+    return next;
+  }
+
+  /** Wait for every write so far to reach the disk */
+  flush(): Promise<void> {
+    return this.writing;
+  }
+
+  private async saved<T>(result: Promise<T>): Promise<T> {
+    const value = await result;
+    await this.persist();
+    return value;
+  }
+
+  createUser(user: InsertUser): Promise<User> {
+    return this.saved(super.createUser(user));
+  }
+
+  updateUser(id: string, updates: Partial<InsertUser>): Promise<User> {
+    return this.saved(super.updateUser(id, updates));
+  }
+
+  createLesson(lesson: InsertLesson): Promise<Lesson> {
+    return this.saved(super.createLesson(lesson));
+  }
+
+  updateUserProgress(
+    userId: string,
+    lessonId: string,
+    progress: Partial<UserProgress>
+  ): Promise<UserProgress> {
+    return this.saved(super.updateUserProgress(userId, lessonId, progress));
+  }
+
+  createProject(project: InsertProject): Promise<Project> {
+    return this.saved(super.createProject(project));
+  }
+
+  updateProject(id: string, updates: Partial<Project>): Promise<Project> {
+    return this.saved(super.updateProject(id, updates));
+  }
+
+  deleteProject(id: string): Promise<void> {
+    return this.saved(super.deleteProject(id));
+  }
+
+  publishProject(id: string): Promise<Project> {
+    return this.saved(super.publishProject(id));
+  }
+
+  unpublishProject(id: string): Promise<Project> {
+    return this.saved(super.unpublishProject(id));
+  }
+
+  createClassroom(classroom: InsertClassroom): Promise<Classroom> {
+    return this.saved(super.createClassroom(classroom));
+  }
+
+  addStudent(classroomId: string, userId: string): Promise<Classroom> {
+    return this.saved(super.addStudent(classroomId, userId));
+  }
+
+  createAssignment(assignment: InsertAssignment): Promise<Assignment> {
+    return this.saved(super.createAssignment(assignment));
+  }
+
+  deleteAssignment(id: string): Promise<void> {
+    return this.saved(super.deleteAssignment(id));
+  }
+
+  createSubmission(submission: InsertSubmission): Promise<Submission> {
+    return this.saved(super.createSubmission(submission));
+  }
+}
+
+export const DEFAULT_STORAGE_FILE = 'data/storage.json';
+
+/**
+ * The storage STORAGE_BACKEND asks for: `memory` (the default), which starts empty on every
+ * run, or `file`, kept in STORAGE_FILE
+ */
+export function createStorage(env: NodeJS.ProcessEnv = process.env): IStorage {
+  const backend = env.STORAGE_BACKEND || 'memory';
+  switch (backend) {
+    case 'memory':
+      return new MemStorage();
+    case 'file':
+      return new FileStorage(env.STORAGE_FILE || DEFAULT_STORAGE_FILE);
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND '${backend}'; use 'memory' or 'file'`);
+  }
 }
 
 // Export a singleton storage instance
-export const storage = new MemStorage();
+export const storage = createStorage();
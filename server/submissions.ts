@@ -0,0 +1,147 @@
+/**
+ * Submission history. Every grading run on the client is recorded with its code, grade result,
+ * time taken and hints viewed; learners (and their teachers) can list the attempts at a step,
+ * and teachers can see per-step stats that show where lessons confuse people.
+ */
+
+import type { StepStats, Submission } from '@shared/schema';
+import type { Express } from 'express';
+import { z } from 'zod';
+import { requireUser } from './auth';
+import { requireTeacher, teachesStudent } from './classrooms';
+import type { IStorage } from './storage';
+
+const submissionSchema = z.object({
+  lessonId: z.string().min(1),
+  stepId: z.string().min(1),
+  code: z.string().max(100_000),
+  result: z.object({ passed: z.boolean(), feedback: z.string() }).passthrough(),
+  failedRules: z.array(z.string()).default([]),
+  hintsViewed: z.number().int().nonnegative().default(0),
+  durationMs: z.number().int().nonnegative(),
+});
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/** Aggregate one step's submissions, given oldest first */
+export function stepStats(stepId: string, submissions: Submission[]): StepStats {
+  // Each learner's attempts up to and including their first pass
+  const attemptsByLearner = new Map<string, { attempts: number; passed: boolean }>();
+  const ruleCounts = new Map<string, number>();
+
+  for (const submission of submissions) {
+    const learner = attemptsByLearner.get(submission.userId) ?? { attempts: 0, passed: false };
+    if (!learner.passed) {
+      learner.attempts++;
+      learner.passed = submission.passed;
+    }
+    attemptsByLearner.set(submission.userId, learner);
+
+    for (const rule of submission.failedRules) {
+      ruleCounts.set(rule, (ruleCounts.get(rule) ?? 0) + 1);
+    }
+  }
+
+  const passed = submissions.filter((submission) => submission.passed).length;
+  const failingRules = Array.from(ruleCounts, ([rule, count]) => ({ rule, count })).sort(
+    (a, b) => b.count - a.count || a.rule.localeCompare(b.rule)
+  );
+  return {
+    stepId,
+    learners: attemptsByLearner.size,
+    submissions: submissions.length,
+    passRate: submissions.length > 0 ? passed / submissions.length : null,
+    medianAttempts: median(Array.from(attemptsByLearner.values(), (learner) => learner.attempts)),
+    mostCommonFailingRule: failingRules[0]?.rule ?? null,
+    failingRules,
+  };
+}
+
+export function registerSubmissionRoutes(app: Express, storage: IStorage): void {
+  // Record an attempt at a lesson step
+  app.post('/api/submissions', requireUser, async (req, res) => {
+    try {
+      const data = submissionSchema.parse(req.body);
+      // Only steps the curriculum has, so stats aren't cluttered with made-up ones
+      const lesson = await storage.getLesson(data.lessonId);
+      if (!lesson) {
+        return res.status(400).json({ message: 'Lesson not found' });
+      }
+      if (!lesson.content.steps.some((step) => step.id === data.stepId)) {
+        return res.status(400).json({ message: 'Step not found' });
+      }
+      const submission = await storage.createSubmission({
+        ...data,
+        passed: data.result.passed,
+        userId: req.user!.id,
+      });
+      res.status(201).json(submission);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid submission', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to save submission' });
+    }
+  });
+
+  // A learner's attempts at a step, oldest first: their own, or a teacher's student's with ?userId=
+  app.get('/api/lessons/:lessonId/steps/:stepId/submissions', requireUser, async (req, res) => {
+    try {
+      const { lessonId, stepId } = req.params;
+      const me = req.user!.id;
+      const userId = typeof req.query.userId === 'string' ? req.query.userId : me;
+
+      if (userId !== me && !(await teachesStudent(storage, me, userId))) {
+        return res.status(403).json({ message: "You can only see your own students' attempts" });
+      }
+
+      const submissions = await storage.listSubmissions(userId, lessonId);
+      res.json(submissions.filter((submission) => submission.stepId === stepId));
+    } catch {
+      res.status(500).json({ message: 'Failed to fetch submissions' });
+    }
+  });
+
+  // How everyone fares on each step of a lesson
+  app.get('/api/lessons/:lessonId/stats', requireUser, requireTeacher, async (req, res) => {
+    try {
+      const lesson = await storage.getLesson(req.params.lessonId);
+      if (!lesson) {
+        return res.status(404).json({ message: 'Lesson not found' });
+      }
+
+      const stats: StepStats[] = [];
+      for (const step of lesson.content.steps) {
+        stats.push(stepStats(step.id, await storage.listStepSubmissions(lesson.id, step.id)));
+      }
+      res.json(stats);
+    } catch {
+      res.status(500).json({ message: 'Failed to fetch lesson stats' });
+    }
+  });
+
+  // How everyone fares on one step
+  app.get(
+    '/api/lessons/:lessonId/steps/:stepId/stats',
+    requireUser,
+    requireTeacher,
+    async (req, res) => {
+      try {
+        const { lessonId, stepId } = req.params;
+        const lesson = await storage.getLesson(lessonId);
+        if (!lesson?.content.steps.some((step) => step.id === stepId)) {
+          return res.status(404).json({ message: 'Step not found' });
+        }
+
+        res.json(stepStats(stepId, await storage.listStepSubmissions(lessonId, stepId)));
+      } catch {
+        res.status(500).json({ message: 'Failed to fetch step stats' });
+      }
+    }
+  );
+}
@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import type { UserProfile, UserProgress } from './schema';
+
+// Claiming local data - what a learner built up signed out (progress, projects and profile in
+// localStorage) moves into their account the first time they sign in, merged with what the
+// account already has
+
+export const claimedProgressSchema = z.object({
+  lessonId: z.string().min(1),
+  currentStep: z.number().int().nonnegative(),
+  completed: z.boolean(),
+  code: z.string().optional(),
+});
+
+export const claimedProjectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  template: z.string(),
+  description: z.string().optional(),
+  published: z.boolean().optional(),
+  thumbnailDataUrl: z.string().optional(),
+  files: z.array(z.object({ path: z.string(), content: z.string() })),
+  assets: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        type: z.enum(['image', 'sound', 'other']),
+        path: z.string(),
+        dataUrl: z.string(),
+      })
+    )
+    .default([]),
+});
+
+export const claimedProfileSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  firstVisitAt: z.coerce.date(),
+  lastVisitAt: z.coerce.date(),
+  skillLevel: z.enum(['beginner', 'learning', 'confident', 'pro']),
+  interests: z.array(z.string()),
+  preferredGenres: z.array(z.string()),
+  currentProject: z.string().optional(),
+  completedLessons: z.array(z.string()),
+  mascotName: z.string(),
+  onboardingComplete: z.boolean(),
+});
+
+export const claimRequestSchema = z.object({
+  progress: z.array(claimedProgressSchema).default([]),
+  projects: z.array(claimedProjectSchema).default([]),
+  profile: claimedProfileSchema.nullish(),
+});
+
+export type ClaimedProgress = z.infer<typeof claimedProgressSchema>;
+/** What the client sends */
+export type ClaimRequest = z.input<typeof claimRequestSchema>;
+/** The same, once the server has parsed it */
+export type Claim = z.output<typeof claimRequestSchema>;
+
+export interface ClaimResult {
+  /** The account's progress for every lesson the claim touched, after merging */
+  progress: UserProgress[];
+  /** Local project ids and the ids their copies have in the account */
+  projectIds: Record<string, string>;
+  profile: UserProfile | null;
+  /** Lessons both sides had progress for, settled by mergeLessonProgress */
+  conflicts: string[];
+}
+
+/**
+ * Settle one lesson both sides have progress for: a completed lesson stays completed and the
+ * furthest step is kept. The code is from whichever side is further along, unless it has none.
+ */
+export function mergeLessonProgress<T extends ClaimedProgress>(
+  account: T,
+  local: ClaimedProgress
+): T {
+  const localAhead =
+    local.completed !== account.completed
+      ? local.completed
+      : local.currentStep > account.currentStep;
+  const [ahead, behind] = localAhead ? [local, account] : [account, local];
+  return {
+    ...account,
+    currentStep: Math.max(account.currentStep, local.currentStep),
+    completed: account.completed || local.completed,
+    code: ahead.code ?? behind.code,
+  };
+}
+
+const union = (a: string[], b: string[]) => Array.from(new Set([...a, ...b]));
+
+/**
+ * One profile from the account's and the local one. The account's choices (name, skill level,
+ * mascot) win; lists are combined and the visit dates span both.
+ */
+export function mergeProfiles(
+  account: UserProfile | null | undefined,
+  local: UserProfile | null | undefined
+): UserProfile | null {
+  if (!account || !local) return account ?? local ?? null;
+  const time = (date: Date | string) => new Date(date).getTime();
+  return {
+    ...local,
+    ...account,
+    firstVisitAt:
+      time(local.firstVisitAt) < time(account.firstVisitAt)
+        ? local.firstVisitAt
+        : account.firstVisitAt,
+    lastVisitAt:
+      time(local.lastVisitAt) > time(account.lastVisitAt) ? local.lastVisitAt : account.lastVisitAt,
+    interests: union(account.interests, local.interests),
+    preferredGenres: union(account.preferredGenres, local.preferredGenres),
+    completedLessons: union(account.completedLessons, local.completedLessons),
+    currentProject: account.currentProject ?? local.currentProject,
+    onboardingComplete: account.onboardingComplete || local.onboardingComplete,
+  };
+}
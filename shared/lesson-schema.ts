@@ -0,0 +1,260 @@
+import { z } from 'zod';
+
+// Lesson content schema - the single definition of what a lesson looks like, shared by the
+// server curriculum, the static lessons.json used in static mode, and the client grader
+
+export const AST_CONSTRUCT_TYPES = [
+  'variable_declaration',
+  'variable_assignment',
+  'function_call',
+  'method_call',
+  'new_expression',
+  'interface_declaration',
+  'class_declaration',
+  'function_declaration',
+  'arrow_function',
+  'parameter',
+  'return_statement',
+  'constructor',
+  'method_definition',
+  'extends_clause',
+  'object_literal',
+  'array_expression',
+  'if_statement',
+  'for_statement',
+  'loop',
+  'type_annotation',
+  'template_literal',
+  'f_string',
+  'string_literal',
+  'import',
+] as const;
+
+const countSchema = z.number().int().nonnegative();
+
+export const astConstructRuleSchema = z
+  .object({
+    type: z.enum(AST_CONSTRUCT_TYPES),
+    name: z.string().min(1).optional(),
+    minCount: countSchema.optional(),
+    maxCount: countSchema.optional(),
+  })
+  .strict()
+  .refine(
+    (rule) =>
+      rule.minCount === undefined || rule.maxCount === undefined || rule.minCount <= rule.maxCount,
+    {
+      message: 'minCount must not be greater than maxCount',
+      path: ['maxCount'],
+    }
+  );
+
+export const astRuleSetSchema = z
+  .object({
+    /** Functions the code must call at least once */
+    requiredFunctions: z.array(z.string().min(1)).optional(),
+    requiredConstructs: z.array(astConstructRuleSchema).optional(),
+    forbiddenConstructs: z.array(astConstructRuleSchema).optional(),
+  })
+  .strict();
+
+export const stateCheckSchema = z
+  .object({
+    /** Dotted path into the program's top-level variables, e.g. `player.x` or `gems.length` */
+    path: z
+      .string()
+      .regex(/^[A-Za-z_$][\w$]*(\.[\w$]+)*$/, 'Use a dotted path like player.x or gems.length'),
+    equals: z.union([z.string(), z.number(), z.boolean(), z.null()]).optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+  })
+  .strict()
+  .refine(
+    (check) => check.equals !== undefined || check.min !== undefined || check.max !== undefined,
+    { message: 'State checks need equals, min or max', path: ['path'] }
+  );
+
+export const runtimeRuleSetSchema = z
+  .object({
+    outputContains: z.array(z.string()).optional(),
+    outputMatches: z
+      .string()
+      .refine(
+        (pattern) => {
+          try {
+            new RegExp(pattern);
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        { message: 'Not a valid regular expression' }
+      )
+      .optional(),
+    variableExists: z.array(z.string().min(1)).optional(),
+    functionCalled: z.array(z.string().min(1)).optional(),
+    acceptsUserInput: z.boolean().optional(),
+    outputIncludesInput: z.boolean().optional(),
+    /** Program state to assert on; for game tests it is read after the simulation */
+    stateChecks: z.array(stateCheckSchema).optional(),
+    /** A SceneManager must have switched to this scene */
+    sceneReached: z.string().min(1).optional(),
+    /** At least one collidesWith() check must have come back true */
+    collisionDetected: z.boolean().optional(),
+  })
+  .strict();
+
+/** Longest headless simulation a test may ask for: one minute of game time at 60 fps */
+export const MAX_SIMULATION_FRAMES = 3600;
+
+export const simulationInputSchema = z
+  .object({
+    /** Key name as in KeyboardEvent.key; `Space` may be written for ' ' */
+    key: z.string().min(1),
+    /** Frame the key goes down on, counting from 0 */
+    frame: countSchema,
+    /** Frames the key stays down for; 1 (the default) is a single press */
+    hold: z.number().int().positive().optional(),
+  })
+  .strict();
+
+/**
+ * Runs the program's Strata games without a screen for a fixed number of frames, pressing
+ * keys on a script, so runtime rules can check where everything ended up.
+ */
+export const simulationSchema = z
+  .object({
+    frames: z.number().int().positive().max(MAX_SIMULATION_FRAMES),
+    /** Seconds per frame; defaults to 1/60 */
+    dt: z.number().positive().max(1).optional(),
+    /** Seed for Math.random so random placement is the same on every run */
+    seed: z.number().int().optional(),
+    inputs: z.array(simulationInputSchema).optional(),
+  })
+  .strict()
+  .superRefine((simulation, ctx) => {
+    simulation.inputs?.forEach((input, index) => {
+      if (input.frame >= simulation.frames) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Input starts on frame ${input.frame} but the simulation only runs ${simulation.frames} frames`,
+          path: ['inputs', index, 'frame'],
+        });
+      }
+    });
+  });
+
+export const lessonTestSchema = z
+  .object({
+    input: z.string().optional(),
+    expectedOutput: z.string(),
+    description: z.string().optional(),
+    /** Graded like any other test, but its input and expected output are never shown */
+    hidden: z.boolean().optional(),
+    mode: z.enum(['output', 'rules']).optional(),
+    astRules: astRuleSetSchema.optional(),
+    runtimeRules: runtimeRuleSetSchema.optional(),
+    simulation: simulationSchema.optional(),
+  })
+  .strict()
+  .refine((test) => test.mode !== 'rules' || test.astRules || test.runtimeRules, {
+    message: 'Rule-based tests need astRules or runtimeRules',
+    path: ['mode'],
+  });
+
+export const lessonStepSchema = z
+  .object({
+    id: z.string().min(1),
+    title: z.string(),
+    description: z.string(),
+    initialCode: z.string(),
+    solution: z.string(),
+    hints: z.array(z.string()),
+    tests: z.array(lessonTestSchema).optional(),
+    validation: z
+      .object({
+        type: z.enum(['output', 'variable', 'function', 'exact']),
+        expected: z.any().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export const lessonSchema = z
+  .object({
+    id: z.string().min(1),
+    title: z.string(),
+    description: z.string(),
+    order: z.number(),
+    intro: z.string().optional(),
+    learningObjectives: z.array(z.string()).optional(),
+    goalDescription: z.string().optional(),
+    previewCode: z.string().optional(),
+    content: z
+      .object({
+        introduction: z.string(),
+        steps: z.array(lessonStepSchema),
+      })
+      .strict(),
+    prerequisites: z.array(z.string()).optional(),
+    difficulty: z.string().optional(),
+    estimatedTime: z.number().optional(),
+  })
+  .strict();
+
+export const lessonListSchema = z.array(lessonSchema).superRefine((lessons, ctx) => {
+  const seen = new Set<string>();
+  lessons.forEach((lesson, index) => {
+    if (seen.has(lesson.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Duplicate lesson id "${lesson.id}"`,
+        path: [index, 'id'],
+      });
+    }
+    seen.add(lesson.id);
+  });
+});
+
+export type AstConstructType = (typeof AST_CONSTRUCT_TYPES)[number];
+export type AstConstructRule = z.infer<typeof astConstructRuleSchema>;
+export type AstRuleSet = z.infer<typeof astRuleSetSchema>;
+export type StateCheck = z.infer<typeof stateCheckSchema>;
+export type RuntimeRuleSet = z.infer<typeof runtimeRuleSetSchema>;
+export type SimulationInput = z.infer<typeof simulationInputSchema>;
+export type Simulation = z.infer<typeof simulationSchema>;
+export type LessonTest = z.infer<typeof lessonTestSchema>;
+export type LessonStep = z.infer<typeof lessonStepSchema>;
+export type Lesson = z.infer<typeof lessonSchema>;
+
+/** Renders a zod path as `[2].content.steps[0].tests[1].astRules` */
+function formatPath(path: Array<string | number>): string {
+  return path.map((key) => (typeof key === 'number' ? `[${key}]` : `.${key}`)).join('');
+}
+
+export class LessonValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid lessons in ${source}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'LessonValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate raw lesson data, throwing a LessonValidationError that lists every problem
+ * with its exact location (e.g. `lessons[3].content.steps[1].tests[0].astRules.requiredConstructs[2].type`).
+ */
+export function parseLessons(data: unknown, source: string): Lesson[] {
+  const result = lessonListSchema.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+
+  const issues = result.error.issues.map(
+    (issue) => `lessons${formatPath(issue.path)}: ${issue.message}`
+  );
+  throw new LessonValidationError(source, issues);
+}
@@ -1,79 +1,33 @@
 // Simple TypeScript types for Pixel's PyGame Palace - no database dependencies!
 
+import type { Lesson } from './lesson-schema';
+
+export type UserRole = 'teacher' | 'student';
+
 export interface User {
   id: string;
   username: string;
+  /** Teachers run classrooms; everyone else is a student. Anonymous local users have none */
+  role?: UserRole;
+  /** scrypt hash of a server account's password; anonymous local users have none */
+  passwordHash?: string;
+  /** The onboarding profile, once claimed from the browser it was made in */
+  profile?: UserProfile;
 }
 
-export interface Lesson {
-  id: string;
-  title: string;
-  description: string;
-  order: number;
-  intro?: string;
-  learningObjectives?: string[];
-  goalDescription?: string;
-  previewCode?: string;
-  content: {
-    introduction: string;
-    steps: Array<{
-      id: string;
-      title: string;
-      description: string;
-      initialCode: string;
-      solution: string;
-      hints: string[];
-      tests?: Array<{
-        input?: string;
-        expectedOutput: string;
-        description?: string;
-        mode?: 'output' | 'rules';
-        astRules?: {
-          requiredFunctions?: string[];
-          requiredConstructs?: Array<{
-            type:
-              | 'variable_assignment'
-              | 'function_call'
-              | 'import'
-              | 'if_statement'
-              | 'loop'
-              | 'string_literal'
-              | 'f_string';
-            name?: string;
-            minCount?: number;
-            maxCount?: number;
-          }>;
-          forbiddenConstructs?: Array<{
-            type:
-              | 'variable_assignment'
-              | 'function_call'
-              | 'import'
-              | 'if_statement'
-              | 'loop'
-              | 'string_literal'
-              | 'f_string';
-            name?: string;
-          }>;
-        };
-        runtimeRules?: {
-          outputContains?: string[];
-          outputMatches?: string;
-          variableExists?: string[];
-          functionCalled?: string[];
-          acceptsUserInput?: boolean;
-          outputIncludesInput?: boolean;
-        };
-      }>;
-      validation?: {
-        type: 'output' | 'variable' | 'function' | 'exact';
-        expected?: any;
-      };
-    }>;
-  };
-  prerequisites?: string[];
-  difficulty?: string;
-  estimatedTime?: number;
-}
+// Lessons are validated at load time, so their types come from the zod schema
+export type {
+  AstConstructRule,
+  AstConstructType,
+  AstRuleSet,
+  Lesson,
+  LessonStep,
+  LessonTest,
+  RuntimeRuleSet,
+  Simulation,
+  SimulationInput,
+  StateCheck,
+} from './lesson-schema';
 
 export interface UserProgress {
   id: string;
@@ -110,11 +64,107 @@ export interface Project {
 export type ProjectAsset = Project['assets'][0];
 export type ProjectFile = Project['files'][0];
 
+// Classroom mode: a teacher's class, which students join with its code
+export interface Classroom {
+  id: string;
+  name: string;
+  teacherId: string;
+  /** Short code students type to join, unique among classrooms */
+  joinCode: string;
+  studentIds: string[];
+  createdAt: Date;
+}
+
+/** A lesson a teacher set their class */
+export interface Assignment {
+  id: string;
+  classroomId: string;
+  lessonId: string;
+  dueAt?: Date;
+  createdAt: Date;
+}
+
+/** What the grader said about a submission: the client's GradeResult, kept as it was sent */
+export interface SubmissionResult {
+  passed: boolean;
+  feedback: string;
+  [detail: string]: unknown;
+}
+
+/** One attempt at a lesson step, kept so teachers can see how a student got there */
+export interface Submission {
+  id: string;
+  userId: string;
+  lessonId: string;
+  stepId: string;
+  code: string;
+  passed: boolean;
+  result: SubmissionResult;
+  /** The rules the code broke, named so attempts by different learners can be counted together */
+  failedRules: string[];
+  /** Hints the learner had opened on the step by the time they submitted */
+  hintsViewed: number;
+  /** Time spent on the step since the previous attempt, or since the step was opened */
+  durationMs: number;
+  submittedAt: Date;
+}
+
+/** How learners fare on one lesson step, over everyone's submissions */
+export interface StepStats {
+  stepId: string;
+  learners: number;
+  submissions: number;
+  /** Share of submissions that passed, 0 to 1; null with no submissions */
+  passRate: number | null;
+  /** Median attempts a learner took to first pass, or has made so far if they haven't */
+  medianAttempts: number | null;
+  mostCommonFailingRule: string | null;
+  /** Every rule broken, most often first */
+  failingRules: Array<{ rule: string; count: number }>;
+}
+
+/** How one student is getting on with one step of an assigned lesson */
+export interface StepReport {
+  stepId: string;
+  title: string;
+  completed: boolean;
+  attempts: number;
+  /** Every attempt's durationMs added up */
+  timeOnStepMs: number;
+  latestCode?: string;
+  lastSubmittedAt?: Date;
+}
+
+export interface StudentReport {
+  userId: string;
+  username: string;
+  /** Where their lesson progress is, as in UserProgress */
+  currentStep: number;
+  completed: boolean;
+  steps: StepReport[];
+}
+
+export interface AssignmentReport {
+  assignment: Assignment;
+  lessonTitle: string;
+  students: StudentReport[];
+}
+
+/** What a teacher's dashboard shows for one classroom */
+export interface ClassroomDashboard {
+  classroom: Classroom;
+  students: Array<Pick<User, 'id' | 'username'>>;
+  assignments: AssignmentReport[];
+}
+
 // For backward compatibility, keeping these type aliases
 export type InsertUser = Omit<User, 'id'>;
 export type InsertLesson = Omit<Lesson, 'id'>;
 export type InsertUserProgress = Omit<UserProgress, 'id'>;
 export type InsertProject = Omit<Project, 'id' | 'createdAt' | 'publishedAt'>;
+export type InsertClassroom = Omit<Classroom, 'id' | 'joinCode' | 'studentIds' | 'createdAt'>;
+export type InsertAssignment = Omit<Assignment, 'id' | 'createdAt'>;
+export type InsertSubmission = Omit<Submission, 'id' | 'submittedAt'>;
 
 // Visual Game Builder Types
 export interface GameConfig {
@@ -1,3 +1,4 @@
+import { LessonValidationError, parseLessons } from '@shared/lesson-schema';
 import type {
   InsertLesson,
   InsertProject,
@@ -91,10 +92,12 @@ export class ClientStorage {
       const baseUrl = import.meta.env.BASE_URL || '/';
       const response = await fetch(`${baseUrl}api/static/lessons.json`);
       if (response.ok) {
-        const lessons = await response.json();
-        return lessons;
+        return parseLessons(await response.json(), 'api/static/lessons.json');
       }
     } catch (error) {
+      if (error instanceof LessonValidationError) {
+        console.error(error.message);
+      }
       console.warn('Failed to load lessons from static file, using fallback');
     }
 
@@ -220,6 +223,20 @@ export class ClientStorage {
     this.saveToLocalStorage(ClientStorage.STORAGE_KEYS.PROJECTS, projects);
   }
 
+  // Forget a user's progress and projects, e.g. once they've been claimed by an account
+  async removeUserData(userId: string): Promise<void> {
+    const progress = this.getFromLocalStorage<Record<string, UserProgress>>(
+      ClientStorage.STORAGE_KEYS.PROGRESS
+    );
+    const projects = this.getFromLocalStorage<Record<string, Project>>(
+      ClientStorage.STORAGE_KEYS.PROJECTS
+    );
+    const keep = <T extends { userId: string }>(records: Record<string, T>) =>
+      Object.fromEntries(Object.entries(records).filter(([, record]) => record.userId !== userId));
+    this.saveToLocalStorage(ClientStorage.STORAGE_KEYS.PROGRESS, keep(progress));
+    this.saveToLocalStorage(ClientStorage.STORAGE_KEYS.PROJECTS, keep(projects));
+  }
+
   // Gallery methods
   async listPublishedProjects(): Promise<Project[]> {
     const projects = this.getFromLocalStorage<Record<string, Project>>(
@@ -0,0 +1,144 @@
+// Unit tests for the shared lesson schema and the lesson sources validated against it
+
+import { LessonValidationError, parseLessons } from '@shared/lesson-schema';
+import { ClientStorage } from '@shared/storage-client';
+import { describe, expect, it, vi } from 'vitest';
+import lessonsJson from '../public/api/static/lessons.json';
+import { storage } from '../server/storage';
+
+function makeLesson(test: Record<string, unknown>) {
+  return {
+    id: 'typed-variables',
+    title: 'Typed Variables',
+    description: 'Annotations',
+    order: 1,
+    content: {
+      introduction: 'Types!',
+      steps: [
+        {
+          id: 'step-1',
+          title: 'Annotate',
+          description: 'Add a type',
+          initialCode: '',
+          solution: 'const hp: number = 10;',
+          hints: [],
+          tests: [test],
+        },
+      ],
+    },
+  };
+}
+
+function issuesFor(data: unknown): string[] {
+  try {
+    parseLessons(data, 'test data');
+  } catch (error) {
+    if (error instanceof LessonValidationError) return error.issues;
+    throw error;
+  }
+  return [];
+}
+
+describe('lesson sources', () => {
+  it('accepts the static lessons.json', () => {
+    expect(parseLessons(lessonsJson, 'lessons.json').length).toBeGreaterThan(0);
+  });
+
+  it('accepts the server curriculum', async () => {
+    expect((await storage.getLessons()).length).toBeGreaterThan(0);
+  });
+
+  it('falls back to embedded lessons when the static file is malformed', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => [makeLesson({ expectedOutput: 'x', astRules: { requiredFunction: [] } })],
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      const lessons = await new ClientStorage().getLessons();
+      expect(lessons[0].id).toBe('lesson-1');
+      expect(errorSpy.mock.calls[0][0]).toContain(
+        'lessons[0].content.steps[0].tests[0].astRules: Unrecognized key(s) in object'
+      );
+    } finally {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    }
+  });
+});
+
+describe('parseLessons', () => {
+  it('reports the exact path of an unknown construct type', () => {
+    const issues = issuesFor([
+      makeLesson({
+        mode: 'rules',
+        expectedOutput: 'x',
+        astRules: { requiredConstructs: [{ type: 'type_annotation' }, { type: 'while_loop' }] },
+      }),
+    ]);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatch(
+      /^lessons\[0\]\.content\.steps\[0\]\.tests\[0\]\.astRules\.requiredConstructs\[1\]\.type: /
+    );
+  });
+
+  it('rejects runtime rules in the old {rule, params} array form', () => {
+    const issues = issuesFor([
+      makeLesson({
+        mode: 'rules',
+        expectedOutput: 'x',
+        runtimeRules: [{ rule: 'contains_text', params: { text: 'hi' } }],
+      }),
+    ]);
+
+    expect(issues).toEqual([
+      'lessons[0].content.steps[0].tests[0].runtimeRules: Expected object, received array',
+    ]);
+  });
+
+  it('checks rule consistency', () => {
+    const issues = issuesFor([
+      makeLesson({
+        mode: 'rules',
+        expectedOutput: 'x',
+        astRules: { requiredConstructs: [{ type: 'loop', minCount: 3, maxCount: 1 }] },
+        runtimeRules: { outputMatches: '(' },
+      }),
+      makeLesson({ mode: 'rules', expectedOutput: 'x' }),
+    ]);
+
+    expect(issues).toEqual([
+      'lessons[0].content.steps[0].tests[0].astRules.requiredConstructs[0].maxCount: minCount must not be greater than maxCount',
+      'lessons[0].content.steps[0].tests[0].runtimeRules.outputMatches: Not a valid regular expression',
+      'lessons[1].content.steps[0].tests[0].mode: Rule-based tests need astRules or runtimeRules',
+      'lessons[1].id: Duplicate lesson id "typed-variables"',
+    ]);
+  });
+
+  it('checks game simulations and state checks', () => {
+    const issues = issuesFor([
+      makeLesson({
+        mode: 'rules',
+        expectedOutput: 'x',
+        runtimeRules: { stateChecks: [{ path: 'player.x', min: 400 }, { path: 'score' }] },
+        simulation: {
+          frames: 60,
+          seed: 7,
+          inputs: [
+            { key: 'ArrowRight', frame: 0, hold: 30 },
+            { key: 'Space', frame: 60 },
+          ],
+        },
+      }),
+    ]);
+
+    expect(issues).toEqual([
+      'lessons[0].content.steps[0].tests[0].runtimeRules.stateChecks[1].path: State checks need equals, min or max',
+      'lessons[0].content.steps[0].tests[0].simulation.inputs[1].frame: Input starts on frame 60 but the simulation only runs 60 frames',
+    ]);
+  });
+});